@@ -0,0 +1,17 @@
+-- Migration 0022: Add version column to order_card_states for optimistic concurrency
+-- Every write bumps the version; clients send the version they last saw (If-Match / expectedVersion)
+-- and receive a 409 with the current server state when someone else saved first
+
+ALTER TABLE order_card_states 
+ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+
+-- Writes now update rows in place (INSERT OR REPLACE used to delete and re-insert them),
+-- so only stamp updated_at when the statement did not set it explicitly
+DROP TRIGGER IF EXISTS update_order_card_states_timestamp;
+
+CREATE TRIGGER IF NOT EXISTS update_order_card_states_timestamp 
+    AFTER UPDATE ON order_card_states
+    WHEN NEW.updated_at = OLD.updated_at
+BEGIN
+    UPDATE order_card_states SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+END;
@@ -0,0 +1,36 @@
+-- Migration 0023: Append-only audit log of order card state changes
+-- One row per card per write (single PUT, bulk, reorder, reset-manual-sort) with the actor,
+-- the client type and JSON snapshots of the state before and after the change
+
+CREATE TABLE IF NOT EXISTS order_card_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    tenant_id TEXT NOT NULL,
+    card_id TEXT NOT NULL, -- shopify_order_id-line_item_id-quantity_index
+    delivery_date TEXT, -- Format: DD/MM/YYYY
+    action TEXT NOT NULL, -- 'update', 'bulk_update', 'reorder', 'reset_sort'
+    actor_id TEXT, -- User ID from the JWT, 'unknown' when unauthenticated
+    actor_name TEXT,
+    client_type TEXT, -- 'Desktop' or 'Mobile', inferred from User-Agent
+    before_state TEXT, -- JSON: { status, assignedTo, notes, sortOrder, deliveryDate } or NULL
+    after_state TEXT, -- JSON, NULL when the state row was deleted
+    version INTEGER, -- order_card_states.version after the change
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Indexes for the per-card timeline and per-day lookups
+CREATE INDEX IF NOT EXISTS idx_order_card_events_card ON order_card_events(tenant_id, card_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_order_card_events_date ON order_card_events(tenant_id, delivery_date);
+CREATE INDEX IF NOT EXISTS idx_order_card_events_actor ON order_card_events(tenant_id, actor_id);
+
+-- The log is append-only
+CREATE TRIGGER IF NOT EXISTS order_card_events_no_update
+    BEFORE UPDATE ON order_card_events
+BEGIN
+    SELECT RAISE(ABORT, 'order_card_events is append-only');
+END;
+
+CREATE TRIGGER IF NOT EXISTS order_card_events_no_delete
+    BEFORE DELETE ON order_card_events
+BEGIN
+    SELECT RAISE(ABORT, 'order_card_events is append-only');
+END;
@@ -0,0 +1,27 @@
+-- Migration 0024: Idempotent Shopify webhook handling and delivery metrics
+-- shopify_webhook_deliveries is keyed on X-Shopify-Webhook-Id so Shopify's retries are processed once;
+-- shopify_webhook_metrics counts accepted, duplicate, failed and rejected deliveries per store and topic
+
+CREATE TABLE IF NOT EXISTS shopify_webhook_deliveries (
+    webhook_id TEXT PRIMARY KEY, -- X-Shopify-Webhook-Id, stable across retries
+    tenant_id TEXT NOT NULL,
+    store_id TEXT NOT NULL,
+    topic TEXT, -- X-Shopify-Topic, e.g. 'orders/create'
+    status TEXT NOT NULL DEFAULT 'processing', -- 'processing', 'processed', 'failed'
+    attempts INTEGER NOT NULL DEFAULT 1,
+    error TEXT,
+    received_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    processed_at DATETIME
+);
+
+CREATE INDEX IF NOT EXISTS idx_shopify_webhook_deliveries_store ON shopify_webhook_deliveries(tenant_id, store_id, received_at);
+
+CREATE TABLE IF NOT EXISTS shopify_webhook_metrics (
+    tenant_id TEXT NOT NULL,
+    store_id TEXT NOT NULL,
+    topic TEXT NOT NULL,
+    outcome TEXT NOT NULL, -- 'accepted', 'duplicate', 'failed', 'rejected_missing_hmac', 'rejected_invalid_hmac', 'rejected_no_secret', 'rejected_unknown_store'
+    count INTEGER NOT NULL DEFAULT 0,
+    last_seen_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (tenant_id, store_id, topic, outcome)
+);
@@ -0,0 +1,20 @@
+-- Migration 0025: Reconcile orders from orders/updated, orders/cancelled, orders/fulfilled and orders/delete webhooks
+-- tenant_orders keeps Shopify's cancellation and fulfillment state; order_notifications is the inbox
+-- used to tell the assigned florist when Shopify moves, cancels or deletes an order they're working on
+
+ALTER TABLE tenant_orders ADD COLUMN cancelled_at TEXT;
+ALTER TABLE tenant_orders ADD COLUMN fulfillment_status TEXT; -- Shopify fulfillment_status: NULL, 'partial', 'fulfilled'
+
+CREATE TABLE IF NOT EXISTS order_notifications (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    tenant_id TEXT NOT NULL,
+    recipient TEXT NOT NULL, -- order_card_states.assigned_to (user name or email)
+    card_id TEXT,
+    shopify_order_id TEXT,
+    kind TEXT NOT NULL, -- 'rescheduled', 'cancelled', 'deleted'
+    message TEXT NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    read_at DATETIME
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_notifications_recipient ON order_notifications(tenant_id, recipient, read_at);
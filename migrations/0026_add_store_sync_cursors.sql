@@ -0,0 +1,22 @@
+-- Migration 0026: Incremental Shopify order sync
+-- store_sync_cursors keeps each store's position (Shopify updated_at of the last order synced) so the
+-- scheduled sync only asks Shopify for orders changed since the previous run. tenant_orders gains
+-- the order fields orders-by-date needs now that it reads from D1 instead of Shopify.
+
+CREATE TABLE IF NOT EXISTS store_sync_cursors (
+    store_id TEXT PRIMARY KEY,
+    tenant_id TEXT NOT NULL,
+    updated_at_cursor TEXT, -- ISO 8601 updated_at of the last order synced
+    last_run_at DATETIME,
+    last_status TEXT, -- 'running', 'ok', 'error'
+    last_error TEXT,
+    orders_synced INTEGER NOT NULL DEFAULT 0, -- Total across all runs
+    FOREIGN KEY (tenant_id) REFERENCES tenants(id)
+);
+
+ALTER TABLE tenant_orders ADD COLUMN order_name TEXT; -- Shopify order name, e.g. '#WF12345'
+ALTER TABLE tenant_orders ADD COLUMN tags TEXT;
+ALTER TABLE tenant_orders ADD COLUMN shopify_updated_at TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_tenant_orders_tenant_date ON tenant_orders(tenant_id, delivery_date);
+CREATE INDEX IF NOT EXISTS idx_tenant_orders_shopify_id ON tenant_orders(tenant_id, shopify_order_id);
@@ -0,0 +1,29 @@
+-- Migration 0027: Shopify Bulk Operations import jobs
+-- One row per historical import of a store's orders or products. The worker starts the bulk query,
+-- polls it from the cron trigger, then imports the JSONL result in batches, remembering how far it got.
+
+CREATE TABLE IF NOT EXISTS bulk_import_jobs (
+    id TEXT PRIMARY KEY,
+    tenant_id TEXT NOT NULL,
+    store_id TEXT NOT NULL,
+    kind TEXT NOT NULL, -- 'orders', 'products'
+    status TEXT NOT NULL DEFAULT 'pending', -- 'pending', 'running', 'importing', 'completed', 'failed', 'cancelled'
+    since TEXT, -- Optional YYYY-MM-DD lower bound passed to the bulk query
+    shopify_operation_id TEXT, -- gid://shopify/BulkOperation/...
+    result_url TEXT, -- JSONL file Shopify wrote (or a local fixture)
+    result_bytes INTEGER, -- Size of the result file, for progress
+    byte_offset INTEGER NOT NULL DEFAULT 0, -- Where the next batch starts reading
+    object_count INTEGER NOT NULL DEFAULT 0, -- Objects Shopify reported, including nested line items / variants
+    imported INTEGER NOT NULL DEFAULT 0,
+    skipped INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    lease_until DATETIME, -- Held while a step is running
+    created_by TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    completed_at DATETIME,
+    FOREIGN KEY (tenant_id) REFERENCES tenants(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bulk_import_jobs_tenant ON bulk_import_jobs(tenant_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_bulk_import_jobs_status ON bulk_import_jobs(status);
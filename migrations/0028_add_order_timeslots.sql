@@ -0,0 +1,6 @@
+-- Migration 0028: Per-store delivery rules
+-- Delivery dates and timeslots are now extracted by each store's delivery rules (store settings,
+-- deliveryRules) when orders arrive by webhook, sync or bulk import. The timeslot is kept on the
+-- order so the board no longer re-derives it from tags with the card field regex.
+
+ALTER TABLE tenant_orders ADD COLUMN timeslot TEXT; -- hh:mm-hh:mm, or the raw matched value
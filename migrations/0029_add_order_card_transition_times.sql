@@ -0,0 +1,29 @@
+-- Migration 0029: Card status transition timestamps
+-- order_card_states only kept the latest status, so prep time couldn't be measured. Each card now
+-- records when it entered assigned, in_progress and completed; moving a card back clears the later
+-- timestamps. Existing cards are backfilled from the order_card_events audit log where it has the
+-- transition, otherwise from the state row's own created_at / updated_at.
+
+ALTER TABLE order_card_states ADD COLUMN assigned_at DATETIME;
+ALTER TABLE order_card_states ADD COLUMN started_at DATETIME; -- Entered in_progress
+ALTER TABLE order_card_states ADD COLUMN completed_at DATETIME;
+
+UPDATE order_card_states
+SET assigned_at = COALESCE((
+    SELECT MAX(e.created_at) FROM order_card_events e
+    WHERE e.tenant_id = order_card_states.tenant_id AND e.card_id = order_card_states.card_id
+      AND json_extract(e.after_state, '$.status') = 'assigned'
+      AND COALESCE(json_extract(e.before_state, '$.status'), 'unassigned') != 'assigned'
+), created_at)
+WHERE status IN ('assigned', 'completed') AND assigned_to IS NOT NULL;
+
+UPDATE order_card_states
+SET completed_at = COALESCE((
+    SELECT MAX(e.created_at) FROM order_card_events e
+    WHERE e.tenant_id = order_card_states.tenant_id AND e.card_id = order_card_states.card_id
+      AND json_extract(e.after_state, '$.status') = 'completed'
+      AND COALESCE(json_extract(e.before_state, '$.status'), 'unassigned') != 'completed'
+), updated_at)
+WHERE status = 'completed';
+
+CREATE INDEX IF NOT EXISTS idx_order_card_states_completed ON order_card_states(tenant_id, completed_at);
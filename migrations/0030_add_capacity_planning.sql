@@ -0,0 +1,22 @@
+-- Migration 0030: Capacity planning
+-- saved_products.estimated_minutes holds a product's prep time (the florist.estimated_time metafield),
+-- which the workload forecast prefers over the tenant's per-difficulty defaults.
+-- florist_availability is the roster: hours each florist is working on a delivery date. Dates with
+-- no rows fall back to every florist working the tenant's default hours.
+
+ALTER TABLE saved_products ADD COLUMN estimated_minutes INTEGER;
+
+CREATE TABLE IF NOT EXISTS florist_availability (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  date TEXT NOT NULL, -- YYYY-MM-DD
+  hours REAL NOT NULL DEFAULT 0, -- 0 = off that day
+  created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+  updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (tenant_id) REFERENCES tenants(id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES tenant_users(id) ON DELETE CASCADE,
+  UNIQUE(tenant_id, user_id, date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_florist_availability_tenant_date ON florist_availability(tenant_id, date);
@@ -0,0 +1,7 @@
+-- Migration 0031: Florist skill levels and stores
+-- Used by auto-assignment: skill_level (1 = junior ... 4 = expert) is matched against the rank of a
+-- card's difficulty label, and store_ids (JSON array; NULL = every store) limits whose cards a
+-- florist is given.
+
+ALTER TABLE tenant_users ADD COLUMN skill_level INTEGER DEFAULT 2;
+ALTER TABLE tenant_users ADD COLUMN store_ids TEXT;
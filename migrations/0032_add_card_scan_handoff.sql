@@ -0,0 +1,12 @@
+-- Migration 0032: Card photos and delivery handoff
+-- Florists scan a printed card's QR code on their phone to open it, photograph the finished
+-- arrangement and pass it to the drivers. Photos now record the card they were taken for, and
+-- completed cards record when and by whom they were handed to delivery. Moving a card out of
+-- completed clears the handoff.
+
+ALTER TABLE florist_photo_uploads ADD COLUMN card_id TEXT;
+
+ALTER TABLE order_card_states ADD COLUMN handed_off_at DATETIME;
+ALTER TABLE order_card_states ADD COLUMN handed_off_by TEXT; -- Name of the user who handed it over
+
+CREATE INDEX IF NOT EXISTS idx_florist_photo_uploads_card ON florist_photo_uploads(tenant_id, card_id);
@@ -0,0 +1,24 @@
+-- Migration 0033: AI florist tokens and rate limits
+-- The customer-facing AI florist used to be reachable without credentials, spending whichever
+-- tenant's OpenAI key the request named. Storefronts now embed a signed token issued from the app;
+-- a row here lets it be listed and revoked. rate_limits holds fixed-window request counters
+-- (one row per key, e.g. a tenant's AI chat requests).
+
+CREATE TABLE IF NOT EXISTS ai_florist_tokens (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL,
+  label TEXT NOT NULL, -- Where it's used, e.g. the storefront domain
+  created_by TEXT, -- Name of the user who issued it
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  last_used_at DATETIME,
+  revoked_at DATETIME,
+  FOREIGN KEY (tenant_id) REFERENCES tenants(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_florist_tokens_tenant ON ai_florist_tokens(tenant_id, revoked_at);
+
+CREATE TABLE IF NOT EXISTS rate_limits (
+  key TEXT PRIMARY KEY,
+  window_start INTEGER NOT NULL, -- Unix seconds
+  count INTEGER NOT NULL DEFAULT 0
+);
@@ -0,0 +1,21 @@
+-- Migration 0034: User sessions
+-- Logins used to hand out a 24-hour JWT with nothing server-side to revoke. Each login now opens a
+-- session: access tokens last 15 minutes and carry the session id, and the refresh token that renews
+-- them is rotated on every use. Only the SHA-256 hash of the current refresh token is stored.
+
+CREATE TABLE IF NOT EXISTS user_sessions (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  refresh_token_hash TEXT NOT NULL,
+  user_agent TEXT,
+  ip_address TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  last_used_at DATETIME,
+  expires_at TEXT NOT NULL, -- ISO timestamp; pushed back by each refresh
+  revoked_at DATETIME,
+  revoked_reason TEXT, -- logout, logout_everywhere, refresh_token_reused, revoked_by_admin, user_deleted, account_removed
+  FOREIGN KEY (tenant_id) REFERENCES tenants(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user ON user_sessions(tenant_id, user_id, revoked_at);
@@ -0,0 +1,24 @@
+-- Migration 0035: Account tokens and email verification
+-- Admins used to type a password for every new user, and self-registered accounts were never checked.
+-- Users are now invited by email and choose their own password, can reset a forgotten one, and
+-- self-registered accounts confirm their address before signing in. Each emailed link carries a signed
+-- token naming a row here, so it works once and can be superseded.
+
+CREATE TABLE IF NOT EXISTS account_tokens (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  purpose TEXT NOT NULL, -- invite, password_reset, email_verification
+  expires_at TEXT NOT NULL, -- ISO timestamp
+  used_at DATETIME, -- Also set when a newer token for the same purpose replaces it
+  created_by TEXT, -- Name of the admin who sent an invite
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (tenant_id) REFERENCES tenants(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_account_tokens_user ON account_tokens(tenant_id, user_id, purpose, used_at);
+
+ALTER TABLE tenant_users ADD COLUMN email_verified_at TEXT;
+
+-- Accounts that already exist keep signing in as before
+UPDATE tenant_users SET email_verified_at = created_at WHERE email_verified_at IS NULL;
@@ -0,0 +1,21 @@
+-- Migration 0036: Login events and account lockout
+-- Password sign-in was unthrottled. Attempts are now rate limited per IP and per account (in
+-- rate_limits), five wrong passwords in a row lock the account for 15 minutes, and every attempt is
+-- recorded here for admins to review.
+
+CREATE TABLE IF NOT EXISTS login_events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  tenant_id TEXT, -- NULL when the tenant domain doesn't exist
+  user_id TEXT, -- NULL when no account has the email
+  email TEXT NOT NULL,
+  outcome TEXT NOT NULL, -- success, invalid_credentials, locked, rate_limited, email_not_verified
+  client_type TEXT NOT NULL, -- Desktop or Mobile, from the User-Agent
+  ip_address TEXT,
+  user_agent TEXT,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_login_events_user ON login_events(tenant_id, user_id, created_at);
+
+ALTER TABLE tenant_users ADD COLUMN failed_login_attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE tenant_users ADD COLUMN locked_until TEXT; -- ISO timestamp
@@ -0,0 +1,9 @@
+-- Migration 0037: Two-factor authentication
+-- Owners and admins can change store access tokens and API keys, so a password alone is a thin
+-- guard. Users can now add a TOTP authenticator app as a second sign-in step, with single-use
+-- recovery codes, and a tenant can require it for its owners and admins (settings.security).
+
+ALTER TABLE tenant_users ADD COLUMN totp_secret TEXT; -- Base32; set without totp_enabled_at while enrolment is unconfirmed
+ALTER TABLE tenant_users ADD COLUMN totp_enabled_at TEXT; -- ISO timestamp
+ALTER TABLE tenant_users ADD COLUMN totp_last_used_step INTEGER; -- So a code can't be used twice
+ALTER TABLE tenant_users ADD COLUMN totp_recovery_codes TEXT; -- JSON array of SHA-256 hashes of the unused codes
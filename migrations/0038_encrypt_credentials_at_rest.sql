@@ -0,0 +1,14 @@
+-- Migration 0038: Encrypt credentials at rest
+-- shopify_stores.access_token, shopify_stores.webhook_secret and tenants.settings.openaiApiKey are
+-- now stored encrypted with the SECRETS_KEY worker secret (enc:v1:... values, see src/lib/secrets.ts).
+-- SQL can't encrypt, so after applying this migration and setting SECRETS_KEY, encrypt the existing
+-- rows with `pnpm secrets:rotate` (POST /api/secrets/rotate). Until then plaintext values still work.
+--
+-- Registering webhooks and saving delivery rules used to write the whole store settings object back,
+-- leaving plaintext copies of the access token and webhook secret in shopify_stores.settings. The
+-- columns are the only copy read now, so remove them.
+
+UPDATE shopify_stores
+SET settings = json_remove(settings, '$.accessToken', '$.apiSecretKey')
+WHERE json_valid(settings)
+  AND (json_extract(settings, '$.accessToken') IS NOT NULL OR json_extract(settings, '$.apiSecretKey') IS NOT NULL);
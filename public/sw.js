@@ -0,0 +1,60 @@
+// Service worker keeping the app shell loadable when the workroom Wi-Fi drops.
+// Pages are network-first with the cached shell as the fallback; Vite's hashed /assets/ files never
+// change, so they're served from the cache once fetched. API calls are left alone - the board caches
+// its cards and queues card changes itself (src/services/cardOutbox.ts).
+
+const CACHE_NAME = 'order-todo-shell-v1'
+const SHELL_URL = '/'
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME).then((cache) => cache.add(SHELL_URL)).then(() => self.skipWaiting())
+  )
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((names) => Promise.all(names.filter((name) => name !== CACHE_NAME).map((name) => caches.delete(name))))
+      .then(() => self.clients.claim())
+  )
+})
+
+self.addEventListener('fetch', (event) => {
+  const request = event.request
+  const url = new URL(request.url)
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return
+
+  if (request.mode === 'navigate') {
+    // Every route is the SPA shell, so the latest copy stands in for any page while offline
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          if (response.ok) {
+            const copy = response.clone()
+            caches.open(CACHE_NAME).then((cache) => cache.put(SHELL_URL, copy))
+          }
+          return response
+        })
+        .catch(() => caches.match(SHELL_URL).then((cached) => cached || Response.error()))
+    )
+    return
+  }
+
+  if (url.pathname.startsWith('/assets/')) {
+    event.respondWith(
+      caches.match(request).then(
+        (cached) =>
+          cached ||
+          fetch(request).then((response) => {
+            if (response.ok) {
+              const copy = response.clone()
+              caches.open(CACHE_NAME).then((cache) => cache.put(request, copy))
+            }
+            return response
+          })
+      )
+    )
+  }
+})
@@ -0,0 +1,55 @@
+// Usage: AUTH_TOKEN=<maintenance token> node scripts/rotate-secrets.js [options]
+//
+// Re-encrypts the stored Shopify access tokens, webhook secrets, tenant OpenAI keys and two-factor
+// secrets with the worker's current SECRETS_KEY, through POST /api/secrets/rotate. Run it:
+//   - once after migration 0038, to encrypt credentials saved before encryption at rest, and again
+//     after deploying encrypted two-factor secrets, to encrypt those set up before;
+//   - when rotating the key: set the new key as SECRETS_KEY and the old one as SECRETS_KEY_PREVIOUS
+//     (wrangler secret put ...), deploy, run this, then remove SECRETS_KEY_PREVIOUS.
+// AUTH_TOKEN is the MAINTENANCE_TOKEN secret. Safe to run repeatedly.
+//
+// Generate a key with: node -e "console.log(require('crypto').randomBytes(32).toString('base64'))"
+//
+// Options:
+//   --url <baseUrl>       Worker base URL (default http://localhost:8787)
+const args = process.argv.slice(2);
+
+const readOption = (name, fallback) => {
+  const index = args.indexOf(name);
+  if (index === -1) return fallback;
+  const value = args[index + 1];
+  args.splice(index, 2);
+  return value;
+};
+
+const baseUrl = readOption('--url', 'http://localhost:8787');
+const authToken = process.env.AUTH_TOKEN || '';
+
+if (!authToken) {
+  console.error('Usage: AUTH_TOKEN=<maintenance token> node scripts/rotate-secrets.js [--url <baseUrl>]');
+  process.exit(1);
+}
+
+(async () => {
+  const url = `${baseUrl}/api/secrets/rotate`;
+  console.log(`POST ${url}`);
+
+  try {
+    const res = await fetch(url, { method: 'POST', headers: { Authorization: `Bearer ${authToken}` } });
+    const body = await res.json().catch(() => ({}));
+    if (!res.ok && body.failed === undefined) {
+      console.error(`  -> ${res.status} ${body.error || res.statusText}`);
+      process.exit(1);
+    }
+    console.log(`  stores updated:  ${body.storesUpdated}`);
+    console.log(`  tenants updated: ${body.tenantsUpdated}`);
+    console.log(`  users updated:   ${body.usersUpdated}`);
+    if (body.failed) {
+      console.error(`  ${body.failed} credential(s) could not be rotated - see the worker logs ([SECRETS])`);
+    }
+    process.exit(res.ok ? 0 : 1);
+  } catch (error) {
+    console.error('Request failed:', error.message);
+    process.exit(1);
+  }
+})();
@@ -0,0 +1,100 @@
+// Usage: AUTH_TOKEN=<token> node scripts/run-bulk-import-fixture.js <tenantId> <storeId> [orders|products] [options]
+//
+// Runs a bulk import end to end against `wrangler dev` without a Shopify bulk operation: serves
+// scripts/fixtures/bulk/<kind>.jsonl over HTTP (with Range support, like Shopify's result files),
+// creates the job with that file as its resultUrl and advances it until it finishes.
+//
+// Options:
+//   --url <baseUrl>       Worker base URL (default http://localhost:8787)
+//   --fixture <file>      JSONL file to import instead of the bundled fixture
+//   --port <port>         Port for the fixture server (default 8799)
+import { createServer } from 'node:http';
+import { readFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const scriptDir = dirname(fileURLToPath(import.meta.url));
+const args = process.argv.slice(2);
+
+const readOption = (name, fallback) => {
+  const index = args.indexOf(name);
+  if (index === -1) return fallback;
+  const value = args[index + 1];
+  args.splice(index, 2);
+  return value;
+};
+
+const baseUrl = readOption('--url', 'http://localhost:8787');
+const fixtureOption = readOption('--fixture');
+const port = Number(readOption('--port', '8799'));
+const [tenantId, storeId, kind = 'orders'] = args;
+const authToken = process.env.AUTH_TOKEN || '';
+
+if (!tenantId || !storeId || !authToken || !['orders', 'products'].includes(kind)) {
+  console.error('Usage: AUTH_TOKEN=<token> node scripts/run-bulk-import-fixture.js <tenantId> <storeId> [orders|products] [--url <baseUrl>] [--fixture <file>] [--port <port>]');
+  process.exit(1);
+}
+
+const fixture = fixtureOption
+  ? resolve(process.cwd(), fixtureOption)
+  : resolve(scriptDir, `fixtures/bulk/${kind}.jsonl`);
+const body = readFileSync(fixture);
+
+const server = createServer((req, res) => {
+  const range = /^bytes=(\d+)-$/.exec(req.headers.range || '');
+  if (!range) {
+    res.writeHead(200, { 'Content-Type': 'application/jsonl', 'Content-Length': body.length });
+    return res.end(body);
+  }
+  const start = Number(range[1]);
+  if (start >= body.length) {
+    res.writeHead(416, { 'Content-Range': `bytes */${body.length}` });
+    return res.end();
+  }
+  res.writeHead(206, {
+    'Content-Type': 'application/jsonl',
+    'Content-Length': body.length - start,
+    'Content-Range': `bytes ${start}-${body.length - 1}/${body.length}`,
+  });
+  res.end(body.subarray(start));
+});
+
+const api = async (path, init = {}) => {
+  const res = await fetch(`${baseUrl}${path}`, {
+    ...init,
+    headers: { Authorization: `Bearer ${authToken}`, 'Content-Type': 'application/json' },
+  });
+  const data = await res.json();
+  if (!res.ok) throw new Error(`${res.status} ${data.error || JSON.stringify(data)}`);
+  return data;
+};
+
+const printJob = (job) =>
+  console.log(`  ${job.status} progress=${job.progress ?? '-'}% imported=${job.imported} skipped=${job.skipped}${job.error ? ` error=${job.error}` : ''}`);
+
+server.listen(port, async () => {
+  try {
+    console.log(`Serving ${fixture} on http://localhost:${port}`);
+    let { job } = await api(`/api/tenants/${tenantId}/stores/${storeId}/bulk-imports`, {
+      method: 'POST',
+      body: JSON.stringify({ kind, resultUrl: `http://localhost:${port}/${kind}.jsonl` }),
+    });
+    console.log(`Created bulk import ${job.id}`);
+    printJob(job);
+
+    while (['pending', 'running', 'importing'].includes(job.status)) {
+      await new Promise((r) => setTimeout(r, 1000));
+      ({ job } = await api(`/api/tenants/${tenantId}/bulk-imports/${job.id}/advance`, { method: 'POST' }).catch(
+        // 409 once the create request's own step has finished the job
+        () => api(`/api/tenants/${tenantId}/bulk-imports/${job.id}`)
+      ));
+      printJob(job);
+    }
+    process.exitCode = job.status === 'completed' ? 0 : 1;
+  } catch (error) {
+    console.error('Bulk import failed:', error.message);
+    process.exitCode = 1;
+  } finally {
+    server.close();
+  }
+});
@@ -0,0 +1,80 @@
+// Usage: node scripts/send-signed-webhook.js <tenantId> <storeId> <webhookSecret> [fixture.json] [options]
+//
+// Signs a fixture payload the way Shopify does (base64 HMAC-SHA256 of the raw body with the
+// store's webhook secret) and posts it to the orders webhook, by default on `wrangler dev`.
+// Fixtures for every order topic live in scripts/fixtures/webhooks/orders-<topic>.json;
+// when no fixture is given the one matching --topic is used.
+//
+// Options:
+//   --url <baseUrl>       Worker base URL (default http://localhost:8787)
+//   --topic <topic>       X-Shopify-Topic header (default orders/create)
+//   --webhook-id <id>     X-Shopify-Webhook-Id header; reuse one to check duplicate handling
+//   --tamper              Modify the body after signing to check that the signature is rejected
+//   --unsigned            Send without X-Shopify-Hmac-Sha256
+import { createHmac, randomUUID } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const scriptDir = dirname(fileURLToPath(import.meta.url));
+const args = process.argv.slice(2);
+
+const readOption = (name, fallback) => {
+  const index = args.indexOf(name);
+  if (index === -1) return fallback;
+  const value = args[index + 1];
+  args.splice(index, 2);
+  return value;
+};
+const readFlag = (name) => {
+  const index = args.indexOf(name);
+  if (index === -1) return false;
+  args.splice(index, 1);
+  return true;
+};
+
+const baseUrl = readOption('--url', 'http://localhost:8787');
+const topic = readOption('--topic', 'orders/create');
+const webhookId = readOption('--webhook-id', randomUUID());
+const tamper = readFlag('--tamper');
+const unsigned = readFlag('--unsigned');
+
+const [tenantId, storeId, secret, fixturePath] = args;
+
+if (!tenantId || !storeId || !secret) {
+  console.error('Usage: node scripts/send-signed-webhook.js <tenantId> <storeId> <webhookSecret> [fixture.json] [--url <baseUrl>] [--topic <topic>] [--webhook-id <id>] [--tamper] [--unsigned]');
+  process.exit(1);
+}
+
+const fixture = fixturePath
+  ? resolve(process.cwd(), fixturePath)
+  : resolve(scriptDir, `fixtures/webhooks/${topic.replace('/', '-')}.json`);
+
+const body = readFileSync(fixture, 'utf8');
+const hmac = createHmac('sha256', secret).update(body, 'utf8').digest('base64');
+const sentBody = tamper ? JSON.stringify({ ...JSON.parse(body), total_price: '0.01' }) : body;
+
+const headers = {
+  'Content-Type': 'application/json',
+  'X-Shopify-Topic': topic,
+  'X-Shopify-Webhook-Id': webhookId,
+  'X-Shopify-Shop-Domain': 'fixture.myshopify.com',
+};
+if (!unsigned) {
+  headers['X-Shopify-Hmac-Sha256'] = hmac;
+}
+
+(async () => {
+  const url = `${baseUrl}/api/webhooks/shopify/orders/${tenantId}/${storeId}`;
+  console.log(`POST ${url}`);
+  console.log(`  topic=${topic} webhookId=${webhookId}${tamper ? ' (tampered)' : ''}${unsigned ? ' (unsigned)' : ''}`);
+
+  try {
+    const res = await fetch(url, { method: 'POST', headers, body: sentBody });
+    console.log(`  -> ${res.status} ${await res.text()}`);
+    process.exit(res.ok ? 0 : 1);
+  } catch (error) {
+    console.error('Request failed:', error.message);
+    process.exit(1);
+  }
+})();
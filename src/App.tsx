@@ -2,6 +2,9 @@ import React, { useState, useEffect } from "react"
 import { BrowserRouter as Router, Routes, Route, Navigate } from "react-router-dom"
 import { AuthProvider, useAuth } from "./contexts/AuthContext"
 import { Login } from "./components/Login"
+import { ForgotPassword } from "./components/ForgotPassword"
+import { SetPassword } from "./components/SetPassword"
+import { VerifyEmail } from "./components/VerifyEmail"
 import { Dashboard } from "./components/Dashboard"
 import { DashboardView } from "./components/DashboardView"
 
@@ -9,12 +12,14 @@ import { ProductManagement } from "./components/ProductManagement"
 import { Settings } from "./components/Settings"
 import { AIIntegration } from "./components/AIIntegration"
 import { Analytics } from "./components/Analytics"
+import { CapacityPlanner } from "./components/CapacityPlanner"
+import { ProductionSchedule } from "./components/ProductionSchedule"
 import { Orders } from "./components/Orders"
 import CustomerAIFlorist from "./components/CustomerAIFlorist"
 import AIFlorist from "./components/AIFlorist"
 import MobileCameraWidget from "./components/MobileCameraWidget"
 import { Toaster } from "./components/ui/sonner"
-import { ProductsManagementRoute } from "./components/ProtectedRoute"
+import { AdminOnlyRoute, ProductsManagementRoute } from "./components/ProtectedRoute"
 import "./index.css"
 import { getTenantSettings } from "./services/api"
 import { useIsMobile } from "./components/hooks/use-mobile"
@@ -65,6 +70,9 @@ function AppContent() {
       <Router>
         <Routes>
           <Route path="/login" element={<Login />} />
+          <Route path="/forgot-password" element={<ForgotPassword />} />
+          <Route path="/set-password" element={<SetPassword />} />
+          <Route path="/verify-email" element={<VerifyEmail />} />
           <Route path="/ai-florist" element={<CustomerAIFlorist />} />
           <Route path="/ai-florist-widget" element={<AIFlorist />} />
           <Route path="/" element={<ProtectedRoute><Dashboard /></ProtectedRoute>}>
@@ -73,6 +81,8 @@ function AppContent() {
             <Route path="orders" element={<Orders />} />
 
             <Route path="analytics" element={<Analytics />} />
+            <Route path="schedule" element={<ProductionSchedule />} />
+            <Route path="capacity" element={<AdminOnlyRoute><CapacityPlanner /></AdminOnlyRoute>} />
             <Route path="products" element={<ProductsManagementRoute><ProductManagement /></ProductsManagementRoute>} />
             <Route path="ai-integration" element={<AIIntegration />} />
             <Route path="settings/:tab?" element={<Settings />} />
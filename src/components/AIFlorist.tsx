@@ -67,8 +67,22 @@ type KnowledgeBase = {
   promptTemplates: any[];
 };
 
+// Storefronts embed the widget as /ai-florist-widget?token=<AI florist token>; signed-in staff use
+// their own session. Either token carries the tenant it's for.
+const getWidgetAccess = (): { token: string; tenantId: string } | null => {
+  const token = new URLSearchParams(window.location.search).get('token') || localStorage.getItem('auth_token');
+  if (!token) return null;
+  try {
+    const claims = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof claims.tenantId === 'string' ? { token, tenantId: claims.tenantId } : null;
+  } catch {
+    return null;
+  }
+};
+
 // Main component for the AI Florist Widget - v3 with Image Generation
 const AIFlorist = () => {
+  const [access] = useState(getWidgetAccess);
   const [messages, setMessages] = useState<Message[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isGeneratingImage, setIsGeneratingImage] = useState(false);
@@ -90,11 +104,14 @@ const AIFlorist = () => {
     setMessages([initialMessage]);
 
     const fetchKnowledgeBase = async () => {
+      if (!access) {
+        console.error("AI florist widget opened without an AI florist token or sign-in");
+        return;
+      }
       try {
-        // NOTE: The tenantId is hardcoded for now. In a real multi-tenant app,
-        // this would come from the URL or session.
-        const tenantId = "84caf0bf-b8a7-448f-9a33-8697cb8d6918";
-        const response = await fetch(`/api/tenants/${tenantId}/ai/knowledge-base`);
+        const response = await fetch(`/api/tenants/${access.tenantId}/ai/knowledge-base`, {
+          headers: { 'Authorization': `Bearer ${access.token}` },
+        });
         if (!response.ok) {
           throw new Error('Failed to fetch AI knowledge base');
         }
@@ -107,7 +124,7 @@ const AIFlorist = () => {
     };
 
     fetchKnowledgeBase();
-  }, []);
+  }, [access]);
 
   // Auto-scroll to the latest message
   useEffect(() => {
@@ -127,11 +144,10 @@ const AIFlorist = () => {
     try {
       const response = await fetch('/api/ai/chat', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${access?.token}` },
         body: JSON.stringify({
           messages: newMessages,
           knowledgeBase,
-          tenantId: "84caf0bf-b8a7-448f-9a33-8697cb8d6918",
         }),
       });
 
@@ -177,11 +193,10 @@ const AIFlorist = () => {
 
       const response = await fetch('/api/ai/generate-bouquet-image', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${access?.token}` },
         body: JSON.stringify({
           messages,
           knowledgeBase,
-          tenantId: "84caf0bf-b8a7-448f-9a33-8697cb8d6918",
           designSpecs: extractedSpecs,
         }),
       });
@@ -247,15 +262,13 @@ const AIFlorist = () => {
   };
 
   const handleRatingSubmit = async (rating: number, feedback: string) => {
-    if (!currentImage?.id) {
+    if (!currentImage?.id || !access) {
       toast.error("No image selected for rating.");
       return;
     }
-    
-    const tenantId = "84caf0bf-b8a7-448f-9a33-8697cb8d6918";
 
     try {
-      await updateAIGeneratedDesign(tenantId, currentImage.id, {
+      await updateAIGeneratedDesign(access.tenantId, currentImage.id, {
         rating,
         feedback,
       });
@@ -0,0 +1,151 @@
+import React, { useCallback, useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card"
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+import { Label } from "./ui/label"
+import { Alert, AlertDescription } from "./ui/alert"
+import { Copy, Key, Loader2, Plus, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+import { createAiFloristToken, getAiFloristTokens, revokeAiFloristToken } from "../services/api"
+import type { AiFloristToken } from "../types"
+
+interface AIFloristTokensProps {
+  tenantId: string
+}
+
+// Storefronts embed the AI florist widget with one of these tokens instead of a user login
+export const AIFloristTokens: React.FC<AIFloristTokensProps> = ({ tenantId }) => {
+  const [tokens, setTokens] = useState<AiFloristToken[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [label, setLabel] = useState("")
+  const [isCreating, setIsCreating] = useState(false)
+  const [newEmbedUrl, setNewEmbedUrl] = useState<string | null>(null)
+
+  const loadTokens = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      setTokens(await getAiFloristTokens(tenantId))
+    } catch (error) {
+      console.error("Failed to load AI florist tokens:", error)
+      toast.error("Failed to load storefront tokens")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [tenantId])
+
+  useEffect(() => {
+    loadTokens()
+  }, [loadTokens])
+
+  const handleCreate = async () => {
+    if (!label.trim()) return
+    setIsCreating(true)
+    try {
+      const { token, details } = await createAiFloristToken(tenantId, label.trim())
+      setTokens((prev) => [details, ...prev])
+      setNewEmbedUrl(`${window.location.origin}/ai-florist-widget?token=${encodeURIComponent(token)}`)
+      setLabel("")
+      toast.success("Storefront token created")
+    } catch (error) {
+      console.error("Failed to create AI florist token:", error)
+      toast.error("Failed to create storefront token")
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const handleRevoke = async (token: AiFloristToken) => {
+    if (!window.confirm(`Revoke the token for "${token.label}"? Widgets using it will stop working.`)) return
+    try {
+      await revokeAiFloristToken(tenantId, token.id)
+      setTokens((prev) => prev.filter((t) => t.id !== token.id))
+      toast.success("Storefront token revoked")
+    } catch (error) {
+      console.error("Failed to revoke AI florist token:", error)
+      toast.error("Failed to revoke storefront token")
+    }
+  }
+
+  const copyEmbedUrl = async () => {
+    if (!newEmbedUrl) return
+    await navigator.clipboard.writeText(newEmbedUrl)
+    toast.success("Embed URL copied")
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Key className="h-5 w-5" />
+          Storefront Access
+        </CardTitle>
+        <CardDescription>
+          Issue a token for each storefront that embeds the AI Florist widget. Requests made with it use this
+          shop's OpenAI key and are rate limited.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <Label htmlFor="ai-florist-token-label">Label</Label>
+          <div className="flex gap-2 mt-1">
+            <Input
+              id="ai-florist-token-label"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="e.g. shop.example.com"
+              className="flex-1"
+            />
+            <Button onClick={handleCreate} disabled={isCreating || !label.trim()}>
+              {isCreating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+              Create
+            </Button>
+          </div>
+        </div>
+
+        {newEmbedUrl && (
+          <Alert>
+            <AlertDescription className="space-y-2">
+              <p className="text-sm">Copy this embed URL now — the token isn't shown again.</p>
+              <div className="flex gap-2">
+                <Input readOnly value={newEmbedUrl} className="flex-1 font-mono text-xs" />
+                <Button variant="outline" size="sm" onClick={copyEmbedUrl}>
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading tokens...
+          </div>
+        ) : tokens.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No storefront tokens yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {tokens.map((token) => (
+              <div key={token.id} className="flex items-center justify-between p-3 border rounded-lg">
+                <div>
+                  <div className="font-medium">{token.label}</div>
+                  <div className="text-xs text-muted-foreground">
+                    Created {new Date(token.createdAt).toLocaleDateString()}
+                    {token.createdBy ? ` by ${token.createdBy}` : ""}
+                    {" · "}
+                    {token.lastUsedAt ? `last used ${new Date(token.lastUsedAt).toLocaleString()}` : "never used"}
+                  </div>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => handleRevoke(token)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default AIFloristTokens
@@ -55,6 +55,7 @@ import {
 import { toast } from "sonner"
 import AITrainingManager from './AITrainingManager'
 import PhotoUploadManager from './PhotoUploadManager'
+import AIFloristTokens from './AIFloristTokens'
 import {
   Accordion,
   AccordionContent,
@@ -200,11 +201,9 @@ export const AIIntegration: React.FC = () => {
     fetchData()
   }, [tenant])
 
+  // Keys used to be cached here in plaintext; the saved key now only lives (encrypted) on the server
   useEffect(() => {
-    const storedKey = localStorage.getItem('OPENAI_API_KEY')
-    if (storedKey) {
-      setApiKey(storedKey)
-    }
+    localStorage.removeItem('OPENAI_API_KEY')
   }, [])
 
   const fetchData = async () => {
@@ -219,11 +218,6 @@ export const AIIntegration: React.FC = () => {
         setCameraWidgetEnabled(settingsData.mobileCameraWidget.enabled)
       }
       
-      // Load API key from settings if available
-      if (settingsData?.openaiApiKey) {
-        setApiKey(settingsData.openaiApiKey)
-      }
-
       // Load camera widget settings robustly
       if (settingsData?.mobileCameraWidget) {
         setCameraWidgetEnabled(settingsData.mobileCameraWidget.enabled || false);
@@ -325,16 +319,15 @@ export const AIIntegration: React.FC = () => {
   const handleSaveApiKey = () => {
     if (!tenant?.id) return
 
-    localStorage.setItem("OPENAI_API_KEY", apiKey)
-
     const newSettings = {
       ...settings,
       openaiApiKey: apiKey,
     }
 
     updateTenantSettings(tenant.id, newSettings)
-      .then(() => {
-        setSettings(newSettings)
+      .then((response) => {
+        setSettings(response.settings)
+        setApiKey("")
         toast.success("API key saved successfully")
       })
       .catch((error) => {
@@ -345,10 +338,9 @@ export const AIIntegration: React.FC = () => {
 
   const removeApiKey = () => {
     setApiKey("")
-    localStorage.removeItem("OPENAI_API_KEY")
     if (tenant?.id) {
-      const newSettings = { ...settings }
-      delete newSettings.openaiApiKey
+      // An empty key removes the saved one; leaving it out would keep it
+      const newSettings = { ...settings, openaiApiKey: "" }
 
       updateTenantSettings(tenant.id, newSettings)
         .then(() => {
@@ -787,7 +779,7 @@ export const AIIntegration: React.FC = () => {
                           type="password"
                           value={apiKey}
                           onChange={(e) => setApiKey(e.target.value)}
-                          placeholder="sk-..."
+                          placeholder={settings?.openaiApiKey ? settings.openaiApiKey : "sk-..."}
                           className="flex-1"
                         />
                         <Button
@@ -810,10 +802,16 @@ export const AIIntegration: React.FC = () => {
                         <Button
                           onClick={removeApiKey}
                           variant="outline"
+                          disabled={!settings?.openaiApiKey}
                         >
                           Remove
                         </Button>
                       </div>
+                      {settings?.openaiApiKey && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          A key is saved and stored encrypted. Enter a new one to replace it.
+                        </p>
+                      )}
                     </div>
 
                     {/* API Test Results */}
@@ -866,6 +864,8 @@ export const AIIntegration: React.FC = () => {
                   </div>
                 </CardContent>
               </Card>
+
+              {tenant?.id && <AIFloristTokens tenantId={tenant.id} />}
             </TabsContent>
           </Tabs>
 
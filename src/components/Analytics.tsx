@@ -12,20 +12,16 @@ import {
   CartesianGrid,
   Tooltip,
   ResponsiveContainer,
-  PieChart,
-  Pie,
-  Cell,
-  LineChart,
-  Line,
 } from "recharts"
-import { Calendar, TrendingUp, Users, Package, Clock, Target, Award } from "lucide-react"
+import { TrendingUp, TrendingDown } from "lucide-react"
 import { StoreSelector } from "./StoreSelector"
 import { useMobileView } from "./Dashboard"
 import { useAuth } from "../contexts/AuthContext"
 import { getAnalytics, getFloristStats, getStores } from "../services/api"
-import type { FloristStats, TimeFrame, Store } from "../types"
+import type { AnalyticsSummary, FloristStats, TimeFrame, Store } from "../types"
 import { getSingaporeDateRange, formatSingaporeDate, formatSingaporeTime } from "../lib/utils"
 import { TimezoneIndicator } from "./TimezoneIndicator"
+import { FloristProductivity } from "./FloristProductivity"
 
 // Generate a consistent color based on store ID
 const generateStoreColor = (storeId: string): string => {
@@ -51,7 +47,7 @@ export function Analytics() {
   const [selectedStoreId, setSelectedStoreId] = useState<string | null>(null)
   const [stats, setStats] = useState<FloristStats[]>([])
   const [stores, setStores] = useState<Store[]>([])
-  const [analytics, setAnalytics] = useState<any>(null)
+  const [analytics, setAnalytics] = useState<AnalyticsSummary | null>(null)
   const [loading, setLoading] = useState<boolean>(true)
   const [error, setError] = useState<string | null>(null)
 
@@ -70,12 +66,12 @@ export function Analytics() {
         setLoading(true)
         setError(null)
 
-        // Fetch analytics data
-        const analyticsData = await getAnalytics(tenant.id, timeFrame)
+        // Fetch analytics data (filtered server-side when a store is selected)
+        const analyticsData = await getAnalytics(tenant.id, timeFrame, selectedStoreId)
         setAnalytics(analyticsData)
 
         // Fetch florist stats
-        const statsData = await getFloristStats(tenant.id)
+        const statsData = await getFloristStats(tenant.id, timeFrame, selectedStoreId)
         setStats(statsData)
 
         // Fetch stores
@@ -93,7 +89,7 @@ export function Analytics() {
     }
 
     loadData()
-  }, [tenant?.id, timeFrame])
+  }, [tenant?.id, timeFrame, selectedStoreId])
 
   const formatTime = (minutes: number): string => {
     if (minutes === 0) return "N/A"
@@ -119,28 +115,31 @@ export function Analytics() {
     }
   }
 
-  // Filter stats by store if selected
-  const getFilteredStats = () => {
-    if (!selectedStoreId) return stats
-
-    return stats.map((stat) => {
-      const storeData = stat.storeBreakdown?.[selectedStoreId]
-      if (!storeData) {
-        return {
-          ...stat,
-          completedOrders: 0,
-          averageCompletionTime: 0,
-        }
-      }
-      return {
-        ...stat,
-        completedOrders: storeData.orders,
-        averageCompletionTime: storeData.avgTime,
-      }
-    })
+  const formatCurrency = (amount: number): string =>
+    new Intl.NumberFormat("en-SG", {
+      style: "currency",
+      currency: analytics?.currency || "SGD",
+      maximumFractionDigits: 0,
+    }).format(amount)
+
+  // Percent change against the previous period, e.g. "+12.5% vs last week"
+  const renderChange = (change: number | null | undefined) => {
+    const previousLabel = timeFrame === "daily" ? "yesterday" : timeFrame === "monthly" ? "last month" : "last week"
+    if (change === null || change === undefined) {
+      return <span className="text-gray-400">No data for {previousLabel}</span>
+    }
+    const Icon = change >= 0 ? TrendingUp : TrendingDown
+    return (
+      <span className={`inline-flex items-center gap-1 ${change >= 0 ? "text-green-600" : "text-red-600"}`}>
+        <Icon className="h-3 w-3" />
+        {change > 0 ? "+" : ""}
+        {change}% vs {previousLabel}
+      </span>
+    )
   }
 
-  const filteredStats = getFilteredStats()
+  // Stats arrive already filtered by the selected store
+  const filteredStats = stats
   const sortedStats = [...filteredStats].sort((a, b) => b.completedOrders - a.completedOrders)
 
   const selectedStore = stores.find((s) => s.id === selectedStoreId)
@@ -220,6 +219,63 @@ export function Analytics() {
         </div>
       )}
 
+      {analytics && (
+        <div
+          className={`grid gap-4 ${isMobileView ? "grid-cols-1" : "grid-cols-1 md:grid-cols-3 gap-6"}`}
+        >
+          {[
+            { title: "Orders", value: String(analytics.current.orders), change: analytics.change.orders, color: "text-gray-900" },
+            { title: "Revenue", value: formatCurrency(analytics.current.revenue), change: analytics.change.revenue, color: "text-green-600" },
+            {
+              title: "Avg. Order Value",
+              value: formatCurrency(analytics.current.averageOrderValue),
+              change: analytics.change.averageOrderValue,
+              color: "text-blue-600",
+            },
+          ].map((kpi) => (
+            <Card key={kpi.title} className={isMobileView ? "p-3" : ""}>
+              <CardHeader className={`${isMobileView ? "pb-1" : "pb-2"}`}>
+                <CardTitle className={`font-medium text-gray-600 ${isMobileView ? "text-xs" : "text-sm"}`}>
+                  {kpi.title}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className={`${isMobileView ? "pt-2" : ""}`}>
+                <div className={`font-bold ${kpi.color} ${isMobileView ? "text-xl" : "text-2xl"}`}>{kpi.value}</div>
+                <p className={`text-gray-500 mt-1 ${isMobileView ? "text-[10px]" : "text-xs"}`}>
+                  {renderChange(kpi.change)}
+                </p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {analytics && (
+        <Card>
+          <CardHeader className={`${isMobileView ? "pb-2" : ""}`}>
+            <CardTitle className={`${isMobileView ? "text-base" : ""}`}>
+              {timeFrame === "daily" ? "Last 14 Days" : timeFrame === "weekly" ? "Last 12 Weeks" : "Last 12 Months"}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className={isMobileView ? "pt-0" : ""}>
+            <ResponsiveContainer width="100%" height={isMobileView ? 200 : 280}>
+              <BarChart data={analytics.series}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                <XAxis dataKey="label" tick={{ fontSize: isMobileView ? 10 : 12 }} />
+                <YAxis yAxisId="orders" allowDecimals={false} tick={{ fontSize: isMobileView ? 10 : 12 }} />
+                <YAxis yAxisId="revenue" orientation="right" hide={isMobileView} tick={{ fontSize: 12 }} />
+                <Tooltip
+                  formatter={(value: number, name: string) => (name === "Revenue" ? formatCurrency(value) : value)}
+                />
+                <Bar yAxisId="orders" dataKey="orders" name="Orders" fill="#3b82f6" radius={[4, 4, 0, 0]} />
+                <Bar yAxisId="orders" dataKey="completedCards" name="Cards completed" fill="#10b981" radius={[4, 4, 0, 0]} />
+                <Bar yAxisId="revenue" dataKey="revenue" name="Revenue" fill="#f59e0b" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+      )}
+
       <div
         className={`grid gap-4 ${isMobileView ? "grid-cols-1" : "grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6"}`}
       >
@@ -331,6 +387,7 @@ export function Analytics() {
                             storeStats.length
                         )
                       : 0
+                  const storeAnalytics = analytics?.stores.find((entry) => entry.storeId === store.id)
 
                   return (
                     <Card
@@ -349,6 +406,19 @@ export function Analytics() {
                           </span>
                         </div>
                         <div className={`${isMobileView ? "space-y-1" : "space-y-2"}`}>
+                          <div>
+                            <div
+                              className={`font-bold text-gray-900 ${isMobileView ? "text-base" : "text-lg"}`}
+                            >
+                              {storeAnalytics?.orders ?? 0} orders • {formatCurrency(storeAnalytics?.revenue ?? 0)}
+                            </div>
+                            <div
+                              className={`text-gray-500 ${isMobileView ? "text-[10px]" : "text-xs"}`}
+                            >
+                              Previously {storeAnalytics?.previousOrders ?? 0} orders •{" "}
+                              {formatCurrency(storeAnalytics?.previousRevenue ?? 0)}
+                            </div>
+                          </div>
                           <div>
                             <div
                               className={`font-bold text-green-600 ${isMobileView ? "text-base" : "text-lg"}`}
@@ -624,6 +694,10 @@ export function Analytics() {
           )}
         </CardContent>
       </Card>
+
+      {tenant?.id && (
+        <FloristProductivity tenantId={tenant.id} storeId={selectedStoreId} isMobileView={isMobileView} />
+      )}
     </div>
   )
 }
@@ -0,0 +1,218 @@
+import React, { useCallback, useEffect, useState } from "react"
+import { Button } from "./ui/button"
+import { Badge } from "./ui/badge"
+import { Checkbox } from "./ui/checkbox"
+import { Progress } from "./ui/progress"
+import { Alert, AlertDescription } from "./ui/alert"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "./ui/dialog"
+import { AlertTriangle, RefreshCw } from "lucide-react"
+import { toast } from "sonner"
+import { bulkUpdateOrderCardStates, getAssignmentPlan } from "../services/api"
+import type { AssignmentPlan } from "../types"
+
+interface AutoAssignDialogProps {
+  tenantId: string
+  date: string // YYYY-MM-DD, as the board's date picker holds it
+  storeId: string | null
+  open: boolean
+  onClose: () => void
+  onApplied: () => void
+}
+
+const formatMinutes = (minutes: number) => {
+  const hours = Math.floor(minutes / 60)
+  return hours > 0 ? `${hours}h ${Math.round(minutes % 60)}m` : `${Math.round(minutes)}m`
+}
+
+// Proposed florist for each unassigned card; the admin unticks any they don't want and applies the rest
+export const AutoAssignDialog: React.FC<AutoAssignDialogProps> = ({ tenantId, date, storeId, open, onClose, onApplied }) => {
+  const [plan, setPlan] = useState<AssignmentPlan | null>(null)
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [isLoading, setIsLoading] = useState(false)
+  const [isApplying, setIsApplying] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadPlan = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      const result = await getAssignmentPlan(tenantId, date, storeId)
+      setPlan(result)
+      setSelected(new Set(result.assignments.map((assignment) => assignment.cardId)))
+    } catch (err) {
+      console.error("Error loading assignment plan:", err)
+      setError(err instanceof Error ? err.message : "Failed to load assignment plan")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [tenantId, date, storeId])
+
+  useEffect(() => {
+    if (open) loadPlan()
+    else setPlan(null)
+  }, [open, loadPlan])
+
+  const toggle = (cardId: string, checked: boolean) =>
+    setSelected((current) => {
+      const next = new Set(current)
+      if (checked) next.add(cardId)
+      else next.delete(cardId)
+      return next
+    })
+
+  const handleApply = async () => {
+    if (!plan) return
+    const chosen = plan.assignments.filter((assignment) => selected.has(assignment.cardId))
+    setIsApplying(true)
+    try {
+      const { updated, conflicts } = await bulkUpdateOrderCardStates(
+        tenantId,
+        plan.deliveryDate,
+        chosen.map((assignment) => ({
+          cardId: assignment.cardId,
+          status: "assigned",
+          assignedTo: assignment.floristName,
+          notes: assignment.notes,
+          expectedVersion: assignment.expectedVersion,
+        }))
+      )
+      if (conflicts.length > 0) {
+        toast.warning(`Assigned ${updated} of ${chosen.length} cards`, {
+          description: `${conflicts.length} card${conflicts.length === 1 ? " was" : "s were"} changed by someone else and left as they are.`,
+        })
+      } else {
+        toast.success(`Assigned ${updated} card${updated === 1 ? "" : "s"}`)
+      }
+      onApplied()
+      onClose()
+    } catch (err) {
+      toast.error("Failed to apply assignments", {
+        description: err instanceof Error ? err.message : undefined,
+      })
+    } finally {
+      setIsApplying(false)
+    }
+  }
+
+  const chosenMinutes = (floristId: string) =>
+    plan?.assignments
+      .filter((assignment) => assignment.floristId === floristId && selected.has(assignment.cardId))
+      .reduce((sum, assignment) => sum + assignment.minutes, 0) || 0
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Auto-assign Florists</DialogTitle>
+          <DialogDescription>
+            Unassigned cards for {plan?.deliveryDate || date}, spread across the florists working that day by timeslot,
+            difficulty and skill level. Nothing is saved until you apply the plan.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && (
+          <div className="flex items-center justify-center py-8 text-sm text-muted-foreground">
+            <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+            Planning assignments...
+          </div>
+        )}
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {plan && !isLoading && (
+          <div className="space-y-4">
+            {plan.assignments.length === 0 && plan.unassigned.length === 0 && (
+              <p className="py-6 text-center text-sm text-muted-foreground">Every card for this day is already assigned.</p>
+            )}
+
+            {plan.florists
+              .filter((florist) => florist.capacityMinutes > 0 || florist.plannedCards > 0)
+              .map((florist) => {
+                const assignments = plan.assignments.filter((assignment) => assignment.floristId === florist.id)
+                const booked = florist.existingMinutes + chosenMinutes(florist.id)
+                return (
+                  <div key={florist.id} className="rounded-md border p-3">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="font-medium">
+                        {florist.name}
+                        <Badge variant="outline" className="ml-2">Skill {florist.skillLevel}</Badge>
+                      </div>
+                      <span className={`text-xs ${booked > florist.capacityMinutes ? "text-red-600" : "text-muted-foreground"}`}>
+                        {formatMinutes(booked)} of {formatMinutes(florist.capacityMinutes)}
+                        {florist.existingMinutes > 0 && ` (${formatMinutes(florist.existingMinutes)} already assigned)`}
+                      </span>
+                    </div>
+                    <Progress
+                      className="mt-2 h-1.5"
+                      value={florist.capacityMinutes > 0 ? Math.min((booked / florist.capacityMinutes) * 100, 100) : 100}
+                    />
+                    {assignments.length === 0 ? (
+                      <p className="mt-2 text-xs text-muted-foreground">No cards proposed</p>
+                    ) : (
+                      <ul className="mt-2 space-y-1">
+                        {assignments.map((assignment) => (
+                          <li key={assignment.cardId} className="flex items-start gap-2 text-sm" title={assignment.reason}>
+                            <Checkbox
+                              className="mt-0.5"
+                              checked={selected.has(assignment.cardId)}
+                              onCheckedChange={(checked) => toggle(assignment.cardId, checked === true)}
+                            />
+                            <div className="min-w-0 flex-1">
+                              <div className="truncate">
+                                {assignment.orderName && <span className="text-muted-foreground">{assignment.orderName} · </span>}
+                                {assignment.title}
+                              </div>
+                              <div className="flex flex-wrap gap-1 text-xs text-muted-foreground">
+                                {assignment.timeslot && <Badge variant="secondary">{assignment.timeslot}</Badge>}
+                                {assignment.difficulty && <Badge variant="outline">{assignment.difficulty}</Badge>}
+                                <span>{formatMinutes(assignment.minutes)}</span>
+                              </div>
+                              {assignment.warnings.map((warning) => (
+                                <div key={warning} className="flex items-center gap-1 text-xs text-amber-700">
+                                  <AlertTriangle className="h-3 w-3" />
+                                  {warning}
+                                </div>
+                              ))}
+                            </div>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )
+              })}
+
+            {plan.unassigned.length > 0 && (
+              <Alert>
+                <AlertDescription>
+                  <div className="mb-1 font-medium">Left unassigned ({plan.unassigned.length})</div>
+                  {plan.unassigned.map((entry) => (
+                    <div key={entry.cardId} className="text-xs">
+                      {entry.orderName ? `${entry.orderName} · ` : ""}
+                      {entry.title} - {entry.reason}
+                    </div>
+                  ))}
+                </AlertDescription>
+              </Alert>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={loadPlan} disabled={isLoading || isApplying}>
+            Re-plan
+          </Button>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={!plan || selected.size === 0 || isApplying}>
+            {isApplying ? "Applying..." : `Assign ${selected.size} Card${selected.size === 1 ? "" : "s"}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
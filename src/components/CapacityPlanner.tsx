@@ -0,0 +1,387 @@
+import { useCallback, useEffect, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card"
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+import { Label } from "./ui/label"
+import { Badge } from "./ui/badge"
+import { Progress } from "./ui/progress"
+import { Alert, AlertDescription } from "./ui/alert"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "./ui/dialog"
+import { ChevronLeft, ChevronRight, Plus, SlidersHorizontal, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+import { StoreSelector } from "./StoreSelector"
+import { useMobileView } from "./Dashboard"
+import { useAuth } from "../contexts/AuthContext"
+import { getCapacityForecast, getStores, updateCapacitySettings, updateFloristAvailability } from "../services/api"
+import { validateCapacitySettings } from "../lib/capacity"
+import type { CapacityDay, CapacityForecast, CapacitySettings, Store } from "../types"
+
+const singaporeToday = () => new Intl.DateTimeFormat("en-CA", { timeZone: "Asia/Singapore" }).format(new Date())
+
+const shiftDate = (date: string, days: number) =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + days * 86400000).toISOString().slice(0, 10)
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString("en-GB", { weekday: "short", day: "numeric", month: "short", timeZone: "UTC" })
+
+// Week-ahead workload forecast against the florist roster, with the roster and assumptions editable in place
+export function CapacityPlanner() {
+  const { tenant } = useAuth()
+  const { isMobileView } = useMobileView()
+  const [from, setFrom] = useState(singaporeToday)
+  const [selectedStoreId, setSelectedStoreId] = useState<string | null>(null)
+  const [stores, setStores] = useState<Store[]>([])
+  const [forecast, setForecast] = useState<CapacityForecast | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [settingsDraft, setSettingsDraft] = useState<CapacitySettings | null>(null)
+  const [difficultyRows, setDifficultyRows] = useState<{ label: string; minutes: string }[]>([])
+  const [isSavingSettings, setIsSavingSettings] = useState(false)
+
+  const loadForecast = useCallback(async () => {
+    if (!tenant?.id) return
+    try {
+      setLoading(true)
+      setError(null)
+      setForecast(await getCapacityForecast(tenant.id, { from, days: 7, storeId: selectedStoreId }))
+    } catch (err) {
+      console.error("Error loading capacity forecast:", err)
+      setError(err instanceof Error ? err.message : "Failed to load capacity forecast")
+    } finally {
+      setLoading(false)
+    }
+  }, [tenant?.id, from, selectedStoreId])
+
+  useEffect(() => {
+    loadForecast()
+  }, [loadForecast])
+
+  useEffect(() => {
+    if (tenant?.id) getStores(tenant.id).then(setStores).catch(() => setStores([]))
+  }, [tenant?.id])
+
+  const rosterHours = (userId: string, date: string) =>
+    forecast?.availability.find((entry) => entry.userId === userId && entry.date === date)?.hours
+
+  const handleRosterChange = async (userId: string, date: string, value: string) => {
+    if (!tenant?.id) return
+    const hours = value.trim() === "" ? null : Number(value)
+    if (hours !== null && (Number.isNaN(hours) || hours < 0 || hours > 24)) {
+      toast.error("Hours must be between 0 and 24")
+      return
+    }
+    if (hours === (rosterHours(userId, date) ?? null)) return
+
+    try {
+      await updateFloristAvailability(tenant.id, [{ userId, date, hours }])
+      await loadForecast()
+    } catch (err) {
+      toast.error("Failed to update roster", { description: err instanceof Error ? err.message : undefined })
+    }
+  }
+
+  const openSettings = () => {
+    if (!forecast) return
+    setSettingsDraft(forecast.settings)
+    setDifficultyRows(
+      Object.entries(forecast.settings.difficultyMinutes).map(([label, minutes]) => ({ label, minutes: String(minutes) }))
+    )
+  }
+
+  const draftSettings: CapacitySettings | null = settingsDraft && {
+    ...settingsDraft,
+    difficultyMinutes: Object.fromEntries(difficultyRows.map((row) => [row.label.trim(), Number(row.minutes)])),
+  }
+  const settingsErrors = draftSettings ? validateCapacitySettings(draftSettings) : []
+
+  const handleSaveSettings = async () => {
+    if (!tenant?.id || !draftSettings) return
+    setIsSavingSettings(true)
+    try {
+      await updateCapacitySettings(tenant.id, draftSettings)
+      toast.success("Capacity assumptions saved")
+      setSettingsDraft(null)
+      await loadForecast()
+    } catch (err) {
+      toast.error("Failed to save capacity assumptions", { description: err instanceof Error ? err.message : undefined })
+    } finally {
+      setIsSavingSettings(false)
+    }
+  }
+
+  const renderStatus = (day: CapacityDay) => {
+    if (day.orders === 0) return <Badge variant="outline">No orders</Badge>
+    if (day.overbooked) return <Badge variant="destructive">Overbooked</Badge>
+    if (day.timeslots.some((slot) => slot.overbooked)) return <Badge className="bg-amber-100 text-amber-800">Slot overbooked</Badge>
+    return <Badge className="bg-green-100 text-green-800">OK</Badge>
+  }
+
+  return (
+    <div className={`${isMobileView ? "space-y-4" : "space-y-6"} max-w-6xl mx-auto`}>
+      <div className={`flex justify-between ${isMobileView ? "flex-col gap-3" : "items-center"}`}>
+        <h2 className={`font-bold text-gray-900 ${isMobileView ? "text-lg" : "text-2xl"}`}>Capacity Planning</h2>
+        <div className={`flex ${isMobileView ? "flex-col gap-2" : "items-center space-x-2"}`}>
+          <StoreSelector stores={stores} selectedStoreId={selectedStoreId} onStoreChange={setSelectedStoreId} />
+          <div className="flex items-center gap-1">
+            <Button variant="outline" size="icon" onClick={() => setFrom((date) => shiftDate(date, -7))}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Input
+              type="date"
+              className="w-[150px]"
+              value={from}
+              onChange={(e) => e.target.value && setFrom(e.target.value)}
+            />
+            <Button variant="outline" size="icon" onClick={() => setFrom((date) => shiftDate(date, 7))}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+          <Button variant="outline" onClick={openSettings} disabled={!forecast}>
+            <SlidersHorizontal className="mr-2 h-4 w-4" />
+            Assumptions
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+      {loading && !forecast && <div className="text-center py-8 text-sm text-gray-500">Loading forecast...</div>}
+
+      {forecast && (
+        <>
+          <div className={`grid gap-4 ${isMobileView ? "grid-cols-2" : "grid-cols-4"}`}>
+            {[
+              { title: "Orders", value: forecast.totals.orders },
+              { title: "Labour Hours", value: forecast.totals.labourHours },
+              { title: "Available Hours", value: forecast.totals.availableHours },
+              {
+                title: "Overbooked",
+                value: `${forecast.totals.overbookedDays} days • ${forecast.totals.overbookedTimeslots} slots`,
+              },
+            ].map((kpi) => (
+              <Card key={kpi.title}>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium text-gray-600">{kpi.title}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className={`font-bold text-gray-900 ${isMobileView ? "text-lg" : "text-2xl"}`}>{kpi.value}</div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className={isMobileView ? "text-base" : ""}>
+                Week Ahead{loading && <span className="ml-2 text-xs font-normal text-gray-400">Updating...</span>}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {forecast.days.map((day) => (
+                <div key={day.date} className={`rounded-md border p-3 ${day.overbooked ? "border-red-300 bg-red-50" : ""}`}>
+                  <div className={`flex justify-between gap-2 ${isMobileView ? "flex-col" : "items-center"}`}>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium w-28">{formatDay(day.date)}</span>
+                      {renderStatus(day)}
+                      {!day.rostered && <span className="text-xs text-gray-400">Default roster</span>}
+                    </div>
+                    <div className="text-sm text-gray-600">
+                      {day.orders} orders • {day.items} items • {day.labourHours}h needed • {day.florists} florists •{" "}
+                      {day.availableHours}h available
+                    </div>
+                  </div>
+                  <div className="mt-2 flex items-center gap-2">
+                    <Progress value={Math.min(day.utilisation ?? 0, 100)} className="h-2" />
+                    <span className={`w-12 text-right text-xs ${day.overbooked ? "text-red-600 font-medium" : "text-gray-500"}`}>
+                      {day.utilisation === null ? "-" : `${day.utilisation}%`}
+                    </span>
+                  </div>
+                  {day.timeslots.length > 0 && (
+                    <div className="mt-2 flex flex-wrap gap-1">
+                      {day.timeslots.map((slot) => (
+                        <Badge
+                          key={slot.timeslot || "none"}
+                          variant={slot.overbooked ? "destructive" : "secondary"}
+                          className="text-xs font-normal"
+                        >
+                          {slot.timeslot || "No timeslot"}: {slot.labourHours}h
+                          {slot.capacityHours !== null && ` / ${slot.capacityHours}h`}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                  {day.unestimatedItems > 0 && (
+                    <div className="mt-1 text-xs text-gray-400">
+                      {day.unestimatedItems} items have no estimate or difficulty label and count {forecast.settings.defaultMinutes} min each
+                    </div>
+                  )}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className={isMobileView ? "text-base" : ""}>Roster</CardTitle>
+              <p className="text-xs text-gray-500">
+                Hours per florist per day. Days left blank assume every florist works {forecast.settings.hoursPerFlorist}h;
+                once any hours are entered for a day, only the florists listed count.
+              </p>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-2 px-2 font-medium text-gray-600">Florist</th>
+                    {forecast.days.map((day) => (
+                      <th key={day.date} className="py-2 px-1 font-medium text-gray-600 text-xs">
+                        {formatDay(day.date)}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {forecast.florists.map((florist) => (
+                    <tr key={florist.id} className="border-b border-gray-100">
+                      <td className="py-1 px-2 whitespace-nowrap">{florist.name}</td>
+                      {forecast.days.map((day) => (
+                        <td key={day.date} className="py-1 px-1">
+                          <Input
+                            key={`${florist.id}-${day.date}-${rosterHours(florist.id, day.date) ?? ""}`}
+                            type="number"
+                            min={0}
+                            max={24}
+                            step={0.5}
+                            className="h-8 w-16 text-center"
+                            placeholder={day.rostered ? "0" : String(forecast.settings.hoursPerFlorist)}
+                            defaultValue={rosterHours(florist.id, day.date) ?? ""}
+                            onBlur={(e) => handleRosterChange(florist.id, day.date, e.target.value)}
+                          />
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {forecast.florists.length === 0 && (
+                <div className="text-center py-6 text-gray-500">No florists yet - add them under Settings &gt; Users</div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      <Dialog open={!!settingsDraft} onOpenChange={(open) => !open && setSettingsDraft(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Capacity Assumptions</DialogTitle>
+            <DialogDescription>
+              Prep time per item comes from the product's estimated time, then its difficulty label, then the default.
+            </DialogDescription>
+          </DialogHeader>
+          {settingsDraft && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="capacity-default-minutes">Default prep time (min)</Label>
+                  <Input
+                    id="capacity-default-minutes"
+                    type="number"
+                    min={0}
+                    value={settingsDraft.defaultMinutes}
+                    onChange={(e) => setSettingsDraft({ ...settingsDraft, defaultMinutes: Number(e.target.value) })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="capacity-hours">Hours per florist</Label>
+                  <Input
+                    id="capacity-hours"
+                    type="number"
+                    min={0}
+                    max={24}
+                    step={0.5}
+                    value={settingsDraft.hoursPerFlorist}
+                    onChange={(e) => setSettingsDraft({ ...settingsDraft, hoursPerFlorist: Number(e.target.value) })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="capacity-dispatch-buffer">Dispatch buffer (min)</Label>
+                  <Input
+                    id="capacity-dispatch-buffer"
+                    type="number"
+                    min={0}
+                    max={240}
+                    value={settingsDraft.dispatchBufferMinutes}
+                    onChange={(e) => setSettingsDraft({ ...settingsDraft, dispatchBufferMinutes: Number(e.target.value) })}
+                  />
+                  <p className="text-xs text-muted-foreground">Cards must be done this long before their timeslot starts</p>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Prep time by difficulty label (min)</Label>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setDifficultyRows((rows) => [...rows, { label: "", minutes: "30" }])}
+                  >
+                    <Plus className="mr-2 h-3 w-3" />
+                    Add label
+                  </Button>
+                </div>
+                {difficultyRows.map((row, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Input
+                      placeholder="Label name, e.g. Hard"
+                      value={row.label}
+                      onChange={(e) =>
+                        setDifficultyRows((rows) => rows.map((r, i) => (i === index ? { ...r, label: e.target.value } : r)))
+                      }
+                    />
+                    <Input
+                      type="number"
+                      min={0}
+                      className="w-24"
+                      value={row.minutes}
+                      onChange={(e) =>
+                        setDifficultyRows((rows) => rows.map((r, i) => (i === index ? { ...r, minutes: e.target.value } : r)))
+                      }
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => setDifficultyRows((rows) => rows.filter((_, i) => i !== index))}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+              {settingsErrors.length > 0 && (
+                <Alert variant="destructive">
+                  <AlertDescription>
+                    {settingsErrors.map((message) => (
+                      <div key={message}>{message}</div>
+                    ))}
+                  </AlertDescription>
+                </Alert>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSettingsDraft(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveSettings} disabled={isSavingSettings || settingsErrors.length > 0}>
+              {isSavingSettings ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
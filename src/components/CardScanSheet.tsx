@@ -0,0 +1,314 @@
+import React, { useCallback, useEffect, useRef, useState } from "react"
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "./ui/sheet"
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+import { Badge } from "./ui/badge"
+import { Alert, AlertDescription } from "./ui/alert"
+import { Camera, CheckCircle, Loader2, Play, ScanLine, Truck } from "lucide-react"
+import { toast } from "sonner"
+import { useAuth } from "../contexts/AuthContext"
+import { bulkUpdateOrderCardStates, getScannedCard, handOffOrderCard } from "../services/api"
+import { createPhotoUploadService } from "../services/photoUploadService"
+import { createCodeReader, parseScannedCode } from "../lib/cardScan"
+import type { ScannedCard } from "../types"
+
+interface CardScanSheetProps {
+  tenantId: string
+  open: boolean
+  onClose: () => void
+  onCardScanned: (card: ScannedCard) => void // Brings the card up on the board behind the sheet
+}
+
+const STATUS_BADGES: Record<string, string> = {
+  unassigned: "bg-gray-100 text-gray-700",
+  assigned: "bg-blue-100 text-blue-800",
+  in_progress: "bg-amber-100 text-amber-800",
+  completed: "bg-green-100 text-green-800",
+}
+
+const SCAN_INTERVAL_MS = 250
+
+// Mobile scan mode: read a printed card's code with the camera (or type it, or use a handheld scanner),
+// then start, complete, photograph and hand the card to delivery without finding it on the board
+export const CardScanSheet: React.FC<CardScanSheetProps> = ({ tenantId, open, onClose, onCardScanned }) => {
+  const { user } = useAuth()
+  const [card, setCard] = useState<ScannedCard | null>(null)
+  const [manualCode, setManualCode] = useState("")
+  const [cameraError, setCameraError] = useState<string | null>(null)
+  const [isLookingUp, setIsLookingUp] = useState(false)
+  const [busyAction, setBusyAction] = useState<"start" | "complete" | "photo" | "handoff" | null>(null)
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const photoInputRef = useRef<HTMLInputElement>(null)
+  const userName = user?.name || user?.email || null
+
+  // Opens the card a code refers to; false when it isn't a card or can't be found
+  const lookUp = useCallback(
+    async (code: string) => {
+      const scanned = parseScannedCode(code)
+      if (!scanned) {
+        toast.error("That code isn't an order card")
+        return false
+      }
+      setIsLookingUp(true)
+      try {
+        const found = await getScannedCard(tenantId, scanned.cardId)
+        setCard(found)
+        setManualCode("")
+        onCardScanned(found)
+        return true
+      } catch (err) {
+        toast.error("Card not found", { description: err instanceof Error ? err.message : undefined })
+        return false
+      } finally {
+        setIsLookingUp(false)
+      }
+    },
+    [tenantId, onCardScanned]
+  )
+
+  // Camera runs while the sheet is open and no card is showing
+  useEffect(() => {
+    if (!open || card) return
+    let stream: MediaStream | null = null
+    let timer: ReturnType<typeof setTimeout> | undefined
+    let stopped = false
+
+    const start = async () => {
+      if (!navigator.mediaDevices?.getUserMedia) {
+        setCameraError("This browser can't use the camera - enter the card code instead")
+        return
+      }
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: "environment" } })
+        if (stopped || !videoRef.current) return
+        videoRef.current.srcObject = stream
+        await videoRef.current.play()
+        setCameraError(null)
+        const read = await createCodeReader()
+        // A code that didn't open a card is only reported once while it stays in view
+        let lastCode: string | null = null
+        const tick = async () => {
+          if (stopped || !videoRef.current) return
+          const code = await read(videoRef.current).catch(() => null)
+          if (stopped) return
+          if (code && code !== lastCode) {
+            lastCode = code
+            if (await lookUp(code)) return
+          }
+          timer = setTimeout(tick, SCAN_INTERVAL_MS)
+        }
+        tick()
+      } catch (err) {
+        console.error("[CARD-SCAN] Camera unavailable:", err)
+        if (!stopped) setCameraError("Camera unavailable - allow camera access or enter the card code instead")
+      }
+    }
+    start()
+
+    return () => {
+      stopped = true
+      clearTimeout(timer)
+      stream?.getTracks().forEach((track) => track.stop())
+    }
+  }, [open, card, lookUp])
+
+  const handleClose = () => {
+    setCard(null)
+    setManualCode("")
+    onClose()
+  }
+
+  const refreshCard = async (cardId: string) => {
+    const latest = await getScannedCard(tenantId, cardId)
+    setCard(latest)
+    return latest
+  }
+
+  const handleStatus = async (status: "in_progress" | "completed") => {
+    if (!card) return
+    setBusyAction(status === "in_progress" ? "start" : "complete")
+    try {
+      const { conflicts } = await bulkUpdateOrderCardStates(tenantId, card.deliveryDate, [
+        {
+          cardId: card.cardId,
+          status,
+          assignedTo: card.assignedTo || userName,
+          notes: card.notes,
+          expectedVersion: card.version,
+        },
+      ])
+      const latest = await refreshCard(card.cardId)
+      if (conflicts.length > 0) {
+        toast.error("Someone else just changed this card", { description: `It's now ${latest.status.replace("_", " ")}` })
+      } else {
+        toast.success(status === "in_progress" ? "Card started" : "Card completed")
+      }
+    } catch (err) {
+      toast.error("Failed to update card", { description: err instanceof Error ? err.message : undefined })
+    } finally {
+      setBusyAction(null)
+    }
+  }
+
+  const handlePhoto = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!card || !file) return
+    setBusyAction("photo")
+    try {
+      await createPhotoUploadService(tenantId, user?.id || "").uploadPhoto(file, { cardId: card.cardId })
+      setCard({ ...card, photoCount: card.photoCount + 1 })
+      toast.success("Photo attached")
+    } catch (err) {
+      toast.error("Failed to upload photo", { description: err instanceof Error ? err.message : undefined })
+    } finally {
+      setBusyAction(null)
+    }
+  }
+
+  const handleHandOff = async () => {
+    if (!card) return
+    setBusyAction("handoff")
+    try {
+      const result = await handOffOrderCard(tenantId, card.cardId)
+      setCard({ ...card, handedOffAt: result.handedOffAt, handedOffBy: result.handedOffBy, version: result.version })
+      toast.success("Handed to delivery")
+    } catch (err) {
+      await refreshCard(card.cardId).catch(() => null)
+      toast.error("Failed to hand to delivery", { description: err instanceof Error ? err.message : undefined })
+    } finally {
+      setBusyAction(null)
+    }
+  }
+
+  const renderScanner = () => (
+    <div className="space-y-3">
+      <div className="relative aspect-square w-full overflow-hidden rounded-md bg-black">
+        <video ref={videoRef} className="h-full w-full object-cover" muted playsInline />
+        <div className="pointer-events-none absolute inset-8 rounded-md border-2 border-white/70" />
+        {isLookingUp && (
+          <div className="absolute inset-0 flex items-center justify-center bg-black/50 text-white">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        )}
+      </div>
+      {cameraError && (
+        <Alert>
+          <AlertDescription>{cameraError}</AlertDescription>
+        </Alert>
+      )}
+      <form
+        className="flex gap-2"
+        onSubmit={(event) => {
+          event.preventDefault()
+          if (manualCode.trim()) lookUp(manualCode)
+        }}
+      >
+        <Input
+          value={manualCode}
+          onChange={(event) => setManualCode(event.target.value)}
+          placeholder="Card code, e.g. 5512345-1340-0"
+          autoCapitalize="off"
+          autoCorrect="off"
+        />
+        <Button type="submit" variant="outline" disabled={isLookingUp || !manualCode.trim()}>
+          Open
+        </Button>
+      </form>
+    </div>
+  )
+
+  const renderCard = (current: ScannedCard) => {
+    const isBusy = busyAction !== null
+    return (
+      <div className="space-y-4">
+        <div>
+          <div className="font-medium text-gray-900">{current.title}</div>
+          {current.variantTitle && <div className="text-sm text-gray-500">{current.variantTitle}</div>}
+          <div className="mt-1 flex flex-wrap items-center gap-1 text-xs text-gray-500">
+            <Badge className={STATUS_BADGES[current.status] || STATUS_BADGES.unassigned}>{current.status.replace("_", " ")}</Badge>
+            <span>{current.orderName || current.orderId}</span>
+            <span>• {current.deliveryDate}</span>
+            {current.timeslot && <span>• {current.timeslot}</span>}
+            {current.assignedTo && <span>• {current.assignedTo}</span>}
+          </div>
+        </div>
+
+        {current.message && (
+          <div className="rounded-md border p-2 text-sm">
+            <div className="text-xs font-medium uppercase text-gray-500">Card message</div>
+            <div className="whitespace-pre-line">{current.message}</div>
+          </div>
+        )}
+        {current.customisations && (
+          <div className="rounded-md border p-2 text-sm">
+            <div className="text-xs font-medium uppercase text-gray-500">Customisations</div>
+            <div className="whitespace-pre-line">{current.customisations}</div>
+          </div>
+        )}
+        {current.addOns.length > 0 && (
+          <div className="text-sm">
+            <span className="text-xs font-medium uppercase text-gray-500">Add-ons: </span>
+            {current.addOns.join(", ")}
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-2">
+          <Button
+            variant="outline"
+            onClick={() => handleStatus("in_progress")}
+            disabled={isBusy || current.status === "in_progress" || current.status === "completed"}
+          >
+            {busyAction === "start" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Play className="mr-2 h-4 w-4" />}
+            Start
+          </Button>
+          <Button onClick={() => handleStatus("completed")} disabled={isBusy || current.status === "completed"}>
+            {busyAction === "complete" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CheckCircle className="mr-2 h-4 w-4" />}
+            Complete
+          </Button>
+          <Button variant="outline" onClick={() => photoInputRef.current?.click()} disabled={isBusy}>
+            {busyAction === "photo" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Camera className="mr-2 h-4 w-4" />}
+            Photo{current.photoCount > 0 ? ` (${current.photoCount})` : ""}
+          </Button>
+          <Button
+            variant="outline"
+            onClick={handleHandOff}
+            disabled={isBusy || current.status !== "completed" || !!current.handedOffAt}
+          >
+            {busyAction === "handoff" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Truck className="mr-2 h-4 w-4" />}
+            To delivery
+          </Button>
+        </div>
+        <input ref={photoInputRef} type="file" accept="image/*" capture="environment" className="hidden" onChange={handlePhoto} />
+
+        {current.handedOffAt && (
+          <p className="text-xs text-green-700">
+            Handed to delivery{current.handedOffBy ? ` by ${current.handedOffBy}` : ""}
+          </p>
+        )}
+
+        <Button variant="ghost" className="w-full" onClick={() => setCard(null)} disabled={isBusy}>
+          <ScanLine className="mr-2 h-4 w-4" />
+          Scan next card
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={(isOpen) => !isOpen && handleClose()}>
+      <SheetContent side="bottom" className="max-h-[90vh] overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <ScanLine className="h-5 w-5" />
+            Scan card
+          </SheetTitle>
+          <SheetDescription>
+            {card ? "Update the card, attach a photo of the arrangement and pass it on." : "Point the camera at the code on a job sheet."}
+          </SheetDescription>
+        </SheetHeader>
+        <div className="px-4 pb-4">{card ? renderCard(card) : renderScanner()}</div>
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -14,6 +14,8 @@ import {
   Sparkles,
   ClipboardList,
   Menu,
+  CalendarRange,
+  Clock,
 } from "lucide-react"
 import { useAuth } from "../contexts/AuthContext"
 import { useIsMobile } from "./hooks/use-mobile"
@@ -72,8 +74,10 @@ export function Dashboard() {
 
   const navigationItems = [
     { value: "orders", label: "Orders", icon: ClipboardList },
+    { value: "schedule", label: "Schedule", icon: Clock },
     { value: "analytics", label: "Analytics", icon: BarChart3 },
     ...(user.role === "admin" ? [
+      { value: "capacity", label: "Capacity", icon: CalendarRange },
       { value: "products", label: "Products", icon: Package },
       { value: "ai-integration", label: "AI", icon: Sparkles },
       { value: "settings", label: "Settings", icon: Settings },
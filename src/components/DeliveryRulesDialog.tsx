@@ -0,0 +1,303 @@
+import React, { useEffect, useState } from "react"
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+import { Label } from "./ui/label"
+import { Textarea } from "./ui/textarea"
+import { Badge } from "./ui/badge"
+import { Separator } from "./ui/separator"
+import { Alert, AlertDescription } from "./ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "./ui/dialog"
+import { ArrowDown, ArrowUp, Plus, TestTube, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+import { previewDeliveryRules, updateStore } from "../services/api"
+import {
+  DEFAULT_DELIVERY_RULES,
+  DELIVERY_DATE_FORMATS,
+  DELIVERY_RULE_SOURCES,
+  DELIVERY_TIMESLOT_FORMATS,
+  getDeliveryRules,
+  validateDeliveryRules,
+} from "../lib/deliveryRules"
+import type { DeliveryRule, DeliveryRules, DeliveryRulesPreview, DeliveryRuleSource, Store } from "../types"
+
+type RuleField = "deliveryDate" | "timeslot"
+
+interface DeliveryRulesDialogProps {
+  tenantId: string
+  store: Store | null // Dialog is open while a store is set
+  onClose: () => void
+  onSaved: (store: Store) => void
+}
+
+const SOURCE_LABELS: Record<DeliveryRuleSource, string> = {
+  tags: "Tags",
+  note_attributes: "Note attributes",
+  metafields: "Metafields",
+  line_item_properties: "Line item properties",
+}
+
+const KEY_PLACEHOLDERS: Record<DeliveryRuleSource, string> = {
+  tags: "",
+  note_attributes: "e.g. Delivery-Date",
+  metafields: "e.g. zapiet.delivery_date",
+  line_item_properties: "e.g. _delivery_date",
+}
+
+const FIELD_LABELS: Record<RuleField, string> = {
+  deliveryDate: "Delivery date",
+  timeslot: "Timeslot",
+}
+
+export const DeliveryRulesDialog: React.FC<DeliveryRulesDialogProps> = ({ tenantId, store, onClose, onSaved }) => {
+  const [rules, setRules] = useState<DeliveryRules>(DEFAULT_DELIVERY_RULES)
+  const [isSaving, setIsSaving] = useState(false)
+  const [sampleOrderName, setSampleOrderName] = useState("")
+  const [sampleOrderJson, setSampleOrderJson] = useState("")
+  const [isTesting, setIsTesting] = useState(false)
+  const [preview, setPreview] = useState<DeliveryRulesPreview | null>(null)
+
+  useEffect(() => {
+    if (!store) return
+    setRules(getDeliveryRules(store.settings))
+    setPreview(null)
+  }, [store])
+
+  const errors = validateDeliveryRules(rules)
+
+  const updateRules = (field: RuleField, update: (list: DeliveryRule[]) => DeliveryRule[]) =>
+    setRules((current) => ({ ...current, [field]: update(current[field]) }))
+
+  const updateRule = (field: RuleField, index: number, changes: Partial<DeliveryRule>) =>
+    updateRules(field, (list) => list.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)))
+
+  const moveRule = (field: RuleField, index: number, offset: number) =>
+    updateRules(field, (list) => {
+      const next = [...list]
+      const [rule] = next.splice(index, 1)
+      next.splice(index + offset, 0, rule)
+      return next
+    })
+
+  const handleTest = async () => {
+    if (!store) return
+    let order: unknown
+    if (!sampleOrderName.trim()) {
+      try {
+        order = JSON.parse(sampleOrderJson)
+      } catch {
+        toast.error("Sample order is not valid JSON")
+        return
+      }
+    }
+
+    setIsTesting(true)
+    try {
+      setPreview(await previewDeliveryRules(tenantId, store.id, {
+        rules,
+        ...(sampleOrderName.trim() ? { orderName: sampleOrderName.trim() } : { order }),
+      }))
+    } catch (error) {
+      toast.error("Failed to test delivery rules", {
+        description: error instanceof Error ? error.message : undefined,
+      })
+    } finally {
+      setIsTesting(false)
+    }
+  }
+
+  const handleSave = async () => {
+    if (!store) return
+    setIsSaving(true)
+    try {
+      const updated = await updateStore(tenantId, store.id, { settings: { ...store.settings, deliveryRules: rules } })
+      toast.success("Delivery rules saved", {
+        description: "They apply to orders received or synced from now on.",
+      })
+      onSaved(updated)
+    } catch (error) {
+      toast.error("Failed to save delivery rules", {
+        description: error instanceof Error ? error.message : undefined,
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const renderRules = (field: RuleField) => {
+    const formats: readonly string[] = field === "deliveryDate" ? DELIVERY_DATE_FORMATS : DELIVERY_TIMESLOT_FORMATS
+    const list = rules[field]
+    return (
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>{FIELD_LABELS[field]} rules</Label>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => updateRules(field, (current) => [...current, { source: "note_attributes", key: "", format: formats[0] as DeliveryRule["format"] }])}
+          >
+            <Plus className="mr-2 h-3 w-3" />
+            Add rule
+          </Button>
+        </div>
+        {list.length === 0 && <p className="text-sm text-muted-foreground">No rules - this field is never filled in.</p>}
+        {list.map((rule, index) => (
+          <div key={index} className="flex flex-wrap items-center gap-2 rounded-md border p-2">
+            <span className="w-5 text-xs text-muted-foreground">{index + 1}.</span>
+            <Select value={rule.source} onValueChange={(source) => updateRule(field, index, { source: source as DeliveryRuleSource })}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DELIVERY_RULE_SOURCES.map((source) => (
+                  <SelectItem key={source} value={source}>{SOURCE_LABELS[source]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              className="w-44"
+              placeholder={rule.source === "tags" ? "Any tag" : KEY_PLACEHOLDERS[rule.source]}
+              disabled={rule.source === "tags"}
+              value={rule.source === "tags" ? "" : rule.key || ""}
+              onChange={(e) => updateRule(field, index, { key: e.target.value })}
+            />
+            <Input
+              className="w-48 font-mono text-xs"
+              placeholder="Pattern (optional regex)"
+              value={rule.pattern || ""}
+              onChange={(e) => updateRule(field, index, { pattern: e.target.value || undefined })}
+            />
+            <Select
+              value={rule.format || formats[0]}
+              onValueChange={(format) => updateRule(field, index, { format: format as DeliveryRule["format"] })}
+            >
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {formats.map((format) => (
+                  <SelectItem key={format} value={format}>{format}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="ml-auto flex gap-1">
+              <Button variant="ghost" size="icon" className="h-8 w-8" disabled={index === 0} onClick={() => moveRule(field, index, -1)}>
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="icon" className="h-8 w-8" disabled={index === list.length - 1} onClick={() => moveRule(field, index, 1)}>
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => updateRules(field, (current) => current.filter((_, i) => i !== index))}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    )
+  }
+
+  return (
+    <Dialog open={!!store} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Delivery Rules</DialogTitle>
+          <DialogDescription>
+            Where {store?.name || "this store"}'s delivery date and timeslot are read from. Rules are tried top to bottom and
+            the first one that matches wins. A pattern's first capture group (or the whole match) is used.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="delivery-rules-timezone">Timezone</Label>
+            <Input
+              id="delivery-rules-timezone"
+              className="w-64"
+              placeholder="Asia/Singapore"
+              value={rules.timezone}
+              onChange={(e) => setRules((current) => ({ ...current, timezone: e.target.value }))}
+            />
+            <p className="text-xs text-muted-foreground">Timestamps read with the "iso" format are converted to a date in this timezone.</p>
+          </div>
+
+          {renderRules("deliveryDate")}
+          {renderRules("timeslot")}
+
+          {errors.length > 0 && (
+            <Alert variant="destructive">
+              <AlertDescription>
+                {errors.map((error) => (
+                  <div key={error}>{error}</div>
+                ))}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <Separator />
+
+          <div className="space-y-2">
+            <Label>Test against a sample order</Label>
+            <Input
+              placeholder="Shopify order number, e.g. #WF12345"
+              value={sampleOrderName}
+              onChange={(e) => setSampleOrderName(e.target.value)}
+            />
+            <Textarea
+              className="font-mono text-xs"
+              rows={4}
+              placeholder="...or paste an order's JSON (REST or GraphQL)"
+              disabled={!!sampleOrderName.trim()}
+              value={sampleOrderJson}
+              onChange={(e) => setSampleOrderJson(e.target.value)}
+            />
+            <Button
+              variant="outline"
+              onClick={handleTest}
+              disabled={isTesting || errors.length > 0 || (!sampleOrderName.trim() && !sampleOrderJson.trim())}
+            >
+              <TestTube className="mr-2 h-4 w-4" />
+              {isTesting ? "Testing..." : "Test Rules"}
+            </Button>
+
+            {preview && (
+              <div className="space-y-2 rounded-md border p-3 text-sm">
+                {preview.orderName && <div className="font-medium">{preview.orderName}</div>}
+                <div className="flex flex-wrap gap-4">
+                  <span>Delivery date: {preview.deliveryDate ? <Badge>{preview.deliveryDate}</Badge> : <Badge variant="destructive">Not found</Badge>}</span>
+                  <span>Timeslot: {preview.timeslot ? <Badge>{preview.timeslot}</Badge> : <Badge variant="secondary">Not found</Badge>}</span>
+                </div>
+                <ul className="space-y-1 text-xs text-muted-foreground">
+                  {preview.trace.map((step) => (
+                    <li key={`${step.field}-${step.ruleIndex}`}>
+                      {FIELD_LABELS[step.field]} rule {step.ruleIndex + 1} ({SOURCE_LABELS[step.source]}{step.key ? `: ${step.key}` : ""}):{" "}
+                      {step.error
+                        ? `error - ${step.error}`
+                        : step.value
+                          ? `"${step.matched}" -> ${step.value}`
+                          : step.matched
+                            ? `"${step.matched}" didn't parse`
+                            : `no match in ${step.candidates} value${step.candidates === 1 ? "" : "s"}`}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => setRules(DEFAULT_DELIVERY_RULES)}>
+            Reset to Defaults
+          </Button>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || errors.length > 0}>
+            {isSaving ? "Saving..." : "Save Rules"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,199 @@
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card"
+import { Input } from "./ui/input"
+import { Label } from "./ui/label"
+import { getFloristProductivity } from "../services/api"
+import type { FloristProductivitySummary, PrepTimeBreakdown } from "../types"
+
+interface FloristProductivityProps {
+  tenantId: string
+  storeId: string | null
+  isMobileView: boolean
+}
+
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"]
+
+const singaporeDate = (offsetDays = 0) =>
+  new Intl.DateTimeFormat("en-CA", { timeZone: "Asia/Singapore" }).format(new Date(Date.now() + offsetDays * 86400000))
+
+const formatMinutes = (minutes: number | null): string => {
+  if (minutes === null) return "N/A"
+  const rounded = Math.round(minutes)
+  const hours = Math.floor(rounded / 60)
+  return hours > 0 ? `${hours}h ${rounded % 60}m` : `${rounded}m`
+}
+
+// Throughput, prep time and completion heatmap from card status transitions, over a date range
+export function FloristProductivity({ tenantId, storeId, isMobileView }: FloristProductivityProps) {
+  const [from, setFrom] = useState(() => singaporeDate(-6))
+  const [to, setTo] = useState(() => singaporeDate())
+  const [summary, setSummary] = useState<FloristProductivitySummary | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!from || !to) return
+    let cancelled = false
+    setLoading(true)
+    setError(null)
+    getFloristProductivity(tenantId, { from, to }, storeId)
+      .then((data) => !cancelled && setSummary(data))
+      .catch((err) => {
+        console.error("Error loading florist productivity:", err)
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load productivity data")
+      })
+      .finally(() => !cancelled && setLoading(false))
+    return () => {
+      cancelled = true
+    }
+  }, [tenantId, storeId, from, to])
+
+  const heatmapMax = Math.max(1, ...(summary?.heatmap.map((cell) => cell.completed) || []))
+  const heatmapCount = (day: number, hour: number) =>
+    summary?.heatmap.find((cell) => cell.day === day && cell.hour === hour)?.completed || 0
+
+  const renderBreakdown = (title: string, rows: PrepTimeBreakdown[]) => (
+    <div>
+      <div className={`font-medium text-gray-600 mb-2 ${isMobileView ? "text-xs" : "text-sm"}`}>{title}</div>
+      {rows.length === 0 ? (
+        <div className="text-xs text-gray-400">No completed cards</div>
+      ) : (
+        <div className="space-y-1">
+          {rows.map((row) => (
+            <div key={row.key} className="flex justify-between text-xs">
+              <span className="text-gray-900">{row.key}</span>
+              <span className="text-gray-500">
+                {formatMinutes(row.medianPrepMinutes)} median • {row.completedCards} cards
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+
+  return (
+    <Card>
+      <CardHeader className={`${isMobileView ? "pb-2" : ""}`}>
+        <div className={`flex justify-between ${isMobileView ? "flex-col gap-2" : "items-center"}`}>
+          <CardTitle className={`${isMobileView ? "text-base" : ""}`}>Florist Productivity</CardTitle>
+          <div className="flex items-center gap-2">
+            <Label htmlFor="productivity-from" className="text-xs text-gray-500">
+              From
+            </Label>
+            <Input
+              id="productivity-from"
+              type="date"
+              className="h-8 w-[150px] text-sm"
+              value={from}
+              max={to}
+              onChange={(e) => setFrom(e.target.value)}
+            />
+            <Label htmlFor="productivity-to" className="text-xs text-gray-500">
+              To
+            </Label>
+            <Input
+              id="productivity-to"
+              type="date"
+              className="h-8 w-[150px] text-sm"
+              value={to}
+              min={from}
+              onChange={(e) => setTo(e.target.value)}
+            />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className={`space-y-6 ${isMobileView ? "pt-0" : ""}`}>
+        {loading && !summary && <div className="text-center py-8 text-sm text-gray-500">Loading productivity...</div>}
+        {error && <div className="text-center py-4 text-sm text-red-600">{error}</div>}
+
+        {summary && (
+          <>
+            <div className="text-xs text-gray-500">
+              {summary.completedCards} cards completed • {formatMinutes(summary.medianPrepMinutes)} median prep time
+              {loading && " • Updating..."}
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-2 px-3 font-medium text-gray-600">Florist</th>
+                    <th className="text-left py-2 px-3 font-medium text-gray-600">Completed</th>
+                    <th className="text-left py-2 px-3 font-medium text-gray-600">Per Active Day</th>
+                    <th className="text-left py-2 px-3 font-medium text-gray-600">Median Prep</th>
+                    {!isMobileView && <th className="text-left py-2 px-3 font-medium text-gray-600">Avg. Prep</th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {summary.florists.map((florist) => (
+                    <tr key={florist.floristId} className="border-b border-gray-100 hover:bg-gray-50">
+                      <td className="py-2 px-3 font-medium text-gray-900">{florist.floristName}</td>
+                      <td className="py-2 px-3">{florist.completedCards}</td>
+                      <td className="py-2 px-3">
+                        {florist.cardsPerActiveDay}
+                        <span className="text-xs text-gray-400"> over {florist.activeDays}d</span>
+                      </td>
+                      <td className="py-2 px-3">{formatMinutes(florist.medianPrepMinutes)}</td>
+                      {!isMobileView && <td className="py-2 px-3">{formatMinutes(florist.averagePrepMinutes)}</td>}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {summary.florists.length === 0 && (
+                <div className="text-center py-6 text-gray-500">No cards completed in this range</div>
+              )}
+            </div>
+
+            <div className={`grid gap-6 ${isMobileView ? "grid-cols-1" : "grid-cols-2"}`}>
+              {renderBreakdown("Median Prep Time by Product Type", summary.prepTimeByProductType)}
+              {renderBreakdown("Median Prep Time by Difficulty", summary.prepTimeByDifficulty)}
+            </div>
+
+            <div>
+              <div className={`font-medium text-gray-600 mb-2 ${isMobileView ? "text-xs" : "text-sm"}`}>
+                Completions by Hour ({summary.timezone})
+              </div>
+              <div className="overflow-x-auto">
+                <table className="border-separate border-spacing-0.5 text-[10px]">
+                  <thead>
+                    <tr>
+                      <th />
+                      {Array.from({ length: 24 }, (_, hour) => (
+                        <th key={hour} className="w-5 font-normal text-gray-400">
+                          {hour % 3 === 0 ? hour : ""}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {WEEKDAYS.map((weekday, day) => (
+                      <tr key={weekday}>
+                        <td className="pr-2 text-gray-500">{weekday}</td>
+                        {Array.from({ length: 24 }, (_, hour) => {
+                          const count = heatmapCount(day, hour)
+                          return (
+                            <td
+                              key={hour}
+                              className="h-5 w-5 rounded-sm"
+                              style={{
+                                backgroundColor: count
+                                  ? `rgba(16, 185, 129, ${0.15 + (0.85 * count) / heatmapMax})`
+                                  : "#f3f4f6",
+                              }}
+                              title={`${weekday} ${String(hour).padStart(2, "0")}:00 - ${count} completed`}
+                            />
+                          )
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,90 @@
+import { useState } from "react"
+import { Link } from "react-router-dom"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { requestPasswordReset } from "../services/api"
+
+export function ForgotPassword() {
+  const [email, setEmail] = useState("")
+  const [tenantDomain, setTenantDomain] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+  const [sent, setSent] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      await requestPasswordReset(email, tenantDomain)
+      setSent(true)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl font-bold text-green-700">Reset Password</CardTitle>
+          <CardDescription>We'll email you a link to choose a new password</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {sent ? (
+            <Alert>
+              <AlertDescription>
+                If there's an account for {email} at {tenantDomain}, a reset link is on its way. It expires in 1 hour.
+              </AlertDescription>
+            </Alert>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="tenantDomain">Tenant Domain</Label>
+                <Input
+                  id="tenantDomain"
+                  type="text"
+                  value={tenantDomain}
+                  onChange={(e) => setTenantDomain(e.target.value)}
+                  placeholder="e.g., my-florist"
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="email">Email</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="Enter your email"
+                  required
+                />
+              </div>
+              {error && (
+                <Alert variant="destructive">
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+              <Button type="submit" className="w-full bg-green-600 hover:bg-green-700" disabled={isLoading}>
+                {isLoading ? "Sending..." : "Send Reset Link"}
+              </Button>
+            </form>
+          )}
+
+          <div className="mt-4 text-center">
+            <Link to="/login" className="text-sm text-green-700 hover:underline">
+              Back to sign in
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
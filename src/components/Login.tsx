@@ -1,12 +1,20 @@
 import { useState, useEffect } from "react"
-import { useNavigate } from "react-router-dom"
+import { Link, useLocation, useNavigate } from "react-router-dom"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { useAuth } from "../contexts/AuthContext"
-import { register } from "../services/api"
+import { ApiError, register, resendVerificationEmail, startTwoFactorSetup } from "../services/api"
+import { RecoveryCodes, TwoFactorCodeInput, TwoFactorSetup } from "./TwoFactorSetup"
+import type { TwoFactorChallenge, TwoFactorSetup as TwoFactorSetupDetails } from "../types"
+
+const LOGIN_ERRORS: Record<string, string> = {
+  EMAIL_NOT_VERIFIED: "Please confirm your email address using the link we sent you.",
+  ACCOUNT_LOCKED: "Too many failed sign-ins. This account is locked for a few minutes.",
+  LOGIN_RATE_LIMITED: "Too many sign-in attempts. Please wait a few minutes and try again.",
+}
 
 export function Login() {
   const [isRegistering, setIsRegistering] = useState(false)
@@ -17,20 +25,88 @@ export function Login() {
   const [tenantName, setTenantName] = useState("")
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  const { login, isAuthenticated } = useAuth()
+  const [notice, setNotice] = useState<string | null>(null)
+  const [needsVerification, setNeedsVerification] = useState(false)
+  // The second step, after a correct password here or on the set-password page
+  const location = useLocation()
+  const [twoFactor, setTwoFactor] = useState<TwoFactorChallenge | null>(
+    (location.state as { twoFactor?: TwoFactorChallenge } | null)?.twoFactor || null
+  )
+  const [twoFactorSetup, setTwoFactorSetup] = useState<TwoFactorSetupDetails | null>(null)
+  const [code, setCode] = useState("")
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const { login, completeTwoFactor, isAuthenticated } = useAuth()
   const navigate = useNavigate()
 
-  // Redirect if already authenticated
+  // Redirect if already authenticated; a sign-in that set up two-factor shows its recovery codes first
   useEffect(() => {
-    if (isAuthenticated) {
+    if (isAuthenticated && !twoFactor) {
       navigate("/orders")
     }
-  }, [isAuthenticated, navigate])
+  }, [isAuthenticated, twoFactor, navigate])
+
+  // A sign-in that requires two-factor setup starts with a new secret
+  useEffect(() => {
+    if (twoFactor?.mode !== "enroll" || twoFactorSetup) return
+    startTwoFactorSetup(twoFactor.challengeToken)
+      .then(setTwoFactorSetup)
+      .catch(() => restartSignIn("This sign-in has expired. Please sign in again."))
+  }, [twoFactor, twoFactorSetup])
+
+  const restartSignIn = (message: string | null = null) => {
+    setTwoFactor(null)
+    setTwoFactorSetup(null)
+    setCode("")
+    setUseRecoveryCode(false)
+    setPassword("")
+    setError(message)
+  }
+
+  const handleTwoFactorError = (err: unknown) => {
+    if (err instanceof ApiError && err.code === "TWO_FACTOR_CHALLENGE_EXPIRED") {
+      restartSignIn("This sign-in has expired. Please sign in again.")
+    } else if (err instanceof ApiError && err.code === "ACCOUNT_LOCKED") {
+      restartSignIn(LOGIN_ERRORS.ACCOUNT_LOCKED)
+    } else {
+      setError(err instanceof Error ? err.message : "An error occurred")
+    }
+  }
+
+  const handleVerifyCode = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!twoFactor) return
+    setIsLoading(true)
+    setError(null)
+    try {
+      await completeTwoFactor(twoFactor, code)
+      navigate("/orders")
+    } catch (err) {
+      setCode("")
+      handleTwoFactorError(err)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleEnrol = async (enrolCode: string) => {
+    if (!twoFactor) return
+    setError(null)
+    try {
+      const result = await completeTwoFactor(twoFactor, enrolCode)
+      setRecoveryCodes(result.recoveryCodes || [])
+    } catch (err) {
+      handleTwoFactorError(err)
+      throw err
+    }
+  }
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setIsLoading(true)
     setError(null)
+    setNotice(null)
+    setNeedsVerification(false)
 
     try {
       if (isRegistering) {
@@ -44,18 +120,10 @@ export function Login() {
         })
 
         if (result.success) {
-          // Auto-login after successful registration
-          const loginResult = await login({
-            email,
-            password,
-            tenantDomain,
-          })
-
-          if (loginResult.success) {
-            navigate("/orders")
-          } else {
-            setError("Registration successful but login failed. Please try logging in.")
-          }
+          // They can sign in once they've followed the link in the confirmation email
+          setIsRegistering(false)
+          setPassword("")
+          setNotice(result.message || "Check your email to confirm your address, then sign in.")
         } else {
           setError(result.error || "Registration failed")
         }
@@ -69,6 +137,11 @@ export function Login() {
 
         if (result.success) {
           navigate("/orders")
+        } else if (result.twoFactor) {
+          setTwoFactor(result.twoFactor)
+        } else if (result.code && LOGIN_ERRORS[result.code]) {
+          setNeedsVerification(result.code === "EMAIL_NOT_VERIFIED")
+          setError(LOGIN_ERRORS[result.code])
         } else {
           setError("Login failed. Please check your credentials.")
         }
@@ -82,6 +155,19 @@ export function Login() {
 
   const clearError = () => {
     setError(null)
+    setNotice(null)
+    setNeedsVerification(false)
+  }
+
+  const handleResendVerification = async () => {
+    try {
+      await resendVerificationEmail(email, tenantDomain)
+      setNeedsVerification(false)
+      setError(null)
+      setNotice("We've sent you a new confirmation link.")
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to resend the confirmation email")
+    }
   }
 
   return (
@@ -90,124 +176,216 @@ export function Login() {
         <CardHeader className="text-center">
           <CardTitle className="text-2xl font-bold text-green-700">Florist Dashboard</CardTitle>
           <CardDescription>
-            {isRegistering ? "Create your account" : "Sign in to manage your daily orders"}
+            {twoFactor?.mode === "verify"
+              ? "Two-factor authentication"
+              : twoFactor
+                ? "Your shop requires two-factor authentication - set it up to continue"
+                : isRegistering
+                  ? "Create your account"
+                  : "Sign in to manage your daily orders"}
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <form onSubmit={handleSubmit} className="space-y-4">
-            {isRegistering && (
+          {twoFactor ? (
+            <div className="space-y-4">
+              {recoveryCodes ? (
+                <>
+                  <RecoveryCodes codes={recoveryCodes} />
+                  <Button className="w-full bg-green-600 hover:bg-green-700" onClick={() => navigate("/orders")}>
+                    I've Saved My Codes
+                  </Button>
+                </>
+              ) : twoFactor.mode === "enroll" ? (
+                twoFactorSetup ? (
+                  <TwoFactorSetup setup={twoFactorSetup} onConfirm={handleEnrol} />
+                ) : (
+                  <p className="text-center text-sm text-gray-500">Preparing your setup key...</p>
+                )
+              ) : (
+                <form onSubmit={handleVerifyCode} className="space-y-4">
+                  {useRecoveryCode ? (
+                    <div className="space-y-2">
+                      <Label htmlFor="recoveryCode">Recovery Code</Label>
+                      <Input
+                        id="recoveryCode"
+                        value={code}
+                        onChange={(e) => setCode(e.target.value)}
+                        placeholder="xxxxx-xxxxx"
+                        autoComplete="off"
+                        autoFocus
+                        required
+                      />
+                    </div>
+                  ) : (
+                    <div className="space-y-2">
+                      <Label>Enter the 6-digit code from your authenticator app</Label>
+                      <TwoFactorCodeInput value={code} onChange={setCode} disabled={isLoading} />
+                    </div>
+                  )}
+                  <Button type="submit" className="w-full bg-green-600 hover:bg-green-700" disabled={isLoading || !code}>
+                    {isLoading ? "Verifying..." : "Verify"}
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="link"
+                    className="w-full text-sm"
+                    onClick={() => {
+                      setUseRecoveryCode(!useRecoveryCode)
+                      setCode("")
+                    }}
+                  >
+                    {useRecoveryCode ? "Use a code from your app instead" : "Lost your phone? Use a recovery code"}
+                  </Button>
+                </form>
+              )}
+              {error && (
+                <Alert variant="destructive">
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+              {!recoveryCodes && (
+                <Button type="button" variant="link" className="w-full text-sm" onClick={() => restartSignIn()}>
+                  Back to sign in
+                </Button>
+              )}
+            </div>
+          ) : (
+            <>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {isRegistering && (
+                <div className="space-y-2">
+                  <Label htmlFor="name">Full Name</Label>
+                  <Input
+                    id="name"
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="Enter your full name"
+                    required={isRegistering}
+                  />
+                </div>
+              )}
               <div className="space-y-2">
-                <Label htmlFor="name">Full Name</Label>
+                <Label htmlFor="tenantDomain">Tenant Domain {!isRegistering && "(Optional)"}</Label>
                 <Input
-                  id="name"
+                  id="tenantDomain"
                   type="text"
-                  value={name}
-                  onChange={(e) => setName(e.target.value)}
-                  placeholder="Enter your full name"
+                  value={tenantDomain}
+                  onChange={(e) => setTenantDomain(e.target.value)}
+                  placeholder="e.g., my-florist"
                   required={isRegistering}
                 />
               </div>
-            )}
-            <div className="space-y-2">
-              <Label htmlFor="tenantDomain">Tenant Domain {!isRegistering && "(Optional)"}</Label>
-              <Input
-                id="tenantDomain"
-                type="text"
-                value={tenantDomain}
-                onChange={(e) => setTenantDomain(e.target.value)}
-                placeholder="e.g., my-florist"
-                required={isRegistering}
-              />
-            </div>
-            {isRegistering && (
+              {isRegistering && (
+                <div className="space-y-2">
+                  <Label htmlFor="tenantName">Business Name (Optional)</Label>
+                  <Input
+                    id="tenantName"
+                    type="text"
+                    value={tenantName}
+                    onChange={(e) => setTenantName(e.target.value)}
+                    placeholder="e.g., My Florist Shop"
+                  />
+                </div>
+              )}
               <div className="space-y-2">
-                <Label htmlFor="tenantName">Business Name (Optional)</Label>
+                <Label htmlFor="email">Email</Label>
                 <Input
-                  id="tenantName"
-                  type="text"
-                  value={tenantName}
-                  onChange={(e) => setTenantName(e.target.value)}
-                  placeholder="e.g., My Florist Shop"
+                  id="email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="Enter your email"
+                  required
                 />
               </div>
-            )}
-            <div className="space-y-2">
-              <Label htmlFor="email">Email</Label>
-              <Input
-                id="email"
-                type="email"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                placeholder="Enter your email"
-                required
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="password">Password</Label>
-              <Input
-                id="password"
-                type="password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                placeholder="Enter your password"
-                required
-              />
-            </div>
-            {error && (
-              <Alert variant="destructive">
-                <AlertDescription>{error}</AlertDescription>
-              </Alert>
-            )}
-            <Button
-              type="submit"
-              className="w-full bg-green-600 hover:bg-green-700"
-              disabled={isLoading}
-            >
-              {isLoading
-                ? isRegistering
-                  ? "Creating Account..."
-                  : "Signing in..."
-                : isRegistering
-                  ? "Create Account"
-                  : "Sign In"}
-            </Button>
-          </form>
-
-          <div className="mt-4 text-center">
-            <Button
-              variant="link"
-              onClick={() => {
-                setIsRegistering(!isRegistering)
-                clearError()
-                setEmail("")
-                setPassword("")
-                setName("")
-                setTenantDomain("")
-                setTenantName("")
-              }}
-              className="text-sm"
-            >
-              {isRegistering
-                ? "Already have an account? Sign in"
-                : "Don't have an account? Register"}
-            </Button>
-          </div>
-
-          {!isRegistering && (
-            <div className="mt-6 p-4 bg-blue-50 rounded-lg">
-              <p className="text-sm font-medium text-blue-900 mb-2">Demo Credentials:</p>
-              <div className="text-xs text-blue-700 space-y-1">
-                <p>
-                  <strong>Tenant:</strong> test-florist
-                </p>
-                <p>
-                  <strong>Admin:</strong> admin@test-florist.com
-                </p>
-                <p>
-                  <strong>Password:</strong> password
-                </p>
+              <div className="space-y-2">
+                <Label htmlFor="password">Password</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="Enter your password"
+                  required
+                />
               </div>
+              {!isRegistering && (
+                <div className="text-right">
+                  <Link to="/forgot-password" className="text-sm text-green-700 hover:underline">
+                    Forgot password?
+                  </Link>
+                </div>
+              )}
+              {notice && (
+                <Alert>
+                  <AlertDescription>{notice}</AlertDescription>
+                </Alert>
+              )}
+              {error && (
+                <Alert variant="destructive">
+                  <AlertDescription>
+                    {error}
+                    {needsVerification && (
+                      <Button type="button" variant="link" className="h-auto p-0 ml-1" onClick={handleResendVerification}>
+                        Resend email
+                      </Button>
+                    )}
+                  </AlertDescription>
+                </Alert>
+              )}
+              <Button
+                type="submit"
+                className="w-full bg-green-600 hover:bg-green-700"
+                disabled={isLoading}
+              >
+                {isLoading
+                  ? isRegistering
+                    ? "Creating Account..."
+                    : "Signing in..."
+                  : isRegistering
+                    ? "Create Account"
+                    : "Sign In"}
+              </Button>
+            </form>
+
+            <div className="mt-4 text-center">
+              <Button
+                variant="link"
+                onClick={() => {
+                  setIsRegistering(!isRegistering)
+                  clearError()
+                  setEmail("")
+                  setPassword("")
+                  setName("")
+                  setTenantDomain("")
+                  setTenantName("")
+                }}
+                className="text-sm"
+              >
+                {isRegistering
+                  ? "Already have an account? Sign in"
+                  : "Don't have an account? Register"}
+              </Button>
             </div>
+
+            {!isRegistering && (
+              <div className="mt-6 p-4 bg-blue-50 rounded-lg">
+                <p className="text-sm font-medium text-blue-900 mb-2">Demo Credentials:</p>
+                <div className="text-xs text-blue-700 space-y-1">
+                  <p>
+                    <strong>Tenant:</strong> test-florist
+                  </p>
+                  <p>
+                    <strong>Admin:</strong> admin@test-florist.com
+                  </p>
+                  <p>
+                    <strong>Password:</strong> password
+                  </p>
+                </div>
+              </div>
+            )}
+            </>
           )}
         </CardContent>
       </Card>
@@ -0,0 +1,172 @@
+import React, { useEffect, useState } from "react"
+import { Button } from "./ui/button"
+import { Label } from "./ui/label"
+import { RadioGroup, RadioGroupItem } from "./ui/radio-group"
+import { AlertTriangle } from "lucide-react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog"
+
+export type CardStatus = 'unassigned' | 'assigned' | 'completed'
+
+export interface CardStateSnapshot {
+  status: CardStatus
+  assignedTo: string | null
+  notes: string
+}
+
+// Server copy returned in the 409 body of PUT /order-card-states/:cardId
+export interface ServerCardState extends CardStateSnapshot {
+  version: number
+  updatedAt?: string
+  assignedBy?: string | null
+}
+
+type AssignmentChoice = 'mine' | 'theirs'
+type NotesChoice = 'mine' | 'theirs' | 'both'
+
+interface OrderCardConflictDialogProps {
+  isOpen: boolean
+  productTitle?: string
+  localState: CardStateSnapshot
+  serverState: ServerCardState
+  onResolve: (resolved: CardStateSnapshot) => void // Save the merged state over the server copy
+  onUseServer: () => void // Discard local changes and adopt the server copy
+}
+
+const describeAssignment = (state: CardStateSnapshot) => {
+  if (state.status === 'unassigned') return 'Unassigned'
+  const who = state.assignedTo || 'someone'
+  return state.status === 'completed' ? `Completed by ${who}` : `Assigned to ${who}`
+}
+
+const mergeNotes = (mine: string, theirs: string) => {
+  if (!mine.trim()) return theirs
+  if (!theirs.trim()) return mine
+  if (theirs.includes(mine)) return theirs
+  if (mine.includes(theirs)) return mine
+  return `${theirs}\n${mine}`
+}
+
+export const OrderCardConflictDialog: React.FC<OrderCardConflictDialogProps> = ({
+  isOpen,
+  productTitle,
+  localState,
+  serverState,
+  onResolve,
+  onUseServer,
+}) => {
+  const [assignmentChoice, setAssignmentChoice] = useState<AssignmentChoice>('mine')
+  const [notesChoice, setNotesChoice] = useState<NotesChoice>('both')
+
+  const assignmentDiffers =
+    localState.status !== serverState.status || (localState.assignedTo || null) !== (serverState.assignedTo || null)
+  const notesDiffer = (localState.notes || '') !== (serverState.notes || '')
+
+  // Reset choices whenever a new conflict is shown
+  useEffect(() => {
+    if (isOpen) {
+      setAssignmentChoice('mine')
+      setNotesChoice('both')
+    }
+  }, [isOpen, serverState.version])
+
+  const handleApply = () => {
+    const assignmentSource = assignmentChoice === 'mine' ? localState : serverState
+    let notes = serverState.notes || ''
+    if (notesChoice === 'mine') notes = localState.notes || ''
+    if (notesChoice === 'both') notes = mergeNotes(localState.notes || '', serverState.notes || '')
+
+    onResolve({
+      status: assignmentSource.status,
+      assignedTo: assignmentSource.assignedTo || null,
+      notes,
+    })
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onUseServer()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-amber-500" />
+            This card was changed by someone else
+          </DialogTitle>
+          <DialogDescription>
+            {productTitle ? `${productTitle} was` : 'This card was'} updated
+            {serverState.assignedBy ? ` by ${serverState.assignedBy}` : ''} while you were editing.
+            Choose what to keep.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {assignmentDiffers && (
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Status</Label>
+              <RadioGroup value={assignmentChoice} onValueChange={(value) => setAssignmentChoice(value as AssignmentChoice)}>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="mine" id="conflict-assignment-mine" />
+                  <Label htmlFor="conflict-assignment-mine" className="text-sm font-normal">
+                    Mine: {describeAssignment(localState)}
+                  </Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="theirs" id="conflict-assignment-theirs" />
+                  <Label htmlFor="conflict-assignment-theirs" className="text-sm font-normal">
+                    Theirs: {describeAssignment(serverState)}
+                  </Label>
+                </div>
+              </RadioGroup>
+            </div>
+          )}
+
+          {notesDiffer && (
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Notes</Label>
+              <RadioGroup value={notesChoice} onValueChange={(value) => setNotesChoice(value as NotesChoice)}>
+                <div className="flex items-start gap-2">
+                  <RadioGroupItem value="mine" id="conflict-notes-mine" className="mt-0.5" />
+                  <Label htmlFor="conflict-notes-mine" className="text-sm font-normal whitespace-pre-wrap">
+                    Mine: {localState.notes || <span className="italic text-gray-500">empty</span>}
+                  </Label>
+                </div>
+                <div className="flex items-start gap-2">
+                  <RadioGroupItem value="theirs" id="conflict-notes-theirs" className="mt-0.5" />
+                  <Label htmlFor="conflict-notes-theirs" className="text-sm font-normal whitespace-pre-wrap">
+                    Theirs: {serverState.notes || <span className="italic text-gray-500">empty</span>}
+                  </Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="both" id="conflict-notes-both" />
+                  <Label htmlFor="conflict-notes-both" className="text-sm font-normal">
+                    Keep both
+                  </Label>
+                </div>
+              </RadioGroup>
+            </div>
+          )}
+
+          {!assignmentDiffers && !notesDiffer && (
+            <p className="text-sm text-gray-600">
+              The other change matches yours - saving again will keep it.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onUseServer}>
+            Use theirs
+          </Button>
+          <Button onClick={handleApply}>
+            Save merged
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
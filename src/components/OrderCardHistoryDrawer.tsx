@@ -0,0 +1,145 @@
+import React, { useEffect, useState } from "react"
+import { Badge } from "./ui/badge"
+import { ScrollArea } from "./ui/scroll-area"
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "./ui/sheet"
+import { History, Monitor, ShoppingBag, Smartphone } from "lucide-react"
+import { getOrderCardHistory } from "../services/api"
+import type { OrderCardEvent } from "../types"
+
+interface OrderCardHistoryDrawerProps {
+  isOpen: boolean
+  onClose: () => void
+  tenantId?: string
+  cardId: string
+  productTitle?: string
+}
+
+const ACTION_LABELS: Record<OrderCardEvent["action"], string> = {
+  update: "Updated",
+  bulk_update: "Bulk update",
+  reorder: "Reordered",
+  reset_sort: "Sort reset",
+  shopify_sync: "Shopify update",
+  handoff: "Handed to delivery",
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  status: "Status",
+  assignedTo: "Assigned to",
+  notes: "Notes",
+  sortOrder: "Position",
+  deliveryDate: "Delivery date",
+}
+
+// order_card_events.created_at is SQLite CURRENT_TIMESTAMP (UTC, no zone suffix)
+const formatEventTime = (createdAt: string) => {
+  const date = new Date(createdAt.includes("T") ? createdAt : `${createdAt.replace(" ", "T")}Z`)
+  return isNaN(date.getTime()) ? createdAt : date.toLocaleString()
+}
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "—"
+  return String(value)
+}
+
+export const OrderCardHistoryDrawer: React.FC<OrderCardHistoryDrawerProps> = ({
+  isOpen,
+  onClose,
+  tenantId,
+  cardId,
+  productTitle,
+}) => {
+  const [events, setEvents] = useState<OrderCardEvent[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!isOpen || !tenantId) return
+
+    let cancelled = false
+    setLoading(true)
+    setError(null)
+
+    getOrderCardHistory(tenantId, cardId)
+      .then(result => {
+        if (!cancelled) setEvents(result)
+      })
+      .catch(err => {
+        console.error("[CARD-HISTORY] Failed to load history:", err)
+        if (!cancelled) setError("Could not load history for this card")
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [isOpen, tenantId, cardId])
+
+  return (
+    <Sheet open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent side="right" className="w-full sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Card history
+          </SheetTitle>
+          <SheetDescription>
+            {productTitle || cardId}
+          </SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="h-[calc(100vh-8rem)] px-4 pb-4">
+          {loading && <p className="text-sm text-gray-500 py-4">Loading history...</p>}
+          {error && <p className="text-sm text-red-600 py-4">{error}</p>}
+          {!loading && !error && events.length === 0 && (
+            <p className="text-sm text-gray-500 py-4">No changes recorded for this card yet.</p>
+          )}
+
+          <ol className="space-y-3">
+            {events.map(event => (
+              <li key={event.id} className="border-l-2 border-gray-200 pl-3">
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="font-medium">{event.actorName || "Unknown User"}</span>
+                  <Badge variant="outline" className="text-xs">
+                    {ACTION_LABELS[event.action] || event.action}
+                  </Badge>
+                  {event.clientType === "Shopify" ? (
+                    <ShoppingBag className="h-3 w-3 text-gray-400" />
+                  ) : event.clientType === "Mobile" ? (
+                    <Smartphone className="h-3 w-3 text-gray-400" />
+                  ) : (
+                    <Monitor className="h-3 w-3 text-gray-400" />
+                  )}
+                </div>
+                <p className="text-xs text-gray-500">{formatEventTime(event.createdAt)}</p>
+
+                {event.changes.length > 0 ? (
+                  <ul className="mt-1 space-y-0.5">
+                    {event.changes.map(change => (
+                      <li key={change.field} className="text-xs text-gray-700">
+                        <span className="font-medium">{FIELD_LABELS[change.field] || change.field}:</span>{" "}
+                        <span className="line-through text-gray-400">{formatValue(change.from)}</span>
+                        {" → "}
+                        <span>{formatValue(change.to)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                ) : event.action !== "handoff" && (
+                  <p className="mt-1 text-xs text-gray-400">No field changes</p>
+                )}
+              </li>
+            ))}
+          </ol>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  )
+}
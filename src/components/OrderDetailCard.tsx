@@ -16,10 +16,15 @@ import {
   UserCheck,
   Eye,
   Trash2,
+  History,
 } from "lucide-react"
 import { OrderCardField } from "../types/orderCardFields"
 import { useAuth } from "../contexts/AuthContext"
 import { ProductImageModal } from "./shared/ProductImageModal"
+import { OrderCardConflictDialog, CardStateSnapshot, ServerCardState } from "./OrderCardConflictDialog"
+import { OrderCardHistoryDrawer } from "./OrderCardHistoryDrawer"
+import { getConflict, hasPendingUpdate, isOfflineError, queueCardUpdate, resolveConflict, subscribeToOutbox, type OutboxConflict } from "../services/cardOutbox"
+import { toast } from "sonner"
 
 // Simple debounce utility
 const debounce = (func: Function, wait: number) => {
@@ -69,13 +74,15 @@ export const OrderDetailCard: React.FC<OrderDetailCardProps> = ({
   }, [isExpanded, order]);
 
   const [expanded, setExpanded] = useState(isExpanded)
-  const [status, setStatus] = useState<'unassigned' | 'assigned' | 'completed'>(
+  // in_progress is set from the mobile scan mode; the board shows it as an assigned card being worked on
+  const [status, setStatus] = useState<'unassigned' | 'assigned' | 'in_progress' | 'completed'>(
     order.status || 'unassigned'
   )
   const [notes, setNotes] = useState(order.notes || "")
   const [isImageModalOpen, setIsImageModalOpen] = useState(false)
   const [isSaving, setIsSaving] = useState(false)
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false)
   
   // Swipe gesture state
   const [swipeOffset, setSwipeOffset] = useState(0)
@@ -90,10 +97,14 @@ export const OrderDetailCard: React.FC<OrderDetailCardProps> = ({
   // ENHANCED: Track save timing
   const lastSaveTimeRef = useRef<number>(0)
 
+  // Version of the card state we last saw - sent as If-Match so stale saves come back as 409
+  const versionRef = useRef<number | undefined>(order.version)
+  const [conflict, setConflict] = useState<{ local: CardStateSnapshot; server: ServerCardState } | null>(null)
+
   const { user, tenant } = useAuth()
 
   // FORTIFIED: Auto-save function with better error handling and logging
-  const saveCardState = async (newStatus?: string, newNotes?: string) => {
+  const saveCardState = async (newStatus?: string, newNotes?: string, assignedToOverride?: string | null) => {
     if (!tenant?.id || !deliveryDate) {
       console.warn('[CARD-SAVE-FORTIFIED] Missing tenant ID or delivery date, skipping save')
       return
@@ -108,7 +119,10 @@ export const OrderDetailCard: React.FC<OrderDetailCardProps> = ({
     const finalStatus = newStatus || status
     // FORTIFIED: Better assignment logic
     const shouldAssign = finalStatus === 'assigned' || finalStatus === 'completed'
-    const assignedToUser = shouldAssign ? (user?.name || user?.email || 'Unknown User') : null
+    const assignedToUser = assignedToOverride !== undefined
+      ? assignedToOverride
+      : shouldAssign ? (user?.name || user?.email || 'Unknown User') : null
+    const finalNotes = newNotes !== undefined ? newNotes : notes
 
     // ENHANCED: Track save timing to detect rapid saves
     const saveStartTime = Date.now()
@@ -124,6 +138,31 @@ export const OrderDetailCard: React.FC<OrderDetailCardProps> = ({
       isRapidSave: timeSinceLastSave < 1000 // Less than 1 second
     })
 
+    // OFFLINE: Queue the change to replay on reconnect - also while an earlier queued change is waiting,
+    // so this one can't reach the server ahead of it
+    const queueOffline = async () => {
+      try {
+        await queueCardUpdate({
+          tenantId: tenant.id,
+          cardId,
+          deliveryDate,
+          status: finalStatus,
+          notes: finalNotes || null,
+          assignedTo: assignedToUser,
+          expectedVersion: versionRef.current ?? null
+        })
+        console.log(`[CARD-SAVE-FORTIFIED] Offline - queued change for ${cardId}`)
+        toast.info("Saved offline", { id: "card-outbox-queued", description: "Card changes will sync when the connection is back." })
+      } catch (queueError) {
+        console.error('[CARD-SAVE-FORTIFIED] Failed to queue offline change:', queueError)
+        toast.error("Couldn't save this change offline")
+      }
+    }
+    if (!navigator.onLine || hasPendingUpdate(cardId)) {
+      await queueOffline()
+      return
+    }
+
     setIsSaving(true)
     try {
       console.log(`[CARD-SAVE-FORTIFIED] Saving card ${cardId}:`, {
@@ -134,26 +173,51 @@ export const OrderDetailCard: React.FC<OrderDetailCardProps> = ({
       })
 
       // FORTIFIED: Save to order_card_states table with better payload
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${localStorage.getItem('auth_token')}`
+      }
+      if (versionRef.current !== undefined) {
+        headers['If-Match'] = `"${versionRef.current}"`
+      }
+
       const response = await fetch(`/api/tenants/${tenant.id}/order-card-states/${cardId}`, {
         method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localStorage.getItem('auth_token')}`
-        },
+        headers,
         body: JSON.stringify({
           status: finalStatus,
-          notes: newNotes !== undefined ? newNotes : notes,
+          notes: finalNotes,
           assignedTo: assignedToUser,
           deliveryDate
         })
       })
 
-      if (!response.ok) {
+      if (response.status === 409) {
+        // CONFLICT: Someone else saved this card since we loaded it - let the user merge
+        const body = await response.json()
+        console.warn(`[CARD-SAVE-FORTIFIED] Version conflict for ${cardId}:`, body)
+        if (body.serverState) {
+          setConflict({
+            local: {
+              status: finalStatus as CardStateSnapshot['status'],
+              assignedTo: assignedToUser,
+              notes: finalNotes || ''
+            },
+            server: {
+              ...body.serverState,
+              notes: body.serverState.notes || ''
+            }
+          })
+        }
+      } else if (!response.ok) {
         const errorText = await response.text()
         console.error('[CARD-SAVE-FORTIFIED] Failed to save card state:', errorText)
         throw new Error(`HTTP ${response.status}: ${errorText}`)
       } else {
         const result = await response.json()
+        if (typeof result.version === 'number') {
+          versionRef.current = result.version
+        }
         const saveEndTime = Date.now()
         const saveDuration = saveEndTime - saveStartTime
         console.log(`[CARD-SAVE-FORTIFIED] Saved successfully in ${saveDuration}ms:`, result)
@@ -175,6 +239,9 @@ export const OrderDetailCard: React.FC<OrderDetailCardProps> = ({
     } catch (error) {
       console.error('[CARD-SAVE-FORTIFIED] Error saving card state:', error)
       // Don't throw error to prevent UI breaks, but log it
+      if (isOfflineError(error)) {
+        await queueOffline()
+      }
     } finally {
       setIsSaving(false)
     }
@@ -188,12 +255,80 @@ export const OrderDetailCard: React.FC<OrderDetailCardProps> = ({
     [status, deliveryDate, tenant?.id]
   )
 
+  // A card the board focuses later (e.g. one just scanned) opens up too
+  useEffect(() => {
+    if (isExpanded) setExpanded(true)
+  }, [isExpanded])
+
   // Initialize state from order data - FIXED: Include order.cardId to detect when component gets different order
   useEffect(() => {
     setStatus(order.status || 'unassigned')
     setNotes(order.notes || "")
   }, [order.cardId, order.id, order.status, order.notes])
 
+  // Track newer versions arriving via refresh or real-time updates (never go backwards)
+  useEffect(() => {
+    if (typeof order.version === 'number' && (versionRef.current === undefined || order.version > versionRef.current)) {
+      versionRef.current = order.version
+    }
+  }, [order.version])
+
+  // OFFLINE: Queued changes for this card that got through bump its version; ones that hit a newer
+  // server copy come back here for the user to merge
+  useEffect(() => {
+    if (!tenant?.id) return
+    const cardId = order.cardId || order.id
+    const showQueuedConflict = (queued: OutboxConflict) => {
+      setConflict({
+        local: {
+          status: queued.local.status as CardStateSnapshot['status'],
+          assignedTo: queued.local.assignedTo,
+          notes: queued.local.notes || ''
+        },
+        server: {
+          ...queued.server,
+          status: queued.server.status as CardStateSnapshot['status'],
+          notes: queued.server.notes || ''
+        }
+      })
+    }
+
+    getConflict(tenant.id, cardId).then((queued) => queued && showQueuedConflict(queued)).catch(() => null)
+    return subscribeToOutbox((event) => {
+      if (event.type === 'synced' && event.cardId === cardId && event.version !== null) {
+        versionRef.current = event.version
+      } else if (event.type === 'conflict' && event.conflict.cardId === cardId) {
+        showQueuedConflict(event.conflict)
+      }
+    })
+  }, [tenant?.id, order.cardId, order.id])
+
+  const applyConflictResolution = (resolved: CardStateSnapshot) => {
+    if (!conflict) return
+    versionRef.current = conflict.server.version
+    setConflict(null)
+    if (tenant?.id) resolveConflict(tenant.id, order.cardId || order.id).catch(() => null)
+    setStatus(resolved.status)
+    setNotes(resolved.notes)
+    if (onStatusChange && resolved.status !== status) {
+      onStatusChange(order.cardId || order.id, resolved.status)
+    }
+    saveCardState(resolved.status, resolved.notes, resolved.assignedTo)
+  }
+
+  const adoptServerState = () => {
+    if (!conflict) return
+    const server = conflict.server
+    versionRef.current = server.version
+    setConflict(null)
+    if (tenant?.id) resolveConflict(tenant.id, order.cardId || order.id).catch(() => null)
+    setStatus(server.status)
+    setNotes(server.notes)
+    if (onStatusChange && server.status !== status) {
+      onStatusChange(order.cardId || order.id, server.status)
+    }
+  }
+
   // Auto-resize textarea when content changes or component expands
   useEffect(() => {
     if (textareaRef.current && expanded) {
@@ -483,8 +618,8 @@ export const OrderDetailCard: React.FC<OrderDetailCardProps> = ({
       return order.orderNumber || directOrderValue || 'Unknown Order';
     }
     
-    // For fields that should primarily use direct order properties
-    const directOrderFields = ['productTitle', 'productVariantTitle', 'difficultyLabel', 'assignedTo']
+    // For fields that should primarily use direct order properties (timeslot comes from the store's delivery rules)
+    const directOrderFields = ['productTitle', 'productVariantTitle', 'difficultyLabel', 'assignedTo', 'timeslot']
     
     if (directOrderFields.includes(field.id) && directOrderValue) {
       return directOrderValue
@@ -565,6 +700,7 @@ export const OrderDetailCard: React.FC<OrderDetailCardProps> = ({
     if (isWeddingOrder) {
       switch (status) {
         case "assigned":
+        case "in_progress":
           return "bg-pink-200 border-l-blue-500"
         case "completed":
           return "bg-pink-300 border-l-green-500"
@@ -577,6 +713,7 @@ export const OrderDetailCard: React.FC<OrderDetailCardProps> = ({
     if (isExpressOrder) {
       switch (status) {
         case "assigned":
+        case "in_progress":
           return "bg-yellow-200 border-l-blue-500"
         case "completed":
           return "bg-yellow-300 border-l-green-500"
@@ -588,6 +725,7 @@ export const OrderDetailCard: React.FC<OrderDetailCardProps> = ({
     // Non-express orders use original logic with darker colors
     switch (status) {
       case "assigned":
+      case "in_progress":
         return "bg-blue-100 border-l-blue-500"
       case "completed":
         return "bg-green-100 border-l-green-500"
@@ -618,7 +756,7 @@ export const OrderDetailCard: React.FC<OrderDetailCardProps> = ({
   const isAddOn = order.isAddOn || false
 
   // Get assigned user name
-  const assignedToValue = status === 'assigned' || status === 'completed' ? 
+  const assignedToValue = status !== 'unassigned' ? 
     (order.assignedTo || user?.name || user?.email || 'Unknown User') : null
 
   return (
@@ -626,6 +764,7 @@ export const OrderDetailCard: React.FC<OrderDetailCardProps> = ({
     {/* Swipe Container */}
     <div 
       ref={cardRef}
+      data-card-id={order.cardId}
       className="relative overflow-hidden"
       onMouseDown={handleMouseDown}
       onMouseMove={handleMouseMove}
@@ -656,7 +795,7 @@ export const OrderDetailCard: React.FC<OrderDetailCardProps> = ({
       <Card 
         className={`transition-all duration-200 hover:shadow-md border-l-4 cursor-pointer relative ${
           getCardStatusColor()
-        }`}
+        } ${order.cancelledAt ? 'opacity-60' : ''}`}
         style={{
           transform: `translateX(${swipeOffset}px)`,
           transition: isDragging ? 'none' : 'transform 0.3s ease-out'
@@ -698,6 +837,11 @@ export const OrderDetailCard: React.FC<OrderDetailCardProps> = ({
                     Add-on
                   </Badge>
                 )}
+                {order.cancelledAt && (
+                  <Badge variant="destructive" className="text-xs">
+                    Cancelled in Shopify
+                  </Badge>
+                )}
               </div>
               
               {/* Consolidated Items (Top-Up, Corsage, Boutonniere) - Show below variant title */}
@@ -737,7 +881,7 @@ export const OrderDetailCard: React.FC<OrderDetailCardProps> = ({
                 variant="ghost"
                 size="icon"
                 className={`h-8 w-8 sm:h-10 sm:w-10 rounded-full shadow-md transition-all duration-200 ${
-                  status === 'assigned' 
+                  status === 'assigned' || status === 'in_progress'
                     ? 'bg-blue-500 text-white shadow-lg' 
                     : 'bg-gray-100 text-gray-400 hover:bg-blue-100'
                 }`}
@@ -745,7 +889,7 @@ export const OrderDetailCard: React.FC<OrderDetailCardProps> = ({
                   e.stopPropagation()
                   handleStatusChange('assigned')
                 }}
-                title="Assigned"
+                title={status === 'in_progress' ? "In progress" : "Assigned"}
               >
                 <UserCheck className="h-4 w-4 sm:h-5 sm:w-5" />
               </Button>
@@ -776,12 +920,15 @@ export const OrderDetailCard: React.FC<OrderDetailCardProps> = ({
           </div>
         </div>
 
-        {/* Assigned To Field - Show when status is assigned or completed */}
-        {(status === 'assigned' || status === 'completed') && assignedToValue && (
+        {/* Assigned To Field - Show when status is assigned, in progress or completed */}
+        {assignedToValue && (
           <div className="mt-3 flex items-center gap-2">
             <User className="h-4 w-4 text-muted-foreground flex-shrink-0" />
             <span className="text-xs sm:text-sm font-medium">Assigned To:</span>
             <span className="text-xs sm:text-sm text-muted-foreground">{assignedToValue}</span>
+            {status === 'in_progress' && (
+              <Badge variant="outline" className="text-xs">In progress</Badge>
+            )}
           </div>
         )}
 
@@ -865,6 +1012,18 @@ export const OrderDetailCard: React.FC<OrderDetailCardProps> = ({
               {isSaving && (
                 <p className="text-xs text-gray-500 mt-1">Saving...</p>
               )}
+              <Button
+                variant="ghost"
+                size="sm"
+                className="mt-2 h-7 px-2 text-xs text-gray-600"
+                onClick={(e) => {
+                  e.stopPropagation()
+                  setIsHistoryOpen(true)
+                }}
+              >
+                <History className="h-3 w-3 mr-1" />
+                View history
+              </Button>
             </div>
           </div>
         )}
@@ -881,6 +1040,27 @@ export const OrderDetailCard: React.FC<OrderDetailCardProps> = ({
       tenantId={tenant?.id}
     />
 
+    {/* Audit timeline */}
+    <OrderCardHistoryDrawer
+      isOpen={isHistoryOpen}
+      onClose={() => setIsHistoryOpen(false)}
+      tenantId={tenant?.id}
+      cardId={order.cardId || order.id}
+      productTitle={order.title}
+    />
+
+    {/* Concurrent edit resolution */}
+    {conflict && (
+      <OrderCardConflictDialog
+        isOpen={!!conflict}
+        productTitle={order.title}
+        localState={conflict.local}
+        serverState={conflict.server}
+        onResolve={applyConflictResolution}
+        onUseServer={adoptServerState}
+      />
+    )}
+
     {/* Delete Confirmation Dialog */}
     <AlertDialog open={showDeleteConfirm} onOpenChange={setShowDeleteConfirm}>
       <AlertDialogContent>
@@ -0,0 +1,168 @@
+import React, { useState } from "react"
+import { Button } from "./ui/button"
+import { Label } from "./ui/label"
+import { RadioGroup, RadioGroupItem } from "./ui/radio-group"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "./ui/dialog"
+import { Printer } from "lucide-react"
+import { toast } from "sonner"
+import { getPrintLayout } from "../services/api"
+import type { PrintLayout, PrintPageSize } from "../types"
+
+interface PrintCardsDialogProps {
+  tenantId: string
+  date: string // YYYY-MM-DD, as the board's date picker holds it
+  storeId: string | null
+  visibleCardIds: string[] | null // Cards the board's filters leave showing; null when nothing is filtered
+  open: boolean
+  onClose: () => void
+}
+
+const LAYOUTS: { value: PrintLayout; label: string; description: string }[] = [
+  { value: "job-sheet", label: "Job sheets (A4)", description: "One page per card: message, add-ons, customisations and card details" },
+  { value: "gift-card", label: "Gift cards (A6)", description: "The customer's card message, for cards that have one" },
+  { value: "packing-slip", label: "Packing slips (A5)", description: "One page per order: recipient, items and add-ons to pack" },
+]
+
+const PAGE_SIZES: PrintPageSize[] = ["A4", "A5", "A6", "letter"]
+
+const STATUSES = [
+  { value: "all", label: "Any status" },
+  { value: "unassigned", label: "Unassigned" },
+  { value: "assigned", label: "Assigned" },
+  { value: "in_progress", label: "In progress" },
+  { value: "completed", label: "Completed" },
+]
+
+// Batch printing of the day's cards; each printed page has a QR code that opens its card on the board
+export const PrintCardsDialog: React.FC<PrintCardsDialogProps> = ({ tenantId, date, storeId, visibleCardIds, open, onClose }) => {
+  const [layout, setLayout] = useState<PrintLayout>("job-sheet")
+  const [pageSize, setPageSize] = useState<PrintPageSize | "default">("default")
+  const [scope, setScope] = useState<"day" | "visible">("day")
+  const [status, setStatus] = useState("all")
+  const [isPrinting, setIsPrinting] = useState(false)
+
+  const printVisible = scope === "visible" && visibleCardIds !== null
+
+  const handlePrint = async () => {
+    if (printVisible && visibleCardIds.length === 0) {
+      toast.error("No cards are showing on the board")
+      return
+    }
+    // Opened before the request so the browser doesn't treat it as an unprompted popup
+    const printWindow = window.open("", "_blank")
+    setIsPrinting(true)
+    try {
+      const html = await getPrintLayout(tenantId, {
+        date,
+        layout,
+        pageSize: pageSize === "default" ? undefined : pageSize,
+        storeId,
+        status: status === "all" ? null : status,
+        cardIds: printVisible ? visibleCardIds : undefined,
+      })
+      if (printWindow) {
+        printWindow.document.write(html)
+        printWindow.document.close()
+        printWindow.focus()
+        printWindow.print()
+      }
+      onClose()
+    } catch (err) {
+      printWindow?.close()
+      toast.error("Failed to prepare printing", { description: err instanceof Error ? err.message : undefined })
+    } finally {
+      setIsPrinting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Print Cards</DialogTitle>
+          <DialogDescription>Print layouts for {date.split("-").reverse().join("/")}, laid out from your order card fields.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Layout</Label>
+            <RadioGroup value={layout} onValueChange={(value) => setLayout(value as PrintLayout)}>
+              {LAYOUTS.map((option) => (
+                <div key={option.value} className="flex items-start gap-2">
+                  <RadioGroupItem id={`print-layout-${option.value}`} value={option.value} className="mt-0.5" />
+                  <Label htmlFor={`print-layout-${option.value}`} className="font-normal">
+                    <div className="font-medium">{option.label}</div>
+                    <div className="text-xs text-muted-foreground">{option.description}</div>
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label>Page size</Label>
+              <Select value={pageSize} onValueChange={(value) => setPageSize(value as PrintPageSize | "default")}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="default">Layout default</SelectItem>
+                  {PAGE_SIZES.map((size) => (
+                    <SelectItem key={size} value={size}>
+                      {size === "letter" ? "Letter" : size}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Status</Label>
+              <Select value={status} onValueChange={setStatus}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {STATUSES.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {visibleCardIds !== null && (
+            <div className="space-y-2">
+              <Label>Cards</Label>
+              <RadioGroup value={scope} onValueChange={(value) => setScope(value as "day" | "visible")}>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem id="print-scope-day" value="day" />
+                  <Label htmlFor="print-scope-day" className="font-normal">Every card for the day</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem id="print-scope-visible" value="visible" />
+                  <Label htmlFor="print-scope-visible" className="font-normal">
+                    Cards matching the board's filters ({visibleCardIds.length})
+                  </Label>
+                </div>
+              </RadioGroup>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handlePrint} disabled={isPrinting} className="gap-2">
+            <Printer className="h-4 w-4" />
+            {isPrinting ? "Preparing..." : "Print"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -296,7 +296,10 @@ export function ProductManagement() {
       }
     } catch (err) {
       console.error("Error fetching products:", err)
-      toast.error("Failed to fetch products. Please try again.")
+      toast.error("Failed to fetch products. Please try again.", {
+        // Carries the Shopify failure reason (rate limited, bad token, ...) from the sync route
+        description: err instanceof Error ? err.message : undefined,
+      })
     } finally {
       setIsFetchingProducts(false)
     }
@@ -392,7 +395,9 @@ export function ProductManagement() {
       }
     } catch (err) {
       console.error("Error fetching not-saved products:", err)
-      toast.error("Failed to fetch not-saved products. Please try again.")
+      toast.error("Failed to fetch not-saved products. Please try again.", {
+        description: err instanceof Error ? err.message : undefined,
+      })
     } finally {
       setIsFetchingNotSavedProducts(false)
     }
@@ -696,6 +701,7 @@ export function ProductManagement() {
           imageWidth: product.images?.[0]?.width,
           imageHeight: product.images?.[0]?.height,
           storeId: syncStoreId, // Add store ID to saved products
+          estimatedMinutes: product.floristMetadata?.estimatedTime || undefined,
         }))
       )
 
@@ -0,0 +1,261 @@
+import { useCallback, useEffect, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card"
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+import { Badge } from "./ui/badge"
+import { Progress } from "./ui/progress"
+import { Switch } from "./ui/switch"
+import { Label } from "./ui/label"
+import { Alert, AlertDescription } from "./ui/alert"
+import { ChevronLeft, ChevronRight, Download, Printer, RefreshCw } from "lucide-react"
+import { toast } from "sonner"
+import { StoreSelector } from "./StoreSelector"
+import { useMobileView } from "./Dashboard"
+import { useAuth } from "../contexts/AuthContext"
+import { getDispatchManifest, getProductionSchedule, getStores } from "../services/api"
+import type { ProductionSchedule as Schedule, ScheduleCard, Store } from "../types"
+
+const singaporeToday = () => new Intl.DateTimeFormat("en-CA", { timeZone: "Asia/Singapore" }).format(new Date())
+
+const shiftDate = (date: string, days: number) =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + days * 86400000).toISOString().slice(0, 10)
+
+const STATUS_BADGES: Record<string, string> = {
+  unassigned: "bg-gray-100 text-gray-700",
+  assigned: "bg-blue-100 text-blue-800",
+  in_progress: "bg-amber-100 text-amber-800",
+  completed: "bg-green-100 text-green-800",
+}
+
+// A day's cards by delivery timeslot with when each must be started, and the dispatch list for drivers
+export function ProductionSchedule() {
+  const { tenant } = useAuth()
+  const { isMobileView } = useMobileView()
+  const [date, setDate] = useState(singaporeToday)
+  const [selectedStoreId, setSelectedStoreId] = useState<string | null>(null)
+  const [stores, setStores] = useState<Store[]>([])
+  const [schedule, setSchedule] = useState<Schedule | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [includeNotReady, setIncludeNotReady] = useState(false)
+  const [isExporting, setIsExporting] = useState(false)
+
+  const loadSchedule = useCallback(async () => {
+    if (!tenant?.id) return
+    try {
+      setLoading(true)
+      setError(null)
+      setSchedule(await getProductionSchedule(tenant.id, date, selectedStoreId))
+    } catch (err) {
+      console.error("Error loading production schedule:", err)
+      setError(err instanceof Error ? err.message : "Failed to load production schedule")
+    } finally {
+      setLoading(false)
+    }
+  }, [tenant?.id, date, selectedStoreId])
+
+  useEffect(() => {
+    loadSchedule()
+  }, [loadSchedule])
+
+  useEffect(() => {
+    if (tenant?.id) getStores(tenant.id).then(setStores).catch(() => setStores([]))
+  }, [tenant?.id])
+
+  const handleExport = async (format: "csv" | "html") => {
+    if (!tenant?.id) return
+    // Opened before the request so the browser doesn't treat it as an unprompted popup
+    const printWindow = format === "html" ? window.open("", "_blank") : null
+    setIsExporting(true)
+    try {
+      const manifest = await getDispatchManifest(tenant.id, {
+        date,
+        storeId: selectedStoreId,
+        format,
+        include: includeNotReady ? "all" : "ready",
+      })
+      if (printWindow) {
+        printWindow.document.write(manifest)
+        printWindow.document.close()
+        printWindow.focus()
+        printWindow.print()
+      } else {
+        const url = URL.createObjectURL(new Blob([manifest], { type: "text/csv;charset=utf-8" }))
+        const link = document.createElement("a")
+        link.href = url
+        link.download = `dispatch-${date}.csv`
+        link.click()
+        URL.revokeObjectURL(url)
+      }
+    } catch (err) {
+      printWindow?.close()
+      toast.error("Failed to export dispatch manifest", { description: err instanceof Error ? err.message : undefined })
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  const renderCard = (card: ScheduleCard) => (
+    <div key={card.cardId} className="flex items-center justify-between gap-3 border-b border-gray-100 py-2 last:border-0">
+      <div className="min-w-0">
+        <div className="truncate text-sm text-gray-900">
+          {card.orderName && <span className="text-gray-500">{card.orderName} · </span>}
+          {card.title}
+        </div>
+        <div className="flex flex-wrap items-center gap-1 text-xs text-gray-500">
+          <Badge className={STATUS_BADGES[card.status] || STATUS_BADGES.unassigned}>{card.status.replace("_", " ")}</Badge>
+          {card.handedOff && <Badge variant="outline">with delivery</Badge>}
+          {card.difficulty && <Badge variant="outline">{card.difficulty}</Badge>}
+          <span>{card.minutes}m</span>
+          {card.assignedTo && <span>• {card.assignedTo}</span>}
+        </div>
+      </div>
+      {card.mustStartBy && card.status !== "in_progress" && (
+        <div className={`shrink-0 text-right text-xs ${card.late ? "font-semibold text-red-600" : "text-gray-600"}`}>
+          Start by {card.mustStartBy}
+          {card.late && <div>Late</div>}
+        </div>
+      )}
+    </div>
+  )
+
+  const readyStops = schedule?.dispatch.filter((stop) => stop.ready).length || 0
+
+  return (
+    <div className={`${isMobileView ? "space-y-4" : "space-y-6"} max-w-6xl mx-auto`}>
+      <div className={`flex justify-between ${isMobileView ? "flex-col gap-3" : "items-center"}`}>
+        <h2 className={`font-bold text-gray-900 ${isMobileView ? "text-lg" : "text-2xl"}`}>Production Schedule</h2>
+        <div className={`flex ${isMobileView ? "flex-col gap-2" : "items-center space-x-2"}`}>
+          <StoreSelector stores={stores} selectedStoreId={selectedStoreId} onStoreChange={setSelectedStoreId} />
+          <div className="flex items-center gap-1">
+            <Button variant="outline" size="icon" onClick={() => setDate((current) => shiftDate(current, -1))}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Input type="date" className="w-[150px]" value={date} onChange={(e) => e.target.value && setDate(e.target.value)} />
+            <Button variant="outline" size="icon" onClick={() => setDate((current) => shiftDate(current, 1))}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+          <Button variant="outline" size="icon" onClick={loadSchedule} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+      {loading && !schedule && <div className="text-center py-8 text-sm text-gray-500">Loading schedule...</div>}
+
+      {schedule && (
+        <>
+          {schedule.timeslots.length === 0 && (
+            <Card>
+              <CardContent className="py-8 text-center text-sm text-gray-500">No cards for {schedule.deliveryDate}</CardContent>
+            </Card>
+          )}
+
+          <div className={`grid gap-4 ${isMobileView ? "grid-cols-1" : "grid-cols-2"}`}>
+            {schedule.timeslots.map((slot) => (
+              <Card key={slot.timeslot || "none"}>
+                <CardHeader className="pb-2">
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="text-base">{slot.timeslot || "No timeslot"}</CardTitle>
+                    <span className="text-xs text-gray-500">
+                      {slot.readyBy && `Ready by ${slot.readyBy} • `}
+                      {Math.round((slot.labourMinutes / 60) * 10) / 10}h of work
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2 text-xs text-gray-500">
+                    <Progress className="h-1.5" value={(slot.completedCards / slot.cards.length) * 100} />
+                    <span className="shrink-0">
+                      {slot.completedCards}/{slot.cards.length} done
+                    </span>
+                  </div>
+                </CardHeader>
+                <CardContent>{slot.cards.map(renderCard)}</CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <Card>
+            <CardHeader>
+              <div className={`flex justify-between ${isMobileView ? "flex-col gap-2" : "items-center"}`}>
+                <div>
+                  <CardTitle>Dispatch</CardTitle>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {readyStops} of {schedule.dispatch.length} deliveries ready, in timeslot and area order
+                  </p>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <div className="flex items-center gap-2">
+                    <Switch id="dispatch-include-all" checked={includeNotReady} onCheckedChange={setIncludeNotReady} />
+                    <Label htmlFor="dispatch-include-all" className="text-xs">
+                      Include not ready
+                    </Label>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => handleExport("csv")} disabled={isExporting}>
+                    <Download className="mr-2 h-4 w-4" />
+                    CSV
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => handleExport("html")} disabled={isExporting}>
+                    <Printer className="mr-2 h-4 w-4" />
+                    Print
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {schedule.dispatch.length === 0 ? (
+                <div className="text-center py-6 text-sm text-gray-500">No deliveries</div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b border-gray-200">
+                        <th className="text-left py-2 px-3 font-medium text-gray-600">Timeslot</th>
+                        <th className="text-left py-2 px-3 font-medium text-gray-600">Area</th>
+                        <th className="text-left py-2 px-3 font-medium text-gray-600">Order</th>
+                        {!isMobileView && <th className="text-left py-2 px-3 font-medium text-gray-600">Recipient</th>}
+                        {!isMobileView && <th className="text-left py-2 px-3 font-medium text-gray-600">Address</th>}
+                        <th className="text-left py-2 px-3 font-medium text-gray-600">Ready</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {schedule.dispatch.map((stop) => (
+                        <tr key={stop.orderId} className="border-b border-gray-100 hover:bg-gray-50">
+                          <td className="py-2 px-3">{stop.timeslot || "-"}</td>
+                          <td className="py-2 px-3">{stop.area || "-"}</td>
+                          <td className="py-2 px-3 font-medium text-gray-900">{stop.orderName || stop.orderId}</td>
+                          {!isMobileView && <td className="py-2 px-3">{stop.recipient || "-"}</td>}
+                          {!isMobileView && (
+                            <td className="py-2 px-3 text-xs text-gray-600">
+                              {[stop.address, stop.postalCode].filter(Boolean).join(" ") || "-"}
+                            </td>
+                          )}
+                          <td className="py-2 px-3">
+                            {stop.ready && stop.handedOffCards === stop.totalCards ? (
+                              <Badge className="bg-blue-100 text-blue-800">Handed off</Badge>
+                            ) : stop.ready ? (
+                              <Badge className="bg-green-100 text-green-800">Ready</Badge>
+                            ) : (
+                              <span className="text-xs text-gray-500">
+                                {stop.completedCards}/{stop.totalCards}
+                              </span>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
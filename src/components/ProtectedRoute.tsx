@@ -1,6 +1,7 @@
 import React, { ReactNode } from "react"
 import { Permission } from "../types"
 import { useAuth } from "../contexts/AuthContext"
+import { hasPermissions } from "../lib/permissions"
 
 // Protected route props
 interface ProtectedRouteProps {
@@ -85,9 +86,7 @@ export function ProtectedRoute({
 
   // Check permissions requirement
   if (requiredPermissions && requiredPermissions.length > 0) {
-    const hasAllPermissions = requiredPermissions.every((permission) =>
-      user.permissions.includes(permission)
-    )
+    const hasAllPermissions = hasPermissions(user.role, user.permissions, requiredPermissions)
 
     if (!hasAllPermissions) {
       return fallback || <AccessDenied />
@@ -164,7 +163,7 @@ export function PermissionBasedRoute({
     return fallback || <NotAuthenticated />
   }
 
-  const hasAllPermissions = permissions.every((permission) => user.permissions.includes(permission))
+  const hasAllPermissions = hasPermissions(user.role, user.permissions, permissions)
 
   if (!hasAllPermissions) {
     return fallback || <AccessDenied />
@@ -0,0 +1,127 @@
+import { useEffect, useState } from "react"
+import { Link, useNavigate, useSearchParams } from "react-router-dom"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { useAuth } from "../contexts/AuthContext"
+import { getAccountToken } from "../services/api"
+import type { AccountTokenDetails } from "../types"
+
+const MIN_PASSWORD_LENGTH = 8
+
+// Where invite and password reset links land
+export function SetPassword() {
+  const [searchParams] = useSearchParams()
+  const token = searchParams.get("token") || ""
+  const [details, setDetails] = useState<AccountTokenDetails | null>(null)
+  const [linkError, setLinkError] = useState<string | null>(null)
+  const [password, setPassword] = useState("")
+  const [confirmPassword, setConfirmPassword] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const { setPasswordAndSignIn } = useAuth()
+  const navigate = useNavigate()
+
+  useEffect(() => {
+    if (!token) {
+      setLinkError("This link is missing its token.")
+      return
+    }
+    getAccountToken(token)
+      .then(setDetails)
+      .catch(() => setLinkError("This link is invalid or has expired."))
+  }, [token])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`)
+      return
+    }
+    if (password !== confirmPassword) {
+      setError("Passwords don't match")
+      return
+    }
+
+    setIsLoading(true)
+    setError(null)
+    try {
+      const twoFactor = await setPasswordAndSignIn(token, password)
+      // Two-factor users finish signing in with their second step on the login page
+      if (twoFactor) {
+        navigate("/login", { state: { twoFactor } })
+      } else {
+        navigate("/orders")
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const isInvite = details?.purpose === "invite"
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl font-bold text-green-700">
+            {details && isInvite ? `Join ${details.tenantName}` : "Choose a New Password"}
+          </CardTitle>
+          <CardDescription>
+            {details ? `${details.name} (${details.email})` : "Checking your link..."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {linkError ? (
+            <div className="space-y-4">
+              <Alert variant="destructive">
+                <AlertDescription>{linkError}</AlertDescription>
+              </Alert>
+              <div className="text-center">
+                <Link to="/forgot-password" className="text-sm text-green-700 hover:underline">
+                  Request a new link
+                </Link>
+              </div>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="password">Password</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder={`At least ${MIN_PASSWORD_LENGTH} characters`}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirmPassword">Confirm Password</Label>
+                <Input
+                  id="confirmPassword"
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                />
+              </div>
+              {error && (
+                <Alert variant="destructive">
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+              <Button type="submit" className="w-full bg-green-600 hover:bg-green-700" disabled={isLoading || !details}>
+                {isLoading ? "Saving..." : isInvite ? "Set Password and Sign In" : "Reset Password"}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
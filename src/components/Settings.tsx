@@ -11,14 +11,16 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { useParams } from "react-router-dom"
 import { useAuth } from "../contexts/AuthContext"
 import { useIsMobile } from "./hooks/use-mobile"
-import { getStores, createStore, updateStore, deleteStore, registerShopifyWebhooks, testShopifyConnection } from "../services/api"
+import { getStores, createStore, updateStore, deleteStore, registerShopifyWebhooks, testShopifyConnection, syncStoreOrders } from "../services/api"
 import type { Store } from "../types"
 import { toast } from "sonner"
 import { useNavigate } from "react-router-dom"
-import { Settings as SettingsIcon, Layout, Users, CreditCard, Store as StoreIcon, Plus, Check, Copy, TestTube, Edit, Trash2, CheckCircle, AlertTriangle, ExternalLink } from "lucide-react"
+import { Settings as SettingsIcon, Layout, Users, CreditCard, Store as StoreIcon, Plus, Check, Copy, TestTube, Edit, Trash2, CheckCircle, AlertTriangle, ExternalLink, RefreshCw, CalendarClock } from "lucide-react"
 import { Separator } from "./ui/separator"
 import { OrderCardSettings } from "./OrderCardSettingsNew"
+import { DeliveryRulesDialog } from "./DeliveryRulesDialog"
 import { Users as UsersComponent } from "./Users"
+import { TwoFactorSettings } from "./TwoFactorSettings"
 
 type NewStore = {
   name: string
@@ -58,6 +60,8 @@ type NewStore = {
   const [isAddingStore, setIsAddingStore] = useState(false)
   const [isRegisteringWebhooks, setIsRegisteringWebhooks] = useState(false)
   const [isTestingConnection, setIsTestingConnection] = useState(false)
+  const [syncingStoreId, setSyncingStoreId] = useState<string | null>(null)
+  const [deliveryRulesStore, setDeliveryRulesStore] = useState<Store | null>(null)
   const [copiedWebhookUrl, setCopiedWebhookUrl] = useState<string | null>(null)
 
   useEffect(() => {
@@ -216,6 +220,29 @@ type NewStore = {
     }
   }
 
+  // Orders also sync every 10 minutes; this runs the next batch straight away
+  const syncOrders = async (storeId: string) => {
+    if (!tenant?.id) return
+
+    setSyncingStoreId(storeId)
+    try {
+      const result = await syncStoreOrders(tenant.id, storeId)
+      toast.success(
+        result.processed > 0
+          ? `Synced ${result.processed} changed orders (${result.created} new)${result.hasMore ? ", more remaining" : ""}`
+          : "Orders are up to date"
+      )
+      setStores((prevStores) =>
+        prevStores.map((store) => (store.id === storeId ? { ...store, lastSyncAt: new Date().toISOString() } : store))
+      )
+    } catch (error) {
+      console.error("Failed to sync orders:", error)
+      toast.error(`Failed to sync orders: ${error instanceof Error ? error.message : String(error)}`)
+    } finally {
+      setSyncingStoreId(null)
+    }
+  }
+
   // Copy webhook URL to clipboard
   const copyWebhookUrl = async (url: string) => {
     try {
@@ -230,7 +257,7 @@ type NewStore = {
 
   // Get webhook URL for a store
   const getWebhookUrl = (store: Store) => {
-    return `https://order-to-do.stanleytan92.workers.dev/api/webhooks/shopify/orders-create/${tenant?.id}/${store.id}`
+    return `https://order-to-do.stanleytan92.workers.dev/api/webhooks/shopify/orders/${tenant?.id}/${store.id}`
   }
 
   if (isLoading) return <div>Loading...</div>
@@ -305,6 +332,8 @@ type NewStore = {
               </CardContent>
             </Card>
 
+            <TwoFactorSettings />
+
             {/* Shopify Store Management */}
             <Card>
               <CardHeader className={isMobile ? "pb-3" : ""}>
@@ -445,6 +474,23 @@ type NewStore = {
                                 >
                                   Test Connection
                                 </Button>
+                                <Button
+                                  variant="outline"
+                                  size={isMobile ? "sm" : "default"}
+                                  onClick={() => syncOrders(store.id)}
+                                  disabled={syncingStoreId === store.id}
+                                >
+                                  <RefreshCw className={`mr-2 ${isMobile ? "h-3 w-3" : "h-4 w-4"} ${syncingStoreId === store.id ? "animate-spin" : ""}`} />
+                                  Sync Orders
+                                </Button>
+                                <Button
+                                  variant="outline"
+                                  size={isMobile ? "sm" : "default"}
+                                  onClick={() => setDeliveryRulesStore(store)}
+                                >
+                                  <CalendarClock className={`mr-2 ${isMobile ? "h-3 w-3" : "h-4 w-4"}`} />
+                                  Delivery Rules
+                                </Button>
                                 <Button
                                   variant="outline"
                                   size="icon"
@@ -547,6 +593,18 @@ type NewStore = {
           </Card>
         </TabsContent>
       </Tabs>
+
+      {tenant?.id && (
+        <DeliveryRulesDialog
+          tenantId={tenant.id}
+          store={deliveryRulesStore}
+          onClose={() => setDeliveryRulesStore(null)}
+          onSaved={(updated) => {
+            setStores((current) => current.map((store) => (store.id === updated.id ? updated : store)))
+            setDeliveryRulesStore(null)
+          }}
+        />
+      )}
     </div>
   )
 }
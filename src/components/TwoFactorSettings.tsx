@@ -0,0 +1,226 @@
+import React, { useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card"
+import { Button } from "./ui/button"
+import { Badge } from "./ui/badge"
+import { Label } from "./ui/label"
+import { Input } from "./ui/input"
+import { Switch } from "./ui/switch"
+import { Separator } from "./ui/separator"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "./ui/dialog"
+import { toast } from "sonner"
+import { Loader2, ShieldCheck } from "lucide-react"
+import { useAuth } from "../contexts/AuthContext"
+import {
+  disableTwoFactor,
+  enableTwoFactor,
+  getTenantSettings,
+  getTwoFactorStatus,
+  regenerateRecoveryCodes,
+  startTwoFactorSetup,
+  updateSecuritySettings,
+} from "../services/api"
+import type { TwoFactorSetup as TwoFactorSetupDetails, TwoFactorStatus } from "../types"
+import { RecoveryCodes, TwoFactorSetup } from "./TwoFactorSetup"
+
+type DialogMode = "setup" | "recovery-codes" | "disable"
+
+// The signed-in user's two-factor authentication and, for owners, whether the shop requires it
+export const TwoFactorSettings: React.FC = () => {
+  const { user, tenant } = useAuth()
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null)
+  const [requireTwoFactor, setRequireTwoFactor] = useState(false)
+  const [dialog, setDialog] = useState<DialogMode | null>(null)
+  const [setup, setSetup] = useState<TwoFactorSetupDetails | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [code, setCode] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const isOwner = user?.role === "owner"
+
+  const loadStatus = async () => {
+    try {
+      setStatus(await getTwoFactorStatus())
+    } catch (error) {
+      console.error("Failed to load two-factor status:", error)
+    }
+  }
+
+  useEffect(() => {
+    loadStatus()
+    if (isOwner && tenant?.id) {
+      getTenantSettings(tenant.id)
+        .then((settings) => setRequireTwoFactor(!!settings?.security?.requireTwoFactor))
+        .catch((error) => console.error("Failed to load security settings:", error))
+    }
+  }, [isOwner, tenant?.id])
+
+  const openDialog = async (mode: DialogMode) => {
+    setDialog(mode)
+    setRecoveryCodes(null)
+    setSetup(null)
+    setCode("")
+    if (mode === "setup") {
+      try {
+        setSetup(await startTwoFactorSetup())
+      } catch (error) {
+        console.error("Failed to start two-factor setup:", error)
+        toast.error(error instanceof Error ? error.message : "Failed to start two-factor setup")
+        setDialog(null)
+      }
+    }
+  }
+
+  const closeDialog = () => {
+    setDialog(null)
+    loadStatus()
+  }
+
+  const handleEnable = async (setupCode: string) => {
+    try {
+      const response = await enableTwoFactor(setupCode)
+      setRecoveryCodes(response.recoveryCodes || [])
+      toast.success("Two-factor authentication is on")
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to turn on two-factor authentication")
+      throw error
+    }
+  }
+
+  // Replacing recovery codes and turning two-factor off both take a current code
+  const handleCodeAction = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    try {
+      if (dialog === "recovery-codes") {
+        setRecoveryCodes((await regenerateRecoveryCodes(code)).recoveryCodes)
+      } else {
+        await disableTwoFactor(code)
+        toast.success("Two-factor authentication is off")
+        closeDialog()
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "That didn't work - please try again")
+    } finally {
+      setCode("")
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleRequireChange = async (checked: boolean) => {
+    if (!tenant?.id) return
+    try {
+      await updateSecuritySettings(tenant.id, { requireTwoFactor: checked })
+      setRequireTwoFactor(checked)
+      toast.success(checked ? "Owners and admins now need two-factor to sign in" : "Two-factor is now optional")
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save security settings")
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Two-Factor Authentication
+        </CardTitle>
+        <CardDescription>Ask for a code from an authenticator app as well as your password when you sign in.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!status ? (
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        ) : status.enabled ? (
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="space-y-1">
+              <Badge variant="secondary">On</Badge>
+              <p className="text-sm text-gray-500">
+                {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? "" : "s"} left
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => openDialog("recovery-codes")}>
+                New Recovery Codes
+              </Button>
+              {!status.required && (
+                <Button variant="outline" size="sm" onClick={() => openDialog("disable")}>
+                  Turn Off
+                </Button>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <p className="text-sm text-gray-500">
+              {status.required ? "Your shop requires two-factor authentication for your role." : "Two-factor authentication is off."}
+            </p>
+            <Button size="sm" onClick={() => openDialog("setup")}>
+              Set Up
+            </Button>
+          </div>
+        )}
+
+        {isOwner && (
+          <>
+            <Separator />
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="require-two-factor">Require for owners and admins</Label>
+                <p className="text-xs text-gray-500">
+                  Owners and admins without it set it up the next time they sign in. Turn it on for yourself first.
+                </p>
+              </div>
+              <Switch
+                id="require-two-factor"
+                checked={requireTwoFactor}
+                onCheckedChange={handleRequireChange}
+                disabled={!requireTwoFactor && !status?.enabled}
+              />
+            </div>
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={!!dialog} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {dialog === "setup" ? "Set Up Two-Factor" : dialog === "recovery-codes" ? "New Recovery Codes" : "Turn Off Two-Factor"}
+            </DialogTitle>
+            <DialogDescription>
+              {dialog === "recovery-codes"
+                ? "Your old recovery codes stop working once new ones are made."
+                : dialog === "disable"
+                  ? "You'll sign in with just your password."
+                  : "Add your account to an authenticator app."}
+            </DialogDescription>
+          </DialogHeader>
+          {recoveryCodes ? (
+            <>
+              <RecoveryCodes codes={recoveryCodes} />
+              <DialogFooter>
+                <Button onClick={closeDialog}>I've Saved My Codes</Button>
+              </DialogFooter>
+            </>
+          ) : dialog === "setup" ? (
+            setup ? <TwoFactorSetup setup={setup} onConfirm={handleEnable} /> : <Loader2 className="mx-auto h-6 w-6 animate-spin text-gray-400" />
+          ) : (
+            <form onSubmit={handleCodeAction} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="two-factor-code">Code from your app, or a recovery code</Label>
+                <Input id="two-factor-code" value={code} onChange={(e) => setCode(e.target.value)} autoComplete="off" autoFocus required />
+              </div>
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={closeDialog}>
+                  Cancel
+                </Button>
+                <Button type="submit" variant={dialog === "disable" ? "destructive" : "default"} disabled={isSubmitting || !code}>
+                  {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {dialog === "disable" ? "Turn Off" : "Make New Codes"}
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
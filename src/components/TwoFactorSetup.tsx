@@ -0,0 +1,115 @@
+import React, { useMemo, useState } from "react"
+import qrcode from "qrcode-generator"
+import { Button } from "./ui/button"
+import { Label } from "./ui/label"
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "./ui/input-otp"
+import { toast } from "sonner"
+import { Copy, Loader2 } from "lucide-react"
+import type { TwoFactorSetup as TwoFactorSetupDetails } from "../types"
+
+const CODE_LENGTH = 6
+
+// Six boxes for a code from the authenticator app
+export const TwoFactorCodeInput: React.FC<{ value: string; onChange: (value: string) => void; disabled?: boolean }> = ({
+  value,
+  onChange,
+  disabled,
+}) => (
+  <InputOTP maxLength={CODE_LENGTH} value={value} onChange={onChange} disabled={disabled} inputMode="numeric" autoFocus>
+    <InputOTPGroup>
+      {Array.from({ length: CODE_LENGTH }, (_, index) => (
+        <InputOTPSlot key={index} index={index} />
+      ))}
+    </InputOTPGroup>
+  </InputOTP>
+)
+
+/**
+ * Enrolment: the QR code (and secret, for typing in) to add to an authenticator app, then a code from
+ * the app to confirm it. Used when signing in requires two-factor and from Settings.
+ */
+export const TwoFactorSetup: React.FC<{
+  setup: TwoFactorSetupDetails
+  onConfirm: (code: string) => Promise<void>
+}> = ({ setup, onConfirm }) => {
+  const [code, setCode] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const qrDataUrl = useMemo(() => {
+    const qr = qrcode(0, "M")
+    qr.addData(setup.otpauthUrl)
+    qr.make()
+    return qr.createDataURL(4, 2)
+  }, [setup.otpauthUrl])
+
+  const confirm = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    try {
+      await onConfirm(code)
+    } catch {
+      setCode("")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const copySecret = async () => {
+    await navigator.clipboard.writeText(setup.secret)
+    toast.success("Setup key copied")
+  }
+
+  return (
+    <form onSubmit={confirm} className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Scan this QR code with an authenticator app such as Google Authenticator, 1Password or Authy.
+      </p>
+      <div className="flex justify-center">
+        <img src={qrDataUrl} alt="QR code for your authenticator app" className="h-44 w-44 [image-rendering:pixelated]" />
+      </div>
+      <div className="space-y-1">
+        <Label className="text-xs text-gray-500">Can't scan it? Enter this key instead</Label>
+        <div className="flex items-center gap-2">
+          <code className="flex-1 break-all rounded bg-gray-100 px-2 py-1 text-xs">{setup.secret}</code>
+          <Button type="button" variant="outline" size="icon" className="h-8 w-8" title="Copy key" onClick={copySecret}>
+            <Copy className="h-3 w-3" />
+          </Button>
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label>Enter the 6-digit code from the app</Label>
+        <TwoFactorCodeInput value={code} onChange={setCode} disabled={isSubmitting} />
+      </div>
+      <Button type="submit" className="w-full" disabled={isSubmitting || code.length !== CODE_LENGTH}>
+        {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Turn On Two-Factor
+      </Button>
+    </form>
+  )
+}
+
+// Shown once, straight after two-factor is turned on or the codes are replaced
+export const RecoveryCodes: React.FC<{ codes: string[] }> = ({ codes }) => {
+  const copyCodes = async () => {
+    await navigator.clipboard.writeText(codes.join("\n"))
+    toast.success("Recovery codes copied")
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-600">
+        Keep these recovery codes somewhere safe. Each one signs you in once if you lose your phone, and they
+        won't be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded bg-gray-100 p-3 font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <Button type="button" variant="outline" size="sm" onClick={copyCodes}>
+        <Copy className="mr-2 h-3 w-3" />
+        Copy Codes
+      </Button>
+    </div>
+  )
+}
@@ -25,14 +25,19 @@ import {
   User,
   Mail,
   Calendar,
-  Eye,
-  EyeOff,
+  Copy,
+  Send,
   Loader2,
+  LogOut,
+  History,
+  ShieldOff,
 } from "lucide-react"
 import { useAuth } from "../contexts/AuthContext"
 import { useIsMobile } from "./hooks/use-mobile"
-import { getUsers, createUser, updateUser, deleteUser } from "../services/api"
-import type { User as UserType } from "../types"
+import { Checkbox } from "./ui/checkbox"
+import { getUsers, inviteUser, resendInvite, updateUser, deleteUser, revokeUserSessions, resetUserTwoFactor, getUserLoginEvents, getStores } from "../services/api"
+import type { LoginEvent, Store, User as UserType } from "../types"
+import { DEFAULT_SKILL_LEVEL } from "../lib/autoAssign"
 import { toast } from "sonner"
 import { formatSingaporeTime, formatSingaporeRelativeTime } from "../lib/utils"
 import { TimezoneIndicator } from "./TimezoneIndicator"
@@ -43,7 +48,6 @@ type UserRole = (typeof userRoles)[number]
 type NewUser = {
   name: string
   email: string
-  password: string
   role: UserRole
 }
 
@@ -52,24 +56,45 @@ type EditUser = {
   name: string
   email: string
   role: UserRole
+  skillLevel: number
+  storeIds: string[] // Empty = every store
 }
 
+const loginOutcomeLabels: Record<LoginEvent["outcome"], string> = {
+  success: "Signed in",
+  invalid_credentials: "Wrong password",
+  invalid_two_factor: "Wrong two-factor code",
+  locked: "Account locked",
+  rate_limited: "Too many attempts",
+  email_not_verified: "Email not confirmed",
+}
+
+// Matched against card difficulty by auto-assignment
+const skillLevels = [
+  { value: 1, label: "1 - Junior" },
+  { value: 2, label: "2 - Standard" },
+  { value: 3, label: "3 - Senior" },
+  { value: 4, label: "4 - Expert" },
+]
+
 export const Users: React.FC = () => {
-  const { user: currentUser, tenant } = useAuth()
+  const { user: currentUser, tenant, logoutEverywhere } = useAuth()
   const isMobile = useIsMobile()
   
   const [users, setUsers] = useState<UserType[]>([])
+  const [stores, setStores] = useState<Store[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false)
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false)
   const [editingUser, setEditingUser] = useState<EditUser | null>(null)
   const [isSubmitting, setIsSubmitting] = useState(false)
-  const [showPassword, setShowPassword] = useState(false)
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null) // Of the invite just sent
+  const [signInsUser, setSignInsUser] = useState<UserType | null>(null)
+  const [loginEvents, setLoginEvents] = useState<LoginEvent[] | null>(null) // Null while loading
   
   const [newUser, setNewUser] = useState<NewUser>({
     name: "",
     email: "",
-    password: "",
     role: "florist",
   })
 
@@ -90,37 +115,59 @@ export const Users: React.FC = () => {
 
   useEffect(() => {
     fetchUsers()
+    if (tenant?.id) {
+      getStores(tenant.id)
+        .then(setStores)
+        .catch((error) => console.error("Failed to fetch stores:", error))
+    }
   }, [tenant?.id])
 
   const handleCreateUser = async () => {
     if (!tenant?.id) return
     
-    if (!newUser.name || !newUser.email || !newUser.password) {
+    if (!newUser.name || !newUser.email) {
       toast.error("Please fill in all required fields")
       return
     }
 
     try {
       setIsSubmitting(true)
-      await createUser(tenant.id, {
+      const invite = await inviteUser(tenant.id, {
         name: newUser.name,
         email: newUser.email,
-        password: newUser.password,
         role: newUser.role,
       })
       
-      toast.success("User created successfully")
-      setIsCreateDialogOpen(false)
-      setNewUser({ name: "", email: "", password: "", role: "florist" })
+      toast.success(`Invite sent to ${newUser.email}`)
+      setInviteUrl(invite.inviteUrl)
+      setNewUser({ name: "", email: "", role: "florist" })
       fetchUsers()
     } catch (error) {
-      console.error("Failed to create user:", error)
-      toast.error("Failed to create user")
+      console.error("Failed to invite user:", error)
+      toast.error(error instanceof Error && error.message.includes("409") ? "A user with this email already exists" : "Failed to invite user")
     } finally {
       setIsSubmitting(false)
     }
   }
 
+  const handleResendInvite = async (userId: string, userName: string) => {
+    if (!tenant?.id) return
+
+    try {
+      await resendInvite(tenant.id, userId)
+      toast.success(`New invite sent to ${userName}`)
+    } catch (error) {
+      console.error("Failed to resend invite:", error)
+      toast.error("Failed to resend invite")
+    }
+  }
+
+  const copyInviteUrl = async () => {
+    if (!inviteUrl) return
+    await navigator.clipboard.writeText(inviteUrl)
+    toast.success("Invite link copied")
+  }
+
   const handleUpdateUser = async () => {
     if (!tenant?.id || !editingUser) return
     
@@ -135,6 +182,8 @@ export const Users: React.FC = () => {
         name: editingUser.name,
         email: editingUser.email,
         role: editingUser.role,
+        skillLevel: editingUser.skillLevel,
+        storeIds: editingUser.storeIds.length > 0 ? editingUser.storeIds : null,
       })
       
       toast.success("User updated successfully")
@@ -171,12 +220,73 @@ export const Users: React.FC = () => {
     }
   }
 
+  // Signs the user out on every device, e.g. after a lost phone or a shared password
+  const handleLogoutEverywhere = async (userId: string, userName: string) => {
+    if (!tenant?.id) return
+
+    if (userId === currentUser?.id) {
+      if (!confirm("Sign yourself out on every device, including this one?")) return
+      try {
+        await logoutEverywhere()
+      } catch (error) {
+        console.error("Failed to sign out everywhere:", error)
+        toast.error("Signed out here, but other devices couldn't be signed out - please try again")
+      }
+      return
+    }
+
+    if (!confirm(`Sign ${userName} out on every device?`)) {
+      return
+    }
+
+    try {
+      const { revoked } = await revokeUserSessions(tenant.id, userId)
+      toast.success(revoked > 0 ? `Signed ${userName} out of ${revoked} session${revoked === 1 ? "" : "s"}` : `${userName} had no active sessions`)
+    } catch (error) {
+      console.error("Failed to sign user out everywhere:", error)
+      toast.error("Failed to sign user out")
+    }
+  }
+
+  const handleResetTwoFactor = async (userId: string, userName: string) => {
+    if (!tenant?.id) return
+    if (!confirm(`Turn off two-factor authentication for ${userName} and sign them out everywhere? Do this only if they've lost their authenticator app and recovery codes.`)) {
+      return
+    }
+    const code = prompt("To confirm, enter a code from your own authenticator app or one of your recovery codes")
+    if (!code?.trim()) return
+
+    try {
+      await resetUserTwoFactor(tenant.id, userId, code.trim())
+      toast.success(`Two-factor authentication turned off for ${userName}`)
+      fetchUsers()
+    } catch (error) {
+      console.error("Failed to reset two-factor:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to reset two-factor authentication")
+    }
+  }
+
+  const openSignIns = async (user: UserType) => {
+    if (!tenant?.id) return
+    setSignInsUser(user)
+    setLoginEvents(null)
+    try {
+      setLoginEvents(await getUserLoginEvents(tenant.id, user.id))
+    } catch (error) {
+      console.error("Failed to load sign-ins:", error)
+      toast.error("Failed to load sign-in history")
+      setSignInsUser(null)
+    }
+  }
+
   const openEditDialog = (user: UserType) => {
     setEditingUser({
       id: user.id,
       name: user.name,
       email: user.email,
       role: user.role as UserRole,
+      skillLevel: user.skillLevel ?? DEFAULT_SKILL_LEVEL,
+      storeIds: user.storeIds || [],
     })
     setIsEditDialogOpen(true)
   }
@@ -228,99 +338,107 @@ export const Users: React.FC = () => {
                 <TimezoneIndicator showLabel={false} className="text-xs mt-1" />
               </div>
             </div>
-            <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+            <Dialog
+              open={isCreateDialogOpen}
+              onOpenChange={(open) => {
+                setIsCreateDialogOpen(open)
+                if (!open) setInviteUrl(null)
+              }}
+            >
               <DialogTrigger asChild>
                 <Button size={isMobile ? "sm" : "default"}>
                   <UserPlus className={`mr-2 ${isMobile ? "h-3 w-3" : "h-4 w-4"}`} />
-                  Add User
+                  Invite User
                 </Button>
               </DialogTrigger>
               <DialogContent className={isMobile ? "w-[95vw] max-w-[95vw]" : ""}>
                 <DialogHeader>
-                  <DialogTitle>Add New User</DialogTitle>
+                  <DialogTitle>Invite User</DialogTitle>
                   <DialogDescription>
-                    Create a new user account with appropriate role and permissions.
+                    We'll email them a link to choose their own password. The link expires in 7 days.
                   </DialogDescription>
                 </DialogHeader>
-                <div className="space-y-4">
-                  <div>
-                    <Label htmlFor="newUserName">Full Name</Label>
-                    <Input
-                      id="newUserName"
-                      value={newUser.name}
-                      onChange={(e) => setNewUser({ ...newUser, name: e.target.value })}
-                      placeholder="John Doe"
-                    />
-                  </div>
-                  <div>
-                    <Label htmlFor="newUserEmail">Email</Label>
-                    <Input
-                      id="newUserEmail"
-                      type="email"
-                      value={newUser.email}
-                      onChange={(e) => setNewUser({ ...newUser, email: e.target.value })}
-                      placeholder="john@example.com"
-                    />
+                {inviteUrl ? (
+                  <div className="space-y-2">
+                    <p className="text-sm text-gray-600">
+                      Invite sent. You can also share this link with them directly:
+                    </p>
+                    <div className="flex gap-2">
+                      <Input readOnly value={inviteUrl} className="flex-1 font-mono text-xs" />
+                      <Button variant="outline" size="icon" onClick={copyInviteUrl}>
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                    </div>
                   </div>
-                  <div>
-                    <Label htmlFor="newUserPassword">Password</Label>
-                    <div className="relative">
+                ) : (
+                  <div className="space-y-4">
+                    <div>
+                      <Label htmlFor="newUserName">Full Name</Label>
                       <Input
-                        id="newUserPassword"
-                        type={showPassword ? "text" : "password"}
-                        value={newUser.password}
-                        onChange={(e) => setNewUser({ ...newUser, password: e.target.value })}
-                        placeholder="Enter password"
+                        id="newUserName"
+                        value={newUser.name}
+                        onChange={(e) => setNewUser({ ...newUser, name: e.target.value })}
+                        placeholder="John Doe"
                       />
-                      <Button
-                        type="button"
-                        variant="ghost"
-                        size="icon"
-                        className="absolute right-0 top-0 h-full px-3"
-                        onClick={() => setShowPassword(!showPassword)}
+                    </div>
+                    <div>
+                      <Label htmlFor="newUserEmail">Email</Label>
+                      <Input
+                        id="newUserEmail"
+                        type="email"
+                        value={newUser.email}
+                        onChange={(e) => setNewUser({ ...newUser, email: e.target.value })}
+                        placeholder="john@example.com"
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="newUserRole">Role</Label>
+                      <Select
+                        value={newUser.role}
+                        onValueChange={(value: UserRole) => setNewUser({ ...newUser, role: value })}
                       >
-                        {showPassword ? (
-                          <EyeOff className="h-4 w-4" />
-                        ) : (
-                          <Eye className="h-4 w-4" />
-                        )}
-                      </Button>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="florist">
+                            <div className="flex items-center gap-2">
+                              <User className="h-4 w-4" />
+                              Florist
+                            </div>
+                          </SelectItem>
+                          <SelectItem value="admin">
+                            <div className="flex items-center gap-2">
+                              <Shield className="h-4 w-4" />
+                              Admin
+                            </div>
+                          </SelectItem>
+                        </SelectContent>
+                      </Select>
                     </div>
                   </div>
-                  <div>
-                    <Label htmlFor="newUserRole">Role</Label>
-                    <Select
-                      value={newUser.role}
-                      onValueChange={(value: UserRole) => setNewUser({ ...newUser, role: value })}
-                    >
-                      <SelectTrigger>
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="florist">
-                          <div className="flex items-center gap-2">
-                            <User className="h-4 w-4" />
-                            Florist
-                          </div>
-                        </SelectItem>
-                        <SelectItem value="admin">
-                          <div className="flex items-center gap-2">
-                            <Shield className="h-4 w-4" />
-                            Admin
-                          </div>
-                        </SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-                </div>
+                )}
                 <DialogFooter>
-                  <Button variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
-                    Cancel
-                  </Button>
-                  <Button onClick={handleCreateUser} disabled={isSubmitting}>
-                    {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                    Create User
-                  </Button>
+                  {inviteUrl ? (
+                    <>
+                      <Button variant="outline" onClick={() => setInviteUrl(null)}>
+                        Invite Another
+                      </Button>
+                      <Button onClick={() => { setIsCreateDialogOpen(false); setInviteUrl(null) }}>
+                        Done
+                      </Button>
+                    </>
+                  ) : (
+                    <>
+                      <Button variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
+                        Cancel
+                      </Button>
+                      <Button onClick={handleCreateUser} disabled={isSubmitting}>
+                        {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Send Invite
+                      </Button>
+                    </>
+                  )}
                 </DialogFooter>
               </DialogContent>
             </Dialog>
@@ -353,6 +471,11 @@ export const Users: React.FC = () => {
                             <Badge variant={getRoleBadgeVariant(user.role)}>
                               {user.role}
                             </Badge>
+                            {user.invitePending && (
+                              <Badge variant="outline" className="text-xs">
+                                Invite pending
+                              </Badge>
+                            )}
                           </div>
                           <div className="flex items-center gap-2 text-sm text-gray-500 mb-2">
                             <Mail className="h-3 w-3" />
@@ -374,6 +497,46 @@ export const Users: React.FC = () => {
                               >
                                 <Edit className="h-3 w-3" />
                               </Button>
+                              {user.invitePending && (
+                                <Button
+                                  variant="outline"
+                                  size="icon"
+                                  className="h-8 w-8"
+                                  title="Resend invite"
+                                  onClick={() => handleResendInvite(user.id, user.name)}
+                                >
+                                  <Send className="h-3 w-3" />
+                                </Button>
+                              )}
+                              {user.twoFactorEnabled && (
+                                <Button
+                                  variant="outline"
+                                  size="icon"
+                                  className="h-8 w-8"
+                                  title="Reset two-factor"
+                                  onClick={() => handleResetTwoFactor(user.id, user.name)}
+                                >
+                                  <ShieldOff className="h-3 w-3" />
+                                </Button>
+                              )}
+                              <Button
+                                variant="outline"
+                                size="icon"
+                                className="h-8 w-8"
+                                title="Sign-in history"
+                                onClick={() => openSignIns(user)}
+                              >
+                                <History className="h-3 w-3" />
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="icon"
+                                className="h-8 w-8"
+                                title="Sign out everywhere"
+                                onClick={() => handleLogoutEverywhere(user.id, user.name)}
+                              >
+                                <LogOut className="h-3 w-3" />
+                              </Button>
                               <Button
                                 variant="destructive"
                                 size="icon"
@@ -385,9 +548,20 @@ export const Users: React.FC = () => {
                             </div>
                           )}
                           {user.id === currentUser?.id && (
-                            <Badge variant="outline" className="text-xs">
-                              Current User
-                            </Badge>
+                            <>
+                              <Badge variant="outline" className="text-xs">
+                                Current User
+                              </Badge>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="h-8 text-xs"
+                                onClick={() => handleLogoutEverywhere(user.id, user.name)}
+                              >
+                                <LogOut className="h-3 w-3 mr-1" />
+                                Sign out everywhere
+                              </Button>
+                            </>
                           )}
                         </div>
                       </div>
@@ -425,6 +599,11 @@ export const Users: React.FC = () => {
                           <Badge variant={getRoleBadgeVariant(user.role)}>
                             {user.role}
                           </Badge>
+                          {user.invitePending && (
+                            <Badge variant="outline" className="ml-2 text-xs">
+                              Invite pending
+                            </Badge>
+                          )}
                         </TableCell>
                         <TableCell>
                           {formatSingaporeTime(user.createdAt)}
@@ -439,6 +618,42 @@ export const Users: React.FC = () => {
                               >
                                 <Edit className="h-4 w-4" />
                               </Button>
+                              {user.invitePending && (
+                                <Button
+                                  variant="outline"
+                                  size="icon"
+                                  title="Resend invite"
+                                  onClick={() => handleResendInvite(user.id, user.name)}
+                                >
+                                  <Send className="h-4 w-4" />
+                                </Button>
+                              )}
+                              {user.twoFactorEnabled && (
+                                <Button
+                                  variant="outline"
+                                  size="icon"
+                                  title="Reset two-factor"
+                                  onClick={() => handleResetTwoFactor(user.id, user.name)}
+                                >
+                                  <ShieldOff className="h-4 w-4" />
+                                </Button>
+                              )}
+                              <Button
+                                variant="outline"
+                                size="icon"
+                                title="Sign-in history"
+                                onClick={() => openSignIns(user)}
+                              >
+                                <History className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="icon"
+                                title="Sign out everywhere"
+                                onClick={() => handleLogoutEverywhere(user.id, user.name)}
+                              >
+                                <LogOut className="h-4 w-4" />
+                              </Button>
                               <Button
                                 variant="destructive"
                                 size="icon"
@@ -448,7 +663,14 @@ export const Users: React.FC = () => {
                               </Button>
                             </div>
                           ) : (
-                            <span className="text-sm text-gray-500">No actions</span>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleLogoutEverywhere(user.id, user.name)}
+                            >
+                              <LogOut className="h-4 w-4 mr-2" />
+                              Sign out everywhere
+                            </Button>
                           )}
                         </TableCell>
                       </TableRow>
@@ -516,6 +738,57 @@ export const Users: React.FC = () => {
                   </SelectContent>
                 </Select>
               </div>
+              {editingUser.role === "florist" && (
+                <>
+                  <div>
+                    <Label htmlFor="editUserSkill">Skill Level</Label>
+                    <Select
+                      value={String(editingUser.skillLevel)}
+                      onValueChange={(value) => setEditingUser({ ...editingUser, skillLevel: Number(value) })}
+                    >
+                      <SelectTrigger id="editUserSkill">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {skillLevels.map((level) => (
+                          <SelectItem key={level.value} value={String(level.value)}>
+                            {level.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Auto-assign gives harder cards to florists with a higher skill level.
+                    </p>
+                  </div>
+                  {stores.length > 1 && (
+                    <div>
+                      <Label>Stores</Label>
+                      <div className="space-y-2 mt-2">
+                        {stores.map((store) => (
+                          <label key={store.id} className="flex items-center gap-2 text-sm">
+                            <Checkbox
+                              checked={editingUser.storeIds.includes(store.id)}
+                              onCheckedChange={(checked) =>
+                                setEditingUser({
+                                  ...editingUser,
+                                  storeIds: checked === true
+                                    ? [...editingUser.storeIds, store.id]
+                                    : editingUser.storeIds.filter((id) => id !== store.id),
+                                })
+                              }
+                            />
+                            {store.name}
+                          </label>
+                        ))}
+                      </div>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Leave all unticked to auto-assign cards from every store.
+                      </p>
+                    </div>
+                  )}
+                </>
+              )}
             </div>
           )}
           <DialogFooter>
@@ -529,6 +802,56 @@ export const Users: React.FC = () => {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Sign-in History Dialog */}
+      <Dialog open={!!signInsUser} onOpenChange={(open) => !open && setSignInsUser(null)}>
+        <DialogContent className={isMobile ? "w-[95vw] max-w-[95vw]" : "max-w-2xl"}>
+          <DialogHeader>
+            <DialogTitle>Sign-in History</DialogTitle>
+            <DialogDescription>
+              Recent sign-in attempts for {signInsUser?.name}. Five wrong passwords or two-factor codes in a row lock the account for 15 minutes.
+            </DialogDescription>
+          </DialogHeader>
+          {loginEvents === null ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+            </div>
+          ) : loginEvents.length === 0 ? (
+            <p className="py-8 text-center text-sm text-gray-500">No sign-ins recorded yet.</p>
+          ) : (
+            <div className="max-h-[60vh] overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>When</TableHead>
+                    <TableHead>Result</TableHead>
+                    <TableHead>Device</TableHead>
+                    {!isMobile && <TableHead>IP address</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {loginEvents.map((event) => (
+                    <TableRow key={event.id}>
+                      <TableCell className="text-sm" title={formatSingaporeTime(event.createdAt)}>
+                        {formatSingaporeRelativeTime(event.createdAt)}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={event.outcome === "success" ? "secondary" : "destructive"} className="text-xs">
+                          {loginOutcomeLabels[event.outcome]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm" title={event.userAgent || undefined}>
+                        {event.clientType}
+                      </TableCell>
+                      {!isMobile && <TableCell className="text-sm text-gray-500">{event.ipAddress || "Unknown"}</TableCell>}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
@@ -0,0 +1,52 @@
+import { useEffect, useState } from "react"
+import { Link, useSearchParams } from "react-router-dom"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { verifyEmail } from "../services/api"
+
+// Where email confirmation links land
+export function VerifyEmail() {
+  const [searchParams] = useSearchParams()
+  const token = searchParams.get("token") || ""
+  const [status, setStatus] = useState<"verifying" | "verified" | "failed">("verifying")
+
+  useEffect(() => {
+    if (!token) {
+      setStatus("failed")
+      return
+    }
+    verifyEmail(token)
+      .then(() => setStatus("verified"))
+      .catch(() => setStatus("failed"))
+  }, [token])
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl font-bold text-green-700">Confirm Email</CardTitle>
+          {status === "verifying" && <CardDescription>Confirming your email address...</CardDescription>}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {status === "verified" && (
+            <Alert>
+              <AlertDescription>Your email address is confirmed. You can now sign in.</AlertDescription>
+            </Alert>
+          )}
+          {status === "failed" && (
+            <Alert variant="destructive">
+              <AlertDescription>
+                This link is invalid or has expired. Sign in to request a new one.
+              </AlertDescription>
+            </Alert>
+          )}
+          <div className="text-center">
+            <Link to="/login" className="text-sm text-green-700 hover:underline">
+              Go to sign in
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
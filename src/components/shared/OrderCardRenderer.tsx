@@ -19,6 +19,7 @@ import {
   Eye,
 } from "lucide-react"
 import type { OrderCardField } from "../../types/orderCardFields"
+import { getOrderCardFieldValue } from "../../lib/orderCardValues"
 
 // ============================================================================
 // TYPES AND INTERFACES
@@ -51,100 +52,6 @@ export interface OrderCardRendererProps {
   onShowProductImage?: (shopifyProductId?: string, shopifyVariantId?: string) => void
 }
 
-// ============================================================================
-// UTILITY FUNCTIONS
-// ============================================================================
-
-const getValueFromShopifyData = (sourcePath: string, data: any): any => {
-  if (!sourcePath || !data) return undefined
-
-  if (sourcePath.startsWith("product:")) {
-    const productField = sourcePath.split(":")[1]
-    const productValue = data.localProduct?.[productField]
-    
-    // Handle labelNames array - return the first label name
-    if (productField === "labelNames" && Array.isArray(productValue)) {
-      return productValue[0] || null
-    }
-    
-    // Handle the new separated label fields
-    if (productField === "difficultyLabel" || productField === "productTypeLabel") {
-      const labelNames = data.localProduct?.labelNames || []
-      const labelCategories = data.localProduct?.labelCategories || []
-      
-      if (productField === "difficultyLabel") {
-        const difficultyLabels = labelNames.filter((name: string, index: number) => 
-          labelCategories[index] === 'difficulty'
-        )
-        return difficultyLabels[0] || null
-      }
-      if (productField === "productTypeLabel") {
-        const productTypeLabels = labelNames.filter((name: string, index: number) => 
-          labelCategories[index] === 'productType'
-        )
-        return productTypeLabels[0] || null
-      }
-      return productValue || null
-    }
-    
-    return productValue
-  }
-
-  if (sourcePath === "tags") {
-    return Array.isArray(data.tags) ? data.tags.join(", ") : data.tags
-  }
-  if (sourcePath === "line_items.title") {
-    return data.lineItems?.edges?.[0]?.node?.title
-  }
-  if (sourcePath === "line_items.variant_title") {
-    return data.lineItems?.edges?.[0]?.node?.variant?.title
-  }
-  // For direct properties like 'name', 'createdAt', 'note'
-  return data[sourcePath]
-}
-
-const applyTransformation = (value: any, field: OrderCardField): any => {
-  if (field.transformation === "extract" && field.transformationRule) {
-    if (typeof value !== "string") {
-      return null
-    }
-    try {
-      const regex = new RegExp(field.transformationRule)
-      const match = value.match(regex)
-      if (match && match[0]) {
-        const extractedValue = match[0]
-
-        if (field.type === "date") {
-          const parts = extractedValue.split("/")
-          let date
-          // Handle dd/mm/yyyy format specifically
-          if (parts.length === 3 && parts[2].length === 4) {
-            const reformattedDate = `${parts[2]}-${parts[1]}-${parts[0]}`
-            date = new Date(reformattedDate)
-          } else {
-            // Fallback for other formats
-            date = new Date(extractedValue)
-          }
-
-          if (date && !isNaN(date.getTime())) {
-            // Return a standard ISO string for reliable parsing later
-            return date.toISOString()
-          } else {
-            return "Invalid Date"
-          }
-        }
-        return extractedValue
-      } else {
-        return "No match"
-      }
-    } catch (e) {
-      console.error("Invalid regex:", e)
-      return "Invalid Regex"
-    }
-  }
-  return value
-}
-
 // ============================================================================
 // SUB-COMPONENTS
 // ============================================================================
@@ -413,19 +320,7 @@ export const OrderCardRenderer: React.FC<OrderCardRendererProps> = ({
   const getFieldValue = (fieldId: string): any => {
     const field = fields.find((f) => f.id === fieldId)
     if (!field) return ""
-
-    let rawValue
-
-    // Handle different data sources
-    if (order.shopifyOrderData && field.shopifyFields && field.shopifyFields.length > 0) {
-      const sourcePath = field.shopifyFields[0]
-      rawValue = getValueFromShopifyData(sourcePath, order.shopifyOrderData)
-    } else {
-      // Fallback to direct order properties
-      rawValue = order[fieldId] || order[field.id]
-    }
-
-    return applyTransformation(rawValue, field)
+    return getOrderCardFieldValue(order, field)
   }
 
   const productTitle = getFieldValue("productTitle")
@@ -1,11 +1,28 @@
 import React, { createContext, useContext, useReducer, useEffect, ReactNode } from "react"
-import type { LoginRequest, LoginResponse, User, Tenant } from "../types"
-import { login as authLogin, getStoredToken, removeStoredToken } from "../services/auth"
-import { register } from "../services/api"
+import type { LoginRequest, LoginResponse, TwoFactorChallenge, User, Tenant } from "../types"
+import {
+  login as authLogin,
+  logout as authLogout,
+  setPasswordFromLink,
+  completeTwoFactorLogin,
+  enableTwoFactorAndSignIn,
+  refreshToken,
+  getStoredToken,
+  getStoredRefreshToken,
+  removeStoredToken,
+  isTokenExpired,
+  parseJwt,
+  SESSION_EXPIRED_EVENT,
+} from "../services/auth"
+import { ApiError, register } from "../services/api"
 
 // API configuration
 const API_BASE_URL = "https://order-to-do.stanleytan92.workers.dev"
 
+// Access tokens last 15 minutes; renew a minute early so requests reading auth_token directly keep working
+const REFRESH_AHEAD_MS = 60 * 1000
+const REFRESH_RETRY_MS = 30 * 1000
+
 interface AuthState {
   isAuthenticated: boolean
   user: User | null
@@ -19,6 +36,7 @@ type AuthAction =
   | { type: "AUTH_START" }
   | { type: "AUTH_SUCCESS"; payload: { user: User; tenant: Tenant; token: string } }
   | { type: "AUTH_FAILURE"; payload: { error: string } }
+  | { type: "AUTH_CHALLENGE" } // Password accepted, a second step to go
   | { type: "AUTH_LOGOUT" }
   | { type: "SET_CURRENT_STORE"; payload: { storeId: string } }
   | { type: "INIT_AUTH"; payload: { user: User; tenant: Tenant } }
@@ -54,6 +72,8 @@ function authReducer(state: AuthState, action: AuthAction): AuthState {
         loading: false,
         error: action.payload.error,
       }
+    case "AUTH_CHALLENGE":
+      return { ...state, loading: false, error: null }
     case "AUTH_LOGOUT":
       return {
         ...state,
@@ -84,8 +104,11 @@ function authReducer(state: AuthState, action: AuthAction): AuthState {
 }
 
 interface AuthContextType extends AuthState {
-  login: (request: LoginRequest) => Promise<{ success: boolean }>
+  login: (request: LoginRequest) => Promise<{ success: boolean; code?: string; twoFactor?: TwoFactorChallenge }>
+  setPasswordAndSignIn: (token: string, password: string) => Promise<TwoFactorChallenge | null>
+  completeTwoFactor: (challenge: TwoFactorChallenge, code: string) => Promise<{ recoveryCodes?: string[] }>
   logout: () => Promise<void>
+  logoutEverywhere: () => Promise<void>
   setCurrentStore: (storeId: string) => void
 }
 
@@ -98,10 +121,19 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   useEffect(() => {
     const initializeAuth = async () => {
       try {
-        const token = localStorage.getItem("auth_token")
+        let token = localStorage.getItem("auth_token")
         const userData = localStorage.getItem("auth_user")
         const tenantData = localStorage.getItem("auth_tenant")
 
+        // The access token will usually have lapsed since the last visit; renew it before validating
+        if (token && isTokenExpired(token) && getStoredRefreshToken()) {
+          try {
+            token = (await refreshToken()).accessToken || token
+          } catch (error) {
+            console.error("Token refresh on startup failed:", error)
+          }
+        }
+
         if (token && userData && tenantData) {
           // Validate token with backend
           try {
@@ -159,14 +191,89 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     initializeAuth()
   }, [])
 
+  // Silently renew the access token while signed in
+  useEffect(() => {
+    if (!state.isAuthenticated) return
+
+    let timer: number | undefined
+    const schedule = () => {
+      window.clearTimeout(timer)
+      const token = getStoredToken()
+      const exp = token ? parseJwt(token)?.exp : null
+      if (!exp) return
+      timer = window.setTimeout(renew, Math.max(exp * 1000 - Date.now() - REFRESH_AHEAD_MS, 0))
+    }
+    const renew = async () => {
+      try {
+        await refreshToken()
+        schedule()
+      } catch (error) {
+        console.error("Silent token refresh failed:", error)
+        // Offline or a server error: try again shortly. A revoked session signs out via the event below.
+        if (getStoredRefreshToken()) {
+          timer = window.setTimeout(renew, REFRESH_RETRY_MS)
+        }
+      }
+    }
+    // Another tab renewed the tokens, or this one was in the background while timers were throttled
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === "auth_token") schedule()
+    }
+    const handleVisibility = () => {
+      if (document.visibilityState === "visible") schedule()
+    }
+    const handleExpired = () => {
+      localStorage.removeItem("auth_user")
+      localStorage.removeItem("auth_tenant")
+      dispatch({ type: "AUTH_FAILURE", payload: { error: "Your session has ended - please log in again" } })
+    }
+
+    schedule()
+    window.addEventListener("storage", handleStorage)
+    document.addEventListener("visibilitychange", handleVisibility)
+    window.addEventListener(SESSION_EXPIRED_EVENT, handleExpired)
+    return () => {
+      window.clearTimeout(timer)
+      window.removeEventListener("storage", handleStorage)
+      document.removeEventListener("visibilitychange", handleVisibility)
+      window.removeEventListener(SESSION_EXPIRED_EVENT, handleExpired)
+    }
+  }, [state.isAuthenticated])
+
+  const signedIn = (response: LoginResponse) => {
+    if (!response.user || !response.tenant) {
+      throw new Error(response.error || "Sign-in failed")
+    }
+    localStorage.setItem("auth_user", JSON.stringify(response.user))
+    localStorage.setItem("auth_tenant", JSON.stringify(response.tenant))
+    dispatch({
+      type: "AUTH_SUCCESS",
+      payload: { user: response.user, tenant: response.tenant, token: response.accessToken || "" },
+    })
+  }
+
+  // What's asked for after a correct password, if anything
+  const twoFactorChallenge = (response: LoginResponse): TwoFactorChallenge | null => {
+    if (!response.challengeToken) return null
+    if (response.twoFactorRequired) return { mode: "verify", challengeToken: response.challengeToken }
+    if (response.twoFactorSetupRequired) return { mode: "enroll", challengeToken: response.challengeToken }
+    return null
+  }
+
   // Login function
-  const login = async (request: LoginRequest): Promise<{ success: boolean }> => {
+  const login = async (request: LoginRequest): Promise<{ success: boolean; code?: string; twoFactor?: TwoFactorChallenge }> => {
     try {
       dispatch({ type: "AUTH_START" })
 
-      console.log("Frontend: Attempting login with:", request)
+      // Never log the password
+      console.log("Frontend: Attempting login for tenant:", request.tenantDomain)
       const response: LoginResponse = await authLogin(request)
-      console.log("Frontend: Received login response:", response)
+
+      const twoFactor = twoFactorChallenge(response)
+      if (twoFactor) {
+        dispatch({ type: "AUTH_CHALLENGE" })
+        return { success: false, twoFactor }
+      }
 
       if (response.success && response.user && response.tenant) {
         console.log("Frontend: Login successful, dispatching AUTH_SUCCESS")
@@ -204,15 +311,35 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         type: "AUTH_FAILURE",
         payload: { error: errorMessage },
       })
-      return { success: false }
+      return { success: false, code: error instanceof ApiError ? error.code : undefined }
     }
   }
 
+  // Accepts an invite or password reset link; throws when the link is invalid or has expired. Users with
+  // two-factor on (or required) are given the second step instead of being signed in.
+  const setPasswordAndSignIn = async (token: string, password: string): Promise<TwoFactorChallenge | null> => {
+    const response = await setPasswordFromLink(token, password)
+    const twoFactor = twoFactorChallenge(response)
+    if (twoFactor) return twoFactor
+
+    signedIn(response)
+    return null
+  }
+
+  // The second sign-in step: a code, or setting two-factor up, whose recovery codes are returned to be shown
+  const completeTwoFactor = async (challenge: TwoFactorChallenge, code: string): Promise<{ recoveryCodes?: string[] }> => {
+    const response =
+      challenge.mode === "verify"
+        ? await completeTwoFactorLogin(challenge.challengeToken, code)
+        : await enableTwoFactorAndSignIn(challenge.challengeToken, code)
+    signedIn(response)
+    return { recoveryCodes: response.recoveryCodes }
+  }
+
   // Logout function
   const logout = async (): Promise<void> => {
     try {
-      // TODO: Call logout API if needed
-      // await authLogout();
+      await authLogout()
     } catch (error) {
       console.error("Logout API call failed:", error)
     } finally {
@@ -226,13 +353,24 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   }
 
+  // Ends every session of the signed-in user, on every device; throws if the server couldn't be reached
+  const logoutEverywhere = async (): Promise<void> => {
+    try {
+      await authLogout(true)
+    } finally {
+      localStorage.removeItem("auth_user")
+      localStorage.removeItem("auth_tenant")
+      dispatch({ type: "AUTH_LOGOUT" })
+    }
+  }
+
   // Set current store
   const setCurrentStore = (storeId: string) => {
     dispatch({ type: "SET_CURRENT_STORE", payload: { storeId } })
   }
 
   return (
-    <AuthContext.Provider value={{ ...state, login, logout, setCurrentStore }}>
+    <AuthContext.Provider value={{ ...state, login, setPasswordAndSignIn, completeTwoFactor, logout, logoutEverywhere, setCurrentStore }}>
       {children}
     </AuthContext.Provider>
   )
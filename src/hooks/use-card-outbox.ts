@@ -0,0 +1,75 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { getOutbox, replayOutbox, subscribeToOutbox, type OutboxConflict } from '../services/cardOutbox'
+
+// How often queued card changes are retried while some are waiting, in case 'online' never fires
+const RETRY_INTERVAL = 30000
+
+interface UseCardOutboxOptions {
+  tenantId?: string
+  onSynced?: (sent: number) => void // After a replay that got changes through, e.g. to reload the board
+}
+
+// Connection state and queued offline card changes for the board, replaying them when the network is back
+export function useCardOutbox({ tenantId, onSynced }: UseCardOutboxOptions) {
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine)
+  const [pending, setPending] = useState(0)
+  const [conflicts, setConflicts] = useState<OutboxConflict[]>([])
+  const [isSyncing, setIsSyncing] = useState(false)
+  const onSyncedRef = useRef(onSynced)
+  onSyncedRef.current = onSynced
+
+  const refresh = useCallback(async () => {
+    if (!tenantId) return
+    try {
+      const outbox = await getOutbox(tenantId)
+      setPending(outbox.entries.length)
+      setConflicts(outbox.conflicts)
+    } catch (error) {
+      console.error('[CARD-OUTBOX] Failed to read outbox:', error)
+    }
+  }, [tenantId])
+
+  const syncNow = useCallback(async () => {
+    if (!tenantId || !navigator.onLine) return
+    setIsSyncing(true)
+    try {
+      const sent = await replayOutbox(tenantId)
+      if (sent > 0) onSyncedRef.current?.(sent)
+    } catch (error) {
+      console.error('[CARD-OUTBOX] Replay failed:', error)
+    } finally {
+      setIsSyncing(false)
+    }
+  }, [tenantId])
+
+  useEffect(() => {
+    refresh()
+    syncNow()
+    const unsubscribe = subscribeToOutbox((event) => {
+      if (event.type === 'changed') refresh()
+    })
+    return unsubscribe
+  }, [refresh, syncNow])
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true)
+      syncNow()
+    }
+    const handleOffline = () => setIsOnline(false)
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
+    return () => {
+      window.removeEventListener('online', handleOnline)
+      window.removeEventListener('offline', handleOffline)
+    }
+  }, [syncNow])
+
+  useEffect(() => {
+    if (pending === 0 || !isOnline) return
+    const timer = setInterval(syncNow, RETRY_INTERVAL)
+    return () => clearInterval(timer)
+  }, [pending, isOnline, syncNow])
+
+  return { isOnline, pending, conflicts, isSyncing, syncNow }
+}
@@ -73,6 +73,12 @@ export function useRealtimeUpdates(options: UseRealtimeUpdatesOptions = {}) {
       return
     }
 
+    // OFFLINE: Nothing can get through, so don't count it as a failure - the 'online' listener checks as soon as it's back
+    if (!navigator.onLine) {
+      setIsConnected(false)
+      return
+    }
+
     console.log(`🔄 [${clientId.current}] POLLING Checking updates...`, new Date().toLocaleTimeString())
 
     try {
@@ -430,9 +436,17 @@ export function useRealtimeUpdates(options: UseRealtimeUpdatesOptions = {}) {
       
       console.log(`✅ [${clientId.current}] POLLING Interval ID:`, interval, 'every', pollInterval, 'ms')
 
+      // RECONNECT: Catch up straight away when the connection comes back
+      const handleOnline = () => {
+        console.log(`🌐 [${clientId.current}] POLLING Back online - checking now`)
+        checkForUpdates()
+      }
+      window.addEventListener('online', handleOnline)
+
       return () => {
         console.log(`🛑 [${clientId.current}] POLLING Clearing interval:`, interval)
         clearInterval(interval)
+        window.removeEventListener('online', handleOnline)
       }
     } else {
       console.log(`⭕ [${clientId.current}] POLLING Not starting - enabled:`, enabled, 'tenant:', tenant?.id)
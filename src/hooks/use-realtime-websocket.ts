@@ -1,93 +1,120 @@
 import { useState, useEffect, useRef, useCallback } from 'react'
 import { useAuth } from '../contexts/AuthContext'
+import { getStoredToken } from '../services/auth'
 
 interface RealtimeUpdate {
   type: 'order_updated' | 'order_created' | 'order_deleted' | 'bulk_update'
   orderId?: string
   orderIds?: string[]
   tenantId: string
-  timestamp: string
+  timestamp?: string
   updatedBy: string
-  changes: {
+  updatedAt?: string
+  status?: string
+  assignedTo?: string | null
+  notes?: string | null
+  sortOrder?: number
+  deliveryDate?: string
+  seq?: number
+  version?: number
+  // Shopify webhook changes: the card moved day, was cancelled, or its assignee needs telling
+  previousDeliveryDate?: string
+  cancelled?: boolean
+  notice?: {
+    kind: 'rescheduled' | 'cancelled' | 'deleted'
+    message: string
+    recipient: string
+    notificationId?: number
+  }
+  changes?: {
     status?: string
     assignedTo?: string
     notes?: string
     sortOrder?: number
   }
-  source: 'local' | 'remote' // Track if update originated locally
+  source: 'local' | 'remote' | string // Track if update originated locally
 }
 
 interface UseRealtimeWebSocketOptions {
   enabled?: boolean
   batchDelay?: number // Milliseconds to batch rapid updates
   onUpdate?: (update: RealtimeUpdate) => void
+  onResync?: () => void // Called when the hub no longer has the events we missed while offline
 }
 
+const WS_BASE_URL = 'wss://order-to-do.stanleytan92.workers.dev'
+const PING_INTERVAL = 30000
+const MAX_RECONNECT_DELAY = 30000
+
 export function useRealtimeWebSocket(options: UseRealtimeWebSocketOptions = {}) {
-  const { enabled = true, batchDelay = 300, onUpdate } = options
+  const { enabled = true, batchDelay = 300, onUpdate, onResync } = options
   const { tenant, user } = useAuth()
-  
+
   const [isConnected, setIsConnected] = useState(false)
   const [updates, setUpdates] = useState<RealtimeUpdate[]>([])
   const [connectionStatus, setConnectionStatus] = useState<'disconnected' | 'connecting' | 'connected' | 'error'>('disconnected')
-  
-  // Use SSE instead of WebSocket for more reliable real-time updates
-  const eventSourceRef = useRef<EventSource | null>(null)
+
+  const socketRef = useRef<WebSocket | null>(null)
   const updateBatchRef = useRef<RealtimeUpdate[]>([])
   const batchTimeoutRef = useRef<NodeJS.Timeout | null>(null)
-  const pendingOptimisticUpdates = useRef<Map<string, RealtimeUpdate>>(new Map())
-  
-  // Prevent duplicate processing
-  const processedUpdateIds = useRef<Set<string>>(new Set())
-  
+  const pingIntervalRef = useRef<NodeJS.Timeout | null>(null)
+  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null)
+  const reconnectAttemptsRef = useRef(0)
+  const manualCloseRef = useRef(false)
+
+  // Last event sequence number seen from the hub - sent on reconnect so missed events are replayed
+  const cursorRef = useRef<number | null>(null)
+  const onResyncRef = useRef(onResync)
+  onResyncRef.current = onResync
+
   // ANTI-FLICKER: Batch rapid updates together
   const batchUpdate = useCallback((update: RealtimeUpdate) => {
     updateBatchRef.current.push(update)
-    
+
     if (batchTimeoutRef.current) {
       clearTimeout(batchTimeoutRef.current)
     }
-    
+
     batchTimeoutRef.current = setTimeout(() => {
       const batch = updateBatchRef.current
       updateBatchRef.current = []
-      
+
       if (batch.length > 0) {
-        console.log(`📦 [SSE-REALTIME] Processing batch of ${batch.length} updates`)
-        
+        console.log(`📦 [WS-REALTIME] Processing batch of ${batch.length} updates`)
+
         // Group by order ID to merge rapid changes to same order
         const mergedUpdates = new Map<string, RealtimeUpdate>()
-        
+
         batch.forEach(update => {
           const key = update.orderId || 'bulk'
           const existing = mergedUpdates.get(key)
-          
+
           if (existing && update.orderId) {
-            // Merge changes for same order
+            // Merge changes for same order - latest event wins per field
             mergedUpdates.set(key, {
               ...existing,
-              changes: { ...existing.changes, ...update.changes },
-              timestamp: update.timestamp // Use latest timestamp
+              ...update,
+              changes: { ...existing.changes, ...update.changes }
             })
           } else {
             mergedUpdates.set(key, update)
           }
         })
-        
+
         // Process merged updates
         mergedUpdates.forEach(update => {
           onUpdate?.(update)
         })
-        
+
         setUpdates(prev => [...prev, ...Array.from(mergedUpdates.values())])
       }
     }, batchDelay)
   }, [batchDelay, onUpdate])
-  
+
   // ANTI-LOOP: Optimistic update (for future use)
   const sendOptimisticUpdate = useCallback((orderId: string, changes: any) => {
     if (!tenant?.id || !user) return
-    
+
     const optimisticUpdate: RealtimeUpdate = {
       type: 'order_updated',
       orderId,
@@ -97,117 +124,187 @@ export function useRealtimeWebSocket(options: UseRealtimeWebSocketOptions = {})
       changes,
       source: 'local'
     }
-    
+
     // Apply optimistically (immediate UI update)
     onUpdate?.(optimisticUpdate)
-    
-    console.log('📤 [SSE-REALTIME] Optimistic update applied for order:', orderId)
-    
+
+    console.log('📤 [WS-REALTIME] Optimistic update applied for order:', orderId)
+
   }, [tenant?.id, user, onUpdate])
-  
-  // SSE connection management
+
+  const clearTimers = () => {
+    if (pingIntervalRef.current) {
+      clearInterval(pingIntervalRef.current)
+      pingIntervalRef.current = null
+    }
+    if (reconnectTimeoutRef.current) {
+      clearTimeout(reconnectTimeoutRef.current)
+      reconnectTimeoutRef.current = null
+    }
+  }
+
+  // WebSocket connection management
   const connect = useCallback(() => {
     if (!tenant?.id || !enabled) return
-    
+
+    const token = getStoredToken()
+    if (!token) {
+      console.warn('⚠️ [WS-REALTIME] No auth token, skipping realtime connection')
+      return
+    }
+
     // Cleanup existing connection
-    if (eventSourceRef.current) {
-      eventSourceRef.current.close()
+    manualCloseRef.current = false
+    clearTimers()
+    if (socketRef.current) {
+      socketRef.current.onclose = null
+      socketRef.current.close()
     }
-    
+
     setConnectionStatus('connecting')
-    
-    const sseUrl = `https://order-to-do.stanleytan92.workers.dev/api/tenants/${tenant.id}/realtime/orders`
-    
-    console.log('🔌 [SSE-REALTIME] Connecting to realtime updates...')
-    
+
+    const wsUrl = `${WS_BASE_URL}/api/tenants/${tenant.id}/realtime/ws?token=${encodeURIComponent(token)}`
+
+    console.log('🔌 [WS-REALTIME] Connecting to realtime hub...')
+
     try {
-      eventSourceRef.current = new EventSource(sseUrl)
-      
-      eventSourceRef.current.onopen = () => {
-        console.log('✅ [SSE-REALTIME] Connected')
+      const socket = new WebSocket(wsUrl)
+      socketRef.current = socket
+
+      socket.onopen = () => {
+        console.log('✅ [WS-REALTIME] Connected, resuming from cursor', cursorRef.current)
+        reconnectAttemptsRef.current = 0
         setIsConnected(true)
         setConnectionStatus('connected')
+
+        socket.send(JSON.stringify({ type: 'resume', cursor: cursorRef.current }))
+
+        pingIntervalRef.current = setInterval(() => {
+          if (socket.readyState === WebSocket.OPEN) {
+            socket.send(JSON.stringify({ type: 'ping' }))
+          }
+        }, PING_INTERVAL)
       }
-      
-      eventSourceRef.current.addEventListener('connected', (event) => {
-        console.log('🎉 [SSE-REALTIME] Real-time connection established')
-      })
-      
-      eventSourceRef.current.addEventListener('order_update', (event) => {
+
+      socket.onmessage = (message) => {
         try {
-          const data = JSON.parse(event.data)
-          console.log('📨 [SSE-REALTIME] Order update received:', data.type)
-          
-          // ANTI-DUPLICATE: Check if already processed
-          const duplicateKey = `${data.orderId}-${data.timestamp}`
-          if (processedUpdateIds.current.has(duplicateKey)) {
-            // Skip duplicate - no logging for reduced noise
-            return
+          const data = JSON.parse(message.data)
+
+          switch (data.type) {
+            case 'welcome':
+              console.log(`🎉 [WS-REALTIME] Real-time connection established (cursor ${data.cursor}${data.replayed ? `, replayed ${data.replayed}` : ''})`)
+              cursorRef.current = data.cursor
+              break
+
+            case 'card_state': {
+              const event = data.event
+              // ANTI-DUPLICATE: Replayed events may overlap with live ones
+              if (cursorRef.current !== null && event.seq <= cursorRef.current) {
+                return
+              }
+              cursorRef.current = event.seq
+
+              // ANTI-FLICKER: Batch the update
+              batchUpdate({
+                ...event,
+                timestamp: event.updatedAt,
+                source: 'remote'
+              })
+              break
+            }
+
+            case 'resync_required':
+              // Too many events missed while disconnected - reload the board from D1
+              console.log('🔄 [WS-REALTIME] Hub cannot replay missed events, full resync required')
+              cursorRef.current = data.cursor
+              onResyncRef.current?.()
+              break
+
+            case 'pong':
+              // Heartbeat received - connection is alive (silent for reduced log noise)
+              break
+
+            case 'error':
+              console.error('❌ [WS-REALTIME] Hub error:', data.message)
+              break
           }
-          processedUpdateIds.current.add(duplicateKey)
-          
-          // ANTI-FLICKER: Batch the update
-          batchUpdate({
-            ...data,
-            source: 'remote'
-          })
-          
         } catch (error) {
-          console.error('❌ [SSE-REALTIME] Failed to parse update:', error)
+          console.error('❌ [WS-REALTIME] Failed to parse message:', error)
         }
-      })
-      
-      eventSourceRef.current.addEventListener('heartbeat', (event) => {
-        // Heartbeat received - connection is alive (silent for reduced log noise)
-      })
-      
-      eventSourceRef.current.onerror = (error) => {
-        console.error('❌ [SSE-REALTIME] Error:', error)
-        setIsConnected(false)
+      }
+
+      socket.onerror = (error) => {
+        console.error('❌ [WS-REALTIME] Error:', error)
         setConnectionStatus('error')
-        
-        // Auto-reconnect after delay (if enabled)
-        if (enabled) {
-          setTimeout(() => {
-            console.log('🔄 [SSE-REALTIME] Attempting to reconnect...')
-            connect()
-          }, 5000)
+      }
+
+      socket.onclose = (event) => {
+        clearTimers()
+        setIsConnected(false)
+
+        if (manualCloseRef.current || !enabled) {
+          setConnectionStatus('disconnected')
+          return
         }
+
+        // Auto-reconnect with exponential backoff
+        const delay = Math.min(1000 * 2 ** reconnectAttemptsRef.current, MAX_RECONNECT_DELAY)
+        reconnectAttemptsRef.current += 1
+        console.log(`🔄 [WS-REALTIME] Closed (${event.code}), reconnecting in ${delay}ms...`)
+        setConnectionStatus('error')
+        reconnectTimeoutRef.current = setTimeout(() => connect(), delay)
       }
-      
+
     } catch (error) {
-      console.error('❌ [SSE-REALTIME] Connection failed:', error)
+      console.error('❌ [WS-REALTIME] Connection failed:', error)
       setConnectionStatus('error')
     }
-    
-  }, [tenant?.id, enabled, user?.id, batchUpdate])
-  
+
+  }, [tenant?.id, enabled, batchUpdate])
+
+  const disconnect = useCallback(() => {
+    manualCloseRef.current = true
+    clearTimers()
+    if (socketRef.current) {
+      socketRef.current.close(1000, 'Client disconnect')
+      socketRef.current = null
+    }
+  }, [])
+
   // Start connection when enabled
   useEffect(() => {
     if (enabled && tenant?.id) {
       connect()
     }
-    
+
     return () => {
-      if (eventSourceRef.current) {
-        eventSourceRef.current.close()
-      }
+      disconnect()
       if (batchTimeoutRef.current) {
         clearTimeout(batchTimeoutRef.current)
       }
     }
+  }, [enabled, tenant?.id, connect, disconnect])
+
+  // Reconnect as soon as the network is back rather than waiting out the backoff
+  useEffect(() => {
+    if (!enabled || !tenant?.id) return
+
+    const handleOnline = () => {
+      if (socketRef.current?.readyState === WebSocket.OPEN) return
+      console.log('🌐 [WS-REALTIME] Back online, reconnecting now')
+      reconnectAttemptsRef.current = 0
+      connect()
+    }
+    window.addEventListener('online', handleOnline)
+    return () => window.removeEventListener('online', handleOnline)
   }, [enabled, tenant?.id, connect])
-  
+
   return {
     isConnected,
     connectionStatus,
     updates,
     sendOptimisticUpdate,
     connect: () => connect(),
-    disconnect: () => {
-      if (eventSourceRef.current) {
-        eventSourceRef.current.close()
-      }
-    }
+    disconnect
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,126 @@
+import type { CapacitySettings } from '../types'
+import { parseTimeslot } from './schedule'
+
+// Auto-assignment: spreads a day's unassigned cards across the working florists. Used by the worker's
+// assignment plan; the board applies the plan through the bulk order-card-states route.
+
+export const MIN_SKILL_LEVEL = 1
+export const MAX_SKILL_LEVEL = 4
+export const DEFAULT_SKILL_LEVEL = 2
+
+// How much a florist's spare skill counts against them, so hard cards aren't crowded out by easy
+// ones going to the most skilled florists. In units of a full day's load.
+const SKILL_SURPLUS_WEIGHT = 0.1
+
+export interface PlannerCard {
+  cardId: string
+  storeId: string | null
+  timeslot: string | null
+  difficulty: string | null
+  minutes: number
+}
+
+export interface PlannerFlorist {
+  id: string
+  name: string
+  skillLevel: number
+  storeIds: string[] | null // null = every store
+  capacityMinutes: number
+  loadMinutes: number // Already assigned and not completed
+}
+
+export interface PlannedAssignment {
+  cardId: string
+  floristId: string
+  reason: string
+  warnings: string[]
+}
+
+export interface AssignmentResult {
+  assignments: PlannedAssignment[]
+  unassigned: { cardId: string; reason: string }[]
+  planned: Record<string, { minutes: number; cards: number }> // By florist id
+}
+
+export const isSkillLevel = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) >= MIN_SKILL_LEVEL && (value as number) <= MAX_SKILL_LEVEL
+
+/** Skill level a difficulty label calls for: labels ranked by prep time, easiest 1, capped at the top level */
+export function difficultyRank(settings: CapacitySettings, label: string | null | undefined): number {
+  if (!label) return MIN_SKILL_LEVEL
+  const wanted = label.trim().toLowerCase()
+  const index = Object.entries(settings.difficultyMinutes)
+    .sort((a, b) => a[1] - b[1])
+    .findIndex(([name]) => name.trim().toLowerCase() === wanted)
+  return index === -1 ? MIN_SKILL_LEVEL : Math.min(index + 1, MAX_SKILL_LEVEL)
+}
+
+// Earlier slots are planned first; unreadable slots go last
+const timeslotStart = (timeslot: string | null) => parseTimeslot(timeslot)?.start ?? Number.MAX_SAFE_INTEGER
+
+const worksAt = (florist: PlannerFlorist, storeId: string | null) =>
+  !storeId || !florist.storeIds || florist.storeIds.length === 0 || florist.storeIds.includes(storeId)
+
+/**
+ * Assigns cards in timeslot order (hardest first within a slot) to the florist with the lightest load
+ * relative to their hours, among those working at the card's store who are skilled enough for it.
+ * Falls back to the most skilled florists available, or to going over someone's hours, with a warning
+ * rather than leaving the card; cards no florist can take are returned as unassigned.
+ */
+export function planAssignments(
+  cards: PlannerCard[],
+  florists: PlannerFlorist[],
+  settings: CapacitySettings
+): AssignmentResult {
+  const load = new Map(florists.map((florist) => [florist.id, florist.loadMinutes]))
+  const planned: AssignmentResult['planned'] = Object.fromEntries(florists.map((florist) => [florist.id, { minutes: 0, cards: 0 }]))
+  const result: AssignmentResult = { assignments: [], unassigned: [], planned }
+
+  const ordered = cards
+    .map((card) => ({ card, rank: difficultyRank(settings, card.difficulty) }))
+    .sort((a, b) =>
+      timeslotStart(a.card.timeslot) - timeslotStart(b.card.timeslot) ||
+      b.rank - a.rank ||
+      b.card.minutes - a.card.minutes
+    )
+
+  const working = florists.filter((florist) => florist.capacityMinutes > 0)
+  for (const { card, rank } of ordered) {
+    const eligible = working.filter((florist) => worksAt(florist, card.storeId))
+    if (eligible.length === 0) {
+      result.unassigned.push({
+        cardId: card.cardId,
+        reason: working.length === 0 ? 'No florists are working this day' : 'No working florist covers this store',
+      })
+      continue
+    }
+
+    const warnings: string[] = []
+    const skilled = eligible.filter((florist) => florist.skillLevel >= rank)
+    if (skilled.length === 0) warnings.push(`Needs skill level ${rank}; no working florist has it`)
+    const topSkill = Math.max(...eligible.map((florist) => florist.skillLevel))
+
+    const score = (florist: PlannerFlorist) =>
+      (load.get(florist.id)! + card.minutes) / florist.capacityMinutes +
+      SKILL_SURPLUS_WEIGHT * Math.max(florist.skillLevel - rank, 0)
+    const fits = (florist: PlannerFlorist) => load.get(florist.id)! + card.minutes <= florist.capacityMinutes
+    const candidates = skilled.length > 0 ? skilled : eligible.filter((florist) => florist.skillLevel === topSkill)
+    const pool = candidates.some(fits) ? candidates.filter(fits) : candidates
+    const florist = pool.reduce((best, next) => (score(next) < score(best) ? next : best))
+
+    const before = load.get(florist.id)!
+    if (!fits(florist)) warnings.push(`Takes ${florist.name} over their ${Math.round(florist.capacityMinutes / 60 * 10) / 10}h`)
+    load.set(florist.id, before + card.minutes)
+    planned[florist.id].minutes += card.minutes
+    planned[florist.id].cards++
+
+    result.assignments.push({
+      cardId: card.cardId,
+      floristId: florist.id,
+      reason: `Skill ${florist.skillLevel} for ${card.difficulty || 'unlabelled'}; ${Math.round(before)} of ${florist.capacityMinutes} min booked`,
+      warnings,
+    })
+  }
+
+  return result
+}
@@ -0,0 +1,71 @@
+import type { CapacitySettings } from '../types'
+import { DEFAULT_DISPATCH_BUFFER_MINUTES } from './schedule'
+
+// Workload forecast assumptions, shared by the worker's capacity forecast and the planner view.
+
+/** Used until a tenant saves its own; difficulty keys match the product label names */
+export const DEFAULT_CAPACITY_SETTINGS: CapacitySettings = {
+  defaultMinutes: 30,
+  difficultyMinutes: { Easy: 20, Medium: 35, Hard: 60, 'Very Hard': 90 },
+  hoursPerFlorist: 8,
+  dispatchBufferMinutes: DEFAULT_DISPATCH_BUFFER_MINUTES,
+}
+
+export const MAX_FORECAST_DAYS = 31
+
+/** The capacity settings a tenant configured, filled in from the defaults */
+export function getCapacitySettings(settings?: { capacity?: Partial<CapacitySettings> } | null): CapacitySettings {
+  const capacity = settings?.capacity
+  return {
+    ...DEFAULT_CAPACITY_SETTINGS,
+    ...capacity,
+    difficultyMinutes: capacity?.difficultyMinutes || DEFAULT_CAPACITY_SETTINGS.difficultyMinutes,
+  }
+}
+
+/** Prep minutes for a difficulty label, matched case-insensitively; null when it has no setting */
+export function difficultyMinutes(settings: CapacitySettings, label: string | null | undefined): number | null {
+  if (!label) return null
+  const wanted = label.trim().toLowerCase()
+  const entry = Object.entries(settings.difficultyMinutes).find(([name]) => name.trim().toLowerCase() === wanted)
+  return entry ? entry[1] : null
+}
+
+/** Length in hours of an hh:mm-hh:mm timeslot, or null for anything else */
+export function timeslotHours(timeslot: string | null | undefined): number | null {
+  const match = /^(\d{2}):(\d{2})-(\d{2}):(\d{2})$/.exec(timeslot?.trim() || '')
+  if (!match) return null
+  const [, startHours, startMinutes, endHours, endMinutes] = match.map(Number)
+  const minutes = endHours * 60 + endMinutes - (startHours * 60 + startMinutes)
+  return minutes > 0 ? minutes / 60 : null
+}
+
+const isMinutes = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 24 * 60
+
+/** Problems with capacity settings submitted from the planner; empty when they can be saved */
+export function validateCapacitySettings(value: unknown): string[] {
+  if (!value || typeof value !== 'object') return ['Capacity settings must be an object']
+  const settings = value as Partial<CapacitySettings>
+  const errors: string[] = []
+
+  if (!isMinutes(settings.defaultMinutes)) errors.push('Default prep time must be 0 to 1440 minutes')
+  if (typeof settings.hoursPerFlorist !== 'number' || !(settings.hoursPerFlorist >= 0 && settings.hoursPerFlorist <= 24)) {
+    errors.push('Hours per florist must be 0 to 24')
+  }
+  if (
+    settings.dispatchBufferMinutes !== undefined &&
+    !(typeof settings.dispatchBufferMinutes === 'number' && settings.dispatchBufferMinutes >= 0 && settings.dispatchBufferMinutes <= 240)
+  ) {
+    errors.push('Dispatch buffer must be 0 to 240 minutes')
+  }
+  if (!settings.difficultyMinutes || typeof settings.difficultyMinutes !== 'object') {
+    errors.push('Difficulty prep times must be an object')
+  } else {
+    for (const [label, minutes] of Object.entries(settings.difficultyMinutes)) {
+      if (!label.trim()) errors.push('Difficulty labels cannot be blank')
+      if (!isMinutes(minutes)) errors.push(`Prep time for "${label}" must be 0 to 1440 minutes`)
+    }
+  }
+
+  return errors
+}
@@ -0,0 +1,70 @@
+import jsQR from 'jsqr'
+
+// Reading the codes printed on job sheets and packing slips. A code is either the board link the print
+// layouts encode (/orders?date=YYYY-MM-DD&card=<card id>) or a bare card id, as a barcode or typed in.
+
+export interface ScannedCode {
+  cardId: string
+  date: string | null // YYYY-MM-DD when the code carries one
+}
+
+// shopify_order_id-line_item_id-quantity_index
+const CARD_ID = /^[^\s/?#-]+-[^\s/?#-]+-\d+$/
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/
+
+/** The card a scanned or typed code refers to; null when it isn't one of ours */
+export function parseScannedCode(text: string): ScannedCode | null {
+  const value = text.trim()
+  if (CARD_ID.test(value)) return { cardId: value, date: null }
+
+  let url: URL
+  try {
+    url = new URL(value, window.location.origin)
+  } catch {
+    return null
+  }
+  const cardId = url.searchParams.get('card')
+  if (!cardId || !CARD_ID.test(cardId)) return null
+  const date = url.searchParams.get('date')
+  return { cardId, date: date && ISO_DATE.test(date) ? date : null }
+}
+
+// The Shape Detection API isn't in TypeScript's DOM types yet
+interface BarcodeDetectorLike {
+  detect(source: CanvasImageSource): Promise<Array<{ rawValue: string }>>
+}
+type BarcodeDetectorConstructor = new (options?: { formats?: string[] }) => BarcodeDetectorLike
+
+const SCAN_FORMATS = ['qr_code', 'code_128', 'code_39', 'data_matrix']
+
+/**
+ * A function reading the first code in the current video frame. Uses the browser's BarcodeDetector
+ * (QR and barcodes) where there is one, else decodes QR codes with jsQR, as on iOS Safari.
+ */
+export async function createCodeReader(): Promise<(video: HTMLVideoElement) => Promise<string | null>> {
+  const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector
+  if (Detector) {
+    try {
+      const detector = new Detector({ formats: SCAN_FORMATS })
+      return async (video) => {
+        const [code] = await detector.detect(video)
+        return code?.rawValue ?? null
+      }
+    } catch {
+      // Some builds expose the constructor but reject the formats; fall through to jsQR
+    }
+  }
+
+  const canvas = document.createElement('canvas')
+  const context = canvas.getContext('2d', { willReadFrequently: true })
+  return async (video) => {
+    if (!context || !video.videoWidth) return null
+    // Decoding a downscaled frame keeps each pass quick on phones
+    const scale = Math.min(1, 640 / video.videoWidth)
+    canvas.width = Math.round(video.videoWidth * scale)
+    canvas.height = Math.round(video.videoHeight * scale)
+    context.drawImage(video, 0, 0, canvas.width, canvas.height)
+    const frame = context.getImageData(0, 0, canvas.width, canvas.height)
+    return jsQR(frame.data, frame.width, frame.height, { inversionAttempts: 'dontInvert' })?.data ?? null
+  }
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import type { DeliveryRules } from '../types'
+import { DEFAULT_DELIVERY_RULES, extractDeliveryDetails, validateDeliveryRules } from './deliveryRules'
+
+const withTagPattern = (pattern: string): DeliveryRules => ({
+  ...DEFAULT_DELIVERY_RULES,
+  deliveryDate: [{ source: 'tags', pattern, format: 'dd/mm/yyyy' }],
+})
+
+const tagged = (...tags: string[]) => ({ tags, noteAttributes: [], metafields: [], lineItemProperties: [] })
+
+describe('validateDeliveryRules', () => {
+  it('accepts the default rules', () => {
+    expect(validateDeliveryRules(DEFAULT_DELIVERY_RULES)).toEqual([])
+  })
+
+  it('accepts patterns with quantifiers that are not nested', () => {
+    for (const pattern of ['^delivery:(\\d{2}/\\d{2}/\\d{4})$', '(?:date|dd)[:=]\\s*(\\S+)', '([a-z]+)-(\\d+)', '(\\d{2}){3}', '[(+*)]+']) {
+      expect(validateDeliveryRules(withTagPattern(pattern)), pattern).toEqual([])
+    }
+  })
+
+  it('rejects a repeated group that holds a quantifier', () => {
+    for (const pattern of ['(a+)+$', '(\\d*\\s?)*x', '((ab)+c)*', '(?:\\w+\\s)+$', '([a-z]+){2,}']) {
+      expect(validateDeliveryRules(withTagPattern(pattern)), pattern).toEqual([
+        'deliveryDate rule 1: pattern repeats a group that is already repeated, e.g. (a+)+',
+      ])
+    }
+  })
+
+  it('rejects long, invalid and non-text patterns', () => {
+    expect(validateDeliveryRules(withTagPattern('a'.repeat(201)))).toEqual(['deliveryDate rule 1: pattern is longer than 200 characters'])
+    expect(validateDeliveryRules(withTagPattern('(unclosed'))[0]).toMatch(/^deliveryDate rule 1: invalid pattern/)
+    expect(validateDeliveryRules(withTagPattern(42 as unknown as string))).toEqual(['deliveryDate rule 1: pattern must be text'])
+  })
+})
+
+describe('extractDeliveryDetails', () => {
+  it('skips a saved pattern validation would reject and records why', () => {
+    const rules = { ...withTagPattern('(\\d+)+/'), timeslot: [] }
+    const { deliveryDate, trace } = extractDeliveryDetails(tagged('1111111111111111111111111111111'), rules)
+    expect(deliveryDate).toBeNull()
+    expect(trace[0].error).toBe('pattern repeats a group that is already repeated, e.g. (a+)+')
+  })
+
+  it('uses the first capture group of a pattern', () => {
+    const { deliveryDate } = extractDeliveryDetails(tagged('vip', 'deliver 22/06/2025'), withTagPattern('deliver (\\S+)'))
+    expect(deliveryDate).toBe('22/06/2025')
+  })
+})
@@ -0,0 +1,329 @@
+import type {
+  DeliveryDateFormat,
+  DeliveryRule,
+  DeliveryRules,
+  DeliveryRulesPreview,
+  DeliveryRuleSource,
+  DeliveryRuleTrace,
+  DeliveryTimeslotFormat,
+} from '../types'
+
+// Delivery date and timeslot extraction rules, shared by the worker (webhooks, sync, bulk import)
+// and the Settings rule editor. Dates always come out as dd/mm/yyyy, the format tenant_orders and
+// the board key on.
+
+export const DELIVERY_RULE_SOURCES: DeliveryRuleSource[] = ['tags', 'note_attributes', 'metafields', 'line_item_properties']
+export const DELIVERY_DATE_FORMATS: DeliveryDateFormat[] = ['dd/mm/yyyy', 'mm/dd/yyyy', 'yyyy-mm-dd', 'd mmmm yyyy', 'iso', 'raw']
+export const DELIVERY_TIMESLOT_FORMATS: DeliveryTimeslotFormat[] = ['range', 'raw']
+
+const MAX_RULES_PER_FIELD = 20
+const MAX_PATTERN_LENGTH = 200
+
+/**
+ * What the app did before rules were configurable: a dd/mm/yyyy tag, then the delivery date
+ * cart attribute as-is; timeslots from an hh:mm-hh:mm tag (the ORDER_CARD_FIELDS default).
+ */
+export const DEFAULT_DELIVERY_RULES: DeliveryRules = {
+  timezone: 'Asia/Singapore',
+  deliveryDate: [
+    { source: 'tags', pattern: '^\\d{2}/\\d{2}/\\d{4}$', format: 'dd/mm/yyyy' },
+    { source: 'note_attributes', key: 'delivery_date', format: 'raw' },
+    { source: 'note_attributes', key: 'Delivery Date', format: 'raw' },
+  ],
+  timeslot: [{ source: 'tags', pattern: '\\d{2}:\\d{2}-\\d{2}:\\d{2}', format: 'raw' }],
+}
+
+type KeyValue = { key: string; value: string }
+type NameValue = { name: string; value: unknown }
+
+/** The order values rules read, flattened from the REST and/or GraphQL order payloads */
+export interface DeliveryRuleInput {
+  tags: string[]
+  noteAttributes: KeyValue[]
+  metafields: KeyValue[] // key is "namespace.key"
+  lineItemProperties: KeyValue[]
+}
+
+export interface DeliveryRuleRestOrder {
+  tags?: string | string[] | null
+  note_attributes?: NameValue[] | null
+  line_items?: { properties?: NameValue[] | null }[] | null
+}
+
+export interface DeliveryRuleGraphQLOrder {
+  tags?: string[] | null
+  customAttributes?: { key: string; value: unknown }[] | null
+  metafields?: { edges?: { node: { namespace: string; key: string; value: unknown } }[] } | null
+  lineItems?: { edges?: { node: { customAttributes?: { key: string; value: unknown }[] | null } }[] } | null
+}
+
+const toText = (value: unknown) => (value === null || value === undefined ? '' : String(value))
+
+const splitTags = (tags: string | string[] | null | undefined): string[] =>
+  (Array.isArray(tags) ? tags : (tags || '').split(','))
+    .map((tag) => tag.trim())
+    .filter(Boolean)
+
+/**
+ * Flatten a Shopify order into rule input. Either payload may be missing - webhooks carry the REST
+ * order, bulk imports only the GraphQL one - and values present in both are simply listed twice.
+ */
+export function buildDeliveryRuleInput(
+  restOrder?: DeliveryRuleRestOrder | null,
+  graphqlOrder?: DeliveryRuleGraphQLOrder | null
+): DeliveryRuleInput {
+  const fromNameValue = (entries: NameValue[] | null | undefined): KeyValue[] =>
+    (entries || []).map((entry) => ({ key: entry.name, value: toText(entry.value) }))
+  const fromKeyValue = (entries: { key: string; value: unknown }[] | null | undefined): KeyValue[] =>
+    (entries || []).map((entry) => ({ key: entry.key, value: toText(entry.value) }))
+
+  return {
+    tags: Array.from(new Set([...splitTags(restOrder?.tags), ...splitTags(graphqlOrder?.tags)])),
+    noteAttributes: [...fromNameValue(restOrder?.note_attributes), ...fromKeyValue(graphqlOrder?.customAttributes)],
+    metafields: (graphqlOrder?.metafields?.edges || []).map(({ node }) => ({
+      key: `${node.namespace}.${node.key}`,
+      value: toText(node.value),
+    })),
+    lineItemProperties: [
+      ...(restOrder?.line_items || []).flatMap((item) => fromNameValue(item.properties)),
+      ...(graphqlOrder?.lineItems?.edges || []).flatMap(({ node }) => fromKeyValue(node.customAttributes)),
+    ],
+  }
+}
+
+/** The rules a store's settings configure, or the defaults */
+export function getDeliveryRules(settings?: { deliveryRules?: DeliveryRules } | null): DeliveryRules {
+  return settings?.deliveryRules || DEFAULT_DELIVERY_RULES
+}
+
+const ruleCandidates = (input: DeliveryRuleInput, rule: DeliveryRule): string[] => {
+  if (rule.source === 'tags') return input.tags
+
+  const entries =
+    rule.source === 'note_attributes'
+      ? input.noteAttributes
+      : rule.source === 'metafields'
+        ? input.metafields
+        : input.lineItemProperties
+  const key = rule.key?.trim().toLowerCase()
+  return entries.filter((entry) => !key || entry.key.trim().toLowerCase() === key).map((entry) => entry.value)
+}
+
+/**
+ * Whether a pattern repeats a group that itself holds a quantifier, as in `(a+)+` or `(\d*\s?)*`.
+ * Those backtrack exponentially on a near-miss, and patterns run on every webhook.
+ */
+const hasNestedQuantifier = (pattern: string): boolean => {
+  const groups: boolean[] = [] // Per open group, whether anything inside it is quantified
+  const repeats = /^(?:[+*]|\{\d*,)/ // Open-ended or ranged; {n} and ? repeat a fixed number of times at most
+  const markQuantified = () => {
+    if (groups.length > 0) groups[groups.length - 1] = true
+  }
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+    if (char === '\\') {
+      i++
+    } else if (char === '[') {
+      for (i++; i < pattern.length && pattern[i] !== ']'; i++) if (pattern[i] === '\\') i++
+    } else if (char === '(') {
+      groups.push(false)
+    } else if (char === ')') {
+      const quantifiedInside = groups.pop() ?? false
+      const repeated = repeats.test(pattern.slice(i + 1))
+      if (quantifiedInside && repeated) return true
+      if (quantifiedInside || repeated) markQuantified()
+    } else if (repeats.test(pattern.slice(i))) {
+      markQuantified()
+    }
+  }
+  return false
+}
+
+/** Why a rule's pattern can't be used, or null when it can */
+const patternProblem = (pattern: string): string | null => {
+  if (pattern.length > MAX_PATTERN_LENGTH) return `pattern is longer than ${MAX_PATTERN_LENGTH} characters`
+  try {
+    new RegExp(pattern)
+  } catch (error) {
+    return `invalid pattern (${error instanceof Error ? error.message : String(error)})`
+  }
+  if (hasNestedQuantifier(pattern)) return 'pattern repeats a group that is already repeated, e.g. (a+)+'
+  return null
+}
+
+// Rules saved before patterns were checked can still hold one validation would reject; runRules
+// records the error against the rule and moves on
+const applyPattern = (value: string, pattern: string | undefined): string | null => {
+  if (!pattern) return value.trim() || null
+  const problem = patternProblem(pattern)
+  if (problem) throw new Error(problem)
+  const match = new RegExp(pattern, 'i').exec(value)
+  return match ? (match[1] ?? match[0]).trim() : null
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+
+const toDeliveryDate = (day: number, month: number, year: number): string | null => {
+  const date = new Date(Date.UTC(year, month - 1, day))
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null
+  return `${String(day).padStart(2, '0')}/${String(month).padStart(2, '0')}/${year}`
+}
+
+/**
+ * Read a matched value as a delivery date in dd/mm/yyyy.
+ * Numeric formats accept "/", "-" or "." as separators; "iso" timestamps are converted into `timezone`.
+ */
+export function parseDeliveryDate(value: string, format: DeliveryDateFormat, timezone: string): string | null {
+  const text = value.trim()
+  if (format === 'raw') return text || null
+
+  if (format === 'dd/mm/yyyy' || format === 'mm/dd/yyyy') {
+    const match = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/.exec(text)
+    if (!match) return null
+    const [first, second, year] = [Number(match[1]), Number(match[2]), Number(match[3])]
+    return format === 'dd/mm/yyyy' ? toDeliveryDate(first, second, year) : toDeliveryDate(second, first, year)
+  }
+
+  const ymd = /^(\d{4})[/.-](\d{1,2})[/.-](\d{1,2})$/.exec(text)
+  if (format === 'yyyy-mm-dd') {
+    return ymd ? toDeliveryDate(Number(ymd[3]), Number(ymd[2]), Number(ymd[1])) : null
+  }
+
+  if (format === 'd mmmm yyyy') {
+    // "22 June 2025", "Sun, 22 Jun 2025", "June 22, 2025"
+    const tokens = text.toLowerCase().match(/[a-z]+|\d+/g) || []
+    const month = tokens.map((token) => MONTHS.indexOf(token.slice(0, 3))).find((index) => index !== -1)
+    const day = tokens.find((token) => /^\d{1,2}$/.test(token))
+    const year = tokens.find((token) => /^\d{4}$/.test(token))
+    return month !== undefined && day && year ? toDeliveryDate(Number(day), month + 1, Number(year)) : null
+  }
+
+  // iso: a bare date is already the delivery day - don't shift it through UTC midnight
+  if (ymd) return toDeliveryDate(Number(ymd[3]), Number(ymd[2]), Number(ymd[1]))
+  const instant = new Date(text)
+  if (isNaN(instant.getTime())) return null
+  return new Intl.DateTimeFormat('en-GB', { timeZone: timezone, day: '2-digit', month: '2-digit', year: 'numeric' }).format(instant)
+}
+
+const TIME = '(\\d{1,2})(?:[:.](\\d{2}))?\\s*(am|pm|a\\.m\\.|p\\.m\\.)?'
+// Not anchored, but never starts or ends inside a date like 2025-06-22
+const TIME_RANGE = new RegExp(`(?<![\\d:/.-])${TIME}\\s*(?:-|–|—|to)\\s*${TIME}(?![\\d/])`, 'i')
+
+const toMinutes = (hours: string, minutes: string | undefined, meridiem: string | undefined): number | null => {
+  let hour = Number(hours)
+  const minute = Number(minutes || 0)
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return null
+    hour = (hour % 12) + (meridiem.toLowerCase().startsWith('p') ? 12 : 0)
+  }
+  return hour < 24 && minute < 60 ? hour * 60 + minute : null
+}
+
+const formatMinutes = (total: number) =>
+  `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`
+
+/** Read a matched value as a timeslot; "range" normalises "9-11am" or "14:00 to 16:00" to hh:mm-hh:mm */
+export function parseTimeslot(value: string, format: DeliveryTimeslotFormat): string | null {
+  const text = value.trim()
+  if (format === 'raw') return text || null
+
+  const match = TIME_RANGE.exec(text)
+  if (!match) return null
+  const [, startHours, startMinutes, startMeridiem, endHours, endMinutes, endMeridiem] = match
+  const end = toMinutes(endHours, endMinutes, endMeridiem)
+  let start = toMinutes(startHours, startMinutes, startMeridiem)
+  // "9-11am": the start takes the end's am/pm when that keeps the slot in order
+  if (!startMeridiem && endMeridiem && end !== null) {
+    const inherited = toMinutes(startHours, startMinutes, endMeridiem)
+    if (inherited !== null && inherited < end) start = inherited
+  }
+  return start !== null && end !== null ? `${formatMinutes(start)}-${formatMinutes(end)}` : null
+}
+
+const runRules = (
+  field: DeliveryRuleTrace['field'],
+  rules: DeliveryRule[],
+  input: DeliveryRuleInput,
+  parse: (matched: string, rule: DeliveryRule) => string | null,
+  trace: DeliveryRuleTrace[]
+): string | null => {
+  for (const [ruleIndex, rule] of rules.entries()) {
+    const entry: DeliveryRuleTrace = { field, ruleIndex, source: rule.source, key: rule.key, candidates: 0, matched: null, value: null }
+    trace.push(entry)
+    try {
+      const candidates = ruleCandidates(input, rule)
+      entry.candidates = candidates.length
+      for (const candidate of candidates) {
+        const matched = applyPattern(candidate, rule.pattern)
+        if (matched === null) continue
+        entry.matched = matched
+        entry.value = parse(matched, rule)
+        if (entry.value) return entry.value
+      }
+    } catch (error) {
+      entry.error = error instanceof Error ? error.message : String(error)
+    }
+  }
+  return null
+}
+
+/**
+ * Run a store's rules against an order. Each field's rules are tried in order and the first rule
+ * producing a value wins; `trace` records every rule tried, for the Settings preview.
+ */
+export function extractDeliveryDetails(input: DeliveryRuleInput, rules: DeliveryRules = DEFAULT_DELIVERY_RULES): DeliveryRulesPreview {
+  const trace: DeliveryRuleTrace[] = []
+  const deliveryDate = runRules('deliveryDate', rules.deliveryDate, input, (matched, rule) =>
+    parseDeliveryDate(matched, (rule.format as DeliveryDateFormat) || 'dd/mm/yyyy', rules.timezone), trace)
+  const timeslot = runRules('timeslot', rules.timeslot, input, (matched, rule) =>
+    parseTimeslot(matched, (rule.format as DeliveryTimeslotFormat) || 'range'), trace)
+  return { deliveryDate, timeslot, trace }
+}
+
+/** Problems with a rule set submitted from Settings; empty when it can be saved */
+export function validateDeliveryRules(value: unknown): string[] {
+  if (!value || typeof value !== 'object') return ['Delivery rules must be an object']
+  const rules = value as Partial<DeliveryRules>
+  const errors: string[] = []
+
+  if (typeof rules.timezone !== 'string' || !rules.timezone) {
+    errors.push('Timezone is required')
+  } else {
+    try {
+      new Intl.DateTimeFormat('en-GB', { timeZone: rules.timezone })
+    } catch {
+      errors.push(`Unknown timezone "${rules.timezone}"`)
+    }
+  }
+
+  const checkField = (field: 'deliveryDate' | 'timeslot', formats: readonly string[]) => {
+    const list = rules[field]
+    if (!Array.isArray(list)) {
+      errors.push(`${field} rules must be a list`)
+      return
+    }
+    if (list.length > MAX_RULES_PER_FIELD) errors.push(`At most ${MAX_RULES_PER_FIELD} ${field} rules are allowed`)
+    list.forEach((rule: Partial<DeliveryRule>, index) => {
+      const label = `${field} rule ${index + 1}`
+      if (!rule || !DELIVERY_RULE_SOURCES.includes(rule.source as DeliveryRuleSource)) {
+        errors.push(`${label}: unknown source`)
+        return
+      }
+      if (rule.key !== undefined && typeof rule.key !== 'string') errors.push(`${label}: key must be text`)
+      if (rule.source === 'metafields' && rule.key && !rule.key.includes('.')) {
+        errors.push(`${label}: metafield key must be "namespace.key"`)
+      }
+      if (rule.format !== undefined && !formats.includes(rule.format)) errors.push(`${label}: unknown format "${rule.format}"`)
+      if (rule.pattern !== undefined && typeof rule.pattern !== 'string') {
+        errors.push(`${label}: pattern must be text`)
+      } else if (rule.pattern) {
+        const problem = patternProblem(rule.pattern)
+        if (problem) errors.push(`${label}: ${problem}`)
+      }
+    })
+  }
+  checkField('deliveryDate', DELIVERY_DATE_FORMATS)
+  checkField('timeslot', DELIVERY_TIMESLOT_FORMATS)
+
+  return errors
+}
@@ -0,0 +1,190 @@
+import { getAllFields, type OrderCardField } from '../types/orderCardFields'
+import type { DeliveryRuleInput } from './deliveryRules'
+
+// Reading order card field values through the fields' configured Shopify paths. Shared by the card
+// renderer and the worker's print layouts, so a printed card shows what the board does.
+
+type Data = Record<string, unknown>
+
+const isRecord = (value: unknown): value is Data => typeof value === 'object' && value !== null && !Array.isArray(value)
+
+// Name/value (REST note_attributes, line item properties) or key/value (GraphQL customAttributes) pairs
+const isAttributeList = (value: unknown[]) =>
+  value.some((entry) => isRecord(entry) && 'value' in entry && ('name' in entry || 'key' in entry))
+
+const findAttribute = (entries: unknown[], name: string): unknown => {
+  const wanted = name.trim().toLowerCase()
+  const entry = entries.find((item) => isRecord(item) && String(item.name ?? item.key ?? '').trim().toLowerCase() === wanted)
+  return isRecord(entry) ? (entry.value ?? null) : null
+}
+
+const asList = (value: unknown): unknown[] => (Array.isArray(value) ? value : [])
+
+// Paths older configs were saved with, for orders that only have the GraphQL shape
+const LEGACY_PATHS: Record<string, string> = {
+  'line_items.title': 'lineItems.edges.0.node.title',
+  'line_items.variant_title': 'lineItems.edges.0.node.variant.title',
+}
+
+const walkPath = (data: unknown, path: string): unknown => {
+  const parts = path.split('.')
+  let current: unknown = data
+  for (let i = 0; i < parts.length; i++) {
+    const part = parts[i]
+    if (Array.isArray(current)) {
+      if (/^\d+$/.test(part)) {
+        current = current[Number(part)]
+      } else if (isAttributeList(current)) {
+        current = findAttribute(current, part)
+      } else {
+        // Anything else reads the first entry, as in "line_items.title"
+        current = isRecord(current[0]) ? current[0][part] : undefined
+      }
+    } else if (isRecord(current)) {
+      current = current[part]
+    } else {
+      return null
+    }
+    if (current === undefined || current === null) return null
+  }
+  return current
+}
+
+const PRODUCT_LABEL_CATEGORIES: Record<string, string> = {
+  difficultyLabel: 'difficulty',
+  productTypeLabel: 'productType',
+}
+
+/**
+ * Value at a field's source path. `product:<field>` reads the saved product (`localProduct` or
+ * `savedProductData`), `noteAttributes.<name>` a note or custom attribute in either shape, and anything
+ * else is a dotted path into the order where numeric parts index arrays.
+ */
+export function getValueFromShopifyData(sourcePath: string, data: unknown): unknown {
+  if (!sourcePath || !isRecord(data)) return null
+
+  if (sourcePath.startsWith('product:')) {
+    const productField = sourcePath.slice('product:'.length)
+    const product = data.localProduct ?? data.savedProductData
+    if (!isRecord(product)) return null
+    if (productField === 'labelNames' || PRODUCT_LABEL_CATEGORIES[productField]) {
+      const names = asList(product.labelNames)
+      const categories = asList(product.labelCategories)
+      const category = PRODUCT_LABEL_CATEGORIES[productField]
+      return names.find((_, index) => !category || categories[index] === category) ?? null
+    }
+    return product[productField] ?? null
+  }
+
+  if (sourcePath === 'tags') return Array.isArray(data.tags) ? data.tags.join(', ') : (data.tags ?? null)
+
+  if (sourcePath.startsWith('noteAttributes.')) {
+    const attributes = [...asList(data.note_attributes), ...asList(data.noteAttributes), ...asList(data.customAttributes)]
+    return findAttribute(attributes, sourcePath.slice('noteAttributes.'.length))
+  }
+
+  const value = walkPath(data, sourcePath)
+  return value === null && LEGACY_PATHS[sourcePath] ? walkPath(data, LEGACY_PATHS[sourcePath]) : value
+}
+
+// Extracted dd/mm/yyyy dates become ISO strings so they parse reliably later
+const extractedDate = (text: string) => {
+  const parts = text.split('/')
+  const date = new Date(parts.length === 3 && parts[2].length === 4 ? `${parts[2]}-${parts[1]}-${parts[0]}` : text)
+  return Number.isNaN(date.getTime()) ? null : date.toISOString()
+}
+
+/** Applies a field's "extract" rule (the first match in the value, or in any entry of a list); null when nothing matches */
+export function applyTransformation(
+  value: unknown,
+  field: Pick<OrderCardField, 'type' | 'transformation' | 'transformationRule'>
+): unknown {
+  if (field.transformation !== 'extract' || !field.transformationRule) return value
+
+  let regex: RegExp
+  try {
+    regex = new RegExp(field.transformationRule)
+  } catch {
+    console.error('Invalid order card field regex:', field.transformationRule)
+    return null
+  }
+  const texts = (Array.isArray(value) ? value : [value]).filter((entry): entry is string => typeof entry === 'string')
+  for (const text of texts) {
+    const match = text.match(regex)
+    if (match) return field.type === 'date' ? extractedDate(match[0]) : match[0]
+  }
+  return null
+}
+
+// Fields the board fills per card (one order has several cards), so the card's own value wins over the
+// order-level Shopify path
+const CARD_LEVEL_FIELDS = ['productTitle', 'productVariantTitle', 'difficultyLabel', 'assignedTo', 'timeslot']
+
+/** A card's value for a field: read from its order's Shopify data through the field's mapping, else the card's own property */
+export function getOrderCardFieldValue(card: Data, field: OrderCardField): unknown {
+  const own = card[field.id]
+  if (CARD_LEVEL_FIELDS.includes(field.id) && own) return own
+  const raw =
+    card.shopifyOrderData && field.shopifyFields && field.shopifyFields.length > 0
+      ? getValueFromShopifyData(field.shopifyFields[0], card.shopifyOrderData)
+      : own
+  return applyTransformation(raw ?? own ?? null, field)
+}
+
+/** Plain text for a field value, as printed; null when there's nothing to show */
+export function formatOrderCardValue(field: OrderCardField, value: unknown): string | null {
+  if (value === null || value === undefined || value === '') return null
+  if (field.type === 'status') return value ? 'Completed' : 'Pending'
+  if (Array.isArray(value)) {
+    const entries = value.map((entry) => (isRecord(entry) ? entry.value ?? entry.title ?? null : entry)).filter((entry) => entry !== null && entry !== '')
+    return entries.length > 0 ? entries.join(', ') : null
+  }
+  if (isRecord(value)) return null
+  if (field.type === 'date' && typeof value === 'string') {
+    const date = new Date(value)
+    if (!Number.isNaN(date.getTime())) return date.toLocaleDateString('en-GB', { timeZone: 'UTC' })
+  }
+  return String(value)
+}
+
+/**
+ * The fields a tenant's saved order card config describes. Configs are either OrderCardField lists or
+ * the older rows (`field_id`, `is_visible`, `custom_label`, JSON `custom_options`), which are laid over
+ * the default fields; with no config the defaults apply.
+ */
+export function orderCardFieldsFromConfig(config: unknown): OrderCardField[] {
+  const rows = asList(config).filter(isRecord)
+  if (rows.length === 0) return getAllFields()
+  if (rows[0].id && rows[0].label) return rows as unknown as OrderCardField[]
+
+  const defaults = new Map(getAllFields().map((field) => [field.id, field]))
+  return rows.flatMap((row) => {
+    const id = String(row.field_id || '')
+    const base = defaults.get(id)
+    if (!base) return []
+    let options: Data = {}
+    try {
+      options = typeof row.custom_options === 'string' ? JSON.parse(row.custom_options) : isRecord(row.custom_options) ? row.custom_options : {}
+    } catch {
+      options = {}
+    }
+    return [{
+      ...base,
+      label: typeof row.custom_label === 'string' && row.custom_label ? row.custom_label : base.label,
+      isVisible: !!row.is_visible,
+      shopifyFields: Array.isArray(options.shopifyFields) ? (options.shopifyFields as string[]) : base.shopifyFields,
+      transformation: (options.transformation as OrderCardField['transformation']) ?? base.transformation,
+      transformationRule: (options.transformationRule as string | undefined) ?? base.transformationRule,
+    }]
+  })
+}
+
+const CARD_MESSAGE_KEY = /^(?:(?:gift|card)[\s_-]*(?:card[\s_-]*)?(?:message|note)|message(?:[\s_-]*card)?)$/i
+
+/** The message for the gift card: the first note attribute or line item property named like "Card Message", "gift_message" or "Message" */
+export function findCardMessage(input: DeliveryRuleInput): string | null {
+  const entry = [...input.noteAttributes, ...input.lineItemProperties].find(
+    (attribute) => CARD_MESSAGE_KEY.test(attribute.key.trim()) && attribute.value.trim()
+  )
+  return entry ? entry.value.trim() : null
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest'
+import type { UserRole } from '../types'
+import { ALL_PERMISSIONS, PERMISSION_ROLES, ROLE_PERMISSIONS, effectivePermissions, hasPermissions, ranksAtLeast } from './permissions'
+
+const ROLES: UserRole[] = ['owner', 'admin', 'florist', 'viewer']
+
+describe('ROLE_PERMISSIONS', () => {
+  it('gives each role exactly the permissions PERMISSION_ROLES lists it under', () => {
+    for (const role of ROLES) {
+      const expected = ALL_PERMISSIONS.filter((permission) => PERMISSION_ROLES[permission].includes(role))
+      expect(ROLE_PERMISSIONS[role]).toEqual(expected)
+    }
+  })
+
+  it('gives owners and admins every permission', () => {
+    expect(ROLE_PERMISSIONS.owner).toEqual(ALL_PERMISSIONS)
+    expect(ROLE_PERMISSIONS.admin).toEqual(ALL_PERMISSIONS)
+  })
+
+  it('keeps florists to the board and viewers to reading', () => {
+    expect(ROLE_PERMISSIONS.florist).toEqual(['orders:read', 'orders:write', 'products:read', 'users:read', 'analytics:read', 'settings:read'])
+    expect(ROLE_PERMISSIONS.viewer).toEqual(['orders:read', 'products:read', 'analytics:read', 'settings:read'])
+  })
+
+  it('only lists known roles', () => {
+    for (const permission of ALL_PERMISSIONS) {
+      for (const role of PERMISSION_ROLES[permission]) {
+        expect(ROLES).toContain(role)
+      }
+    }
+  })
+})
+
+describe('effectivePermissions', () => {
+  it('adds granted overrides and removes revoked ones', () => {
+    const permissions = effectivePermissions('florist', ['products:write', '-users:read'])
+    expect(permissions.has('products:write')).toBe(true)
+    expect(permissions.has('users:read')).toBe(false)
+    expect(permissions.has('orders:write')).toBe(true)
+  })
+
+  it('never revokes an owner\'s permissions', () => {
+    expect(effectivePermissions('owner', ['-settings:write']).has('settings:write')).toBe(true)
+  })
+
+  it('ignores unknown overrides and gives unknown roles nothing', () => {
+    expect([...effectivePermissions('viewer', ['billing:write', '-nothing'])]).toEqual(ROLE_PERMISSIONS.viewer)
+    expect(effectivePermissions('superuser', ['orders:read']).size).toBe(0)
+  })
+})
+
+describe('hasPermissions', () => {
+  it('needs every one of the permissions', () => {
+    expect(hasPermissions('viewer', null, ['orders:read', 'analytics:read'])).toBe(true)
+    expect(hasPermissions('viewer', null, ['orders:read', 'orders:write'])).toBe(false)
+    expect(hasPermissions('viewer', ['orders:write'], ['orders:read', 'orders:write'])).toBe(true)
+  })
+})
+
+describe('ranksAtLeast', () => {
+  it('orders owners above admins above florists above viewers', () => {
+    expect(ranksAtLeast('owner', 'admin')).toBe(true)
+    expect(ranksAtLeast('admin', 'admin')).toBe(true)
+    expect(ranksAtLeast('admin', 'owner')).toBe(false)
+    expect(ranksAtLeast('florist', 'admin')).toBe(false)
+    expect(ranksAtLeast('florist', 'viewer')).toBe(true)
+  })
+
+  it('ranks unknown roles below every known one', () => {
+    expect(ranksAtLeast('superuser', 'viewer')).toBe(false)
+    expect(ranksAtLeast('viewer', 'superuser')).toBe(true)
+  })
+})
@@ -0,0 +1,75 @@
+import type { Permission, PermissionOverride, UserRole } from '../types'
+
+// What each role may do, shared by the worker's route checks and the app's route guards.
+
+const ALL_ROLES: UserRole[] = ['owner', 'admin', 'florist', 'viewer']
+const MANAGERS: UserRole[] = ['owner', 'admin']
+
+/**
+ * The one table of who may do what: each permission and the roles that have it before any per-user
+ * overrides. ALL_PERMISSIONS and ROLE_PERMISSIONS are read off it, and the worker's route rules
+ * (worker/permissions.ts) are tested against it.
+ */
+export const PERMISSION_ROLES: Record<Permission, readonly UserRole[]> = {
+  'orders:read': ALL_ROLES,
+  // Florists work the board: cards, photos and the roster to hand cards to, but no account or store admin
+  'orders:write': [...MANAGERS, 'florist'],
+  'orders:delete': MANAGERS,
+  'products:read': ALL_ROLES,
+  'products:write': MANAGERS,
+  'products:delete': MANAGERS,
+  'users:read': [...MANAGERS, 'florist'],
+  'users:write': MANAGERS,
+  'users:delete': MANAGERS,
+  'analytics:read': ALL_ROLES,
+  'settings:read': ALL_ROLES,
+  'settings:write': MANAGERS,
+}
+
+export const ALL_PERMISSIONS = Object.keys(PERMISSION_ROLES) as Permission[]
+
+/** Permissions a role has before any per-user overrides */
+export const ROLE_PERMISSIONS = Object.fromEntries(
+  ALL_ROLES.map((role) => [role, ALL_PERMISSIONS.filter((permission) => PERMISSION_ROLES[permission].includes(role))])
+) as Record<UserRole, Permission[]>
+
+// Seniority, for what one user may do to another's account
+const ROLE_RANK: Record<UserRole, number> = { owner: 3, admin: 2, florist: 1, viewer: 0 }
+
+/** Whether someone with this role is at least as senior as someone with the other; unknown roles rank lowest */
+export const ranksAtLeast = (role: string, other: string): boolean =>
+  (ROLE_RANK[role as UserRole] ?? -1) >= (ROLE_RANK[other as UserRole] ?? -1)
+
+export const isPermission = (value: unknown): value is Permission =>
+  typeof value === 'string' && (ALL_PERMISSIONS as string[]).includes(value)
+
+export const isPermissionOverride = (value: unknown): value is PermissionOverride =>
+  typeof value === 'string' && isPermission(value.startsWith('-') ? value.slice(1) : value)
+
+/**
+ * A user's permissions: their role's defaults plus any granted overrides, less any revoked ones
+ * ("-users:read"). Unknown roles get nothing; owners can't have permissions revoked, so a tenant
+ * always has someone able to manage it.
+ */
+export function effectivePermissions(role: string, overrides?: readonly string[] | null): Set<Permission> {
+  const defaults = ROLE_PERMISSIONS[role as UserRole]
+  if (!defaults) return new Set()
+  const permissions = new Set(defaults)
+  if (role === 'owner') return permissions
+
+  for (const override of overrides || []) {
+    if (!isPermissionOverride(override)) continue
+    if (override.startsWith('-')) {
+      permissions.delete(override.slice(1) as Permission)
+    } else {
+      permissions.add(override as Permission)
+    }
+  }
+  return permissions
+}
+
+/** Whether a user with this role and overrides has every one of the permissions */
+export function hasPermissions(role: string, overrides: readonly string[] | null | undefined, required: readonly Permission[]): boolean {
+  const permissions = effectivePermissions(role, overrides)
+  return required.every((permission) => permissions.has(permission))
+}
@@ -0,0 +1,121 @@
+// Production schedule and dispatch helpers: when each card has to be started for its timeslot's
+// deliveries to be ready for the drivers, and which delivery area an address falls in.
+
+export const DEFAULT_DISPATCH_BUFFER_MINUTES = 30
+
+/** Start and end, in minutes past midnight, of a timeslot like "10:00-12:00" or "10:30AM - 11:30AM" */
+export function parseTimeslot(timeslot: string | null | undefined): { start: number; end: number | null } | null {
+  const match = /^\s*(\d{1,2}):(\d{2})\s*(am|pm)?\s*(?:-\s*(\d{1,2}):(\d{2})\s*(am|pm)?)?/i.exec(timeslot || '')
+  if (!match) return null
+  const toMinutes = (hours: string, minutes: string, meridiem?: string) => {
+    let hour = Number(hours) % 24
+    if (meridiem?.toLowerCase() === 'pm' && hour < 12) hour += 12
+    if (meridiem?.toLowerCase() === 'am' && hour === 12) hour = 0
+    return hour * 60 + Number(minutes)
+  }
+  return {
+    start: toMinutes(match[1], match[2], match[3]),
+    end: match[4] ? toMinutes(match[4], match[5], match[6] || match[3]) : null,
+  }
+}
+
+/** "HH:MM" for minutes past midnight; times before midnight are marked as the day before */
+export function formatClock(minutes: number): string {
+  const dayMinutes = ((minutes % 1440) + 1440) % 1440
+  const clock = `${String(Math.floor(dayMinutes / 60)).padStart(2, '0')}:${String(dayMinutes % 60).padStart(2, '0')}`
+  return minutes < 0 ? `${clock} (day before)` : clock
+}
+
+export interface ScheduledCardInput {
+  cardId: string
+  timeslot: string | null
+  minutes: number
+  assignee: string | null // Cards with the same assignee are worked one after another
+  completed: boolean
+}
+
+/**
+ * Latest time, in minutes past midnight, each card can be started for it to be ready `bufferMinutes`
+ * before its timeslot starts. A florist's cards are scheduled back to back, working back from the
+ * latest deadline, so the earlier of two overlapping cards starts sooner. Completed cards and cards
+ * without a readable timeslot get null.
+ */
+export function mustStartTimes(cards: ScheduledCardInput[], bufferMinutes: number): Map<string, number | null> {
+  const starts = new Map<string, number | null>()
+  const queues = new Map<string, { card: ScheduledCardInput; deadline: number }[]>()
+
+  for (const card of cards) {
+    const slot = parseTimeslot(card.timeslot)
+    if (card.completed || !slot) {
+      starts.set(card.cardId, null)
+      continue
+    }
+    const deadline = slot.start - bufferMinutes
+    if (!card.assignee) {
+      starts.set(card.cardId, deadline - card.minutes)
+      continue
+    }
+    const queue = queues.get(card.assignee) || []
+    queue.push({ card, deadline })
+    queues.set(card.assignee, queue)
+  }
+
+  for (const queue of queues.values()) {
+    let nextStart = Number.POSITIVE_INFINITY
+    for (const { card, deadline } of queue.sort((a, b) => b.deadline - a.deadline || a.card.minutes - b.card.minutes)) {
+      const start = Math.min(deadline, nextStart) - card.minutes
+      starts.set(card.cardId, start)
+      nextStart = start
+    }
+  }
+
+  return starts
+}
+
+// Singapore postal districts by the first two digits of the postal code (the sector)
+const SINGAPORE_DISTRICTS: [number, string, number[]][] = [
+  [1, 'Raffles Place / Marina', [1, 2, 3, 4, 5, 6]],
+  [2, 'Tanjong Pagar / Chinatown', [7, 8]],
+  [3, 'Queenstown / Tiong Bahru', [14, 15, 16]],
+  [4, 'Telok Blangah / Sentosa', [9, 10]],
+  [5, 'Pasir Panjang / Clementi', [11, 12, 13]],
+  [6, 'City Hall', [17]],
+  [7, 'Bugis / Beach Road', [18, 19]],
+  [8, 'Little India / Farrer Park', [20, 21]],
+  [9, 'Orchard / River Valley', [22, 23]],
+  [10, 'Tanglin / Bukit Timah', [24, 25, 26, 27]],
+  [11, 'Newton / Novena', [28, 29, 30]],
+  [12, 'Toa Payoh / Balestier', [31, 32, 33]],
+  [13, 'Macpherson / Braddell', [34, 35, 36, 37]],
+  [14, 'Geylang / Eunos', [38, 39, 40, 41]],
+  [15, 'Katong / Marine Parade', [42, 43, 44, 45]],
+  [16, 'Bedok / Upper East Coast', [46, 47, 48]],
+  [17, 'Changi / Loyang', [49, 50, 81]],
+  [18, 'Tampines / Pasir Ris', [51, 52]],
+  [19, 'Serangoon / Hougang / Punggol', [53, 54, 55, 82]],
+  [20, 'Ang Mo Kio / Bishan', [56, 57]],
+  [21, 'Upper Bukit Timah / Clementi Park', [58, 59]],
+  [22, 'Jurong / Boon Lay', [60, 61, 62, 63, 64]],
+  [23, 'Bukit Batok / Choa Chu Kang', [65, 66, 67, 68]],
+  [24, 'Lim Chu Kang / Tengah', [69, 70, 71]],
+  [25, 'Kranji / Woodlands', [72, 73]],
+  [26, 'Upper Thomson / Springleaf', [77, 78]],
+  [27, 'Yishun / Sembawang', [75, 76]],
+  [28, 'Seletar / Yio Chu Kang', [79, 80]],
+]
+
+/**
+ * Delivery area for route planning: the postal district for Singapore addresses ("D09 Orchard / River
+ * Valley", so areas sort in district order), else the city or province; null when there's nothing to go on.
+ */
+export function deliveryArea(address: { zip?: string | null; city?: string | null; province?: string | null; country?: string | null } | null): string | null {
+  if (!address) return null
+  const zip = (address.zip || '').replace(/\s/g, '')
+  const country = (address.country || '').trim().toLowerCase()
+  if (/^\d{6}$/.test(zip) && (!country || country === 'singapore' || country === 'sg')) {
+    const sector = Number(zip.slice(0, 2))
+    const district = SINGAPORE_DISTRICTS.find(([, , sectors]) => sectors.includes(sector))
+    if (district) return `D${String(district[0]).padStart(2, '0')} ${district[1]}`
+  }
+  return address.city?.trim() || address.province?.trim() || null
+}
@@ -0,0 +1,139 @@
+// Encryption at rest for third-party credentials (Shopify access tokens and webhook secrets, tenant
+// OpenAI keys) and two-factor secrets, used by the worker and its D1 service, and the redaction the app
+// shows in their place.
+//
+// Envelope encryption: each value gets its own AES-256-GCM data key, which is wrapped (AES-KW) with
+// the SECRETS_KEY worker secret. Rotating SECRETS_KEY only rewraps the data keys. The context (table,
+// column and row) is bound in as associated data, so a value copied to another row won't decrypt.
+
+/** The worker secrets holding key material: base64 of 32 random bytes each */
+export interface SecretKeys {
+  SECRETS_KEY?: string
+  SECRETS_KEY_PREVIOUS?: string // Comma-separated keys that may still wrap values during a rotation
+}
+
+// enc:v1:<key id>:<wrapped data key>:<iv>:<ciphertext>, base64url throughout
+const ENCRYPTED_PREFIX = 'enc:v1:'
+
+/** Returned by the API in place of a saved secret; sending it back leaves the secret as it was */
+export const REDACTED_SECRET = '••••••••'
+
+export const isRedactedSecret = (value: unknown): boolean => value === REDACTED_SECRET
+
+/** The redacted form of a secret, or null when none is saved */
+export const redactSecret = (value: string | null | undefined): string | null => (value ? REDACTED_SECRET : null)
+
+export const isEncryptedSecret = (value: unknown): value is string =>
+  typeof value === 'string' && value.startsWith(ENCRYPTED_PREFIX)
+
+interface KeyEncryptionKey {
+  id: string
+  key: CryptoKey
+}
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+
+const fromBase64Url = (value: string) =>
+  Uint8Array.from(atob(value.replace(/-/g, '+').replace(/_/g, '/')), (char) => char.charCodeAt(0))
+
+async function importKeyEncryptionKey(encoded: string): Promise<KeyEncryptionKey> {
+  const raw = Uint8Array.from(atob(encoded.trim()), (char) => char.charCodeAt(0))
+  if (raw.length !== 32) throw new Error('Secret keys must be 32 bytes, base64 encoded')
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', raw))
+  return {
+    id: Array.from(digest.slice(0, 4), (byte) => byte.toString(16).padStart(2, '0')).join(''),
+    key: await crypto.subtle.importKey('raw', raw, 'AES-KW', false, ['wrapKey', 'unwrapKey']),
+  }
+}
+
+// Imported once per isolate rather than on every read
+const keyringCache = new Map<string, Promise<KeyEncryptionKey[]>>()
+
+/** The current key first, then any previous ones */
+function loadKeyring(keys: SecretKeys): Promise<KeyEncryptionKey[]> {
+  const encoded = [keys.SECRETS_KEY, ...(keys.SECRETS_KEY_PREVIOUS || '').split(',')]
+    .map((key) => key?.trim())
+    .filter((key): key is string => !!key)
+  const cacheKey = encoded.join(',')
+  let keyring = keyringCache.get(cacheKey)
+  if (!keyring) {
+    keyring = Promise.all(encoded.map(importKeyEncryptionKey))
+    keyring.catch(() => keyringCache.delete(cacheKey))
+    keyringCache.set(cacheKey, keyring)
+  }
+  return keyring
+}
+
+// Writes fail rather than fall back to plaintext when the worker has no key
+async function currentKey(keys: SecretKeys): Promise<KeyEncryptionKey> {
+  if (!keys.SECRETS_KEY) throw new Error('SECRETS_KEY is not configured, cannot store credentials')
+  return (await loadKeyring(keys))[0]
+}
+
+function parseEncrypted(value: string) {
+  const [keyId, wrappedKey, iv, ciphertext] = value.slice(ENCRYPTED_PREFIX.length).split(':')
+  if (!keyId || !wrappedKey || !iv || !ciphertext) throw new Error('Malformed encrypted secret')
+  return { keyId, wrappedKey: fromBase64Url(wrappedKey), iv, ciphertext }
+}
+
+async function findKey(keys: SecretKeys, keyId: string): Promise<KeyEncryptionKey> {
+  const key = (await loadKeyring(keys)).find((candidate) => candidate.id === keyId)
+  if (!key) throw new Error(`Secret was encrypted with key ${keyId}, which is not in SECRETS_KEY or SECRETS_KEY_PREVIOUS`)
+  return key
+}
+
+/** Encrypts a credential for storage; null and empty values stay as they are */
+export async function encryptSecret(keys: SecretKeys, plaintext: string | null | undefined, context: string): Promise<string | null> {
+  if (!plaintext) return null
+  const { id, key } = await currentKey(keys)
+  const dataKey = (await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt'])) as CryptoKey
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(context) },
+    dataKey,
+    new TextEncoder().encode(plaintext)
+  )
+  const wrappedKey = await crypto.subtle.wrapKey('raw', dataKey, key, 'AES-KW')
+  return `${ENCRYPTED_PREFIX}${id}:${toBase64Url(new Uint8Array(wrappedKey))}:${toBase64Url(iv)}:${toBase64Url(new Uint8Array(ciphertext))}`
+}
+
+/**
+ * Decrypts a stored credential. Values saved before encryption was introduced are still plaintext
+ * until the rotation command rewrites them, and are returned unchanged.
+ */
+export async function decryptSecret(keys: SecretKeys, stored: string | null | undefined, context: string): Promise<string | null> {
+  if (!stored) return null
+  if (!isEncryptedSecret(stored)) return stored
+  const { keyId, wrappedKey, iv, ciphertext } = parseEncrypted(stored)
+  const { key } = await findKey(keys, keyId)
+  const dataKey = await crypto.subtle.unwrapKey('raw', wrappedKey, key, 'AES-KW', 'AES-GCM', false, ['decrypt'])
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64Url(iv), additionalData: new TextEncoder().encode(context) },
+    dataKey,
+    fromBase64Url(ciphertext)
+  )
+  return new TextDecoder().decode(plaintext)
+}
+
+/**
+ * Brings a stored credential onto the current key: plaintext is encrypted, and a value wrapped with a
+ * previous key has its data key rewrapped (the ciphertext itself is kept). Null when nothing changes.
+ */
+export async function rewrapSecret(keys: SecretKeys, stored: string | null | undefined, context: string): Promise<string | null> {
+  if (!stored) return null
+  if (!isEncryptedSecret(stored)) return encryptSecret(keys, stored, context)
+
+  const current = await currentKey(keys)
+  const { keyId, wrappedKey, iv, ciphertext } = parseEncrypted(stored)
+  if (keyId === current.id) return null
+  const { key } = await findKey(keys, keyId)
+  const dataKey = await crypto.subtle.unwrapKey('raw', wrappedKey, key, 'AES-KW', 'AES-GCM', true, ['decrypt'])
+  const rewrapped = await crypto.subtle.wrapKey('raw', dataKey, current.key, 'AES-KW')
+  return `${ENCRYPTED_PREFIX}${current.id}:${toBase64Url(new Uint8Array(rewrapped))}:${iv}:${ciphertext}`
+}
+
+// Contexts bound into each stored credential
+export const storeSecretContext = (storeId: string, column: 'access_token' | 'webhook_secret') => `shopify_stores.${column}:${storeId}`
+export const tenantSecretContext = (tenantId: string) => `tenants.settings.openaiApiKey:${tenantId}`
+export const twoFactorSecretContext = (userId: string) => `tenant_users.totp_secret:${userId}`
@@ -9,23 +9,51 @@ import type {
   LoginResponse,
   CreateTenantRequest,
   CreateUserRequest,
+  InviteUserRequest,
+  InviteUserResponse,
+  AccountTokenDetails,
+  LoginEvent,
+  SecuritySettings,
+  TwoFactorSetup,
+  TwoFactorStatus,
   CreateOrderRequest,
   OrderFilters,
+  OrderCardEvent,
+  OrderCardServerState,
+  OrdersByDateResponse,
+  OrderNotification,
+  StoreSyncResult,
+  StoreSyncStatus,
+  BulkImportJob,
+  DeliveryRules,
+  DeliveryRulesPreview,
+  AnalyticsSummary,
+  FloristStats,
+  FloristProductivitySummary,
+  TimeFrame,
+  CapacityForecast,
+  CapacitySettings,
+  AssignmentPlan,
+  ProductionSchedule,
+  PrintOptions,
+  ScannedCard,
+  AiFloristToken,
 } from "../types"
 import {
   OrderCardField,
   getAllFields,
   OrderCardFieldType,
 } from "../types/orderCardFields"
-import { getStoredToken, removeStoredToken } from "./auth"
+import { getStoredRefreshToken, getStoredToken, refreshToken as refreshSession } from "./auth"
 
 // API configuration
 const API_BASE_URL = "https://order-to-do.stanleytan92.workers.dev"
 
-class ApiError extends Error {
+export class ApiError extends Error {
   constructor(
     public status: number,
-    message: string
+    message: string,
+    public code?: string // Set by routes whose errors the app acts on, e.g. EMAIL_NOT_VERIFIED
   ) {
     super(message)
     this.name = "ApiError"
@@ -63,7 +91,7 @@ async function apiRequest<T>(endpoint: string, options: RequestInit = {}): Promi
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({ error: 'Unknown error' }))
-      throw new Error(`API Error ${response.status}: ${errorData.error || errorData.message || 'Unknown error'}`)
+      throw new ApiError(response.status, `API Error ${response.status}: ${errorData.error || errorData.message || 'Unknown error'}`, errorData.code)
     }
 
     return await response.json()
@@ -92,16 +120,26 @@ async function authenticatedRequest<T>(endpoint: string, options: RequestInit =
   }
 
   const url = `${API_BASE_URL}${endpoint}`
-  
-  try {
-    const response = await fetch(url, {
+  const send = (accessToken: string) =>
+    fetch(url, {
       ...options,
       headers: {
         'Content-Type': 'application/json',
-        'Authorization': `Bearer ${token}`,
+        'Authorization': `Bearer ${accessToken}`,
         ...options.headers,
       },
     })
+  
+  try {
+    let response = await send(token)
+
+    // The access token expired or its session was refreshed in another tab: renew it once and retry
+    if (response.status === 401 && getStoredRefreshToken()) {
+      const renewed = await refreshSession().catch(() => null)
+      if (renewed?.accessToken) {
+        response = await send(renewed.accessToken)
+      }
+    }
 
     // Handle non-JSON responses (like HTML error pages)
     const contentType = response.headers.get('content-type')
@@ -111,7 +149,7 @@ async function authenticatedRequest<T>(endpoint: string, options: RequestInit =
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({ error: 'Unknown error' }))
-      throw new Error(`API Error ${response.status}: ${errorData.error || errorData.message || 'Unknown error'}`)
+      throw new ApiError(response.status, `API Error ${response.status}: ${errorData.error || errorData.message || 'Unknown error'}`, errorData.code)
     }
 
     return await response.json()
@@ -129,15 +167,93 @@ export async function login(request: LoginRequest): Promise<LoginResponse> {
   })
 }
 
-export async function logout(): Promise<void> {
-  return apiRequest<void>("/api/auth/logout", {
+export async function logout(refreshToken: string, everywhere = false): Promise<{ success: boolean; revoked?: number }> {
+  return apiRequest<{ success: boolean; revoked?: number }>("/api/auth/logout", {
     method: "POST",
+    body: JSON.stringify({ refreshToken, everywhere }),
   })
 }
 
-export async function refreshToken(): Promise<LoginResponse> {
+export async function refreshToken(refreshToken: string): Promise<LoginResponse> {
   return apiRequest<LoginResponse>("/api/auth/refresh", {
     method: "POST",
+    body: JSON.stringify({ refreshToken }),
+  })
+}
+
+// Emailed links: password reset, invitations and email verification
+export async function requestPasswordReset(email: string, tenantDomain: string): Promise<{ success: boolean }> {
+  return apiRequest<{ success: boolean }>("/api/auth/forgot-password", {
+    method: "POST",
+    body: JSON.stringify({ email, tenantDomain }),
+  })
+}
+
+export async function resendVerificationEmail(email: string, tenantDomain: string): Promise<{ success: boolean }> {
+  return apiRequest<{ success: boolean }>("/api/auth/verify-email/resend", {
+    method: "POST",
+    body: JSON.stringify({ email, tenantDomain }),
+  })
+}
+
+export async function getAccountToken(token: string): Promise<AccountTokenDetails> {
+  return apiRequest<AccountTokenDetails>(`/api/auth/account-token?token=${encodeURIComponent(token)}`)
+}
+
+export async function setPassword(token: string, password: string): Promise<LoginResponse> {
+  return apiRequest<LoginResponse>("/api/auth/set-password", {
+    method: "POST",
+    body: JSON.stringify({ token, password }),
+  })
+}
+
+export async function verifyEmail(token: string): Promise<{ success: boolean }> {
+  return apiRequest<{ success: boolean }>("/api/auth/verify-email", {
+    method: "POST",
+    body: JSON.stringify({ token }),
+  })
+}
+
+// Two-factor authentication. Setup and enable take the challenge token from a sign-in that requires
+// setting it up; otherwise they, like the rest, act for the signed-in user.
+export async function verifyTwoFactorLogin(challengeToken: string, code: string): Promise<LoginResponse> {
+  return apiRequest<LoginResponse>("/api/auth/login/two-factor", {
+    method: "POST",
+    body: JSON.stringify({ challengeToken, code }),
+  })
+}
+
+export async function getTwoFactorStatus(): Promise<TwoFactorStatus> {
+  return authenticatedRequest<TwoFactorStatus>("/api/auth/two-factor")
+}
+
+export async function startTwoFactorSetup(challengeToken?: string): Promise<TwoFactorSetup> {
+  const request = challengeToken ? apiRequest : authenticatedRequest
+  return request<TwoFactorSetup>("/api/auth/two-factor/setup", {
+    method: "POST",
+    body: JSON.stringify({ challengeToken }),
+  })
+}
+
+export async function enableTwoFactor(code: string, challengeToken?: string): Promise<LoginResponse> {
+  const request = challengeToken ? apiRequest : authenticatedRequest
+  return request<LoginResponse>("/api/auth/two-factor/enable", {
+    method: "POST",
+    body: JSON.stringify({ code, challengeToken }),
+  })
+}
+
+export async function regenerateRecoveryCodes(code: string): Promise<{ success: boolean; recoveryCodes: string[] }> {
+  return authenticatedRequest<{ success: boolean; recoveryCodes: string[] }>("/api/auth/two-factor/recovery-codes", {
+    method: "POST",
+    body: JSON.stringify({ code }),
+  })
+}
+
+export async function disableTwoFactor(code?: string): Promise<{ success: boolean }> {
+  return authenticatedRequest<{ success: boolean }>("/api/auth/two-factor/disable", {
+    method: "POST",
+    body: JSON.stringify({ code }),
   })
 }
 
@@ -164,11 +280,11 @@ export async function createTenant(request: CreateTenantRequest): Promise<Tenant
 }
 
 export async function getTenants(): Promise<Tenant[]> {
-  return apiRequest<Tenant[]>("/api/tenants")
+  return authenticatedRequest<Tenant[]>("/api/tenants")
 }
 
 export async function getTenantById(id: string): Promise<Tenant> {
-  return apiRequest<Tenant>(`/api/tenants/${id}`)
+  return authenticatedRequest<Tenant>(`/api/tenants/${id}`)
 }
 
 // User management
@@ -209,6 +325,39 @@ export async function deleteUser(tenantId: string, userId: string): Promise<void
   })
 }
 
+export async function inviteUser(tenantId: string, request: InviteUserRequest): Promise<InviteUserResponse> {
+  return authenticatedRequest<InviteUserResponse>(`/api/tenants/${tenantId}/users/invite`, {
+    method: "POST",
+    body: JSON.stringify(request),
+  })
+}
+
+export async function resendInvite(tenantId: string, userId: string): Promise<InviteUserResponse> {
+  return authenticatedRequest<InviteUserResponse>(`/api/tenants/${tenantId}/users/${userId}/invite`, {
+    method: "POST",
+  })
+}
+
+// Signs a user out on every device
+export async function revokeUserSessions(tenantId: string, userId: string): Promise<{ success: boolean; revoked: number }> {
+  return authenticatedRequest<{ success: boolean; revoked: number }>(`/api/tenants/${tenantId}/users/${userId}/sessions/revoke`, {
+    method: "POST",
+  })
+}
+
+// For a user who has lost their authenticator app and recovery codes. Takes a current code from the
+// signed-in user's own authenticator, and signs the user out everywhere.
+export async function resetUserTwoFactor(tenantId: string, userId: string, code: string): Promise<{ success: boolean; reset: boolean; revoked: number }> {
+  return authenticatedRequest<{ success: boolean; reset: boolean; revoked: number }>(`/api/tenants/${tenantId}/users/${userId}/two-factor/reset`, {
+    method: "POST",
+    body: JSON.stringify({ code }),
+  })
+}
+
+export async function getUserLoginEvents(tenantId: string, userId: string, limit = 50): Promise<LoginEvent[]> {
+  return authenticatedRequest<LoginEvent[]>(`/api/tenants/${tenantId}/users/${userId}/login-events?limit=${limit}`)
+}
+
 // Order management
 export async function getOrders(tenantId: string, filters?: OrderFilters): Promise<Order[]> {
   const queryParams = filters
@@ -217,13 +366,14 @@ export async function getOrders(tenantId: string, filters?: OrderFilters): Promi
   return authenticatedRequest<Order[]>(`/api/tenants/${tenantId}/orders${queryParams}`)
 }
 
-export async function getOrdersByDate(tenantId: string, date: string): Promise<any[]> {
+// Cards from every sync-enabled store, plus a per-store fetch summary so a failing store can be shown
+export async function getOrdersByDate(tenantId: string, date: string): Promise<OrdersByDateResponse> {
   // The date should be in dd/mm/yyyy format for the API
   const formattedDate = date.split("-").reverse().join("/")
   console.log(`Calling getOrdersByDate with tenantId: ${tenantId}, date: ${date}, formattedDate: ${formattedDate}`)
   
   try {
-    const result = await apiRequest<any[]>(`/api/tenants/${tenantId}/orders-by-date?date=${formattedDate}`)
+    const result = await authenticatedRequest<OrdersByDateResponse>(`/api/tenants/${tenantId}/orders-by-date?date=${formattedDate}`)
     console.log(`getOrdersByDate response:`, result)
     return result
   } catch (error) {
@@ -238,7 +388,7 @@ export async function getOrdersFromDbByDate(tenantId: string, date: string): Pro
   console.log(`Calling getOrdersFromDbByDate with tenantId: ${tenantId}, date: ${date}, formattedDate: ${formattedDate}`)
   
   try {
-    const result = await apiRequest<any>(`/api/tenants/${tenantId}/orders-from-db-by-date?date=${formattedDate}`)
+    const result = await authenticatedRequest<any>(`/api/tenants/${tenantId}/orders-from-db-by-date?date=${formattedDate}`)
     console.log(`getOrdersFromDbByDate response:`, result)
     return result
   } catch (error) {
@@ -284,6 +434,27 @@ export async function reorderOrders(tenantId: string, orderIds: string[], delive
   })
 }
 
+export async function getOrderCardHistory(tenantId: string, cardId: string, limit = 50): Promise<OrderCardEvent[]> {
+  const result = await authenticatedRequest<{ cardId: string; events: OrderCardEvent[] }>(
+    `/api/tenants/${tenantId}/order-card-states/${encodeURIComponent(cardId)}/history?limit=${limit}`
+  )
+  return result.events
+}
+
+// Order notifications (e.g. Shopify moved or cancelled an order assigned to you)
+export async function getNotifications(tenantId: string, unreadOnly = true): Promise<OrderNotification[]> {
+  return authenticatedRequest<OrderNotification[]>(
+    `/api/tenants/${tenantId}/notifications${unreadOnly ? "?unread=true" : ""}`
+  )
+}
+
+export async function markNotificationsRead(tenantId: string, ids: number[]): Promise<{ success: boolean; updated: number }> {
+  return authenticatedRequest<{ success: boolean; updated: number }>(`/api/tenants/${tenantId}/notifications/read`, {
+    method: "POST",
+    body: JSON.stringify({ ids }),
+  })
+}
+
 // Store management
 export async function getStores(tenantId: string): Promise<Store[]> {
   return authenticatedRequest<Store[]>(`/api/tenants/${tenantId}/stores`)
@@ -326,6 +497,54 @@ export async function registerShopifyWebhooks(tenantId: string, storeId: string)
   })
 }
 
+// Incremental order sync: runs one batch of orders changed since the store's cursor
+export async function syncStoreOrders(tenantId: string, storeId: string): Promise<StoreSyncResult> {
+  return authenticatedRequest<StoreSyncResult>(`/api/tenants/${tenantId}/stores/${storeId}/orders/sync`, {
+    method: "POST",
+  })
+}
+
+export async function getStoreSyncStatus(tenantId: string, storeId: string): Promise<StoreSyncStatus> {
+  return authenticatedRequest<StoreSyncStatus>(`/api/tenants/${tenantId}/stores/${storeId}/sync-status`)
+}
+
+// Runs delivery rules against a Shopify order (by name) or pasted order JSON without saving them
+export async function previewDeliveryRules(
+  tenantId: string,
+  storeId: string,
+  sample: { rules?: DeliveryRules; orderName?: string; order?: unknown }
+): Promise<DeliveryRulesPreview> {
+  return authenticatedRequest<DeliveryRulesPreview>(`/api/tenants/${tenantId}/stores/${storeId}/delivery-rules/preview`, {
+    method: "POST",
+    body: JSON.stringify(sample),
+  })
+}
+
+// Historical import through Shopify Bulk Operations; poll getBulkImport for progress
+export async function startBulkImport(
+  tenantId: string,
+  storeId: string,
+  kind: BulkImportJob["kind"],
+  since?: string
+): Promise<BulkImportJob> {
+  const { job } = await authenticatedRequest<{ job: BulkImportJob }>(`/api/tenants/${tenantId}/stores/${storeId}/bulk-imports`, {
+    method: "POST",
+    body: JSON.stringify({ kind, since }),
+  })
+  return job
+}
+
+export async function getBulkImports(tenantId: string, storeId?: string): Promise<BulkImportJob[]> {
+  const query = storeId ? `?storeId=${encodeURIComponent(storeId)}` : ""
+  const { jobs } = await authenticatedRequest<{ jobs: BulkImportJob[] }>(`/api/tenants/${tenantId}/bulk-imports${query}`)
+  return jobs
+}
+
+export async function getBulkImport(tenantId: string, jobId: string): Promise<BulkImportJob> {
+  const { job } = await authenticatedRequest<{ job: BulkImportJob }>(`/api/tenants/${tenantId}/bulk-imports/${jobId}`)
+  return job
+}
+
 // Product management
 export async function getProducts(tenantId: string): Promise<any[]> {
   return authenticatedRequest<any[]>(`/api/tenants/${tenantId}/products`)
@@ -406,15 +625,225 @@ export async function syncProducts(
 }
 
 // Analytics
+const analyticsQuery = (timeFrame: TimeFrame, storeId?: string | null) =>
+  `?timeFrame=${timeFrame}${storeId ? `&storeId=${encodeURIComponent(storeId)}` : ""}`
+
 export async function getAnalytics(
   tenantId: string,
-  timeFrame: "daily" | "weekly" | "monthly" = "weekly"
-): Promise<any> {
-  return authenticatedRequest<any>(`/api/tenants/${tenantId}/analytics?timeFrame=${timeFrame}`)
+  timeFrame: TimeFrame = "weekly",
+  storeId?: string | null
+): Promise<AnalyticsSummary> {
+  return authenticatedRequest<AnalyticsSummary>(`/api/tenants/${tenantId}/analytics${analyticsQuery(timeFrame, storeId)}`)
+}
+
+export async function getFloristStats(
+  tenantId: string,
+  timeFrame: TimeFrame = "weekly",
+  storeId?: string | null
+): Promise<FloristStats[]> {
+  return authenticatedRequest<FloristStats[]>(`/api/tenants/${tenantId}/analytics/florist-stats${analyticsQuery(timeFrame, storeId)}`)
 }
 
-export async function getFloristStats(tenantId: string): Promise<any[]> {
-  return authenticatedRequest<any[]>(`/api/tenants/${tenantId}/analytics/florist-stats`)
+// from / to are inclusive YYYY-MM-DD completion dates; the server defaults to the last 7 days
+export async function getFloristProductivity(
+  tenantId: string,
+  range: { from?: string; to?: string } = {},
+  storeId?: string | null
+): Promise<FloristProductivitySummary> {
+  const params = new URLSearchParams()
+  if (range.from) params.set("from", range.from)
+  if (range.to) params.set("to", range.to)
+  if (storeId) params.set("storeId", storeId)
+  const query = params.toString()
+  return authenticatedRequest<FloristProductivitySummary>(
+    `/api/tenants/${tenantId}/analytics/florist-productivity${query ? `?${query}` : ""}`
+  )
+}
+
+// Capacity planning
+export async function getCapacityForecast(
+  tenantId: string,
+  options: { from?: string; days?: number; storeId?: string | null } = {}
+): Promise<CapacityForecast> {
+  const params = new URLSearchParams()
+  if (options.from) params.set("from", options.from)
+  if (options.days) params.set("days", String(options.days))
+  if (options.storeId) params.set("storeId", options.storeId)
+  const query = params.toString()
+  return authenticatedRequest<CapacityForecast>(`/api/tenants/${tenantId}/capacity/forecast${query ? `?${query}` : ""}`)
+}
+
+// hours null clears a roster entry, so the day falls back to every florist at the default hours
+export async function updateFloristAvailability(
+  tenantId: string,
+  entries: { userId: string; date: string; hours: number | null }[]
+): Promise<{ success: boolean; updated: number }> {
+  return authenticatedRequest(`/api/tenants/${tenantId}/capacity/availability`, {
+    method: "PUT",
+    body: JSON.stringify({ entries }),
+  })
+}
+
+export async function updateCapacitySettings(
+  tenantId: string,
+  capacity: CapacitySettings
+): Promise<{ success: boolean; capacity: CapacitySettings }> {
+  return authenticatedRequest(`/api/tenants/${tenantId}/capacity/settings`, {
+    method: "PUT",
+    body: JSON.stringify(capacity),
+  })
+}
+
+// Owner-only
+export async function updateSecuritySettings(
+  tenantId: string,
+  security: SecuritySettings
+): Promise<{ success: boolean; security: SecuritySettings }> {
+  return authenticatedRequest(`/api/tenants/${tenantId}/security/settings`, {
+    method: "PUT",
+    body: JSON.stringify(security),
+  })
+}
+
+// Proposed florists for a day's unassigned cards; date is YYYY-MM-DD
+export async function getAssignmentPlan(tenantId: string, date: string, storeId?: string | null): Promise<AssignmentPlan> {
+  const params = new URLSearchParams({ date })
+  if (storeId) params.set("storeId", storeId)
+  return authenticatedRequest<AssignmentPlan>(`/api/tenants/${tenantId}/capacity/assignment-plan?${params}`)
+}
+
+// Saves one card's state; deliveryDate is DD/MM/YYYY. With an expectedVersion the save only applies if
+// nobody changed the card since, else the server copy comes back as the conflict. A dropped connection
+// throws as fetch does.
+export async function saveOrderCardState(
+  tenantId: string,
+  cardId: string,
+  state: { status: string; notes: string | null; assignedTo: string | null; deliveryDate: string },
+  expectedVersion: number | null
+): Promise<{ version: number | null; conflict: OrderCardServerState | null }> {
+  const token = getStoredToken()
+  if (!token) {
+    throw new Error("Authentication token not found. Please log in again.")
+  }
+
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    Authorization: `Bearer ${token}`,
+  }
+  if (expectedVersion !== null) headers["If-Match"] = `"${expectedVersion}"`
+  const response = await fetch(`${API_BASE_URL}/api/tenants/${tenantId}/order-card-states/${encodeURIComponent(cardId)}`, {
+    method: "PUT",
+    headers,
+    body: JSON.stringify(state),
+  })
+
+  const body = await response.json().catch(() => ({}))
+  if (response.status === 409 && body.code === "VERSION_CONFLICT") {
+    return { version: null, conflict: body.serverState }
+  }
+  if (!response.ok) {
+    throw new ApiError(response.status, body.error || "Failed to save order card")
+  }
+  return { version: typeof body.version === "number" ? body.version : null, conflict: null }
+}
+
+// Saves several card states at once; deliveryDate is DD/MM/YYYY. Cards changed by someone else since
+// their expectedVersion come back in conflicts (the others are still saved) rather than as an error.
+export async function bulkUpdateOrderCardStates(
+  tenantId: string,
+  deliveryDate: string,
+  updates: { cardId: string; status: string; assignedTo: string | null; notes: string | null; expectedVersion?: number }[]
+): Promise<{ updated: number; conflicts: { cardId: string }[] }> {
+  const token = getStoredToken()
+  if (!token) {
+    throw new Error("Authentication token not found. Please log in again.")
+  }
+
+  const response = await fetch(`${API_BASE_URL}/api/tenants/${tenantId}/order-card-states/bulk`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify({ updates, deliveryDate }),
+  })
+
+  const body = await response.json().catch(() => ({}))
+  if (response.status === 409 && body.code === "VERSION_CONFLICT") {
+    return { updated: body.updated, conflicts: body.conflicts }
+  }
+  if (!response.ok) {
+    throw new ApiError(response.status, body.error || "Failed to update order cards")
+  }
+  return { updated: body.updated, conflicts: [] }
+}
+
+// Cards by timeslot with must-start-by times, and the dispatch list; date is YYYY-MM-DD
+export async function getProductionSchedule(tenantId: string, date: string, storeId?: string | null): Promise<ProductionSchedule> {
+  const params = new URLSearchParams({ date })
+  if (storeId) params.set("storeId", storeId)
+  return authenticatedRequest<ProductionSchedule>(`/api/tenants/${tenantId}/schedule?${params}`)
+}
+
+// The dispatch manifest as CSV or a printable HTML page; include "all" to list deliveries that aren't ready yet
+export async function getDispatchManifest(
+  tenantId: string,
+  options: { date: string; storeId?: string | null; format: "csv" | "html"; include?: "ready" | "all" }
+): Promise<string> {
+  const token = getStoredToken()
+  if (!token) {
+    throw new Error("Authentication token not found. Please log in again.")
+  }
+
+  const params = new URLSearchParams({ date: options.date, format: options.format, include: options.include || "ready" })
+  if (options.storeId) params.set("storeId", options.storeId)
+  const response = await fetch(`${API_BASE_URL}/api/tenants/${tenantId}/schedule/manifest?${params}`, {
+    headers: { Authorization: `Bearer ${token}` },
+  })
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ error: "Unknown error" }))
+    throw new ApiError(response.status, errorData.error || "Failed to export dispatch manifest")
+  }
+  return response.text()
+}
+
+// Printable gift cards, job sheets or packing slips for a delivery date, as an HTML page
+export async function getPrintLayout(tenantId: string, options: PrintOptions): Promise<string> {
+  const token = getStoredToken()
+  if (!token) {
+    throw new Error("Authentication token not found. Please log in again.")
+  }
+
+  const params = new URLSearchParams({ date: options.date, layout: options.layout })
+  if (options.pageSize) params.set("pageSize", options.pageSize)
+  if (options.storeId) params.set("storeId", options.storeId)
+  if (options.timeslot) params.set("timeslot", options.timeslot)
+  if (options.status) params.set("status", options.status)
+  if (options.assignedTo) params.set("assignedTo", options.assignedTo)
+  if (options.cardIds && options.cardIds.length > 0) params.set("cardIds", options.cardIds.join(","))
+  const response = await fetch(`${API_BASE_URL}/api/tenants/${tenantId}/print?${params}`, {
+    headers: { Authorization: `Bearer ${token}` },
+  })
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ error: "Unknown error" }))
+    throw new ApiError(response.status, errorData.error || "Failed to render print layout")
+  }
+  return response.text()
+}
+
+// A card by id, as scanned from its printed QR code, on whichever date it's due
+export async function getScannedCard(tenantId: string, cardId: string): Promise<ScannedCard> {
+  return authenticatedRequest<ScannedCard>(`/api/tenants/${tenantId}/cards/${encodeURIComponent(cardId)}`)
+}
+
+// Passes a completed card to delivery
+export async function handOffOrderCard(
+  tenantId: string,
+  cardId: string
+): Promise<{ success: boolean; cardId: string; handedOffAt: string; handedOffBy: string; version: number }> {
+  return authenticatedRequest(`/api/tenants/${tenantId}/order-card-states/${encodeURIComponent(cardId)}/handoff`, {
+    method: "POST",
+  })
 }
 
 // Configuration management
@@ -810,6 +1239,27 @@ export async function recordAIGeneration(tenantId: string, metadata: any): Promi
   })
 }
 
+// AI florist tokens for storefront widget embeds
+export async function getAiFloristTokens(tenantId: string): Promise<AiFloristToken[]> {
+  return authenticatedRequest<AiFloristToken[]>(`/api/tenants/${tenantId}/ai/florist-tokens`)
+}
+
+export async function createAiFloristToken(
+  tenantId: string,
+  label: string
+): Promise<{ token: string; details: AiFloristToken }> {
+  return authenticatedRequest<{ token: string; details: AiFloristToken }>(`/api/tenants/${tenantId}/ai/florist-tokens`, {
+    method: "POST",
+    body: JSON.stringify({ label }),
+  })
+}
+
+export async function revokeAiFloristToken(tenantId: string, tokenId: string): Promise<void> {
+  return authenticatedRequest<void>(`/api/tenants/${tenantId}/ai/florist-tokens/${tokenId}`, {
+    method: "DELETE",
+  })
+}
+
 // ===== PHOTO UPLOAD API ENDPOINTS =====
 
 export async function uploadFloristPhoto(tenantId: string, formData: FormData): Promise<any> {
@@ -1,4 +1,12 @@
-import { login as apiLogin, logout as apiLogout, refreshToken as apiRefreshToken } from "./api"
+import {
+  ApiError,
+  enableTwoFactor,
+  login as apiLogin,
+  logout as apiLogout,
+  refreshToken as apiRefreshToken,
+  setPassword as apiSetPassword,
+  verifyTwoFactorLogin,
+} from "./api"
 import type { LoginRequest, LoginResponse, User } from "../types"
 
 // JWT token management
@@ -49,12 +57,41 @@ export async function login(request: LoginRequest): Promise<LoginResponse> {
   }
 }
 
-export async function logout(): Promise<void> {
+const storeTokens = (response: LoginResponse): LoginResponse => {
+  if (response.accessToken) {
+    setStoredToken(response.accessToken)
+  }
+  if (response.refreshToken) {
+    setStoredRefreshToken(response.refreshToken)
+  }
+  return response
+}
+
+// Accepts an invite or password reset link, which signs the user in like a login
+export async function setPasswordFromLink(token: string, password: string): Promise<LoginResponse> {
+  return storeTokens(await apiSetPassword(token, password))
+}
+
+// The second sign-in step, with a code from the authenticator app or a recovery code
+export async function completeTwoFactorLogin(challengeToken: string, code: string): Promise<LoginResponse> {
+  return storeTokens(await verifyTwoFactorLogin(challengeToken, code))
+}
+
+// Finishes setting up two-factor during a sign-in that requires it; the response has the recovery codes
+export async function enableTwoFactorAndSignIn(challengeToken: string, code: string): Promise<LoginResponse> {
+  return storeTokens(await enableTwoFactor(code, challengeToken))
+}
+
+export async function logout(everywhere = false): Promise<void> {
   try {
-    // Call logout API
-    await apiLogout()
+    // End the session server-side so its refresh token can't be used again
+    const refreshToken = getStoredRefreshToken()
+    if (refreshToken) {
+      await apiLogout(refreshToken, everywhere)
+    }
   } catch (error) {
     console.error("Logout API call failed:", error)
+    if (everywhere) throw error
   } finally {
     // Always clear local tokens
     removeStoredToken()
@@ -62,14 +99,44 @@ export async function logout(): Promise<void> {
   }
 }
 
+// Sent when the session can't be renewed, so the app can return to the login page
+export const SESSION_EXPIRED_EVENT = "auth:session-expired"
+
+let refreshing: Promise<LoginResponse> | null = null
+
+/**
+ * Swaps the stored refresh token for a new access token. Refresh tokens are single-use and the worker
+ * revokes a session whose old token comes back, so refreshes are serialised across tabs, and a tab
+ * that finds the token already rotated by another one just picks up the new tokens.
+ */
 export async function refreshToken(): Promise<LoginResponse> {
-  try {
-    const refreshToken = getStoredRefreshToken()
-    if (!refreshToken) {
-      throw new Error("No refresh token available")
+  if (refreshing) return refreshing
+
+  const startedWith = getStoredRefreshToken()
+  refreshing = (async () => {
+    try {
+      const run = () => rotateStoredTokens(startedWith)
+      return navigator.locks ? await navigator.locks.request("auth-refresh", run) : await run()
+    } finally {
+      refreshing = null
     }
+  })()
+  return refreshing
+}
+
+const rotateStoredTokens = async (startedWith: string | null): Promise<LoginResponse> => {
+  const refreshToken = getStoredRefreshToken()
+  if (!refreshToken) {
+    throw new Error("No refresh token available")
+  }
 
-    const response = await apiRefreshToken()
+  const accessToken = getStoredToken()
+  if (refreshToken !== startedWith && accessToken && !isTokenExpired(accessToken)) {
+    return { success: true, accessToken, refreshToken }
+  }
+
+  try {
+    const response = await apiRefreshToken(refreshToken)
 
     // Update stored tokens
     if (response.accessToken) {
@@ -82,9 +149,12 @@ export async function refreshToken(): Promise<LoginResponse> {
     return response
   } catch (error) {
     console.error("Token refresh failed:", error)
-    // Clear tokens on refresh failure
-    removeStoredToken()
-    removeStoredRefreshToken()
+    // The session is over; offline or server errors keep the tokens for another try
+    if (error instanceof ApiError && error.status === 401) {
+      removeStoredToken()
+      removeStoredRefreshToken()
+      window.dispatchEvent(new Event(SESSION_EXPIRED_EVENT))
+    }
     throw error
   }
 }
@@ -0,0 +1,251 @@
+// Offline support for the order board: the day's cards cached in IndexedDB, and a durable outbox of card
+// status / notes / assignment changes made without a connection, replayed in order once it's back.
+// A replayed change made against a version someone else has since replaced becomes a conflict for the
+// card's conflict dialog rather than overwriting their save.
+
+import { ApiError, saveOrderCardState } from './api'
+import type { OrderCardServerState } from '../types'
+
+export interface OutboxEntry {
+  id?: number // Assigned by IndexedDB; replay follows it
+  tenantId: string
+  cardId: string
+  deliveryDate: string // DD/MM/YYYY
+  status: string
+  notes: string | null
+  assignedTo: string | null
+  expectedVersion: number | null // The card version the change was made against
+  queuedAt: string
+}
+
+export interface OutboxConflict {
+  tenantId: string
+  cardId: string
+  local: OutboxEntry
+  server: OrderCardServerState
+}
+
+export interface CachedDay {
+  tenantId: string
+  deliveryDate: string // DD/MM/YYYY
+  response: unknown // getOrdersFromDbByDate's response, as the board loaded it
+  savedAt: string
+}
+
+export type OutboxEvent =
+  | { type: 'changed' } // Entries or conflicts were added or removed
+  | { type: 'synced'; cardId: string; version: number | null }
+  | { type: 'conflict'; conflict: OutboxConflict } // A replayed change hit a newer server copy
+
+const DB_NAME = 'order-todo-offline'
+const DB_VERSION = 1
+const DAYS = 'days'
+const OUTBOX = 'outbox'
+const CONFLICTS = 'conflicts'
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+const openDb = () => {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      db.createObjectStore(DAYS, { keyPath: ['tenantId', 'deliveryDate'] })
+      db.createObjectStore(OUTBOX, { keyPath: 'id', autoIncrement: true }).createIndex('tenantId', 'tenantId')
+      db.createObjectStore(CONFLICTS, { keyPath: ['tenantId', 'cardId'] }).createIndex('tenantId', 'tenantId')
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      dbPromise = null
+      reject(request.error)
+    }
+  })
+  return dbPromise
+}
+
+const asPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+// Runs work in one transaction, resolving once it has committed
+const withStores = async <T>(names: string[], mode: IDBTransactionMode, work: (tx: IDBTransaction) => Promise<T>) => {
+  const tx = (await openDb()).transaction(names, mode)
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+  const result = await work(tx)
+  await done
+  return result
+}
+
+const listeners = new Set<(event: OutboxEvent) => void>()
+
+export function subscribeToOutbox(listener: (event: OutboxEvent) => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+const emit = (event: OutboxEvent) => listeners.forEach((listener) => listener(event))
+
+// Card ids with a queued change, so later saves for the card queue behind it instead of overtaking it
+const pendingCards = new Set<string>()
+
+export const hasPendingUpdate = (cardId: string) => pendingCards.has(cardId)
+
+/** Whether a failed save should be queued: the browser is offline or the request never got a response */
+export const isOfflineError = (error: unknown) => !navigator.onLine || error instanceof TypeError
+
+// ===== DAY CACHE =====
+
+export async function cacheDay(tenantId: string, deliveryDate: string, response: unknown): Promise<void> {
+  await withStores([DAYS], 'readwrite', async (tx) => {
+    await asPromise(tx.objectStore(DAYS).put({ tenantId, deliveryDate, response, savedAt: new Date().toISOString() }))
+  })
+}
+
+export async function getCachedDay(tenantId: string, deliveryDate: string): Promise<CachedDay | null> {
+  return withStores([DAYS], 'readonly', async (tx) =>
+    ((await asPromise(tx.objectStore(DAYS).get([tenantId, deliveryDate]))) as CachedDay | undefined) ?? null
+  )
+}
+
+// ===== OUTBOX =====
+
+export async function getOutbox(tenantId: string): Promise<{ entries: OutboxEntry[]; conflicts: OutboxConflict[] }> {
+  return withStores([OUTBOX, CONFLICTS], 'readonly', async (tx) => {
+    const [entries, conflicts] = await Promise.all([
+      asPromise(tx.objectStore(OUTBOX).index('tenantId').getAll(tenantId)) as Promise<OutboxEntry[]>,
+      asPromise(tx.objectStore(CONFLICTS).index('tenantId').getAll(tenantId)) as Promise<OutboxConflict[]>,
+    ])
+    entries.forEach((entry) => pendingCards.add(entry.cardId))
+    return { entries: entries.sort((a, b) => (a.id ?? 0) - (b.id ?? 0)), conflicts }
+  })
+}
+
+/**
+ * Queues a card change for when the connection is back. A card's queued changes collapse into its
+ * latest one, moved to the back of the queue and still checked against the version the first was made
+ * against, since the server hasn't seen any of them.
+ */
+export async function queueCardUpdate(entry: Omit<OutboxEntry, 'id' | 'queuedAt'>): Promise<void> {
+  await withStores([OUTBOX], 'readwrite', async (tx) => {
+    const store = tx.objectStore(OUTBOX)
+    const queued = ((await asPromise(store.index('tenantId').getAll(entry.tenantId))) as OutboxEntry[]).filter(
+      (existing) => existing.cardId === entry.cardId
+    )
+    const first = queued.sort((a, b) => (a.id ?? 0) - (b.id ?? 0))[0]
+    await Promise.all(queued.map((existing) => asPromise(store.delete(existing.id as number))))
+    await asPromise(store.add({
+      ...entry,
+      expectedVersion: first ? first.expectedVersion : entry.expectedVersion,
+      queuedAt: new Date().toISOString(),
+    }))
+  })
+  pendingCards.add(entry.cardId)
+  emit({ type: 'changed' })
+}
+
+export async function getConflict(tenantId: string, cardId: string): Promise<OutboxConflict | null> {
+  return withStores([CONFLICTS], 'readonly', async (tx) =>
+    ((await asPromise(tx.objectStore(CONFLICTS).get([tenantId, cardId]))) as OutboxConflict | undefined) ?? null
+  )
+}
+
+/** Drops a card's conflict once the user has resolved it in the conflict dialog */
+export async function resolveConflict(tenantId: string, cardId: string): Promise<void> {
+  await withStores([CONFLICTS], 'readwrite', async (tx) => {
+    await asPromise(tx.objectStore(CONFLICTS).delete([tenantId, cardId]))
+  })
+  emit({ type: 'changed' })
+}
+
+/** Cards' queued changes laid over a board response, so a reload doesn't show the server's older state */
+export function applyQueuedUpdates<T>(response: T, entries: OutboxEntry[]): T {
+  if (entries.length === 0 || !response || typeof response !== 'object') return response
+  const latest = new Map(entries.map((entry) => [entry.cardId, entry]))
+  const overlay = (orders: unknown) =>
+    Array.isArray(orders)
+      ? orders.map((order) => {
+          const entry = latest.get(order?.cardId)
+          return entry ? { ...order, status: entry.status, notes: entry.notes, assignedTo: entry.assignedTo } : order
+        })
+      : orders
+  if (Array.isArray(response)) return overlay(response) as T
+
+  const board = response as Record<string, unknown>
+  return {
+    ...board,
+    orders: overlay(board.orders),
+    mainOrders: overlay(board.mainOrders),
+    addOnOrders: overlay(board.addOnOrders),
+    storeContainers: Array.isArray(board.storeContainers)
+      ? board.storeContainers.map((container) => ({ ...container, orders: overlay(container?.orders) }))
+      : board.storeContainers,
+  } as T
+}
+
+let replaying: Promise<number> | null = null
+
+/**
+ * Sends a tenant's queued changes in the order they were made, resolving to how many went through.
+ * Stops at the first that can't be delivered (still offline, signed out, server error) so later
+ * changes never overtake it; only one replay runs at a time, across tabs where Web Locks exist.
+ */
+export function replayOutbox(tenantId: string): Promise<number> {
+  replaying ??= (async () => {
+    try {
+      const run = () => sendQueued(tenantId)
+      return navigator.locks ? await navigator.locks.request('card-outbox', run) : await run()
+    } finally {
+      replaying = null
+    }
+  })()
+  return replaying
+}
+
+const sendQueued = async (tenantId: string) => {
+  const { entries } = await getOutbox(tenantId)
+  let sent = 0
+  for (const entry of entries) {
+    let result: Awaited<ReturnType<typeof saveOrderCardState>> | null
+    try {
+      result = await saveOrderCardState(
+        tenantId,
+        entry.cardId,
+        { status: entry.status, notes: entry.notes, assignedTo: entry.assignedTo, deliveryDate: entry.deliveryDate },
+        entry.expectedVersion
+      )
+    } catch (error) {
+      if (isOfflineError(error) || !(error instanceof ApiError) || error.status === 401 || error.status >= 500) {
+        console.warn(`[CARD-OUTBOX] Replay paused at ${entry.cardId}:`, error)
+        break
+      }
+      // Rejected outright - it would fail the same way every time
+      console.error(`[CARD-OUTBOX] Dropping queued change for ${entry.cardId}:`, error)
+      result = null
+    }
+
+    const conflict: OutboxConflict | null = result?.conflict
+      ? { tenantId, cardId: entry.cardId, local: entry, server: result.conflict }
+      : null
+    await withStores([OUTBOX, CONFLICTS], 'readwrite', async (tx) => {
+      await asPromise(tx.objectStore(OUTBOX).delete(entry.id as number))
+      if (conflict) await asPromise(tx.objectStore(CONFLICTS).put(conflict))
+    })
+    pendingCards.delete(entry.cardId)
+    if (conflict) {
+      emit({ type: 'conflict', conflict })
+    } else if (result) {
+      sent++
+      emit({ type: 'synced', cardId: entry.cardId, version: result.version })
+    }
+    emit({ type: 'changed' })
+  }
+  return sent
+}
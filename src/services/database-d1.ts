@@ -1,14 +1,540 @@
-import { Tenant, CreateTenantRequest, User, Order } from "../types"
+import {
+  Tenant,
+  CreateTenantRequest,
+  User,
+  Order,
+  TimeFrame,
+  FloristStats,
+  AnalyticsPeriod,
+  AnalyticsTotals,
+  AnalyticsBucket,
+  AnalyticsStoreBreakdown,
+  AnalyticsSummary,
+  FloristProductivitySummary,
+  PrepTimeBreakdown,
+  CapacityForecast,
+  CapacityDay,
+  FloristAvailability,
+  CapacitySettings,
+  AssignmentPlan,
+  DispatchStop,
+  ProductionSchedule,
+  ScheduleTimeslot,
+  PrintBatch,
+  PrintCard,
+  ScannedCard,
+} from "../types"
 import bcrypt from "bcryptjs"
+import { difficultyMinutes, getCapacitySettings, timeslotHours } from "../lib/capacity"
+import { DEFAULT_SKILL_LEVEL, planAssignments, type PlannerCard } from "../lib/autoAssign"
+import { deliveryArea, formatClock, mustStartTimes, parseTimeslot } from "../lib/schedule"
+import { buildDeliveryRuleInput, type DeliveryRuleGraphQLOrder, type DeliveryRuleRestOrder } from "../lib/deliveryRules"
+import {
+  findCardMessage,
+  formatOrderCardValue,
+  getOrderCardFieldValue,
+  orderCardFieldsFromConfig,
+} from "../lib/orderCardValues"
+import { decryptSecret, encryptSecret, storeSecretContext, type SecretKeys } from "../lib/secrets"
+import type { D1Database } from "@cloudflare/workers-types"
 
 // Declare crypto global for Cloudflare Workers
 declare const crypto: Crypto
 
+/** The worker bindings the service reads: the D1 database and the keys credentials are encrypted with */
+export interface D1ServiceEnv extends SecretKeys {
+  DB: D1Database
+}
+
 // Helper to ensure no undefined values are passed to the database
 function safeValue(val: any) {
   return typeof val === 'undefined' ? null : val;
 }
 
+// --- Store credential helpers ---
+// The access token and webhook secret live encrypted in their own columns; settings JSON saved
+// before that (or sent back by the app) may carry copies, which are never stored or read.
+const withoutStoreCredentials = (settings: Record<string, unknown> | undefined) => {
+  const rest = { ...settings }
+  delete rest.accessToken
+  delete rest.apiSecretKey
+  return rest
+}
+
+const storeCredentials = async (keys: SecretKeys, row: { id: string; access_token: string | null; webhook_secret: string | null }) => ({
+  accessToken: await decryptSecret(keys, row.access_token, storeSecretContext(row.id, "access_token")),
+  apiSecretKey: await decryptSecret(keys, row.webhook_secret, storeSecretContext(row.id, "webhook_secret")),
+})
+
+// --- Analytics helpers ---
+// Periods are computed in Singapore time over delivery dates, which tenant_orders and
+// order_card_states keep as DD/MM/YYYY; the SQL below compares them as YYYY-MM-DD.
+const ANALYTICS_TIMEZONE = "Asia/Singapore"
+const ANALYTICS_SERIES_LENGTH: Record<TimeFrame, number> = { daily: 14, weekly: 12, monthly: 12 }
+
+const isoDeliveryDate = (column: string) =>
+  `(substr(${column}, 7, 4) || '-' || substr(${column}, 4, 2) || '-' || substr(${column}, 1, 2))`
+const hasDeliveryDate = (column: string) => `${column} GLOB '[0-9][0-9]/[0-9][0-9]/[0-9][0-9][0-9][0-9]'`
+
+// Card ids are shopify_order_id-line_item_id-index; legacy cards are keyed on tenant_orders.id
+const CARD_ORDER_JOIN = `LEFT JOIN tenant_orders o ON o.tenant_id = s.tenant_id
+  AND (o.id = s.card_id OR o.shopify_order_id = substr(s.card_id, 1, instr(s.card_id, '-') - 1))`
+
+const utcDate = (isoDate: string) => new Date(`${isoDate}T00:00:00Z`)
+
+const addDays = (isoDate: string, days: number) => {
+  const date = utcDate(isoDate)
+  date.setUTCDate(date.getUTCDate() + days)
+  return date.toISOString().slice(0, 10)
+}
+
+const addMonths = (isoDate: string, months: number) => {
+  const date = utcDate(isoDate.slice(0, 8) + "01")
+  date.setUTCMonth(date.getUTCMonth() + months)
+  return date.toISOString().slice(0, 10)
+}
+
+const daysBetween = (start: string, end: string) => Math.round((utcDate(end).getTime() - utcDate(start).getTime()) / 86400000)
+
+const bucketStart = (timeFrame: TimeFrame, isoDate: string) => {
+  if (timeFrame === "daily") return isoDate
+  if (timeFrame === "monthly") return isoDate.slice(0, 8) + "01"
+  return addDays(isoDate, -((utcDate(isoDate).getUTCDay() + 6) % 7)) // Weeks start on Monday
+}
+
+const shiftBucket = (timeFrame: TimeFrame, start: string, count: number) =>
+  timeFrame === "monthly" ? addMonths(start, count) : addDays(start, count * (timeFrame === "weekly" ? 7 : 1))
+
+const bucketPeriod = (timeFrame: TimeFrame, start: string): AnalyticsPeriod => ({
+  start,
+  end: addDays(shiftBucket(timeFrame, start, 1), -1),
+})
+
+const bucketLabel = (timeFrame: TimeFrame, start: string) => {
+  const options: Intl.DateTimeFormatOptions =
+    timeFrame === "monthly" ? { month: "short", year: "numeric" } : { day: "numeric", month: "short" }
+  const label = utcDate(start).toLocaleDateString("en-GB", { ...options, timeZone: "UTC" })
+  return timeFrame === "weekly" ? `Wk of ${label}` : label
+}
+
+const analyticsToday = () =>
+  new Intl.DateTimeFormat("en-CA", { timeZone: ANALYTICS_TIMEZONE, year: "numeric", month: "2-digit", day: "2-digit" }).format(new Date())
+
+const emptyAnalyticsTotals = (): AnalyticsTotals => ({
+  orders: 0,
+  cancelledOrders: 0,
+  revenue: 0,
+  averageOrderValue: 0,
+  cards: { tracked: 0, assigned: 0, completed: 0 },
+  completionRate: 0,
+})
+
+const finishAnalyticsTotals = <T extends AnalyticsTotals>(totals: T): T => ({
+  ...totals,
+  revenue: Math.round(totals.revenue * 100) / 100,
+  averageOrderValue: totals.orders > 0 ? Math.round((totals.revenue / totals.orders) * 100) / 100 : 0,
+  completionRate: totals.cards.tracked > 0 ? Math.round((totals.cards.completed / totals.cards.tracked) * 1000) / 10 : 0,
+})
+
+const percentChange = (current: number, previous: number) =>
+  previous > 0 ? Math.round(((current - previous) / previous) * 1000) / 10 : null
+
+interface AnalyticsOrderRow {
+  day: string
+  store_id: string | null
+  orders: number
+  cancelled: number
+  revenue: number | null
+}
+
+interface AnalyticsCardRow {
+  day: string
+  store_id: string | null
+  status: string
+  cards: number
+}
+
+interface FloristCardRow {
+  assigned_to: string
+  store_id: string | null
+  assigned_cards: number
+  completed_cards: number
+  timed_cards: number
+  avg_minutes: number | null
+}
+
+interface CompletedCardRow {
+  card_id: string
+  assigned_to: string | null
+  completed_at: string
+  prep_minutes: number | null
+  line_items: string | null
+}
+
+interface ProductLabelRow {
+  shopify_product_id: string
+  shopify_variant_id: string | null
+  name: string
+  category: string
+}
+
+// Prep time runs from when the florist started the card, or was assigned it, to completion
+const PREP_MINUTES_SQL = "(julianday(s.completed_at) - julianday(COALESCE(s.started_at, s.assigned_at))) * 1440"
+
+// assigned_to holds a user id, or a name on older cards
+const buildFloristLookup = (users: User[]) => {
+  const usersByKey = new Map<string, User>()
+  for (const user of users) {
+    usersByKey.set(user.id, user)
+    usersByKey.set(user.name.trim().toLowerCase(), user)
+  }
+  return (assignedTo: string) => usersByKey.get(assignedTo) || usersByKey.get(assignedTo.trim().toLowerCase())
+}
+
+// UTC "YYYY-MM-DD HH:MM:SS" (how card timestamps are stored) for midnight of a date in the analytics timezone
+const zonedDayStart = (isoDate: string) => {
+  const midnight = utcDate(isoDate)
+  const offset = new Intl.DateTimeFormat("en-US", { timeZone: ANALYTICS_TIMEZONE, timeZoneName: "shortOffset" })
+    .formatToParts(midnight)
+    .find((part) => part.type === "timeZoneName")?.value
+  const match = /GMT([+-])(\d{1,2})(?::(\d{2}))?/.exec(offset || "")
+  const minutes = match ? (match[1] === "-" ? -1 : 1) * (Number(match[2]) * 60 + Number(match[3] || 0)) : 0
+  return new Date(midnight.getTime() - minutes * 60000).toISOString().slice(0, 19).replace("T", " ")
+}
+
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"]
+
+// Today's date (YYYY-MM-DD) and minutes past midnight in the analytics timezone
+const zonedNow = () => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-CA", {
+      timeZone: ANALYTICS_TIMEZONE,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    })
+      .formatToParts(new Date())
+      .map((part) => [part.type, part.value])
+  )
+  return { date: `${parts.year}-${parts.month}-${parts.day}`, minutes: Number(parts.hour) * 60 + Number(parts.minute) }
+}
+
+// Timeslots in start order, ones that can't be read last
+const compareTimeslots = (a: string | null, b: string | null) =>
+  (parseTimeslot(a)?.start ?? Infinity) - (parseTimeslot(b)?.start ?? Infinity) || (a || "~").localeCompare(b || "~")
+
+// Local date, weekday (0 = Monday) and hour of a stored UTC timestamp in the analytics timezone
+const zonedTimeParts = (timestamp: string) => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-CA", {
+      timeZone: ANALYTICS_TIMEZONE,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      weekday: "short",
+      hour: "2-digit",
+      hourCycle: "h23",
+    })
+      .formatToParts(new Date(`${timestamp.replace(" ", "T")}Z`))
+      .map((part) => [part.type, part.value])
+  )
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    day: WEEKDAYS.indexOf(parts.weekday),
+    hour: Number(parts.hour),
+  }
+}
+
+const median = (values: number[]) => {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  const value = sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+  return Math.round(value * 10) / 10
+}
+
+const average = (values: number[]) =>
+  values.length > 0 ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10 : null
+
+const prepTimeBreakdown = (groups: Map<string, { completed: number; minutes: number[] }>): PrepTimeBreakdown[] =>
+  Array.from(groups.entries())
+    .map(([key, group]) => ({ key, completedCards: group.completed, medianPrepMinutes: median(group.minutes) }))
+    .sort((a, b) => b.completedCards - a.completedCards)
+
+// --- Capacity helpers ---
+
+const toDeliveryDate = (isoDate: string) => `${isoDate.slice(8, 10)}/${isoDate.slice(5, 7)}/${isoDate.slice(0, 4)}`
+const fromDeliveryDate = (deliveryDate: string) => deliveryDate.split("/").reverse().join("-")
+
+const roundHours = (hours: number) => Math.round(hours * 10) / 10
+
+// Same test the board uses to keep add-ons off the florists' cards
+const isAddOnLabel = (label: { name?: unknown; category?: unknown }) =>
+  [label.name, label.category].some((value) => /add-?on/i.test(String(value || "")))
+
+interface CapacityOrderRow {
+  delivery_date: string
+  timeslot: string | null
+  line_items: string | null
+}
+
+interface ProductEstimateRow {
+  shopify_product_id: string
+  shopify_variant_id: string | null
+  estimated_minutes: number
+}
+
+interface FloristAvailabilityRow {
+  user_id: string
+  date: string
+  hours: number
+}
+
+interface ProductPrep {
+  difficulty?: string
+  addOn: boolean
+  topUp: boolean
+}
+
+// Saved prep estimates and labels, keyed by product-variant and by product for variants that weren't saved
+interface ProductPrepData {
+  estimates: Map<string, number>
+  products: Map<string, ProductPrep>
+}
+
+const loadProductPrepData = async (env: D1ServiceEnv, tenantId: string): Promise<ProductPrepData> => {
+  const [estimateResult, labelResult] = await Promise.all([
+    env.DB.prepare(`
+      SELECT shopify_product_id, shopify_variant_id, estimated_minutes FROM saved_products
+      WHERE tenant_id = ? AND estimated_minutes IS NOT NULL
+    `).bind(tenantId).all<ProductEstimateRow>(),
+    env.DB.prepare(`
+      SELECT sp.shopify_product_id, sp.shopify_variant_id, pl.name, pl.category
+      FROM saved_products sp
+      JOIN product_label_mappings plm ON sp.id = plm.saved_product_id
+      JOIN product_labels pl ON plm.label_id = pl.id
+      WHERE sp.tenant_id = ?
+      ORDER BY pl.priority ASC
+    `).bind(tenantId).all<ProductLabelRow>(),
+  ])
+
+  const estimates = new Map<string, number>()
+  for (const row of estimateResult.results || []) {
+    estimates.set(`${row.shopify_product_id}-${row.shopify_variant_id}`, row.estimated_minutes)
+    if (!estimates.has(`${row.shopify_product_id}`)) estimates.set(`${row.shopify_product_id}`, row.estimated_minutes)
+  }
+  const products = new Map<string, ProductPrep>()
+  for (const row of labelResult.results || []) {
+    for (const key of [`${row.shopify_product_id}-${row.shopify_variant_id}`, `${row.shopify_product_id}`]) {
+      const entry = products.get(key) || { addOn: false, topUp: false }
+      if (row.category === "difficulty" && !entry.difficulty) entry.difficulty = row.name
+      if (isAddOnLabel(row)) entry.addOn = true
+      if (/top-?up/i.test(String(row.name || ""))) entry.topUp = true
+      products.set(key, entry)
+    }
+  }
+  return { estimates, products }
+}
+
+// Stored line items are REST or GraphQL shaped
+interface StoredLineItem {
+  id?: unknown
+  product_id?: unknown
+  variant_id?: unknown
+  product?: { id?: unknown }
+  variant?: { id?: unknown; title?: string }
+  title?: string
+  name?: string
+  variant_title?: string
+  quantity?: unknown
+}
+
+// Line items hold REST ids or GraphQL gids
+const shopifyId = (value: unknown) => String(value ?? "").split("/").pop() || ""
+
+// A line item's labels and prep minutes: the product's estimate, else its difficulty label's setting,
+// else null (callers fall back to the default)
+const lineItemPrep = (
+  prep: ProductPrepData,
+  settings: CapacitySettings,
+  item: StoredLineItem
+) => {
+  const productId = shopifyId(item.product_id ?? item.product?.id)
+  const variantKey = `${productId}-${shopifyId(item.variant_id ?? item.variant?.id)}`
+  const product = prep.products.get(variantKey) || prep.products.get(productId)
+  const estimate = prep.estimates.get(variantKey) ?? prep.estimates.get(productId)
+  return {
+    difficulty: product?.difficulty || null,
+    addOn: product?.addOn || false,
+    topUp: product?.topUp || false,
+    estimated: estimate !== undefined,
+    minutes: estimate ?? difficultyMinutes(settings, product?.difficulty),
+  }
+}
+
+// Same line items the board leaves off the florists' cards: express delivery fees, items consolidated
+// onto the order (top-ups, corsages, boutonnieres) and add-ons
+const isBoardCardItem = (item: StoredLineItem, itemPrep: { addOn: boolean; topUp: boolean }) => {
+  const title = (item.title || item.name || "").toLowerCase()
+  const variantTitle = (item.variant_title || item.variant?.title || "").toLowerCase()
+  if (title.includes("express") || itemPrep.topUp || itemPrep.addOn || title.includes("top-up")) return false
+  return ![title, variantTitle].some((text) => text.includes("corsage") || text.includes("boutonniere"))
+}
+
+interface ShippingAddress {
+  name: string | null
+  address1: string | null
+  address2: string | null
+  city: string | null
+  province: string | null
+  country: string | null
+  zip: string | null
+  phone: string | null
+}
+
+// A stored Shopify order, GraphQL or REST shaped (and sometimes double-encoded)
+const parseStoredOrder = (raw: unknown): Record<string, unknown> | null => {
+  let order: unknown = raw
+  try {
+    while (typeof order === "string" && order.trim()) order = JSON.parse(order)
+  } catch {
+    return null
+  }
+  return typeof order === "object" && order !== null && !Array.isArray(order) ? (order as Record<string, unknown>) : null
+}
+
+const orderShippingAddress = (order: Record<string, unknown> | null): ShippingAddress | null => {
+  const fields = (order?.shippingAddress || order?.shipping_address) as Record<string, unknown> | undefined
+  if (!fields) return null
+  const text = (value: unknown) => (typeof value === "string" && value.trim() ? value.trim() : null)
+  return {
+    name: text(fields.name) || [text(fields.firstName ?? fields.first_name), text(fields.lastName ?? fields.last_name)].filter(Boolean).join(" ") || null,
+    address1: text(fields.address1),
+    address2: text(fields.address2),
+    city: text(fields.city),
+    province: text(fields.province),
+    country: text(fields.country),
+    zip: text(fields.zip),
+    phone: text(fields.phone),
+  }
+}
+
+interface BoardCard extends PlannerCard {
+  orderId: string // Shopify order id
+  orderName: string | null
+  title: string
+  variantTitle: string | null
+  customerName: string | null
+  note: string | null
+  shippingAddress: ShippingAddress | null
+  addOns: string[] // The order's items that aren't cards, bar express fees
+  order: Record<string, unknown> | null // Stored Shopify order, shared by the order's cards
+  lineItems: StoredLineItem[]
+}
+
+interface BoardOrderRow {
+  shopify_order_id: string
+  order_name: string | null
+  store_id: string | null
+  timeslot: string | null
+  customer_name: string | null
+  notes: string | null
+  line_items: string | null
+  shopify_order_data: string | null
+}
+
+interface CardStateRow {
+  card_id: string
+  status: string | null
+  assigned_to: string | null
+  notes: string | null
+  version: number
+  handed_off_at: string | null
+}
+
+interface ScannedCardStateRow {
+  delivery_date: string
+  notes: string | null
+  version: number
+  handed_off_at: string | null
+  handed_off_by: string | null
+}
+
+// Order card fields the print layouts show in their own place rather than in the field list
+const PRINTED_SEPARATELY = [
+  "productTitle",
+  "productVariantTitle",
+  "orderId",
+  "timeslot",
+  "difficultyLabel",
+  "assignedTo",
+  "isCompleted",
+  "addOns",
+  "customisations",
+]
+
+// The cards the board shows for a DD/MM/YYYY delivery date (one per unit of each line item it doesn't
+// leave off) with their prep minutes, and that date's saved card states by card id
+const loadBoardCards = async (env: D1ServiceEnv, tenantId: string, deliveryDate: string, settings: CapacitySettings) => {
+  const [orderResult, stateResult, prep] = await Promise.all([
+    env.DB.prepare(`
+      SELECT shopify_order_id, order_name, store_id, timeslot, customer_name, notes, line_items, shopify_order_data
+      FROM tenant_orders
+      WHERE tenant_id = ? AND delivery_date = ? AND cancelled_at IS NULL
+      ORDER BY created_at ASC
+    `).bind(tenantId, deliveryDate).all<BoardOrderRow>(),
+    env.DB.prepare(`
+      SELECT card_id, status, assigned_to, notes, version, handed_off_at FROM order_card_states
+      WHERE tenant_id = ? AND delivery_date = ?
+    `).bind(tenantId, deliveryDate).all<CardStateRow>(),
+    loadProductPrepData(env, tenantId),
+  ])
+
+  const cards: BoardCard[] = []
+  for (const order of orderResult.results || []) {
+    let lineItems: StoredLineItem[] = []
+    try {
+      lineItems = JSON.parse(order.line_items || "[]")
+    } catch {
+      lineItems = []
+    }
+    const storedOrder = parseStoredOrder(order.shopify_order_data)
+    const shippingAddress = orderShippingAddress(storedOrder)
+    const items = lineItems.map((item) => ({ item, itemPrep: lineItemPrep(prep, settings, item) }))
+    const addOns = items
+      .filter(({ item, itemPrep }) => !isBoardCardItem(item, itemPrep) && !(item.title || item.name || "").toLowerCase().includes("express"))
+      .map(({ item }) => `${Number(item.quantity) > 1 ? `${item.quantity} x ` : ""}${item.title || item.name || "Untitled item"}`)
+    for (const { item, itemPrep } of items) {
+      if (!isBoardCardItem(item, itemPrep)) continue
+      for (let i = 0; i < (Number(item.quantity) || 1); i++) {
+        cards.push({
+          cardId: `${order.shopify_order_id}-${item.id || item.product_id}-${i}`,
+          orderId: order.shopify_order_id,
+          orderName: order.order_name || null,
+          title: item.title || item.name || "Untitled item",
+          variantTitle: item.variant_title || item.variant?.title || null,
+          storeId: order.store_id || null,
+          timeslot: order.timeslot || null,
+          difficulty: itemPrep.difficulty,
+          minutes: itemPrep.minutes ?? settings.defaultMinutes,
+          customerName: order.customer_name || null,
+          note: order.notes || null,
+          shippingAddress,
+          addOns,
+          order: storedOrder,
+          lineItems,
+        })
+      }
+    }
+  }
+
+  const states = new Map((stateResult.results || []).map((row) => [row.card_id, row]))
+  return { cards, states }
+}
+
 export const d1DatabaseService = {
   // Create a new tenant
   async createTenant(env: any, tenantData: CreateTenantRequest): Promise<Tenant> {
@@ -113,19 +639,24 @@ export const d1DatabaseService = {
       password?: string
       role?: string
       permissions?: string[]
+      invited?: boolean // No password yet; they choose one from their invite
+      emailVerified?: boolean
     }
   ): Promise<User> {
     const userId = crypto.randomUUID()
     const now = new Date().toISOString()
 
-    if (typeof userData.password !== "string" || userData.password.length === 0) {
-      throw new Error("Password must be a non-empty string.")
+    let hashedPassword = ""
+    if (!userData.invited) {
+      if (typeof userData.password !== "string" || userData.password.length === 0) {
+        throw new Error("Password must be a non-empty string.")
+      }
+      hashedPassword = await bcrypt.hash(userData.password, 10)
     }
-    const hashedPassword = await bcrypt.hash(userData.password, 10)
 
     await env.DB.prepare(
-      `INSERT INTO tenant_users (id, tenant_id, email, name, hashed_password, role, permissions, created_at, updated_at)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      `INSERT INTO tenant_users (id, tenant_id, email, name, hashed_password, role, permissions, email_verified_at, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
     )
       .bind(
         userId,
@@ -135,6 +666,7 @@ export const d1DatabaseService = {
         hashedPassword,
         userData.role || "florist",
         JSON.stringify(userData.permissions || []),
+        userData.emailVerified ? now : null,
         now,
         now
       )
@@ -166,6 +698,9 @@ export const d1DatabaseService = {
       name: result.name,
       role: result.role,
       permissions: JSON.parse(result.permissions),
+      emailVerified: !!result.email_verified_at,
+      invitePending: !result.hashed_password,
+      twoFactorEnabled: !!result.totp_enabled_at,
       createdAt: result.created_at,
       updatedAt: result.updated_at,
       hashedPassword: result.hashedPassword,
@@ -188,6 +723,11 @@ export const d1DatabaseService = {
       name: result.name,
       role: result.role,
       permissions: JSON.parse(result.permissions),
+      skillLevel: result.skill_level ?? DEFAULT_SKILL_LEVEL,
+      storeIds: result.store_ids ? JSON.parse(result.store_ids) : null,
+      emailVerified: !!result.email_verified_at,
+      invitePending: !result.hashed_password,
+      twoFactorEnabled: !!result.totp_enabled_at,
       createdAt: result.created_at,
       updatedAt: result.updated_at,
     }
@@ -205,6 +745,11 @@ export const d1DatabaseService = {
       name: result.name,
       role: result.role,
       permissions: JSON.parse(result.permissions),
+      skillLevel: result.skill_level ?? DEFAULT_SKILL_LEVEL,
+      storeIds: result.store_ids ? JSON.parse(result.store_ids) : null,
+      emailVerified: !!result.email_verified_at,
+      invitePending: !result.hashed_password,
+      twoFactorEnabled: !!result.totp_enabled_at,
       createdAt: result.created_at,
       updatedAt: result.updated_at,
     }))
@@ -504,6 +1049,28 @@ export const d1DatabaseService = {
     return success
   },
 
+  // Sets a user's password, e.g. from an invite or reset link; following the link also proves the email is theirs
+  async setUserPassword(env: D1ServiceEnv, tenantId: string, userId: string, password: string): Promise<void> {
+    const hashedPassword = await bcrypt.hash(password, 10)
+    const now = new Date().toISOString()
+    await env.DB.prepare(
+      `UPDATE tenant_users SET hashed_password = ?, email_verified_at = COALESCE(email_verified_at, ?),
+         failed_login_attempts = 0, locked_until = NULL, updated_at = ?
+       WHERE tenant_id = ? AND id = ?`
+    )
+      .bind(hashedPassword, now, now, tenantId, userId)
+      .run()
+  },
+
+  async markEmailVerified(env: D1ServiceEnv, tenantId: string, userId: string): Promise<void> {
+    const now = new Date().toISOString()
+    await env.DB.prepare(
+      `UPDATE tenant_users SET email_verified_at = COALESCE(email_verified_at, ?), updated_at = ? WHERE tenant_id = ? AND id = ?`
+    )
+      .bind(now, now, tenantId, userId)
+      .run()
+  },
+
   // Update a user
   async updateUser(
     env: any,
@@ -516,8 +1083,9 @@ export const d1DatabaseService = {
     const values = []
 
     if (updateData.email !== undefined) {
-      fields.push("email = ?")
-      values.push(updateData.email)
+      // A new address hasn't been confirmed yet; the right-hand sides see the row's old email
+      fields.push("email_verified_at = CASE WHEN email = ? THEN email_verified_at ELSE NULL END", "email = ?")
+      values.push(updateData.email, updateData.email)
     }
     if (updateData.name !== undefined) {
       fields.push("name = ?")
@@ -531,6 +1099,14 @@ export const d1DatabaseService = {
       fields.push("permissions = ?")
       values.push(JSON.stringify(updateData.permissions))
     }
+    if (updateData.skillLevel !== undefined) {
+      fields.push("skill_level = ?")
+      values.push(updateData.skillLevel)
+    }
+    if (updateData.storeIds !== undefined) {
+      fields.push("store_ids = ?")
+      values.push(updateData.storeIds && updateData.storeIds.length > 0 ? JSON.stringify(updateData.storeIds) : null)
+    }
 
     fields.push("updated_at = ?")
     values.push(now)
@@ -699,7 +1275,7 @@ export const d1DatabaseService = {
         return [];
       }
 
-      return results.map((result: any) => {
+      return Promise.all(results.map(async (result: any) => {
         let parsedSettings: any = {};
         try {
           if (result.settings) {
@@ -718,19 +1294,18 @@ export const d1DatabaseService = {
           settings: {
             domain: result.shopify_domain,
             address: result.shopify_domain,
-            accessToken: result.access_token,
-            apiSecretKey: result.webhook_secret,
             timezone: "UTC",
             currency: "USD",
             businessHours: { start: "09:00", end: "17:00" },
             webhooks: parsedSettings.webhooks || [],
-            ...parsedSettings,
+            ...withoutStoreCredentials(parsedSettings),
+            ...(await storeCredentials(env, result)),
           },
           lastSyncAt: result.last_sync_at,
           createdAt: result.created_at,
           updatedAt: result.updated_at,
         };
-      });
+      }));
     },
 
   // Get all stores across all tenants (for webhook processing)
@@ -739,7 +1314,7 @@ export const d1DatabaseService = {
       "SELECT * FROM shopify_stores ORDER BY created_at DESC"
     )
       .all()
-    return results.map((result: any) => {
+    return Promise.all(results.map(async (result: any) => {
       let settings: any = {}
       try {
         settings = result.settings ? JSON.parse(result.settings) : {}
@@ -755,18 +1330,17 @@ export const d1DatabaseService = {
         settings: {
           domain: result.shopify_domain,
           address: result.shopify_domain,
-          accessToken: result.access_token,
-          apiSecretKey: result.webhook_secret,
           timezone: "UTC",
           currency: "USD",
           businessHours: { start: "09:00", end: "17:00" },
           webhooks: settings.webhooks || [],
-          ...settings,
+          ...withoutStoreCredentials(settings),
+          ...(await storeCredentials(env, result)),
         },
         createdAt: result.created_at,
         updatedAt: result.updated_at,
       }
-    })
+    }))
   },
 
   // Create a new store
@@ -790,9 +1364,12 @@ export const d1DatabaseService = {
       timezone: "UTC",
       currency: "USD",
       businessHours: { start: "09:00", end: "17:00" },
-      ...storeData.settings
+      ...withoutStoreCredentials(storeData.settings)
     }
 
+    const accessToken = await encryptSecret(env, storeData.accessToken, storeSecretContext(storeId, "access_token"))
+    const webhookSecret = await encryptSecret(env, storeData.webhookSecret, storeSecretContext(storeId, "webhook_secret"))
+
     try {
       await env.DB.prepare(
         `INSERT INTO shopify_stores (id, tenant_id, shopify_domain, access_token, webhook_secret, sync_enabled, settings, created_at, updated_at)
@@ -802,8 +1379,8 @@ export const d1DatabaseService = {
           storeId,
           tenantId,
           storeData.shopifyDomain,
-          storeData.accessToken,
-          storeData.webhookSecret || null,
+          accessToken,
+          webhookSecret,
           storeData.syncEnabled !== false, // Default to true
           JSON.stringify(defaultSettings),
           now,
@@ -825,9 +1402,9 @@ export const d1DatabaseService = {
       settings: {
         domain: storeData.shopifyDomain,
         address: storeData.shopifyDomain,
+        ...defaultSettings,
         accessToken: storeData.accessToken,
         apiSecretKey: storeData.webhookSecret,
-        ...defaultSettings,
       },
       createdAt: now,
       updatedAt: now,
@@ -862,13 +1439,12 @@ export const d1DatabaseService = {
       settings: {
         domain: result.shopify_domain,
         address: result.shopify_domain,
-        accessToken: result.access_token,
-        apiSecretKey: result.webhook_secret,
         timezone: "UTC",
         currency: "USD",
         businessHours: { start: "09:00", end: "17:00" },
         webhooks: settings.webhooks || [],
-        ...settings,
+        ...withoutStoreCredentials(settings),
+        ...(await storeCredentials(env, result)),
       },
       createdAt: result.created_at,
       updatedAt: result.updated_at,
@@ -892,11 +1468,11 @@ export const d1DatabaseService = {
     }
     if (updateData.accessToken !== undefined) {
       fields.push("access_token = ?")
-      values.push(updateData.accessToken)
+      values.push(await encryptSecret(env, updateData.accessToken, storeSecretContext(storeId, "access_token")))
     }
     if (updateData.webhookSecret !== undefined) {
       fields.push("webhook_secret = ?")
-      values.push(updateData.webhookSecret)
+      values.push(await encryptSecret(env, updateData.webhookSecret, storeSecretContext(storeId, "webhook_secret")))
     }
     if (updateData.syncEnabled !== undefined) {
       fields.push("sync_enabled = ?")
@@ -908,7 +1484,7 @@ export const d1DatabaseService = {
     }
     if (updateData.settings !== undefined) {
       fields.push("settings = ?")
-      values.push(JSON.stringify(updateData.settings))
+      values.push(JSON.stringify(withoutStoreCredentials(updateData.settings)))
     }
 
     fields.push("updated_at = ?")
@@ -1018,59 +1594,827 @@ export const d1DatabaseService = {
     return result.success
   },
 
-  // Get analytics for a tenant
-  async getAnalytics(env: any, tenantId: string, timeFrame: string = "weekly"): Promise<any> {
-    // Get basic analytics data
-    const orders = await d1DatabaseService.getOrders(env, tenantId)
-    const products = await d1DatabaseService.getProducts(env, tenantId)
-    const users = await d1DatabaseService.getUsers(env, tenantId)
+  // Orders, revenue and card completion for the period containing `date` (default today), the
+  // period before it, a trend series and a per-store breakdown
+  async getAnalytics(
+    env: D1ServiceEnv,
+    tenantId: string,
+    timeFrame: TimeFrame = "weekly",
+    options: { storeId?: string | null; date?: string } = {}
+  ): Promise<AnalyticsSummary> {
+    const storeId = options.storeId || null
+    const periodStart = bucketStart(timeFrame, options.date || analyticsToday())
+    const period = bucketPeriod(timeFrame, periodStart)
+    const previousPeriod = bucketPeriod(timeFrame, shiftBucket(timeFrame, periodStart, -1))
+    const bucketStarts = Array.from({ length: ANALYTICS_SERIES_LENGTH[timeFrame] }, (_, i) =>
+      shiftBucket(timeFrame, periodStart, i - ANALYTICS_SERIES_LENGTH[timeFrame] + 1)
+    )
+    const rangeStart = bucketStarts[0]
+
+    const orderDay = isoDeliveryDate("delivery_date")
+    const cardDay = isoDeliveryDate("s.delivery_date")
+    const [orderResult, cardResult, currencyRow, stores] = await Promise.all([
+      env.DB.prepare(`
+        SELECT ${orderDay} AS day, store_id,
+          SUM(CASE WHEN cancelled_at IS NULL THEN 1 ELSE 0 END) AS orders,
+          SUM(CASE WHEN cancelled_at IS NULL THEN 0 ELSE 1 END) AS cancelled,
+          SUM(CASE WHEN cancelled_at IS NULL THEN COALESCE(total_price, 0) ELSE 0 END) AS revenue
+        FROM tenant_orders
+        WHERE tenant_id = ? AND ${hasDeliveryDate("delivery_date")} AND ${orderDay} BETWEEN ? AND ?
+          ${storeId ? "AND store_id = ?" : ""}
+        GROUP BY day, store_id
+      `).bind(tenantId, rangeStart, period.end, ...(storeId ? [storeId] : [])).all<AnalyticsOrderRow>(),
+      env.DB.prepare(`
+        SELECT ${cardDay} AS day, o.store_id AS store_id, s.status AS status, COUNT(*) AS cards
+        FROM order_card_states s
+        ${CARD_ORDER_JOIN}
+        WHERE s.tenant_id = ? AND ${hasDeliveryDate("s.delivery_date")} AND ${cardDay} BETWEEN ? AND ?
+          ${storeId ? "AND o.store_id = ?" : ""}
+        GROUP BY day, o.store_id, s.status
+      `).bind(tenantId, rangeStart, period.end, ...(storeId ? [storeId] : [])).all<AnalyticsCardRow>(),
+      env.DB.prepare(`
+        SELECT currency, COUNT(*) AS orders FROM tenant_orders
+        WHERE tenant_id = ? AND currency IS NOT NULL ${storeId ? "AND store_id = ?" : ""}
+        GROUP BY currency ORDER BY orders DESC LIMIT 1
+      `).bind(tenantId, ...(storeId ? [storeId] : [])).first<{ currency: string }>(),
+      d1DatabaseService.getStores(env, tenantId),
+    ])
+
+    const current = emptyAnalyticsTotals()
+    const previous = emptyAnalyticsTotals()
+    const series: AnalyticsBucket[] = bucketStarts.map((start) => ({
+      start,
+      label: bucketLabel(timeFrame, start),
+      orders: 0,
+      revenue: 0,
+      completedCards: 0,
+    }))
+    const seriesByStart = new Map(series.map((bucket) => [bucket.start, bucket]))
+    const storeTotals = new Map<string, { current: AnalyticsTotals; previous: AnalyticsTotals }>()
+    const totalsForStore = (id: string | null) => {
+      const key = id || "unknown"
+      if (!storeTotals.has(key)) storeTotals.set(key, { current: emptyAnalyticsTotals(), previous: emptyAnalyticsTotals() })
+      return storeTotals.get(key)!
+    }
+    // The period totals a day falls in (current, previous or neither) for the tenant and its store
+    const periodTotals = (day: string, id: string | null) => {
+      const store = totalsForStore(id)
+      if (day >= period.start && day <= period.end) return [current, store.current]
+      if (day >= previousPeriod.start && day <= previousPeriod.end) return [previous, store.previous]
+      return []
+    }
 
-    // Calculate basic stats
-    const totalOrders = orders.length
-    const pendingOrders = orders.filter((order) => order.status === "pending").length
-    const completedOrders = orders.filter((order) => order.status === "completed").length
-    const totalProducts = products.length
-    const totalUsers = users.length
+    for (const row of orderResult.results || []) {
+      const bucket = seriesByStart.get(bucketStart(timeFrame, row.day))
+      if (bucket) {
+        bucket.orders += row.orders
+        bucket.revenue += row.revenue || 0
+      }
+      for (const totals of periodTotals(row.day, row.store_id)) {
+        totals.orders += row.orders
+        totals.cancelledOrders += row.cancelled
+        totals.revenue += row.revenue || 0
+      }
+    }
 
-    // Calculate revenue (mock data for now)
-    const revenue = orders.reduce((sum, order) => sum + Math.random() * 100, 0)
+    for (const row of cardResult.results || []) {
+      const bucket = seriesByStart.get(bucketStart(timeFrame, row.day))
+      if (bucket && row.status === "completed") bucket.completedCards += row.cards
+      for (const totals of periodTotals(row.day, row.store_id)) {
+        totals.cards.tracked += row.cards
+        if (row.status === "assigned") totals.cards.assigned += row.cards
+        if (row.status === "completed") totals.cards.completed += row.cards
+      }
+    }
+
+    const currentTotals = finishAnalyticsTotals(current)
+    const previousTotals = finishAnalyticsTotals(previous)
+    const storeNames = new Map(stores.map((store) => [store.id, store.name]))
+    const storeBreakdown: AnalyticsStoreBreakdown[] = Array.from(storeTotals.entries())
+      .filter(([id]) => !storeId || id === storeId)
+      .map(([id, totals]) => ({
+        ...finishAnalyticsTotals(totals.current),
+        storeId: id,
+        storeName: storeNames.get(id) || (id === "unknown" ? "Unknown store" : id),
+        previousOrders: totals.previous.orders,
+        previousRevenue: Math.round(totals.previous.revenue * 100) / 100,
+      }))
+      .sort((a, b) => b.revenue - a.revenue)
 
     return {
       timeFrame,
-      totalOrders,
-      pendingOrders,
-      completedOrders,
-      totalProducts,
-      totalUsers,
-      revenue: Math.round(revenue * 100) / 100,
-      ordersByStatus: {
-        pending: pendingOrders,
-        completed: completedOrders,
-        cancelled: orders.filter((order) => order.status === "cancelled").length,
+      storeId,
+      currency: currencyRow?.currency || null,
+      period,
+      previousPeriod,
+      current: currentTotals,
+      previous: previousTotals,
+      change: {
+        orders: percentChange(currentTotals.orders, previousTotals.orders),
+        revenue: percentChange(currentTotals.revenue, previousTotals.revenue),
+        averageOrderValue: percentChange(currentTotals.averageOrderValue, previousTotals.averageOrderValue),
+        completedCards: percentChange(currentTotals.cards.completed, previousTotals.cards.completed),
       },
-      recentOrders: orders.slice(0, 5),
+      series: series.map((bucket) => ({ ...bucket, revenue: Math.round(bucket.revenue * 100) / 100 })),
+      stores: storeBreakdown,
+    }
+  },
+
+  // Per-florist card completion for the period containing `date` (default today). Completion time
+  // is the prep time recorded from the card's status transitions; cards completed before those were
+  // tracked count towards completions but not the average.
+  async getFloristStats(
+    env: D1ServiceEnv,
+    tenantId: string,
+    timeFrame: TimeFrame = "weekly",
+    options: { storeId?: string | null; date?: string } = {}
+  ): Promise<FloristStats[]> {
+    const storeId = options.storeId || null
+    const today = analyticsToday()
+    const period = bucketPeriod(timeFrame, bucketStart(timeFrame, options.date || today))
+    const cardDay = isoDeliveryDate("s.delivery_date")
+
+    const [users, cardResult] = await Promise.all([
+      d1DatabaseService.getUsers(env, tenantId),
+      env.DB.prepare(`
+        SELECT s.assigned_to AS assigned_to, o.store_id AS store_id,
+          COUNT(*) AS assigned_cards,
+          SUM(CASE WHEN s.status = 'completed' THEN 1 ELSE 0 END) AS completed_cards,
+          SUM(CASE WHEN s.status = 'completed' AND ${PREP_MINUTES_SQL} > 0 THEN 1 ELSE 0 END) AS timed_cards,
+          AVG(CASE WHEN s.status = 'completed' AND ${PREP_MINUTES_SQL} > 0 THEN ${PREP_MINUTES_SQL} END) AS avg_minutes
+        FROM order_card_states s
+        ${CARD_ORDER_JOIN}
+        WHERE s.tenant_id = ? AND s.assigned_to IS NOT NULL AND s.assigned_to != ''
+          AND ${hasDeliveryDate("s.delivery_date")} AND ${cardDay} BETWEEN ? AND ?
+          ${storeId ? "AND o.store_id = ?" : ""}
+        GROUP BY s.assigned_to, o.store_id
+      `).bind(tenantId, period.start, period.end, ...(storeId ? [storeId] : [])).all<FloristCardRow>(),
+    ])
+
+    const findFlorist = buildFloristLookup(users)
+    const elapsedDays = Math.max(1, daysBetween(period.start, today < period.end ? today : period.end) + 1)
+
+    const stats = new Map<string, FloristStats & { totalMinutes: number; timedCards: number }>()
+    const statsFor = (floristId: string, floristName: string) => {
+      if (!stats.has(floristId)) {
+        stats.set(floristId, {
+          floristId,
+          floristName,
+          completedOrders: 0,
+          averageCompletionTime: 0,
+          storeBreakdown: {},
+          assignedCards: 0,
+          completionRate: 0,
+          averageOrdersPerDay: 0,
+          totalMinutes: 0,
+          timedCards: 0,
+        })
+      }
+      return stats.get(floristId)!
+    }
+    for (const user of users) statsFor(user.id, user.name)
+
+    const storeTimedCards = new Map<string, number>()
+    for (const row of cardResult.results || []) {
+      const user = findFlorist(row.assigned_to)
+      const stat = user ? statsFor(user.id, user.name) : statsFor(row.assigned_to, row.assigned_to)
+      const minutes = (row.avg_minutes || 0) * row.timed_cards
+      stat.assignedCards! += row.assigned_cards
+      stat.completedOrders += row.completed_cards
+      stat.totalMinutes += minutes
+      stat.timedCards += row.timed_cards
+
+      // avgTime is per store, so keep the timed-card count alongside while accumulating
+      const storeKey = row.store_id || "unknown"
+      const store = stat.storeBreakdown![storeKey] || { orders: 0, avgTime: 0 }
+      const storeTimed = storeTimedCards.get(`${stat.floristId}:${storeKey}`) || 0
+      const storeMinutes = store.avgTime * storeTimed + minutes
+      store.orders += row.completed_cards
+      store.avgTime = storeTimed + row.timed_cards > 0 ? Math.round(storeMinutes / (storeTimed + row.timed_cards)) : 0
+      storeTimedCards.set(`${stat.floristId}:${storeKey}`, storeTimed + row.timed_cards)
+      stat.storeBreakdown![storeKey] = store
+    }
+
+    return Array.from(stats.values()).map(({ totalMinutes, timedCards, ...stat }) => ({
+      ...stat,
+      averageCompletionTime: timedCards > 0 ? Math.round(totalMinutes / timedCards) : 0,
+      completionRate: stat.assignedCards ? Math.round((stat.completedOrders / stat.assignedCards) * 1000) / 10 : 0,
+      averageOrdersPerDay: Math.round((stat.completedOrders / elapsedDays) * 10) / 10,
+    }))
+  },
+
+  // Florist throughput and prep time for cards completed between `from` and `to` (inclusive dates in
+  // Singapore time), with medians by the product's type and difficulty labels and an hour x weekday
+  // heatmap of completions.
+  async getFloristProductivity(
+    env: D1ServiceEnv,
+    tenantId: string,
+    options: { from: string; to: string; storeId?: string | null }
+  ): Promise<FloristProductivitySummary> {
+    const storeId = options.storeId || null
+    const [users, cardResult, labelResult] = await Promise.all([
+      d1DatabaseService.getUsers(env, tenantId),
+      env.DB.prepare(`
+        SELECT s.card_id AS card_id, s.assigned_to AS assigned_to, s.completed_at AS completed_at,
+          ${PREP_MINUTES_SQL} AS prep_minutes, o.line_items AS line_items
+        FROM order_card_states s
+        ${CARD_ORDER_JOIN}
+        WHERE s.tenant_id = ? AND s.status = 'completed' AND s.completed_at >= ? AND s.completed_at < ?
+          ${storeId ? "AND o.store_id = ?" : ""}
+        ORDER BY s.completed_at
+      `).bind(tenantId, zonedDayStart(options.from), zonedDayStart(addDays(options.to, 1)), ...(storeId ? [storeId] : [])).all<CompletedCardRow>(),
+      env.DB.prepare(`
+        SELECT sp.shopify_product_id, sp.shopify_variant_id, pl.name, pl.category
+        FROM saved_products sp
+        JOIN product_label_mappings plm ON sp.id = plm.saved_product_id
+        JOIN product_labels pl ON plm.label_id = pl.id
+        WHERE sp.tenant_id = ? AND pl.category IN ('productType', 'difficulty')
+        ORDER BY pl.priority ASC
+      `).bind(tenantId).all<ProductLabelRow & { category: "productType" | "difficulty" }>(),
+    ])
+
+    // First label per category, by variant and (for variants that weren't saved) by product
+    const labels = new Map<string, { productType?: string; difficulty?: string }>()
+    for (const row of labelResult.results || []) {
+      for (const key of [`${row.shopify_product_id}-${row.shopify_variant_id}`, `${row.shopify_product_id}`]) {
+        const entry = labels.get(key) || {}
+        if (!entry[row.category]) entry[row.category] = row.name
+        labels.set(key, entry)
+      }
+    }
+
+    const cardLabels = (row: CompletedCardRow) => {
+      let lineItems: Array<{ id?: unknown; product_id?: unknown; variant_id?: unknown }> = []
+      try {
+        lineItems = JSON.parse(row.line_items || "[]")
+      } catch {
+        lineItems = []
+      }
+      // shopify_order_id-line_item_id-index; legacy per-order cards use the first line item
+      const lineItemId = row.card_id.split("-")[1]
+      const lineItem = lineItems.find((item) => String(item.id) === lineItemId) || lineItems[0]
+      if (!lineItem) return {}
+      return labels.get(`${lineItem.product_id}-${lineItem.variant_id}`) || labels.get(`${lineItem.product_id}`) || {}
+    }
+
+    const findFlorist = buildFloristLookup(users)
+    type FloristTally = { name: string; minutes: number[]; days: Set<string>; completed: number; hourly: number[] }
+    const florists = new Map<string, FloristTally>()
+    const byProductType = new Map<string, { completed: number; minutes: number[] }>()
+    const byDifficulty = new Map<string, { completed: number; minutes: number[] }>()
+    const heatmap = new Map<string, number>()
+    const allMinutes: number[] = []
+    const rows = cardResult.results || []
+
+    for (const row of rows) {
+      const minutes = row.prep_minutes !== null && row.prep_minutes > 0 ? row.prep_minutes : null
+      const { date, day, hour } = zonedTimeParts(row.completed_at)
+      heatmap.set(`${day}:${hour}`, (heatmap.get(`${day}:${hour}`) || 0) + 1)
+      if (minutes !== null) allMinutes.push(minutes)
+
+      const { productType, difficulty } = cardLabels(row)
+      for (const [groups, key] of [[byProductType, productType], [byDifficulty, difficulty]] as const) {
+        const group = groups.get(key || "Unlabelled") || { completed: 0, minutes: [] as number[] }
+        group.completed++
+        if (minutes !== null) group.minutes.push(minutes)
+        groups.set(key || "Unlabelled", group)
+      }
+
+      if (!row.assigned_to) continue
+      const user = findFlorist(row.assigned_to)
+      const floristId = user?.id || row.assigned_to
+      const florist: FloristTally = florists.get(floristId) || {
+        name: user?.name || row.assigned_to,
+        minutes: [],
+        days: new Set<string>(),
+        completed: 0,
+        hourly: new Array<number>(24).fill(0),
+      }
+      florist.completed++
+      florist.days.add(date)
+      florist.hourly[hour]++
+      if (minutes !== null) florist.minutes.push(minutes)
+      florists.set(floristId, florist)
+    }
+
+    return {
+      range: { start: options.from, end: options.to },
+      timezone: ANALYTICS_TIMEZONE,
+      storeId,
+      completedCards: rows.length,
+      medianPrepMinutes: median(allMinutes),
+      florists: Array.from(florists.entries())
+        .map(([floristId, florist]) => ({
+          floristId,
+          floristName: florist.name,
+          completedCards: florist.completed,
+          activeDays: florist.days.size,
+          cardsPerActiveDay: Math.round((florist.completed / florist.days.size) * 10) / 10,
+          medianPrepMinutes: median(florist.minutes),
+          averagePrepMinutes: average(florist.minutes),
+          hourly: florist.hourly,
+        }))
+        .sort((a, b) => b.completedCards - a.completedCards),
+      prepTimeByProductType: prepTimeBreakdown(byProductType),
+      prepTimeByDifficulty: prepTimeBreakdown(byDifficulty),
+      heatmap: Array.from(heatmap.entries()).map(([cell, completed]) => {
+        const [day, hour] = cell.split(":").map(Number)
+        return { day, hour, completed }
+      }),
     }
   },
 
-  // Get florist stats
-  async getFloristStats(env: any, tenantId: string): Promise<any[]> {
-    const users = await d1DatabaseService.getUsers(env, tenantId)
-    const orders = await d1DatabaseService.getOrders(env, tenantId)
+  // Expected labour per delivery day from `from` for `days` days: each line item's prep time (the
+  // product's estimate, else its difficulty label's setting, else the default) against the hours of
+  // the florists rostered that day. Days and timeslots needing more hours than are available are flagged.
+  async getCapacityForecast(
+    env: D1ServiceEnv,
+    tenantId: string,
+    options: { from: string; days: number; storeId?: string | null }
+  ): Promise<CapacityForecast> {
+    const storeId = options.storeId || null
+    const dates = Array.from({ length: options.days }, (_, index) => addDays(options.from, index))
+    const to = dates[dates.length - 1]
+
+    const [tenant, users, orderResult, prep, availability] = await Promise.all([
+      d1DatabaseService.getTenant(env, tenantId),
+      d1DatabaseService.getUsers(env, tenantId),
+      env.DB.prepare(`
+        SELECT delivery_date, timeslot, line_items FROM tenant_orders
+        WHERE tenant_id = ? AND cancelled_at IS NULL AND delivery_date IN (${dates.map(() => "?").join(", ")})
+          ${storeId ? "AND store_id = ?" : ""}
+      `).bind(tenantId, ...dates.map(toDeliveryDate), ...(storeId ? [storeId] : [])).all<CapacityOrderRow>(),
+      loadProductPrepData(env, tenantId),
+      d1DatabaseService.getFloristAvailability(env, tenantId, options.from, to),
+    ])
+    const settings = getCapacitySettings(tenant?.settings)
+    const florists = users.filter((user) => user.role !== "admin").map((user) => ({ id: user.id, name: user.name }))
+
+    const days = new Map<string, CapacityDay>()
+    const slots = new Map<string, Map<string | null, { orders: number; items: number; minutes: number }>>()
+    for (const date of dates) {
+      const rostered = availability.filter((entry) => entry.date === date)
+      const working = rostered.length > 0 ? rostered.filter((entry) => entry.hours > 0) : florists
+      days.set(toDeliveryDate(date), {
+        date,
+        deliveryDate: toDeliveryDate(date),
+        orders: 0,
+        items: 0,
+        unestimatedItems: 0,
+        labourHours: 0,
+        florists: working.length,
+        availableHours:
+          rostered.length > 0
+            ? rostered.reduce((sum, entry) => sum + entry.hours, 0)
+            : florists.length * settings.hoursPerFlorist,
+        rostered: rostered.length > 0,
+        utilisation: null,
+        overbooked: false,
+        timeslots: [],
+      })
+      slots.set(toDeliveryDate(date), new Map())
+    }
+
+    for (const row of orderResult.results || []) {
+      const day = days.get(row.delivery_date)
+      if (!day) continue
+      let lineItems: StoredLineItem[] = []
+      try {
+        lineItems = JSON.parse(row.line_items || "[]")
+      } catch {
+        lineItems = []
+      }
+
+      let items = 0
+      let minutes = 0
+      for (const item of lineItems) {
+        const itemPrep = lineItemPrep(prep, settings, item)
+        if (!itemPrep.estimated && itemPrep.addOn) continue
+        const quantity = Number(item.quantity) > 0 ? Number(item.quantity) : 1
+        const itemMinutes = itemPrep.minutes
+        if (itemMinutes === null) day.unestimatedItems += quantity
+        items += quantity
+        minutes += quantity * (itemMinutes ?? settings.defaultMinutes)
+      }
 
-    return users.map((user) => {
-      const userOrders = orders.filter((order) => order.assignedTo === user.id)
-      const completedOrders = userOrders.filter((order) => order.status === "completed").length
+      day.orders++
+      day.items += items
+      day.labourHours += minutes / 60
+      const daySlots = slots.get(row.delivery_date)!
+      const slot = daySlots.get(row.timeslot || null) || { orders: 0, items: 0, minutes: 0 }
+      slot.orders++
+      slot.items += items
+      slot.minutes += minutes
+      daySlots.set(row.timeslot || null, slot)
+    }
 
+    const forecastDays = Array.from(days.values()).map((day) => {
+      const timeslots = Array.from(slots.get(day.deliveryDate)!.entries())
+        .map(([timeslot, slot]) => {
+          const length = timeslotHours(timeslot)
+          const capacityHours = length === null ? null : roundHours(length * day.florists)
+          return {
+            timeslot,
+            orders: slot.orders,
+            items: slot.items,
+            labourHours: roundHours(slot.minutes / 60),
+            capacityHours,
+            overbooked: capacityHours !== null && slot.minutes / 60 > capacityHours,
+          }
+        })
+        .sort((a, b) => (a.timeslot || "~").localeCompare(b.timeslot || "~")) // Orders without a timeslot last
       return {
+        ...day,
+        labourHours: roundHours(day.labourHours),
+        availableHours: roundHours(day.availableHours),
+        utilisation: day.availableHours > 0 ? Math.round((day.labourHours / day.availableHours) * 100) : null,
+        overbooked: day.labourHours > day.availableHours,
+        timeslots,
+      }
+    })
+
+    return {
+      from: options.from,
+      to,
+      storeId,
+      settings,
+      florists,
+      availability,
+      days: forecastDays,
+      totals: {
+        orders: forecastDays.reduce((sum, day) => sum + day.orders, 0),
+        labourHours: roundHours(forecastDays.reduce((sum, day) => sum + day.labourHours, 0)),
+        availableHours: roundHours(forecastDays.reduce((sum, day) => sum + day.availableHours, 0)),
+        overbookedDays: forecastDays.filter((day) => day.overbooked).length,
+        overbookedTimeslots: forecastDays.reduce((sum, day) => sum + day.timeslots.filter((slot) => slot.overbooked).length, 0),
+      },
+    }
+  },
+
+  // Proposed florist for each of a day's unassigned cards (see planAssignments). Cards are the ones the
+  // board shows; every store's active cards count towards a florist's load, even when planning one store.
+  async getAssignmentPlan(
+    env: D1ServiceEnv,
+    tenantId: string,
+    options: { date: string; storeId?: string | null }
+  ): Promise<AssignmentPlan> {
+    const storeId = options.storeId || null
+    const deliveryDate = toDeliveryDate(options.date)
+
+    const [tenant, users, availability] = await Promise.all([
+      d1DatabaseService.getTenant(env, tenantId),
+      d1DatabaseService.getUsers(env, tenantId),
+      d1DatabaseService.getFloristAvailability(env, tenantId, options.date, options.date),
+    ])
+    const settings = getCapacitySettings(tenant?.settings)
+    const { cards, states } = await loadBoardCards(env, tenantId, deliveryDate, settings)
+
+    const findFlorist = buildFloristLookup(users)
+    const loads = new Map<string, number>()
+    for (const card of cards) {
+      const state = states.get(card.cardId)
+      const florist = state?.assigned_to ? findFlorist(state.assigned_to) : undefined
+      if (florist && ["assigned", "in_progress"].includes(state!.status as string)) {
+        loads.set(florist.id, (loads.get(florist.id) || 0) + card.minutes)
+      }
+    }
+
+    // A rostered day only counts the florists on the roster
+    const rostered = availability.length > 0
+    const florists = users
+      .filter((user) => user.role !== "admin")
+      .map((user) => ({
         id: user.id,
         name: user.name,
-        email: user.email,
-        totalOrders: userOrders.length,
-        completedOrders,
-        completionRate: userOrders.length > 0 ? (completedOrders / userOrders.length) * 100 : 0,
-        averageOrdersPerDay: userOrders.length > 0 ? userOrders.length / 7 : 0, // Mock calculation
-      }
+        skillLevel: user.skillLevel ?? DEFAULT_SKILL_LEVEL,
+        storeIds: user.storeIds || null,
+        capacityMinutes: Math.round(
+          (rostered
+            ? availability.find((entry) => entry.userId === user.id)?.hours || 0
+            : settings.hoursPerFlorist) * 60
+        ),
+        loadMinutes: loads.get(user.id) || 0,
+      }))
+
+    const open = cards.filter((card) => {
+      const state = states.get(card.cardId)
+      return (!storeId || card.storeId === storeId) && (!state || ((state.status || "unassigned") === "unassigned" && !state.assigned_to))
     })
+    const plan = planAssignments(open, florists, settings)
+    const cardsById = new Map(open.map((card) => [card.cardId, card]))
+    const floristsById = new Map(florists.map((florist) => [florist.id, florist]))
+
+    return {
+      date: options.date,
+      deliveryDate,
+      storeId,
+      florists: florists.map((florist) => ({
+        id: florist.id,
+        name: florist.name,
+        skillLevel: florist.skillLevel,
+        capacityMinutes: florist.capacityMinutes,
+        existingMinutes: florist.loadMinutes,
+        plannedMinutes: plan.planned[florist.id].minutes,
+        plannedCards: plan.planned[florist.id].cards,
+      })),
+      assignments: plan.assignments.map((assignment) => {
+        const card = cardsById.get(assignment.cardId)!
+        const state = states.get(card.cardId)
+        return {
+          cardId: card.cardId,
+          orderName: card.orderName,
+          title: card.title,
+          storeId: card.storeId,
+          timeslot: card.timeslot,
+          difficulty: card.difficulty,
+          minutes: card.minutes,
+          floristId: assignment.floristId,
+          floristName: floristsById.get(assignment.floristId)!.name,
+          notes: state?.notes || null,
+          // 0 makes the bulk route reject the update if someone saves the card first
+          expectedVersion: state?.version ?? 0,
+          reason: assignment.reason,
+          warnings: assignment.warnings,
+        }
+      }),
+      unassigned: plan.unassigned.map((entry) => {
+        const card = cardsById.get(entry.cardId)!
+        return { cardId: card.cardId, orderName: card.orderName, title: card.title, reason: entry.reason }
+      }),
+    }
+  },
+
+  // A delivery date's cards grouped by timeslot, each with the time it must be started by to be ready
+  // dispatchBufferMinutes before its slot, and the day's deliveries as a dispatch list. Florists' queues
+  // take in every store's cards, even when the schedule is for one store.
+  async getProductionSchedule(
+    env: D1ServiceEnv,
+    tenantId: string,
+    options: { date: string; storeId?: string | null }
+  ): Promise<ProductionSchedule> {
+    const storeId = options.storeId || null
+    const deliveryDate = toDeliveryDate(options.date)
+    const tenant = await d1DatabaseService.getTenant(env, tenantId)
+    const settings = getCapacitySettings(tenant?.settings)
+    const { cards: dayCards, states } = await loadBoardCards(env, tenantId, deliveryDate, settings)
+    const cards = storeId ? dayCards.filter((card) => card.storeId === storeId) : dayCards
+
+    const statusOf = (cardId: string) => states.get(cardId)?.status || "unassigned"
+    const assigneeOf = (cardId: string) =>
+      statusOf(cardId) === "unassigned" ? null : states.get(cardId)?.assigned_to || null
+    const handedOff = (cardId: string) => statusOf(cardId) === "completed" && !!states.get(cardId)?.handed_off_at
+    const starts = mustStartTimes(
+      dayCards.map((card) => ({
+        cardId: card.cardId,
+        timeslot: card.timeslot,
+        minutes: card.minutes,
+        assignee: assigneeOf(card.cardId),
+        completed: statusOf(card.cardId) === "completed",
+      })),
+      settings.dispatchBufferMinutes
+    )
+    const now = zonedNow()
+
+    const timeslots = new Map<string | null, ScheduleTimeslot>()
+    const stops = new Map<string, DispatchStop>()
+    for (const card of cards) {
+      const status = statusOf(card.cardId)
+      const start = starts.get(card.cardId) ?? null
+      const slotStart = parseTimeslot(card.timeslot)?.start
+      const slot = timeslots.get(card.timeslot) || {
+        timeslot: card.timeslot,
+        readyBy: slotStart === undefined ? null : formatClock(slotStart - settings.dispatchBufferMinutes),
+        labourMinutes: 0,
+        completedCards: 0,
+        cards: [],
+      }
+      slot.labourMinutes += card.minutes
+      if (status === "completed") slot.completedCards++
+      slot.cards.push({
+        cardId: card.cardId,
+        orderName: card.orderName,
+        title: card.title,
+        difficulty: card.difficulty,
+        minutes: card.minutes,
+        status,
+        assignedTo: assigneeOf(card.cardId),
+        mustStartBy: start === null ? null : formatClock(start),
+        late: now.date === options.date && start !== null && status !== "in_progress" && now.minutes > start,
+        handedOff: handedOff(card.cardId),
+      })
+      timeslots.set(card.timeslot, slot)
+
+      const address = card.shippingAddress
+      const stop = stops.get(card.orderId) || {
+        orderId: card.orderId,
+        orderName: card.orderName,
+        timeslot: card.timeslot,
+        area: deliveryArea(address),
+        recipient: address?.name || card.customerName,
+        address: [address?.address1, address?.address2].filter(Boolean).join(", ") || null,
+        postalCode: address?.zip || null,
+        phone: address?.phone || null,
+        items: [],
+        completedCards: 0,
+        handedOffCards: 0,
+        totalCards: 0,
+        ready: false,
+      }
+      const item = stop.items.find((entry) => entry.title === card.title)
+      if (item) item.quantity++
+      else stop.items.push({ title: card.title, quantity: 1 })
+      stop.totalCards++
+      if (status === "completed") stop.completedCards++
+      if (handedOff(card.cardId)) stop.handedOffCards++
+      stop.ready = stop.completedCards === stop.totalCards
+      stops.set(card.orderId, stop)
+    }
+
+    const startOf = (cardId: string) => starts.get(cardId) ?? Infinity
+    return {
+      date: options.date,
+      deliveryDate,
+      storeId,
+      bufferMinutes: settings.dispatchBufferMinutes,
+      timeslots: Array.from(timeslots.values())
+        .sort((a, b) => compareTimeslots(a.timeslot, b.timeslot))
+        .map((slot) => ({ ...slot, cards: slot.cards.sort((a, b) => startOf(a.cardId) - startOf(b.cardId)) })),
+      dispatch: Array.from(stops.values()).sort((a, b) =>
+        compareTimeslots(a.timeslot, b.timeslot) ||
+        (a.area || "~").localeCompare(b.area || "~") ||
+        (a.postalCode || "").localeCompare(b.postalCode || "") ||
+        (a.orderName || "").localeCompare(b.orderName || "")
+      ),
+    }
+  },
+
+  // A delivery date's cards as the print layouts lay them out, narrowed to a store, timeslot, status,
+  // florist and/or list of card ids
+  async getPrintCards(
+    env: D1ServiceEnv,
+    tenantId: string,
+    options: {
+      date: string
+      storeId?: string | null
+      timeslot?: string | null
+      status?: string | null
+      assignedTo?: string | null
+      cardIds?: string[] | null
+    }
+  ): Promise<PrintBatch> {
+    const storeId = options.storeId || null
+    const deliveryDate = toDeliveryDate(options.date)
+    const tenant = await d1DatabaseService.getTenant(env, tenantId)
+    const settings = getCapacitySettings(tenant?.settings)
+    const fields = orderCardFieldsFromConfig(tenant?.settings?.orderCard)
+    const { cards, states } = await loadBoardCards(env, tenantId, deliveryDate, settings)
+    const wanted = options.cardIds && options.cardIds.length > 0 ? new Set(options.cardIds) : null
+
+    // A field mapped onto a message attribute is the tenant's own choice of card message
+    const messageField = fields.find((field) => field.shopifyFields?.some((path) => /message/i.test(path)))
+    const listedFields = fields.filter(
+      (field) => field.isVisible && field !== messageField && !PRINTED_SEPARATELY.includes(field.id)
+    )
+
+    const printCards: PrintCard[] = []
+    for (const card of cards) {
+      const state = states.get(card.cardId)
+      const status = state?.status || "unassigned"
+      const assignedTo = status === "unassigned" ? null : state?.assigned_to || null
+      if (wanted && !wanted.has(card.cardId)) continue
+      if (storeId && card.storeId !== storeId) continue
+      if (options.timeslot && card.timeslot !== options.timeslot) continue
+      if (options.status && status !== options.status) continue
+      if (options.assignedTo && assignedTo !== options.assignedTo) continue
+
+      const customisations = state?.notes || card.note
+      // Card values under the field ids, as the board hands them to the card components
+      const boardCard = {
+        cardId: card.cardId,
+        productTitle: card.title,
+        productVariantTitle: card.variantTitle,
+        orderId: card.orderName,
+        timeslot: card.timeslot,
+        difficultyLabel: card.difficulty,
+        assignedTo,
+        customisations,
+        shopifyOrderData: card.order,
+      }
+      const fieldText = (field: (typeof fields)[number]) => formatOrderCardValue(field, getOrderCardFieldValue(boardCard, field))
+      const attributes = buildDeliveryRuleInput(
+        { note_attributes: card.order?.note_attributes, line_items: card.lineItems } as DeliveryRuleRestOrder,
+        card.order as DeliveryRuleGraphQLOrder | null
+      )
+
+      printCards.push({
+        cardId: card.cardId,
+        orderId: card.orderId,
+        orderName: card.orderName,
+        storeId: card.storeId,
+        title: card.title,
+        variantTitle: card.variantTitle,
+        timeslot: card.timeslot,
+        difficulty: card.difficulty,
+        status,
+        assignedTo,
+        recipient: card.shippingAddress?.name || card.customerName,
+        address: [card.shippingAddress?.address1, card.shippingAddress?.address2].filter(Boolean).join(", ") || null,
+        postalCode: card.shippingAddress?.zip || null,
+        phone: card.shippingAddress?.phone || null,
+        message: (messageField && fieldText(messageField)) || findCardMessage(attributes),
+        addOns: card.addOns,
+        customisations,
+        fields: listedFields.flatMap((field) => {
+          const value = fieldText(field)
+          return value ? [{ id: field.id, label: field.label, value }] : []
+        }),
+      })
+    }
+
+    return {
+      date: options.date,
+      deliveryDate,
+      storeId,
+      cards: printCards.sort((a, b) =>
+        compareTimeslots(a.timeslot, b.timeslot) ||
+        (a.orderName || a.orderId).localeCompare(b.orderName || b.orderId) ||
+        a.cardId.localeCompare(b.cardId)
+      ),
+    }
+  },
+
+  // A card by id, wherever its delivery date is, for the florists' scan mode; null when the order or line
+  // item no longer has that card. The card's saved state gives the date, else its order does (card ids
+  // start with the Shopify order id).
+  async getScannedCard(env: D1ServiceEnv, tenantId: string, cardId: string): Promise<ScannedCard | null> {
+    const orderId = cardId.match(/^(.+)-[^-]+-\d+$/)?.[1]
+    if (!orderId) return null
+
+    const [state, order] = await Promise.all([
+      env.DB.prepare(`
+        SELECT delivery_date, notes, version, handed_off_at, handed_off_by FROM order_card_states
+        WHERE tenant_id = ? AND card_id = ?
+      `).bind(tenantId, cardId).first<ScannedCardStateRow>(),
+      env.DB.prepare(`
+        SELECT delivery_date FROM tenant_orders
+        WHERE tenant_id = ? AND shopify_order_id = ? AND cancelled_at IS NULL
+      `).bind(tenantId, orderId).first<{ delivery_date: string | null }>(),
+    ])
+    const deliveryDate = order?.delivery_date || state?.delivery_date
+    if (!deliveryDate || !/^\d{2}\/\d{2}\/\d{4}$/.test(deliveryDate)) return null
+
+    const date = fromDeliveryDate(deliveryDate)
+    const [[card], photos] = await Promise.all([
+      d1DatabaseService.getPrintCards(env, tenantId, { date, cardIds: [cardId] }).then((batch) => batch.cards),
+      env.DB.prepare(`SELECT COUNT(*) AS count FROM florist_photo_uploads WHERE tenant_id = ? AND card_id = ?`)
+        .bind(tenantId, cardId)
+        .first<{ count: number }>(),
+    ])
+    if (!card) return null
+
+    // A state saved under another date belongs to the card's old delivery date, though its version is
+    // still the one the next save is checked against
+    const current = state?.delivery_date === deliveryDate ? state : null
+    return {
+      ...card,
+      date,
+      deliveryDate,
+      notes: current?.notes || null,
+      version: state?.version || 0,
+      handedOffAt: card.status === "completed" ? current?.handed_off_at || null : null,
+      handedOffBy: card.status === "completed" ? current?.handed_off_by || null : null,
+      photoCount: photos?.count || 0,
+    }
+  },
+
+  // Roster entries between two YYYY-MM-DD dates, inclusive
+  async getFloristAvailability(env: D1ServiceEnv, tenantId: string, from: string, to: string): Promise<FloristAvailability[]> {
+    const { results } = await env.DB.prepare(`
+      SELECT user_id, date, hours FROM florist_availability
+      WHERE tenant_id = ? AND date BETWEEN ? AND ?
+      ORDER BY date, user_id
+    `).bind(tenantId, from, to).all<FloristAvailabilityRow>()
+    return (results || []).map((row) => ({ userId: row.user_id, date: row.date, hours: row.hours }))
+  },
+
+  // Set florists' hours on dates; hours of null removes the entry so the day falls back to the default
+  async setFloristAvailability(
+    env: D1ServiceEnv,
+    tenantId: string,
+    entries: Array<{ userId: string; date: string; hours: number | null }>
+  ): Promise<void> {
+    if (entries.length === 0) return
+    const upsert = env.DB.prepare(`
+      INSERT INTO florist_availability (id, tenant_id, user_id, date, hours)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(tenant_id, user_id, date) DO UPDATE SET hours = excluded.hours, updated_at = CURRENT_TIMESTAMP
+    `)
+    const remove = env.DB.prepare("DELETE FROM florist_availability WHERE tenant_id = ? AND user_id = ? AND date = ?")
+    await env.DB.batch(entries.map((entry) =>
+      entry.hours === null
+        ? remove.bind(tenantId, entry.userId, entry.date)
+        : upsert.bind(crypto.randomUUID(), tenantId, entry.userId, entry.date, entry.hours)
+    ))
   },
 
   async fetchShopifyOrder(
@@ -1150,7 +2494,13 @@ export const d1DatabaseService = {
     )
       .bind(tenantId)
       .all()
-    return results || []
+    return Promise.all(
+      (results || []).map(async (store: { id: string; accessToken: string | null; webhookSecret: string | null }) => ({
+        ...store,
+        accessToken: await decryptSecret(env, store.accessToken, storeSecretContext(store.id, "access_token")),
+        webhookSecret: await decryptSecret(env, store.webhookSecret, storeSecretContext(store.id, "webhook_secret")),
+      }))
+    )
   },
 
   async getProductByShopifyId(env: any, tenantId: string, shopifyId: string): Promise<any | null> {
@@ -1196,6 +2546,7 @@ export const d1DatabaseService = {
       imageWidth?: number
       imageHeight?: number
       storeId?: string  // Add storeId to the interface
+      estimatedMinutes?: number // florist.estimated_time; kept from the saved row when not given
     }>
   ): Promise<any[]> {
     const savedProducts = []
@@ -1203,7 +2554,7 @@ export const d1DatabaseService = {
     for (const product of products) {
       // First, check if the product already exists
       const existingProduct = await env.DB.prepare(`
-        SELECT id FROM saved_products 
+        SELECT id, estimated_minutes FROM saved_products 
         WHERE tenant_id = ? AND shopify_product_id = ? AND shopify_variant_id = ?
       `)
         .bind(tenantId, product.shopifyProductId, product.shopifyVariantId)
@@ -1228,9 +2579,9 @@ export const d1DatabaseService = {
         INSERT OR REPLACE INTO saved_products (
           id, tenant_id, shopify_product_id, shopify_variant_id, title, variant_title,
           description, price, tags, product_type, vendor, handle, 
-          image_url, image_alt, image_width, image_height, store_id,
+          image_url, image_alt, image_width, image_height, store_id, estimated_minutes,
           created_at, updated_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `)
         .bind(
           safeValue(productId),
@@ -1250,6 +2601,7 @@ export const d1DatabaseService = {
           safeValue(product.imageWidth),
           safeValue(product.imageHeight),
           safeValue(product.storeId), // Add store_id to the INSERT
+          safeValue(product.estimatedMinutes ?? existingProduct?.estimated_minutes),
           safeValue(existingProduct ? existingProduct.created_at : now),
           safeValue(now)
         )
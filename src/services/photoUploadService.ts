@@ -22,6 +22,7 @@ export interface FloristPhotoUpload {
   thumbnail_url?: string;
   image_metadata?: Record<string, any>;
   upload_status: 'uploaded' | 'processing' | 'approved' | 'rejected' | 'archived';
+  card_id?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -103,6 +104,7 @@ export interface PhotoUploadOptions {
   extractMetadata?: boolean; // whether to extract EXIF metadata
   createThumbnail?: boolean; // whether to create thumbnail
   thumbnailSize?: number; // thumbnail size in pixels, default 300
+  cardId?: string; // order card the photo was taken for
 }
 
 export interface TrainingDataExtraction {
@@ -165,6 +167,9 @@ class PhotoUploadService {
     formData.append('metadata', JSON.stringify(metadata));
     formData.append('original_size', file.size.toString());
     formData.append('compressed_size', compressedBlob.size.toString());
+    if (opts.cardId) {
+      formData.append('card_id', opts.cardId);
+    }
     
     return await uploadFloristPhoto(this.tenantId, formData);
   }
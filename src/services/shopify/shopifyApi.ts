@@ -1,5 +1,6 @@
 import type { Product, ProductVariant, ProductImage, ProductMetafield } from "../../types"
 import type { Store } from "../../types"
+import { ShopifyApiError, ShopifyClient, type ShopifyUsage } from "./shopifyClient"
 
 // Shopify API configuration
 interface ShopifyConfig {
@@ -67,6 +68,15 @@ interface ShopifyMetafieldResponse {
   updated_at: string
 }
 
+export interface ShopifyBulkOperation {
+  id: string
+  status: "CREATED" | "RUNNING" | "COMPLETED" | "CANCELING" | "CANCELED" | "FAILED" | "EXPIRED"
+  errorCode: string | null
+  objectCount: string // UnsignedInt64, serialized as a string
+  url: string | null // JSONL result, null while running or when the query matched nothing
+  partialDataUrl: string | null
+}
+
 interface ShopifyProductsResponse {
   products: ShopifyProductResponse["product"][]
 }
@@ -75,6 +85,7 @@ interface ShopifyProductsResponse {
 export class ShopifyApiService {
   private config: ShopifyConfig
   private store: Store
+  private client: ShopifyClient
 
   constructor(store: Store, accessToken: string) {
     this.config = {
@@ -83,17 +94,12 @@ export class ShopifyApiService {
       apiVersion: "2023-10", // Use a more stable version
     }
     this.store = store
+    this.client = new ShopifyClient(this.config)
   }
 
-  private getBaseUrl(): string {
-    return `https://${this.config.storeDomain}/admin/api/${this.config.apiVersion}`
-  }
-
-  private getHeaders(): HeadersInit {
-    return {
-      "Content-Type": "application/json",
-      "X-Shopify-Access-Token": this.config.accessToken,
-    }
+  // Requests, retries, wait time and GraphQL cost spent by this service so far
+  getUsage(): ShopifyUsage {
+    return { ...this.client.usage }
   }
 
   // Fetch all products from Shopify with pagination
@@ -126,29 +132,13 @@ export class ShopifyApiService {
         params.append("since_id", sinceId.toString())
       }
 
-      const url = `${this.getBaseUrl()}/products.json?${params.toString()}`
-      console.log("Shopify API URL:", url)
-      console.log("Shopify API Headers:", this.getHeaders())
+      const path = `/products.json?${params.toString()}`
+      console.log("Shopify API path:", path)
 
-      const response = await fetch(url, {
-        method: "GET",
-        headers: this.getHeaders(),
-      })
-
-      console.log("Shopify API Response Status:", response.status)
-
-      if (!response.ok) {
-        const errorText = await response.text()
-        console.error("Shopify API Error Response:", errorText)
-        throw new Error(
-          `Shopify API error: ${response.status} ${response.statusText} - ${errorText}`
-        )
-      }
-
-      const data: ShopifyProductsResponse = await response.json()
+      const { data, headers } = await this.client.rest<ShopifyProductsResponse>(path)
 
       // Check if there are more products by looking at the Link header
-      const linkHeader = response.headers.get("Link")
+      const linkHeader = headers.get("Link")
       let hasNext = false
       let nextSinceId: number | undefined
       let nextPageInfo: string | undefined
@@ -256,7 +246,8 @@ export class ShopifyApiService {
   }
 
   // Fetch all orders from Shopify with pagination support
-  async getOrders(filters?: { name?: string; status?: string; limit?: number; maxTotal?: number; dateRange?: { start: string; end: string } }): Promise<any[]> {
+  // With updatedAtMin the orders come back oldest change first, so the last one is a safe sync cursor
+  async getOrders(filters?: { name?: string; status?: string; limit?: number; maxTotal?: number; dateRange?: { start: string; end: string }; updatedAtMin?: string }): Promise<any[]> {
     try {
       const allOrders: any[] = []
       let pageInfo: string | undefined = undefined
@@ -292,35 +283,21 @@ export class ShopifyApiService {
             console.log(`[SHOPIFY-ORDERS] Filtering by date range: ${filters.dateRange.start} to ${filters.dateRange.end}`)
           }
           
-          // CRITICAL: Sort by created_at descending to get latest orders first
-          params.append("order", "created_at desc")
+          if (filters?.updatedAtMin) {
+            // Incremental sync: everything changed since the cursor, oldest change first
+            params.append("updated_at_min", filters.updatedAtMin)
+            params.append("order", "updated_at asc")
+          } else {
+            // CRITICAL: Sort by created_at descending to get latest orders first
+            params.append("order", "created_at desc")
+          }
         }
         
-        const url = `${this.getBaseUrl()}/orders.json?${params.toString()}`
-        console.log(`[SHOPIFY-ORDERS] Fetching page: ${url}`)
-        
-        const response = await fetch(url, {
-          method: "GET",
-          headers: this.getHeaders(),
-        })
-
-        // Handle rate limiting with retry logic
-        if (response.status === 429) {
-          const retryAfter = response.headers.get("Retry-After") || "1"
-          const waitTime = parseInt(retryAfter) * 1000
-          console.log(`[SHOPIFY-ORDERS] Rate limited. Waiting ${waitTime}ms before retry...`)
-          await new Promise(resolve => setTimeout(resolve, waitTime))
-          continue // Retry the same request
-        }
-
-        if (!response.ok) {
-          const errorText = await response.text()
-          throw new Error(
-            `Shopify API error: ${response.status} ${response.statusText} - ${errorText}`
-          )
-        }
+        const path = `/orders.json?${params.toString()}`
+        console.log(`[SHOPIFY-ORDERS] Fetching page: ${path}`)
 
-        const data = await response.json()
+        // 429s are retried by the client
+        const { data, headers } = await this.client.rest<{ orders?: unknown[] }>(path)
         const orders = data.orders || []
         
         // Check if adding all orders would exceed maxTotal
@@ -335,7 +312,7 @@ export class ShopifyApiService {
         }
         
         // Check for next page using Link header
-        const linkHeader = response.headers.get("Link")
+        const linkHeader = headers.get("Link")
         pageInfo = undefined
         
         if (linkHeader) {
@@ -366,13 +343,7 @@ export class ShopifyApiService {
            console.log(`[SHOPIFY-ORDERS] Reached last page. Final count: ${allOrders.length} orders`)
            break
          }
-         
-         // Add small delay between requests to be respectful of API limits
-         if (pageInfo) {
-           console.log(`[SHOPIFY-ORDERS] Waiting 500ms before next page...`)
-           await new Promise(resolve => setTimeout(resolve, 500))
-         }
-         
+         // No fixed delay between pages - the client's leaky bucket paces requests
        } while (pageInfo)
       
       console.log(`[SHOPIFY-ORDERS] Pagination complete. Total orders fetched: ${allOrders.length}`)
@@ -387,22 +358,12 @@ export class ShopifyApiService {
   // Fetch a single product by Shopify ID
   async fetchProduct(shopifyId: string): Promise<Product | null> {
     try {
-      const url = `${this.getBaseUrl()}/products/${shopifyId}.json`
-      const response = await fetch(url, {
-        method: "GET",
-        headers: this.getHeaders(),
-      })
-
-      if (!response.ok) {
-        if (response.status === 404) {
-          return null
-        }
-        throw new Error(`Shopify API error: ${response.status} ${response.statusText}`)
-      }
-
-      const data: ShopifyProductResponse = await response.json()
+      const { data } = await this.client.rest<ShopifyProductResponse>(`/products/${shopifyId}.json`)
       return this.mapShopifyProductToLocal(data.product)
     } catch (error) {
+      if (error instanceof ShopifyApiError && error.kind === "not_found") {
+        return null
+      }
       console.error("Error fetching product from Shopify:", error)
       throw error
     }
@@ -414,18 +375,11 @@ export class ShopifyApiService {
     metafields: Array<{ namespace: string; key: string; value: string; type: string }>
   ): Promise<void> {
     try {
-      const url = `${this.getBaseUrl()}/products/${shopifyId}/metafields.json`
-
       for (const metafield of metafields) {
-        const response = await fetch(url, {
+        await this.client.rest(`/products/${shopifyId}/metafields.json`, {
           method: "POST",
-          headers: this.getHeaders(),
-          body: JSON.stringify({ metafield }),
+          body: { metafield },
         })
-
-        if (!response.ok) {
-          throw new Error(`Shopify API error: ${response.status} ${response.statusText}`)
-        }
       }
     } catch (error) {
       console.error("Error updating product metafields:", error)
@@ -436,21 +390,15 @@ export class ShopifyApiService {
   // Update product tags
   async updateProductTags(shopifyId: string, tags: string[]): Promise<void> {
     try {
-      const url = `${this.getBaseUrl()}/products/${shopifyId}.json`
-      const response = await fetch(url, {
+      await this.client.rest(`/products/${shopifyId}.json`, {
         method: "PUT",
-        headers: this.getHeaders(),
-        body: JSON.stringify({
+        body: {
           product: {
             id: shopifyId,
             tags: tags.join(", "),
           },
-        }),
+        },
       })
-
-      if (!response.ok) {
-        throw new Error(`Shopify API error: ${response.status} ${response.statusText}`)
-      }
     } catch (error) {
       console.error("Error updating product tags:", error)
       throw error
@@ -592,7 +540,6 @@ export class ShopifyApiService {
 
   // Fetch a single order by Shopify ID using GraphQL
   async fetchOrderByIdGraphQL(orderGid: string): Promise<any> {
-    const url = `https://${this.config.storeDomain}/admin/api/2023-10/graphql.json`;
     const query = `
       query getOrder($id: ID!) {
         order(id: $id) {
@@ -626,11 +573,24 @@ export class ShopifyApiService {
             key
             value
           }
+          metafields(first: 25) {
+            edges {
+              node {
+                namespace
+                key
+                value
+              }
+            }
+          }
           lineItems(first: 50) {
             edges {
               node {
                 title
                 quantity
+                customAttributes {
+                  key
+                  value
+                }
                 variant {
                   id
                   title
@@ -651,21 +611,44 @@ export class ShopifyApiService {
         }
       }
     `;
-    const variables = { id: orderGid };
-    const response = await fetch(url, {
-      method: "POST",
-      headers: this.getHeaders(),
-      body: JSON.stringify({ query, variables }),
-    });
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Shopify GraphQL error: ${response.status} ${response.statusText} - ${errorText}`);
-    }
-    const data = await response.json();
-    if (data.errors) {
-      throw new Error(`Shopify GraphQL error: ${JSON.stringify(data.errors)}`);
+    const data = await this.client.graphql<{ order: unknown }>(query, { id: orderGid });
+    return data.order;
+  }
+
+  // Bulk Operations: Shopify runs the query in the background and writes the result to a JSONL file.
+  // Start a bulk query. Shopify allows one running bulk query per shop.
+  async startBulkQuery(bulkQuery: string): Promise<ShopifyBulkOperation> {
+    const data = await this.client.graphql<{
+      bulkOperationRunQuery: { bulkOperation: ShopifyBulkOperation; userErrors: { field: string[] | null; message: string }[] }
+    }>(
+      `mutation runBulkQuery($query: String!) {
+        bulkOperationRunQuery(query: $query) {
+          bulkOperation { id status errorCode objectCount url partialDataUrl }
+          userErrors { field message }
+        }
+      }`,
+      { query: bulkQuery }
+    )
+    const result = data.bulkOperationRunQuery
+    if (result.userErrors?.length) {
+      throw new ShopifyApiError(`Shopify bulk query rejected: ${result.userErrors.map((e) => e.message).join("; ")}`, {
+        kind: "invalid_request",
+        details: result.userErrors,
+      })
     }
-    return data.data.order;
+    return result.bulkOperation
+  }
+
+  async getBulkOperation(operationId: string): Promise<ShopifyBulkOperation | null> {
+    const data = await this.client.graphql<{ node: ShopifyBulkOperation | null }>(
+      `query getBulkOperation($id: ID!) {
+        node(id: $id) {
+          ... on BulkOperation { id status errorCode objectCount url partialDataUrl }
+        }
+      }`,
+      { id: operationId }
+    )
+    return data.node
   }
 }
 
@@ -0,0 +1,78 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { ShopifyApiError, ShopifyClient } from "./shopifyClient"
+
+const config = { storeDomain: "retry-test.myshopify.com", accessToken: "shpat_test", apiVersion: "2025-01" }
+const quickRetries = { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 1 }
+
+const jsonResponse = (status: number, body: unknown = {}) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } })
+
+// Answers each call with the next response, or throws it when it's an error
+const mockFetch = (...responses: (Response | Error)[]) => {
+  const fetchMock = vi.fn(async () => {
+    const next = responses.shift()
+    if (!next) throw new Error("Unexpected request")
+    if (next instanceof Error) throw next
+    return next
+  })
+  vi.stubGlobal("fetch", fetchMock)
+  return fetchMock
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe("ShopifyClient retries", () => {
+  it("retries a REST read after a 5xx or a network failure", async () => {
+    const fetchMock = mockFetch(jsonResponse(502), new TypeError("fetch failed"), jsonResponse(200, { orders: [] }))
+    const { data } = await new ShopifyClient(config, quickRetries).rest<{ orders: unknown[] }>("/orders.json")
+    expect(data).toEqual({ orders: [] })
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+  })
+
+  it("does not retry a REST write after a 5xx", async () => {
+    const fetchMock = mockFetch(jsonResponse(503), jsonResponse(201))
+    const write = new ShopifyClient(config, quickRetries).rest("/orders/1/fulfillments.json", { method: "POST", body: {} })
+    await expect(write).rejects.toMatchObject({ kind: "server_error", retryable: false, attempts: 1 })
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it("does not retry a REST write after a network failure", async () => {
+    const fetchMock = mockFetch(new TypeError("fetch failed"), jsonResponse(200))
+    const write = new ShopifyClient(config, quickRetries).rest("/orders/1.json", { method: "PUT", body: {} })
+    await expect(write).rejects.toBeInstanceOf(ShopifyApiError)
+    await expect(write).rejects.toMatchObject({ kind: "network", retryable: false })
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it("retries a REST write that was rate limited", async () => {
+    const fetchMock = mockFetch(jsonResponse(429), jsonResponse(200, { ok: true }))
+    const { data } = await new ShopifyClient(config, quickRetries).rest("/orders/1.json", { method: "DELETE" })
+    expect(data).toEqual({ ok: true })
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it("retries a GraphQL query after a 5xx but not a mutation", async () => {
+    const client = new ShopifyClient(config, quickRetries)
+    let fetchMock = mockFetch(jsonResponse(500), jsonResponse(200, { data: { shop: { name: "Shop" } } }))
+    await expect(client.graphql("query { shop { name } }")).resolves.toEqual({ shop: { name: "Shop" } })
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+
+    fetchMock = mockFetch(jsonResponse(500), jsonResponse(200, { data: {} }))
+    await expect(client.graphql("# Tag an order\nmutation { tagsAdd(id: \"1\", tags: [\"a\"]) { userErrors { message } } }")).rejects.toMatchObject({
+      kind: "server_error",
+    })
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it("retries a throttled GraphQL mutation", async () => {
+    const fetchMock = mockFetch(
+      jsonResponse(200, { errors: [{ message: "Throttled", extensions: { code: "THROTTLED" } }] }),
+      jsonResponse(200, { data: { tagsAdd: { userErrors: [] } } })
+    )
+    const result = await new ShopifyClient(config, quickRetries).graphql("mutation { tagsAdd(id: \"1\", tags: []) { userErrors { message } } }")
+    expect(result).toEqual({ tagsAdd: { userErrors: [] } })
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+})
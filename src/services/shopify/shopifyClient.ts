@@ -0,0 +1,411 @@
+// Shared request layer for the Shopify Admin API. Every REST and GraphQL call made by
+// ShopifyApiService goes through ShopifyClient, which paces requests against Shopify's limits,
+// retries throttled and transient failures with backoff, and keeps count of what a sync cost.
+// Writes (REST POST/PUT/DELETE, GraphQL mutations) are only retried when Shopify throttled them:
+// after a 5xx or a dropped connection the write may have gone through, and repeating it could
+// create a second order or fulfillment.
+
+export interface ShopifyClientConfig {
+  storeDomain: string
+  accessToken: string
+  apiVersion: string
+}
+
+export interface ShopifyRetryOptions {
+  maxRetries: number
+  baseDelayMs: number
+  maxDelayMs: number
+}
+
+const DEFAULT_RETRY_OPTIONS: ShopifyRetryOptions = {
+  maxRetries: 4,
+  baseDelayMs: 500,
+  maxDelayMs: 20000,
+}
+
+// Shopify's standard-plan REST bucket: 40 requests, leaking 2 per second. Resized from
+// X-Shopify-Shop-Api-Call-Limit on every response, so Plus stores get their larger bucket.
+const REST_BUCKET_SIZE = 40
+const REST_LEAK_PER_SECOND = 2
+// GraphQL budget until the first response reports the real throttleStatus
+const GRAPHQL_DEFAULT_MAXIMUM = 1000
+const GRAPHQL_DEFAULT_RESTORE_RATE = 50
+// Cost assumed for a query whose requestedQueryCost we haven't seen yet
+const GRAPHQL_DEFAULT_QUERY_COST = 50
+
+export type ShopifyErrorKind =
+  | "rate_limited" // HTTP 429
+  | "throttled" // GraphQL THROTTLED, cost budget exhausted
+  | "unauthorized" // 401 / 403 - bad or revoked access token, missing scope
+  | "not_found"
+  | "invalid_request" // Other 4xx, including 422 validation errors
+  | "server_error" // 5xx
+  | "network"
+  | "graphql" // 200 response with errors
+
+// What the sync routes return to the client alongside their error message
+export interface ShopifyErrorDetails {
+  kind: ShopifyErrorKind
+  message: string
+  status: number | null
+  retryable: boolean
+  attempts: number
+  retryAfterMs: number | null
+  requestId: string | null
+}
+
+export class ShopifyApiError extends Error {
+  readonly kind: ShopifyErrorKind
+  readonly status: number | null
+  readonly retryable: boolean
+  readonly attempts: number
+  readonly retryAfterMs: number | null
+  readonly requestId: string | null
+  readonly details?: unknown
+
+  constructor(
+    message: string,
+    init: {
+      kind: ShopifyErrorKind
+      status?: number | null
+      retryable?: boolean
+      attempts?: number
+      retryAfterMs?: number | null
+      requestId?: string | null
+      details?: unknown
+    }
+  ) {
+    super(message)
+    this.name = "ShopifyApiError"
+    this.kind = init.kind
+    this.status = init.status ?? null
+    this.retryable = init.retryable ?? false
+    this.attempts = init.attempts ?? 1
+    this.retryAfterMs = init.retryAfterMs ?? null
+    this.requestId = init.requestId ?? null
+    this.details = init.details
+  }
+
+  // Status for our own API response: pass rate limits through, everything else is an upstream failure
+  get httpStatus(): 404 | 429 | 502 {
+    if (this.kind === "not_found") return 404
+    if (this.kind === "rate_limited" || this.kind === "throttled") return 429
+    return 502
+  }
+
+  toJSON(): ShopifyErrorDetails {
+    return {
+      kind: this.kind,
+      message: this.message,
+      status: this.status,
+      retryable: this.retryable,
+      attempts: this.attempts,
+      retryAfterMs: this.retryAfterMs,
+      requestId: this.requestId,
+    }
+  }
+}
+
+export interface ShopifyThrottleStatus {
+  maximumAvailable: number
+  currentlyAvailable: number
+  restoreRate: number
+}
+
+// Running totals for one ShopifyClient, reported by the sync routes
+export interface ShopifyUsage {
+  restRequests: number
+  graphqlRequests: number
+  requestedCost: number
+  actualCost: number
+  retries: number
+  waitedMs: number
+  throttleStatus: ShopifyThrottleStatus | null
+}
+
+// Client-side mirror of Shopify's REST leaky bucket
+class LeakyBucket {
+  private level = 0
+  private updatedAt = Date.now()
+
+  constructor(private capacity: number, private leakPerSecond: number) {}
+
+  private leak() {
+    const now = Date.now()
+    this.level = Math.max(0, this.level - ((now - this.updatedAt) / 1000) * this.leakPerSecond)
+    this.updatedAt = now
+  }
+
+  // Take a slot and return how long to wait before using it
+  reserve(): number {
+    this.leak()
+    const overflow = this.level + 1 - this.capacity
+    this.level += 1
+    return overflow > 0 ? Math.ceil((overflow / this.leakPerSecond) * 1000) : 0
+  }
+
+  // Shopify's count is authoritative; ours only has to be right between responses
+  sync(used: number, capacity: number) {
+    this.leak()
+    this.capacity = capacity
+    this.level = used
+  }
+}
+
+// GraphQL calculated-cost budget: points restore continuously, each query spends its cost
+class CostBudget {
+  private available = GRAPHQL_DEFAULT_MAXIMUM
+  private maximum = GRAPHQL_DEFAULT_MAXIMUM
+  private restoreRate = GRAPHQL_DEFAULT_RESTORE_RATE
+  private updatedAt = Date.now()
+
+  private restore() {
+    const now = Date.now()
+    this.available = Math.min(this.maximum, this.available + ((now - this.updatedAt) / 1000) * this.restoreRate)
+    this.updatedAt = now
+  }
+
+  reserve(cost: number): number {
+    this.restore()
+    const shortfall = Math.min(cost, this.maximum) - this.available
+    this.available -= cost
+    return shortfall > 0 ? Math.ceil((shortfall / this.restoreRate) * 1000) : 0
+  }
+
+  sync(status: ShopifyThrottleStatus) {
+    this.maximum = status.maximumAvailable
+    this.available = status.currentlyAvailable
+    this.restoreRate = status.restoreRate
+    this.updatedAt = Date.now()
+  }
+
+  waitFor(cost: number): number {
+    this.restore()
+    const shortfall = cost - this.available
+    return shortfall > 0 ? Math.ceil((shortfall / this.restoreRate) * 1000) : 0
+  }
+}
+
+// Shopify's limits are per shop, so every client for the same shop in this isolate shares them
+const shopLimiters = new Map<string, { rest: LeakyBucket; graphql: CostBudget }>()
+
+const getShopLimiter = (storeDomain: string) => {
+  let limiter = shopLimiters.get(storeDomain)
+  if (!limiter) {
+    limiter = { rest: new LeakyBucket(REST_BUCKET_SIZE, REST_LEAK_PER_SECOND), graphql: new CostBudget() }
+    shopLimiters.set(storeDomain, limiter)
+  }
+  return limiter
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+const parseRetryAfter = (response: Response): number | null => {
+  const header = response.headers.get("Retry-After")
+  if (!header) return null
+  const seconds = Number(header)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(header)
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now())
+}
+
+// Reads can be repeated safely; a GraphQL document is a read unless it's a mutation
+const isReadMethod = (method: string) => method === "GET" || method === "HEAD"
+const isGraphqlMutation = (query: string) => /^\s*mutation\b/.test(query.replace(/^\s*#.*$/gm, ""))
+
+const errorKindForStatus = (status: number): ShopifyErrorKind => {
+  if (status === 429) return "rate_limited"
+  if (status === 401 || status === 403) return "unauthorized"
+  if (status === 404) return "not_found"
+  if (status >= 500) return "server_error"
+  return "invalid_request"
+}
+
+interface GraphQLResponse<T> {
+  data?: T
+  errors?: { message: string; extensions?: { code?: string } }[]
+  extensions?: {
+    cost?: {
+      requestedQueryCost: number
+      actualQueryCost: number | null
+      throttleStatus: ShopifyThrottleStatus
+    }
+  }
+}
+
+export class ShopifyClient {
+  readonly usage: ShopifyUsage = {
+    restRequests: 0,
+    graphqlRequests: 0,
+    requestedCost: 0,
+    actualCost: 0,
+    retries: 0,
+    waitedMs: 0,
+    throttleStatus: null,
+  }
+
+  private limiter: { rest: LeakyBucket; graphql: CostBudget }
+  private options: ShopifyRetryOptions
+  // Last requestedQueryCost per query text, a better estimate than the default next time
+  private queryCosts = new Map<string, number>()
+
+  constructor(private config: ShopifyClientConfig, options: Partial<ShopifyRetryOptions> = {}) {
+    this.limiter = getShopLimiter(config.storeDomain)
+    this.options = { ...DEFAULT_RETRY_OPTIONS, ...options }
+  }
+
+  private get baseUrl() {
+    return `https://${this.config.storeDomain}/admin/api/${this.config.apiVersion}`
+  }
+
+  private async wait(ms: number) {
+    if (ms <= 0) return
+    this.usage.waitedMs += ms
+    await sleep(ms)
+  }
+
+  // Exponential backoff with jitter: ~0.5s, 1s, 2s, 4s ... capped at maxDelayMs
+  private backoffDelay(attempt: number) {
+    const delay = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** (attempt - 1))
+    return Math.round(delay * (0.5 + Math.random() / 2))
+  }
+
+  /**
+   * Send one request, retrying 429s and, for reads, 5xx and network failures. Pacing happens
+   * before every attempt; `pace` returns how long the relevant limiter wants us to wait.
+   */
+  private async send(url: string, init: RequestInit, pace: () => number, isRead: boolean): Promise<Response> {
+    for (let attempt = 1; ; attempt++) {
+      await this.wait(pace())
+
+      let response: Response
+      try {
+        response = await fetch(url, {
+          ...init,
+          headers: {
+            "Content-Type": "application/json",
+            "X-Shopify-Access-Token": this.config.accessToken,
+          },
+        })
+      } catch (error) {
+        if (!isRead || attempt > this.options.maxRetries) {
+          throw new ShopifyApiError(`Network error calling Shopify: ${error instanceof Error ? error.message : String(error)}`, {
+            kind: "network",
+            retryable: isRead,
+            attempts: attempt,
+          })
+        }
+        this.usage.retries++
+        await this.wait(this.backoffDelay(attempt))
+        continue
+      }
+
+      // e.g. "32/40"
+      const callLimit = response.headers.get("X-Shopify-Shop-Api-Call-Limit")
+      if (callLimit) {
+        const [used, capacity] = callLimit.split("/").map(Number)
+        if (used >= 0 && capacity > 0) this.limiter.rest.sync(used, capacity)
+      }
+
+      if (response.ok) return response
+
+      const kind = errorKindForStatus(response.status)
+      const retryable = kind === "rate_limited" || (kind === "server_error" && isRead)
+      const retryAfterMs = parseRetryAfter(response)
+      if (retryable && attempt <= this.options.maxRetries) {
+        // Drain the body so the connection can be reused
+        await response.text().catch(() => undefined)
+        this.usage.retries++
+        console.warn(`[SHOPIFY] ${response.status} from ${this.config.storeDomain}, retry ${attempt}/${this.options.maxRetries}`)
+        await this.wait(Math.min(retryAfterMs ?? this.backoffDelay(attempt), this.options.maxDelayMs))
+        continue
+      }
+
+      const errorText = await response.text().catch(() => "")
+      throw new ShopifyApiError(
+        `Shopify API error: ${response.status} ${response.statusText}${errorText ? ` - ${errorText}` : ""}`,
+        {
+          kind,
+          status: response.status,
+          retryable,
+          attempts: attempt,
+          retryAfterMs,
+          requestId: response.headers.get("X-Request-Id"),
+          details: errorText,
+        }
+      )
+    }
+  }
+
+  // REST call relative to the versioned Admin API root, e.g. "/orders.json?limit=250"
+  async rest<T>(path: string, init: { method?: string; body?: unknown } = {}): Promise<{ data: T; headers: Headers }> {
+    const method = (init.method || "GET").toUpperCase()
+    const response = await this.send(
+      `${this.baseUrl}${path}`,
+      { method, body: init.body === undefined ? undefined : JSON.stringify(init.body) },
+      () => this.limiter.rest.reserve(),
+      isReadMethod(method)
+    )
+    this.usage.restRequests++
+    const text = await response.text()
+    return { data: (text ? JSON.parse(text) : {}) as T, headers: response.headers }
+  }
+
+  async graphql<T>(query: string, variables?: Record<string, unknown>): Promise<T> {
+    const estimatedCost = this.queryCosts.get(query) ?? GRAPHQL_DEFAULT_QUERY_COST
+    const isRead = !isGraphqlMutation(query)
+
+    for (let attempt = 1; ; attempt++) {
+      const response = await this.send(
+        `${this.baseUrl}/graphql.json`,
+        { method: "POST", body: JSON.stringify({ query, variables }) },
+        () => this.limiter.graphql.reserve(estimatedCost),
+        isRead
+      )
+      this.usage.graphqlRequests++
+      const body = (await response.json()) as GraphQLResponse<T>
+
+      const cost = body.extensions?.cost
+      if (cost) {
+        this.queryCosts.set(query, cost.requestedQueryCost)
+        this.usage.requestedCost += cost.requestedQueryCost
+        this.usage.actualCost += cost.actualQueryCost ?? 0
+        this.usage.throttleStatus = cost.throttleStatus
+        this.limiter.graphql.sync(cost.throttleStatus)
+      }
+
+      const throttled = body.errors?.some((error) => error.extensions?.code === "THROTTLED")
+      if (throttled) {
+        const waitMs = this.limiter.graphql.waitFor(cost?.requestedQueryCost ?? estimatedCost) || this.backoffDelay(attempt)
+        if (attempt > this.options.maxRetries) {
+          throw new ShopifyApiError("Shopify GraphQL cost limit exceeded", {
+            kind: "throttled",
+            status: response.status,
+            retryable: true,
+            attempts: attempt,
+            retryAfterMs: waitMs,
+            requestId: response.headers.get("X-Request-Id"),
+            details: body.errors,
+          })
+        }
+        this.usage.retries++
+        await this.wait(Math.min(waitMs, this.options.maxDelayMs))
+        continue
+      }
+
+      if (body.errors?.length) {
+        throw new ShopifyApiError(`Shopify GraphQL error: ${body.errors.map((error) => error.message).join("; ")}`, {
+          kind: "graphql",
+          status: response.status,
+          attempts: attempt,
+          requestId: response.headers.get("X-Request-Id"),
+          details: body.errors,
+        })
+      }
+
+      return body.data as T
+    }
+  }
+}
+
+export const isShopifyApiError = (error: unknown): error is ShopifyApiError => error instanceof ShopifyApiError
@@ -27,6 +27,21 @@ export interface TenantSettings {
     advancedReporting: boolean
   }
   orderCard?: any
+  capacity?: CapacitySettings
+  security?: SecuritySettings
+  openaiApiKey?: string // Encrypted at rest, redacted in API responses
+}
+
+export interface SecuritySettings {
+  requireTwoFactor: boolean // For the owner and admin roles
+}
+
+// Workload forecast assumptions, kept in tenant settings
+export interface CapacitySettings {
+  defaultMinutes: number // Prep time for items without an estimate or difficulty label
+  difficultyMinutes: Record<string, number> // Difficulty label name -> prep minutes
+  hoursPerFlorist: number // A florist's working hours on days without a roster
+  dispatchBufferMinutes: number // How long before a timeslot starts its deliveries must be ready
 }
 
 export interface CreateTenantRequest {
@@ -49,6 +64,11 @@ export interface LoginResponse {
   tenant?: Tenant
   accessToken?: string
   refreshToken?: string
+  verificationRequired?: boolean // Registered; signs in once the emailed link is followed
+  twoFactorRequired?: boolean // Password accepted; send a code with challengeToken to finish signing in
+  twoFactorSetupRequired?: boolean // Password accepted, but the tenant requires two-factor to be set up first
+  challengeToken?: string
+  recoveryCodes?: string[] // When signing in finished two-factor setup
   message?: string
   error?: string
 }
@@ -57,8 +77,53 @@ export interface CreateUserRequest {
   email: string
   name: string
   password: string
-  role: "owner" | "admin" | "florist" | "viewer"
-  permissions?: Permission[]
+  role: UserRole
+  permissions?: PermissionOverride[]
+}
+
+// A new user who chooses their own password from an emailed invite
+export type InviteUserRequest = Omit<CreateUserRequest, "password">
+
+export interface InviteUserResponse {
+  user: User
+  inviteUrl: string // Also emailed; shown so it can be shared another way
+  expiresAt: string
+}
+
+// What an emailed link is for, shown before it's used
+export interface AccountTokenDetails {
+  purpose: "invite" | "password_reset" | "email_verification"
+  email: string
+  name: string
+  tenantName: string
+}
+
+// The second sign-in step, after a correct password
+export interface TwoFactorChallenge {
+  mode: "verify" | "enroll"
+  challengeToken: string
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean
+  required: boolean // The tenant requires it for the user's role
+  recoveryCodesRemaining: number
+}
+
+// A new authenticator secret, as text and as the otpauth:// URL its QR code encodes
+export interface TwoFactorSetup {
+  secret: string
+  otpauthUrl: string
+}
+
+// One sign-in attempt, from the user's sign-in history
+export interface LoginEvent {
+  id: number
+  outcome: "success" | "invalid_credentials" | "invalid_two_factor" | "locked" | "rate_limited" | "email_not_verified"
+  clientType: "Desktop" | "Mobile"
+  ipAddress: string | null
+  userAgent: string | null
+  createdAt: string
 }
 
 // ===== USER & PERMISSIONS =====
@@ -68,8 +133,13 @@ export interface User {
   tenantId: string
   email: string
   name: string
-  role: "owner" | "admin" | "florist" | "viewer"
-  permissions: Permission[]
+  role: UserRole
+  permissions: PermissionOverride[] // Adjustments to the role's default permissions
+  skillLevel?: number // 1 (junior) to 4 (expert), for auto-assignment
+  storeIds?: string[] | null // Stores whose cards the florist is given; null = all
+  emailVerified?: boolean
+  invitePending?: boolean // Invited but hasn't chosen a password yet
+  twoFactorEnabled?: boolean
   createdAt: string
   updatedAt: string
 }
@@ -88,6 +158,11 @@ export type Permission =
   | "settings:read"
   | "settings:write"
 
+export type UserRole = "owner" | "admin" | "florist" | "viewer"
+
+// A per-user grant on top of the role's defaults, or a revocation ("-users:read") taking one away
+export type PermissionOverride = Permission | `-${Permission}`
+
 // ===== STORE TYPES =====
 
 export interface Store {
@@ -114,8 +189,53 @@ export interface StoreSettings {
   phone?: string
   email?: string
   webhooks?: WebhookConfig[]
+  // Redacted in API responses; send a new value to replace the saved one
   accessToken?: string
   apiSecretKey?: string
+  deliveryRules?: DeliveryRules
+}
+
+// Where a delivery rule looks for a value on the Shopify order
+export type DeliveryRuleSource = "tags" | "note_attributes" | "metafields" | "line_item_properties"
+
+// How a matched delivery date is read; "raw" keeps the value as-is
+export type DeliveryDateFormat = "dd/mm/yyyy" | "mm/dd/yyyy" | "yyyy-mm-dd" | "d mmmm yyyy" | "iso" | "raw"
+
+// How a matched timeslot is read; "range" normalises e.g. "9am - 11:30am" to 09:00-11:30
+export type DeliveryTimeslotFormat = "range" | "raw"
+
+export interface DeliveryRule {
+  source: DeliveryRuleSource
+  // Attribute / property name, or "namespace.key" for metafields; empty matches every entry
+  key?: string
+  // Regex applied to each candidate value; the first capture group (or whole match) is used
+  pattern?: string
+  format?: DeliveryDateFormat | DeliveryTimeslotFormat
+}
+
+// Per-store delivery date and timeslot extraction - rules are tried in order, first match wins
+export interface DeliveryRules {
+  timezone: string // IANA zone "iso" dates are converted into
+  deliveryDate: DeliveryRule[]
+  timeslot: DeliveryRule[]
+}
+
+export interface DeliveryRuleTrace {
+  field: "deliveryDate" | "timeslot"
+  ruleIndex: number
+  source: DeliveryRuleSource
+  key?: string
+  candidates: number
+  matched: string | null
+  value: string | null
+  error?: string
+}
+
+export interface DeliveryRulesPreview {
+  deliveryDate: string | null
+  timeslot: string | null
+  trace: DeliveryRuleTrace[]
+  orderName?: string | null
 }
 
 export interface WebhookConfig {
@@ -296,18 +416,404 @@ export interface OrderFilters {
   priority?: number
 }
 
+// One entry in the order_card_events audit log
+export interface OrderCardStateSnapshot {
+  status?: string
+  assignedTo?: string | null
+  notes?: string | null
+  sortOrder?: number | null
+  deliveryDate?: string
+}
+
+export interface OrderCardEvent {
+  id: number
+  cardId: string
+  deliveryDate?: string
+  action: "update" | "bulk_update" | "reorder" | "reset_sort" | "shopify_sync" | "handoff"
+  actorId?: string
+  actorName?: string
+  clientType?: "Desktop" | "Mobile" | "Shopify"
+  before: OrderCardStateSnapshot | null
+  after: OrderCardStateSnapshot | null
+  changes: Array<{ field: keyof OrderCardStateSnapshot; from: unknown; to: unknown }>
+  version?: number
+  createdAt: string
+}
+
+// Server copy of a card state, as 409 VERSION_CONFLICT responses return it
+export interface OrderCardServerState {
+  cardId: string
+  deliveryDate: string // DD/MM/YYYY
+  status: string
+  assignedTo: string | null
+  assignedBy: string | null
+  notes: string | null
+  sortOrder: number
+  updatedAt: string
+  version: number
+}
+
+// Inbox entry created when a Shopify webhook moves, cancels or deletes an assigned order
+export interface OrderNotification {
+  id: number
+  cardId: string | null
+  shopifyOrderId: string | null
+  kind: "rescheduled" | "cancelled" | "deleted"
+  message: string
+  createdAt: string
+  readAt: string | null
+}
+
+// Per-store result of GET /orders-by-date - a failing store doesn't fail the whole day
+export interface StoreFetchSummary {
+  storeId: string
+  storeName: string
+  status: "ok" | "error"
+  orderCount: number
+  lastSyncedAt?: string | null
+  error?: string
+}
+
+export interface OrdersByDateResponse {
+  cards: Array<Record<string, unknown> & { cardId: string; storeId: string; storeName: string }>
+  stores: StoreFetchSummary[]
+  partial: boolean
+}
+
+export interface StoreSyncResult {
+  success: boolean
+  processed: number
+  created: number
+  updated: number
+  cursor: string | null
+  hasMore: boolean
+}
+
+export interface StoreSyncStatus {
+  storeId: string
+  cursor: string | null
+  lastRunAt: string | null
+  lastStatus: "running" | "ok" | "error" | null
+  lastError: string | null
+  ordersSynced: number
+}
+
+export interface BulkImportJob {
+  id: string
+  tenantId: string
+  storeId: string
+  kind: "orders" | "products"
+  status: "pending" | "running" | "importing" | "completed" | "failed" | "cancelled"
+  since: string | null
+  shopifyOperationId: string | null
+  resultUrl: string | null
+  resultBytes: number | null
+  byteOffset: number
+  objectCount: number
+  imported: number
+  skipped: number
+  error: string | null
+  createdBy: string | null
+  createdAt: string
+  updatedAt: string
+  completedAt: string | null
+  progress: number | null // Percent of the result file imported
+}
+
 // ===== ANALYTICS TYPES =====
 
 export interface FloristStats {
   floristId: string
   floristName: string
-  completedOrders: number
-  averageCompletionTime: number // in minutes
+  completedOrders: number // Completed cards with a delivery date in the period
+  averageCompletionTime: number // Minutes from assignment (or start) to completion
   storeBreakdown?: { [storeId: string]: { orders: number; avgTime: number } }
+  assignedCards?: number // Cards assigned in the period, completed or not
+  completionRate?: number // Percent of assignedCards completed
+  averageOrdersPerDay?: number // completedOrders over the days of the period elapsed so far
 }
 
 export type TimeFrame = "daily" | "weekly" | "monthly"
 
+// Inclusive range of delivery dates, YYYY-MM-DD
+export interface AnalyticsPeriod {
+  start: string
+  end: string
+}
+
+export interface AnalyticsTotals {
+  orders: number // Not cancelled
+  cancelledOrders: number
+  revenue: number // Sum of total_price over orders that weren't cancelled
+  averageOrderValue: number
+  cards: { tracked: number; assigned: number; completed: number } // order_card_states rows by status
+  completionRate: number // Percent of tracked cards completed
+}
+
+export interface AnalyticsBucket {
+  start: string // First day of the bucket, YYYY-MM-DD
+  label: string
+  orders: number
+  revenue: number
+  completedCards: number
+}
+
+export interface AnalyticsStoreBreakdown extends AnalyticsTotals {
+  storeId: string
+  storeName: string
+  previousOrders: number
+  previousRevenue: number
+}
+
+export interface AnalyticsSummary {
+  timeFrame: TimeFrame
+  storeId: string | null
+  currency: string | null
+  period: AnalyticsPeriod // Today / this week (Monday first) / this month, Singapore time
+  previousPeriod: AnalyticsPeriod
+  current: AnalyticsTotals
+  previous: AnalyticsTotals
+  // Percent change from the previous period; null when the previous period had nothing to compare
+  change: { orders: number | null; revenue: number | null; averageOrderValue: number | null; completedCards: number | null }
+  series: AnalyticsBucket[] // Last 14 days, 12 weeks or 12 months, oldest first
+  stores: AnalyticsStoreBreakdown[]
+}
+
+// Prep time is the minutes between a card being started (or assigned) and completed
+export interface PrepTimeBreakdown {
+  key: string // Product type or difficulty label name, "Unlabelled" when the product has none
+  completedCards: number
+  medianPrepMinutes: number | null
+}
+
+export interface FloristProductivity {
+  floristId: string
+  floristName: string
+  completedCards: number
+  activeDays: number // Days with at least one completion
+  cardsPerActiveDay: number
+  medianPrepMinutes: number | null
+  averagePrepMinutes: number | null
+  hourly: number[] // Completions per hour of day (0-23)
+}
+
+export interface ProductivityHeatmapCell {
+  day: number // 0 = Monday ... 6 = Sunday
+  hour: number
+  completed: number
+}
+
+export interface FloristProductivitySummary {
+  range: AnalyticsPeriod // Inclusive range of completion dates
+  timezone: string
+  storeId: string | null
+  completedCards: number
+  medianPrepMinutes: number | null
+  florists: FloristProductivity[]
+  prepTimeByProductType: PrepTimeBreakdown[]
+  prepTimeByDifficulty: PrepTimeBreakdown[]
+  heatmap: ProductivityHeatmapCell[] // Only cells with completions
+}
+
+// Hours a florist is rostered on a date (YYYY-MM-DD); 0 = off
+export interface FloristAvailability {
+  userId: string
+  date: string
+  hours: number
+}
+
+export interface CapacityTimeslot {
+  timeslot: string | null // null for orders without one
+  orders: number
+  items: number
+  labourHours: number
+  capacityHours: number | null // Rostered florists x slot length; null when the slot isn't an hh:mm-hh:mm range
+  overbooked: boolean
+}
+
+export interface CapacityDay {
+  date: string // YYYY-MM-DD
+  deliveryDate: string // DD/MM/YYYY, as orders are keyed
+  orders: number
+  items: number
+  unestimatedItems: number // Items priced at defaultMinutes
+  labourHours: number
+  florists: number
+  availableHours: number
+  rostered: boolean // false when no roster was set and every florist is assumed at hoursPerFlorist
+  utilisation: number | null // Percent of availableHours
+  overbooked: boolean
+  timeslots: CapacityTimeslot[]
+}
+
+export interface CapacityForecast {
+  from: string
+  to: string
+  storeId: string | null
+  settings: CapacitySettings
+  florists: { id: string; name: string }[]
+  availability: FloristAvailability[]
+  days: CapacityDay[]
+  totals: { orders: number; labourHours: number; availableHours: number; overbookedDays: number; overbookedTimeslots: number }
+}
+
+export interface AssignmentPlanFlorist {
+  id: string
+  name: string
+  skillLevel: number
+  capacityMinutes: number // Rostered (or default) hours for the day
+  existingMinutes: number // Cards already assigned and not completed
+  plannedMinutes: number
+  plannedCards: number
+}
+
+export interface AssignmentSuggestion {
+  cardId: string
+  orderName: string | null
+  title: string
+  storeId: string | null
+  timeslot: string | null
+  difficulty: string | null
+  minutes: number
+  floristId: string
+  floristName: string // What gets saved as assignedTo, as the board does
+  notes: string | null // Current notes, so applying the plan keeps them
+  expectedVersion: number // 0 when the card has no saved state yet
+  reason: string
+  warnings: string[]
+}
+
+export interface AssignmentPlan {
+  date: string // YYYY-MM-DD
+  deliveryDate: string // DD/MM/YYYY, for the bulk order-card-states route
+  storeId: string | null
+  florists: AssignmentPlanFlorist[]
+  assignments: AssignmentSuggestion[]
+  unassigned: { cardId: string; orderName: string | null; title: string; reason: string }[]
+}
+
+export interface ScheduleCard {
+  cardId: string
+  orderName: string | null
+  title: string
+  difficulty: string | null
+  minutes: number
+  status: string
+  assignedTo: string | null
+  mustStartBy: string | null // HH:MM; null once completed, or when the timeslot can't be read
+  late: boolean // Today's card not started by its must-start-by time
+  handedOff: boolean // Passed to delivery after completion
+}
+
+export interface ScheduleTimeslot {
+  timeslot: string | null
+  readyBy: string | null // HH:MM the slot's deliveries must be ready for the drivers
+  labourMinutes: number
+  completedCards: number
+  cards: ScheduleCard[]
+}
+
+export interface DispatchStop {
+  orderId: string
+  orderName: string | null
+  timeslot: string | null
+  area: string | null
+  recipient: string | null
+  address: string | null
+  postalCode: string | null
+  phone: string | null
+  items: { title: string; quantity: number }[]
+  completedCards: number
+  handedOffCards: number
+  totalCards: number
+  ready: boolean // Every card for the order is completed
+}
+
+export interface ProductionSchedule {
+  date: string // YYYY-MM-DD
+  deliveryDate: string // DD/MM/YYYY
+  storeId: string | null
+  bufferMinutes: number
+  timeslots: ScheduleTimeslot[]
+  dispatch: DispatchStop[] // In timeslot, then delivery area order
+}
+
+// ===== PRINT LAYOUT TYPES =====
+
+export type PrintLayout = "gift-card" | "job-sheet" | "packing-slip"
+
+export type PrintPageSize = "A4" | "A5" | "A6" | "letter"
+
+export interface PrintCardField {
+  id: string
+  label: string
+  value: string
+}
+
+export interface PrintCard {
+  cardId: string
+  orderId: string // Shopify order id
+  orderName: string | null
+  storeId: string | null
+  title: string
+  variantTitle: string | null
+  timeslot: string | null
+  difficulty: string | null
+  status: string
+  assignedTo: string | null
+  recipient: string | null
+  address: string | null
+  postalCode: string | null
+  phone: string | null
+  message: string | null // Gift card message
+  addOns: string[] // The order's add-ons and consolidated items, e.g. "2 x Balloon"
+  customisations: string | null // The card's notes, else the order note
+  fields: PrintCardField[] // The tenant's visible order card fields that have a value
+}
+
+// What to print: a layout for a delivery date, narrowed by the board's filters or a list of cards
+export interface PrintOptions {
+  date: string // YYYY-MM-DD
+  layout: PrintLayout
+  pageSize?: PrintPageSize // Defaults to the layout's own size
+  storeId?: string | null
+  timeslot?: string | null
+  status?: string | null
+  assignedTo?: string | null
+  cardIds?: string[]
+}
+
+export interface PrintBatch {
+  date: string // YYYY-MM-DD
+  deliveryDate: string // DD/MM/YYYY
+  storeId: string | null
+  cards: PrintCard[] // In timeslot, then order order
+}
+
+// ===== CARD SCAN TYPES =====
+
+// A card opened by scanning its printed QR code, with what the florist needs to work on it from a phone
+export interface ScannedCard extends PrintCard {
+  date: string // YYYY-MM-DD
+  deliveryDate: string // DD/MM/YYYY
+  notes: string | null // The card state's own notes, without the order note fallback customisations has
+  version: number // 0 when the card has no saved state yet
+  handedOffAt: string | null
+  handedOffBy: string | null
+  photoCount: number
+}
+
+// ===== AI FLORIST ACCESS TYPES =====
+
+// A token a shop's storefront embeds to use the customer-facing AI florist; the signed value is only shown once
+export interface AiFloristToken {
+  id: string
+  label: string
+  createdBy: string | null
+  createdAt: string
+  lastUsedAt: string | null
+}
+
 // ===== MIGRATION & VALIDATION TYPES =====
 
 export interface MigrationResult {
@@ -0,0 +1,154 @@
+import type { D1Database } from "@cloudflare/workers-types"
+import { sign, verify } from "hono/jwt"
+import type { MailMessage } from "./mail"
+
+// Single-use links emailed to users: invitations, password resets and email verification. The link
+// carries a signed token naming an account_tokens row, which is marked used when the link is.
+
+export type AccountTokenPurpose = "invite" | "password_reset" | "email_verification"
+
+const TOKEN_TTL_SECONDS: Record<AccountTokenPurpose, number> = {
+  invite: 7 * 24 * 60 * 60,
+  password_reset: 60 * 60,
+  email_verification: 2 * 24 * 60 * 60,
+}
+
+// The app page each kind of link opens
+const LINK_PATHS: Record<AccountTokenPurpose, string> = {
+  invite: "/set-password",
+  password_reset: "/set-password",
+  email_verification: "/verify-email",
+}
+
+export interface AccountTokenGrant {
+  id: string
+  tenantId: string
+  userId: string
+  purpose: AccountTokenPurpose
+}
+
+interface AccountTokenClaims {
+  sub: string // account_tokens row
+  purpose: AccountTokenPurpose
+  exp: number
+}
+
+// Signed apart from session and AI florist tokens so none can pass for another
+const tokenSecret = (jwtSecret: string) => `${jwtSecret}:account`
+
+/** Issues a link token, replacing any unused one the user has for the same purpose */
+export async function issueAccountToken(
+  db: D1Database,
+  jwtSecret: string,
+  grant: Omit<AccountTokenGrant, "id">,
+  createdBy: string | null = null
+): Promise<{ token: string; expiresAt: string }> {
+  const id = crypto.randomUUID()
+  const exp = Math.floor(Date.now() / 1000) + TOKEN_TTL_SECONDS[grant.purpose]
+  const expiresAt = new Date(exp * 1000).toISOString()
+
+  await db.batch([
+    db
+      .prepare(`UPDATE account_tokens SET used_at = CURRENT_TIMESTAMP WHERE tenant_id = ? AND user_id = ? AND purpose = ? AND used_at IS NULL`)
+      .bind(grant.tenantId, grant.userId, grant.purpose),
+    db
+      .prepare(`INSERT INTO account_tokens (id, tenant_id, user_id, purpose, expires_at, created_by) VALUES (?, ?, ?, ?, ?, ?)`)
+      .bind(id, grant.tenantId, grant.userId, grant.purpose, expiresAt, createdBy),
+  ])
+
+  const claims: AccountTokenClaims = { sub: id, purpose: grant.purpose, exp }
+  return { token: await sign({ ...claims }, tokenSecret(jwtSecret)), expiresAt }
+}
+
+/** What an unused, unexpired link token is for, without using it up; null otherwise */
+export async function findAccountToken(
+  db: D1Database,
+  jwtSecret: string,
+  token: string,
+  purposes: AccountTokenPurpose[]
+): Promise<AccountTokenGrant | null> {
+  let claims: AccountTokenClaims
+  try {
+    claims = (await verify(token, tokenSecret(jwtSecret))) as unknown as AccountTokenClaims
+  } catch {
+    return null
+  }
+  if (!claims.sub || !purposes.includes(claims.purpose)) return null
+
+  const row = await db
+    .prepare(`SELECT id, tenant_id, user_id, purpose FROM account_tokens WHERE id = ? AND purpose = ? AND used_at IS NULL AND expires_at > ?`)
+    .bind(claims.sub, claims.purpose, new Date().toISOString())
+    .first<{ id: string; tenant_id: string; user_id: string; purpose: AccountTokenPurpose }>()
+  return row ? { id: row.id, tenantId: row.tenant_id, userId: row.user_id, purpose: row.purpose } : null
+}
+
+/** Marks a link token used; false when it already was, so two submissions can't both succeed */
+export async function consumeAccountToken(db: D1Database, tokenId: string): Promise<boolean> {
+  const result = await db
+    .prepare(`UPDATE account_tokens SET used_at = CURRENT_TIMESTAMP WHERE id = ? AND used_at IS NULL`)
+    .bind(tokenId)
+    .run()
+  return (result.meta?.changes || 0) > 0
+}
+
+/** Voids every unused link a user has, e.g. once they're sent to an address the user no longer has */
+export async function revokeAccountTokens(db: D1Database, tenantId: string, userId: string): Promise<number> {
+  const result = await db
+    .prepare(`UPDATE account_tokens SET used_at = CURRENT_TIMESTAMP WHERE tenant_id = ? AND user_id = ? AND used_at IS NULL`)
+    .bind(tenantId, userId)
+    .run()
+  return result.meta?.changes || 0
+}
+
+export const accountTokenUrl = (appUrl: string, purpose: AccountTokenPurpose, token: string) =>
+  `${appUrl}${LINK_PATHS[purpose]}?token=${encodeURIComponent(token)}`
+
+/** The email carrying a link */
+export function accountEmail(
+  purpose: AccountTokenPurpose,
+  details: { to: string; name: string; tenantName: string; url: string; invitedBy?: string | null }
+): MailMessage {
+  const greeting = `Hi ${details.name},`
+  switch (purpose) {
+    case "invite":
+      return {
+        to: details.to,
+        subject: `You're invited to ${details.tenantName}`,
+        text: [
+          greeting,
+          "",
+          `${details.invitedBy || "Your team"} has invited you to the ${details.tenantName} order board.`,
+          "Choose a password to get started:",
+          details.url,
+          "",
+          "This link expires in 7 days.",
+        ].join("\n"),
+      }
+    case "password_reset":
+      return {
+        to: details.to,
+        subject: `Reset your ${details.tenantName} password`,
+        text: [
+          greeting,
+          "",
+          "Someone asked to reset your password. If it was you, choose a new one here:",
+          details.url,
+          "",
+          "This link expires in 1 hour. If you didn't ask for it, you can ignore this email.",
+        ].join("\n"),
+      }
+    case "email_verification":
+      return {
+        to: details.to,
+        subject: `Confirm your email for ${details.tenantName}`,
+        text: [
+          greeting,
+          "",
+          "Confirm your email address to finish setting up your account:",
+          details.url,
+          "",
+          "This link expires in 2 days.",
+        ].join("\n"),
+      }
+  }
+}
@@ -0,0 +1,89 @@
+import type { DispatchStop, ProductionSchedule } from "../src/types"
+
+// Driver-facing exports of a production schedule's dispatch list: one row per delivery, in route order.
+
+const formatItems = (stop: DispatchStop) =>
+  stop.items.map((item) => (item.quantity > 1 ? `${item.quantity} x ${item.title}` : item.title)).join("; ")
+
+const CSV_COLUMNS: [string, (stop: DispatchStop, index: number) => string | number | null][] = [
+  ["Stop", (_, index) => index + 1],
+  ["Timeslot", (stop) => stop.timeslot],
+  ["Area", (stop) => stop.area],
+  ["Order", (stop) => stop.orderName || stop.orderId],
+  ["Recipient", (stop) => stop.recipient],
+  ["Address", (stop) => stop.address],
+  ["Postal Code", (stop) => stop.postalCode],
+  ["Phone", (stop) => stop.phone],
+  ["Items", (stop) => formatItems(stop)],
+  ["Ready", (stop) => (stop.ready ? "Yes" : `${stop.completedCards}/${stop.totalCards}`)],
+]
+
+// Quoted when needed; a leading =, +, - or @ is escaped so spreadsheets don't run it as a formula
+const csvCell = (value: string | number | null) => {
+  let text = value === null ? "" : String(value)
+  if (/^[=+\-@]/.test(text)) text = `'${text}`
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function dispatchManifestCsv(stops: DispatchStop[]): string {
+  return [
+    CSV_COLUMNS.map(([header]) => header).join(","),
+    ...stops.map((stop, index) => CSV_COLUMNS.map(([, value]) => csvCell(value(stop, index))).join(",")),
+  ].join("\r\n")
+}
+
+export const escapeHtml = (value: string | number | null) =>
+  String(value ?? "").replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`)
+
+// Standalone page that prints one table per timeslot
+export function dispatchManifestHtml(schedule: ProductionSchedule, stops: DispatchStop[], storeName: string | null): string {
+  const title = `Dispatch ${schedule.deliveryDate}${storeName ? ` - ${storeName}` : ""}`
+  const slots = new Map<string | null, DispatchStop[]>()
+  for (const stop of stops) slots.set(stop.timeslot, [...(slots.get(stop.timeslot) || []), stop])
+
+  let stopNumber = 0
+  const sections = Array.from(slots.entries()).map(([timeslot, slotStops]) => `
+    <h2>${escapeHtml(timeslot || "No timeslot")} <small>${slotStops.length} deliver${slotStops.length === 1 ? "y" : "ies"}</small></h2>
+    <table>
+      <thead><tr><th>#</th><th>Area</th><th>Order</th><th>Recipient</th><th>Address</th><th>Phone</th><th>Items</th><th>Loaded</th></tr></thead>
+      <tbody>
+        ${slotStops.map((stop) => `
+        <tr${stop.ready ? "" : ' class="pending"'}>
+          <td>${++stopNumber}</td>
+          <td>${escapeHtml(stop.area)}</td>
+          <td>${escapeHtml(stop.orderName || stop.orderId)}</td>
+          <td>${escapeHtml(stop.recipient)}</td>
+          <td>${escapeHtml(stop.address)}${stop.postalCode ? `<br>${escapeHtml(stop.postalCode)}` : ""}</td>
+          <td>${escapeHtml(stop.phone)}</td>
+          <td>${escapeHtml(formatItems(stop))}${stop.ready ? "" : `<br><em>Not ready: ${stop.completedCards}/${stop.totalCards} done</em>`}</td>
+          <td class="check">&#9744;</td>
+        </tr>`).join("")}
+      </tbody>
+    </table>`).join("")
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; font-size: 12px; margin: 24px; color: #111; }
+  h1 { font-size: 18px; margin: 0 0 4px; }
+  h2 { font-size: 14px; margin: 20px 0 6px; }
+  h2 small { font-weight: normal; color: #666; }
+  table { width: 100%; border-collapse: collapse; page-break-inside: auto; }
+  th, td { border: 1px solid #ccc; padding: 4px 6px; text-align: left; vertical-align: top; }
+  th { background: #f3f4f6; }
+  tr { page-break-inside: avoid; }
+  tr.pending { color: #92400e; }
+  td.check { text-align: center; font-size: 16px; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<div>${stops.length} deliver${stops.length === 1 ? "y" : "ies"} - printed ${escapeHtml(new Date().toLocaleString("en-GB", { timeZone: "Asia/Singapore" }))}</div>
+${sections || "<p>No deliveries.</p>"}
+</body>
+</html>`
+}
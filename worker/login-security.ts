@@ -0,0 +1,127 @@
+import type { D1Database } from "@cloudflare/workers-types"
+import { consumeRateLimit, type RateLimit } from "./rate-limit"
+
+// Brute-force protection for password sign-in, and the login_events record of every attempt.
+
+// Attempts counted whether or not the account exists, so they reveal nothing about who has one
+const LOGIN_RATE_LIMITS: Record<"ip" | "account", RateLimit> = {
+  ip: { limit: 30, windowSeconds: 15 * 60 },
+  account: { limit: 10, windowSeconds: 15 * 60 },
+}
+
+// Consecutive wrong passwords before an account is locked, and for how long
+const MAX_FAILED_LOGINS = 5
+const LOCKOUT_SECONDS = 15 * 60
+
+export type LoginOutcome = "success" | "invalid_credentials" | "invalid_two_factor" | "locked" | "rate_limited" | "email_not_verified"
+
+export type ClientType = "Desktop" | "Mobile"
+
+export interface LoginEvent {
+  id: number
+  outcome: LoginOutcome
+  clientType: ClientType
+  ipAddress: string | null
+  userAgent: string | null
+  createdAt: string
+}
+
+/** The device type the app shows for a request, from its User-Agent */
+export const clientTypeFromUserAgent = (userAgent: string | null | undefined): ClientType =>
+  userAgent?.includes("Mobile") ? "Mobile" : "Desktop"
+
+/** Counts an attempt against the caller's IP and the account it names; seconds to wait when over either limit */
+export async function throttleLogin(db: D1Database, ipAddress: string | null, tenantDomain: string, email: string): Promise<number | null> {
+  const checks = [consumeRateLimit(db, `login:account:${tenantDomain.toLowerCase()}:${email.toLowerCase()}`, LOGIN_RATE_LIMITS.account)]
+  if (ipAddress) checks.push(consumeRateLimit(db, `login:ip:${ipAddress}`, LOGIN_RATE_LIMITS.ip))
+
+  const blocked = (await Promise.all(checks)).filter((result) => !result.allowed)
+  return blocked.length > 0 ? Math.max(...blocked.map((result) => result.retryAfterSeconds)) : null
+}
+
+/** Seconds until a locked account can be tried again; null when it isn't locked */
+export async function lockoutRemaining(db: D1Database, tenantId: string, userId: string): Promise<number | null> {
+  const row = await db
+    .prepare(`SELECT locked_until FROM tenant_users WHERE tenant_id = ? AND id = ?`)
+    .bind(tenantId, userId)
+    .first<{ locked_until: string | null }>()
+  if (!row?.locked_until) return null
+  const remaining = Math.ceil((new Date(row.locked_until).getTime() - Date.now()) / 1000)
+  return remaining > 0 ? remaining : null
+}
+
+/** Counts a wrong password; returns when the account is locked until, once this locks it */
+export async function recordFailedLogin(db: D1Database, tenantId: string, userId: string): Promise<string | null> {
+  const row = await db
+    .prepare(
+      `UPDATE tenant_users SET failed_login_attempts = COALESCE(failed_login_attempts, 0) + 1
+       WHERE tenant_id = ? AND id = ? RETURNING failed_login_attempts`
+    )
+    .bind(tenantId, userId)
+    .first<{ failed_login_attempts: number }>()
+  if (!row || row.failed_login_attempts < MAX_FAILED_LOGINS) return null
+
+  // Lock, and start counting afresh for when it lifts
+  const lockedUntil = new Date(Date.now() + LOCKOUT_SECONDS * 1000).toISOString()
+  await db
+    .prepare(`UPDATE tenant_users SET locked_until = ?, failed_login_attempts = 0 WHERE tenant_id = ? AND id = ?`)
+    .bind(lockedUntil, tenantId, userId)
+    .run()
+  return lockedUntil
+}
+
+/** After a successful sign-in or a new password */
+export async function clearFailedLogins(db: D1Database, tenantId: string, userId: string): Promise<void> {
+  await db
+    .prepare(`UPDATE tenant_users SET failed_login_attempts = 0, locked_until = NULL WHERE tenant_id = ? AND id = ?`)
+    .bind(tenantId, userId)
+    .run()
+}
+
+export async function recordLoginEvent(
+  db: D1Database,
+  event: {
+    tenantId: string | null
+    userId: string | null
+    email: string
+    outcome: LoginOutcome
+    ipAddress: string | null
+    userAgent: string | null
+  }
+): Promise<void> {
+  await db
+    .prepare(
+      `INSERT INTO login_events (tenant_id, user_id, email, outcome, client_type, ip_address, user_agent, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .bind(
+      event.tenantId,
+      event.userId,
+      event.email.toLowerCase(),
+      event.outcome,
+      clientTypeFromUserAgent(event.userAgent),
+      event.ipAddress,
+      event.userAgent,
+      new Date().toISOString()
+    )
+    .run()
+}
+
+/** A user's most recent sign-in attempts, newest first */
+export async function listLoginEvents(db: D1Database, tenantId: string, userId: string, limit: number): Promise<LoginEvent[]> {
+  const { results } = await db
+    .prepare(
+      `SELECT id, outcome, client_type, ip_address, user_agent, created_at FROM login_events
+       WHERE tenant_id = ? AND user_id = ? ORDER BY created_at DESC, id DESC LIMIT ?`
+    )
+    .bind(tenantId, userId, limit)
+    .all<{ id: number; outcome: LoginOutcome; client_type: ClientType; ip_address: string | null; user_agent: string | null; created_at: string }>()
+  return (results || []).map((row) => ({
+    id: row.id,
+    outcome: row.outcome,
+    clientType: row.client_type,
+    ipAddress: row.ip_address,
+    userAgent: row.user_agent,
+    createdAt: row.created_at,
+  }))
+}
@@ -0,0 +1,67 @@
+// Outgoing email. Routes build a MailMessage and hand it to whichever transport MAIL_TRANSPORT selects,
+// so a provider can be added without touching them.
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+  html?: string
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>
+}
+
+interface MailEnv {
+  MAIL_TRANSPORT?: string // "console" (default) or "file"
+  MAIL_FROM?: string
+  MAIL_DIR?: string // Where the file transport writes, default ./tmp/mail
+}
+
+const DEFAULT_FROM = "Order To-Do <no-reply@order-to-do.app>"
+
+/** Logs each message, links included; the default for development */
+export class ConsoleMailTransport implements MailTransport {
+  constructor(private readonly from: string = DEFAULT_FROM) {}
+
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[MAIL] From: ${this.from}\nTo: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`)
+  }
+}
+
+// Only present under Node, so it's loaded when a message is first written rather than at startup
+const NODE_FS: string = "node:fs/promises"
+
+interface NodeFs {
+  mkdir(path: string, options: { recursive: boolean }): Promise<unknown>
+  writeFile(path: string, data: string): Promise<void>
+}
+
+/**
+ * Writes each message to a JSON file, for local tooling and tests to read back. Needs a Node file
+ * system, so it's for running the worker code under Node rather than on Workers.
+ */
+export class FileMailTransport implements MailTransport {
+  constructor(
+    private readonly directory: string = "./tmp/mail",
+    private readonly from: string = DEFAULT_FROM
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const fs: NodeFs = await import(NODE_FS)
+    await fs.mkdir(this.directory, { recursive: true })
+    const file = `${this.directory}/${new Date().toISOString().replace(/[:.]/g, "-")}-${crypto.randomUUID().slice(0, 8)}.json`
+    await fs.writeFile(file, JSON.stringify({ from: this.from, ...message, sentAt: new Date().toISOString() }, null, 2))
+  }
+}
+
+export function createMailTransport(env: MailEnv): MailTransport {
+  switch (env.MAIL_TRANSPORT || "console") {
+    case "console":
+      return new ConsoleMailTransport(env.MAIL_FROM)
+    case "file":
+      return new FileMailTransport(env.MAIL_DIR, env.MAIL_FROM)
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${env.MAIL_TRANSPORT}" - use console or file`)
+  }
+}
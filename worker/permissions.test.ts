@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest"
+import { ALL_PERMISSIONS, PERMISSION_ROLES, hasPermissions } from "../src/lib/permissions"
+import type { Permission, UserRole } from "../src/types"
+import { ROUTE_RULES, requiredPermissions } from "./permissions"
+
+const ROLES: UserRole[] = ["owner", "admin", "florist", "viewer"]
+const MANAGERS: UserRole[] = ["owner", "admin"]
+const BOARD: UserRole[] = [...MANAGERS, "florist"]
+
+// Which roles may make each request, paths below /api/tenants/:tenantId. Every route rule needs at
+// least one request here, so a new rule fails until its access is written down.
+const ACCESS_MATRIX: [method: string, path: string, roles: UserRole[]][] = [
+  ["GET", "/users/u1/login-events", MANAGERS],
+  ["GET", "/users", BOARD],
+  ["POST", "/users", MANAGERS],
+  ["DELETE", "/users/u1", MANAGERS],
+  ["GET", "/capacity/availability", BOARD],
+  ["PUT", "/capacity/availability", MANAGERS],
+  ["POST", "/stores/s1/orders/sync", BOARD],
+  ["POST", "/stores/s1/bulk-imports", BOARD],
+  ["POST", "/stores/s1/sync-products", MANAGERS],
+  ["GET", "/stores/s1/orders/lookup", ROLES],
+  ["POST", "/stores/s1/orders/by_name", ROLES],
+  ["POST", "/stores/s1/delivery-rules/preview", MANAGERS],
+  ["GET", "/stores", ROLES],
+  ["PUT", "/stores/s1", MANAGERS],
+  ["DELETE", "/stores/s1", MANAGERS],
+  ["GET", "/bulk-imports/b1", ROLES],
+  ["POST", "/bulk-imports/b1/cancel", BOARD],
+  ["GET", "/settings", ROLES],
+  ["PUT", "/settings", MANAGERS],
+  ["PUT", "/security/settings", MANAGERS],
+  ["GET", "/webhooks/metrics", ROLES],
+  ["GET", "/test-shopify", ROLES],
+  ["GET", "/analytics/florist-stats", ROLES],
+  ["DELETE", "/analytics/cache", MANAGERS],
+  ["GET", "/capacity/forecast", ROLES],
+  ["GET", "/shopify/analytics", ROLES],
+  ["POST", "/shopify/analytics/training-session", MANAGERS],
+  ["GET", "/orders-by-date", ROLES],
+  ["GET", "/realtime/ws", ROLES],
+  ["POST", "/notifications/read", ROLES],
+  ["GET", "/order-card-states", ROLES],
+  ["PUT", "/order-card-states/c1", BOARD],
+  ["GET", "/orders", ROLES],
+  ["PUT", "/orders/o1", BOARD],
+  ["DELETE", "/orders/o1", MANAGERS],
+  ["POST", "/photos/upload", BOARD],
+  ["DELETE", "/photos/p1", MANAGERS],
+  ["GET", "/ai/florist-tokens", ROLES],
+  ["POST", "/ai/florist-tokens", MANAGERS],
+  ["GET", "/products", ROLES],
+  ["POST", "/products", MANAGERS],
+  ["DELETE", "/products/p1", MANAGERS],
+
+  // Unmapped: the tenant itself can be read by any member, anything new changed only by managers
+  ["GET", "", ROLES],
+  ["PUT", "", MANAGERS],
+  ["POST", "/something-new", MANAGERS],
+]
+
+const rolesWith = (permissions: Permission[]) => ROLES.filter((role) => hasPermissions(role, null, permissions))
+
+describe("requiredPermissions", () => {
+  it.each(ACCESS_MATRIX)("%s %s is open to the expected roles", (method, path, roles) => {
+    expect(rolesWith(requiredPermissions(method, path))).toEqual(roles)
+  })
+
+  it("has a request in the access matrix for every route rule", () => {
+    const covered = new Set(ACCESS_MATRIX.map(([, path]) => ROUTE_RULES.findIndex((rule) => rule.path.test(path))))
+    const uncovered = ROUTE_RULES.filter((_, index) => !covered.has(index)).map((rule) => String(rule.path))
+    expect(uncovered).toEqual([])
+  })
+})
+
+describe("ROUTE_RULES", () => {
+  it("only names permissions in PERMISSION_ROLES", () => {
+    for (const rule of ROUTE_RULES) {
+      for (const permission of [rule.read, rule.write, rule.remove]) {
+        if (permission) expect(ALL_PERMISSIONS).toContain(permission)
+      }
+    }
+  })
+
+  it("lets whoever may change or remove a resource also read it", () => {
+    for (const rule of ROUTE_RULES) {
+      if (!rule.read) continue
+      const readers = PERMISSION_ROLES[rule.read]
+      for (const permission of [rule.write, rule.remove]) {
+        if (!permission) continue
+        for (const role of PERMISSION_ROLES[permission]) {
+          expect(readers, `${rule.path} ${permission}`).toContain(role)
+        }
+      }
+    }
+  })
+})
@@ -0,0 +1,63 @@
+import type { Permission } from "../src/types"
+
+// Which permission each tenant route needs. Paths are matched below /api/tenants/:tenantId, first rule
+// wins; reads are GET/HEAD, writes POST/PUT/PATCH and removes DELETE (falling back to the write permission).
+// Which roles hold each permission is PERMISSION_ROLES (src/lib/permissions.ts).
+
+export interface RouteRule {
+  path: RegExp
+  read?: Permission
+  write?: Permission
+  remove?: Permission
+}
+
+export const ROUTE_RULES: RouteRule[] = [
+  // Accounts
+  { path: /^\/users\/[^/]+\/login-events$/, read: "users:write" }, // Sign-in history is for those who manage accounts
+  { path: /^\/users(\/|$)/, read: "users:read", write: "users:write", remove: "users:delete" },
+  { path: /^\/capacity\/availability$/, read: "users:read", write: "users:write" },
+
+  // Store connections, tenant settings and card layout
+  { path: /^\/stores\/[^/]+\/(orders\/sync|bulk-imports)$/, write: "orders:write" },
+  { path: /^\/stores\/[^/]+\/sync-products?$/, write: "products:write" },
+  { path: /^\/stores\/[^/]+\/(orders\/lookup|orders\/by_name|sync-status)$/, read: "orders:read", write: "orders:read" }, // by_name is a POST lookup
+  { path: /^\/stores\/[^/]+\/delivery-rules\/preview$/, write: "settings:write" }, // Runs submitted patterns, so only for those who could save them
+  { path: /^\/stores(\/|$)/, read: "settings:read", write: "settings:write" },
+  { path: /^\/bulk-imports(\/|$)/, read: "orders:read", write: "orders:write" },
+  { path: /^\/(settings|config\/order-card|order-card-config(\/go-live)?|camera-widget-templates(\/[^/]+)?|capacity\/settings|security\/settings)$/, read: "settings:read", write: "settings:write" },
+  { path: /^\/(webhooks\/metrics|test-shopify)$/, read: "settings:read" },
+
+  // Reporting
+  { path: /^\/analytics(\/|$)/, read: "analytics:read", remove: "settings:write" },
+  { path: /^\/capacity\/(forecast|assignment-plan)$/, read: "analytics:read" },
+  { path: /^\/(shopify\/analytics|ai\/usage-analytics|ai\/training-data\/stats|photos\/statistics)(\/|$)/, read: "analytics:read", write: "products:write" },
+
+  // The order board
+  { path: /^\/(orders-by-date|orders-from-db-by-date|realtime)(\/|$)/, read: "orders:read" },
+  { path: /^\/notifications(\/read)?$/, read: "orders:read", write: "orders:read" }, // Marking your own inbox read
+  { path: /^\/order-card-states(\/|$)/, read: "orders:read", write: "orders:write" },
+  { path: /^\/(orders|bulk-reorder|cards|print|schedule)(\/|$)/, read: "orders:read", write: "orders:write", remove: "orders:delete" },
+  { path: /^\/photos(\/|$)/, read: "orders:read", write: "orders:write", remove: "orders:delete" },
+
+  // Catalogue and AI florist configuration
+  { path: /^\/ai\/florist-tokens(\/|$)/, read: "settings:read", write: "settings:write" },
+  { path: /^\/(products|saved-products|product-labels|sample-products|ai)(\/|$)/, read: "products:read", write: "products:write", remove: "products:delete" },
+]
+
+// Changes to anything missing above are kept to those who can change settings
+const UNMAPPED_WRITE: Permission = "settings:write"
+
+/**
+ * The permissions a tenant route needs, from its method and the path below /api/tenants/:tenantId.
+ * Reads of an unmapped path need none beyond tenant membership (e.g. the tenant itself).
+ */
+export function requiredPermissions(method: string, tenantPath: string): Permission[] {
+  const verb = method.toUpperCase()
+  const isRead = verb === "GET" || verb === "HEAD" || verb === "OPTIONS"
+  const rule = ROUTE_RULES.find(({ path }) => path.test(tenantPath))
+
+  if (!rule) return isRead ? [] : [UNMAPPED_WRITE]
+  const permission = isRead ? rule.read : verb === "DELETE" ? rule.remove || rule.write : rule.write
+  // A kind of request the rule doesn't expect is treated like an unmapped change
+  return [permission || UNMAPPED_WRITE]
+}
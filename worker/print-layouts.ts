@@ -0,0 +1,160 @@
+import qrcode from "qrcode-generator"
+import type { PrintBatch, PrintCard, PrintLayout, PrintPageSize } from "../src/types"
+import { escapeHtml } from "./dispatch-manifest"
+
+// Printable pages for a batch of order cards: customer gift cards, florist job sheets and packing slips.
+// Every page carries a QR code linking back to its card on the board.
+
+export const PRINT_LAYOUTS: Record<PrintLayout, { title: string; pageSize: PrintPageSize }> = {
+  "gift-card": { title: "Gift cards", pageSize: "A6" },
+  "job-sheet": { title: "Job sheets", pageSize: "A4" },
+  "packing-slip": { title: "Packing slips", pageSize: "A5" },
+}
+
+export const PRINT_PAGE_SIZES: PrintPageSize[] = ["A4", "A5", "A6", "letter"]
+
+export const isPrintLayout = (value: string): value is PrintLayout => Object.keys(PRINT_LAYOUTS).includes(value)
+
+interface LayoutOptions {
+  pageSize: PrintPageSize
+  storeName: string | null
+  cardUrl: (card: PrintCard) => string // Where a page's QR code points
+}
+
+const qrSvg = (text: string) => {
+  const qr = qrcode(0, "M")
+  qr.addData(text)
+  qr.make()
+  return qr.createSvgTag({ cellSize: 1, margin: 2, scalable: true })
+}
+
+const multiline = (text: string) => escapeHtml(text).replace(/\r?\n/g, "<br>")
+
+const qrBlock = (card: PrintCard, options: LayoutOptions, className = "qr") =>
+  `<div class="${className}">${qrSvg(options.cardUrl(card))}</div>`
+
+const addOnList = (addOns: string[]) =>
+  addOns.length > 0 ? `<ul>${addOns.map((addOn) => `<li>${escapeHtml(addOn)}</li>`).join("")}</ul>` : "<p class=\"muted\">None</p>"
+
+// One per card with a message; the order reference stays small so the front reads as the customer's card
+const giftCardPage = (card: PrintCard, message: string, options: LayoutOptions) => `
+  <section class="page gift-card">
+    <div class="message${message.length > 280 ? " long" : ""}">${multiline(message)}</div>
+    <footer>
+      <span>${escapeHtml(card.orderName || card.orderId)} &middot; ${escapeHtml(card.title)}</span>
+      ${qrBlock(card, options, "qr small")}
+    </footer>
+  </section>`
+
+const jobSheetPage = (card: PrintCard, options: LayoutOptions) => `
+  <section class="page job-sheet">
+    <header>
+      <div>
+        <h1>${escapeHtml(card.title)}</h1>
+        ${card.variantTitle ? `<div class="variant">${escapeHtml(card.variantTitle)}</div>` : ""}
+        <table class="facts">
+          <tr><th>Order</th><td>${escapeHtml(card.orderName || card.orderId)}</td></tr>
+          <tr><th>Timeslot</th><td>${escapeHtml(card.timeslot || "-")}</td></tr>
+          <tr><th>Difficulty</th><td>${escapeHtml(card.difficulty || "-")}</td></tr>
+          <tr><th>Florist</th><td>${escapeHtml(card.assignedTo || "Unassigned")}</td></tr>
+          <tr><th>Card</th><td class="mono">${escapeHtml(card.cardId)}</td></tr>
+        </table>
+      </div>
+      ${qrBlock(card, options)}
+    </header>
+    <h2>Card message</h2>
+    <div class="box">${card.message ? multiline(card.message) : "<span class=\"muted\">No message</span>"}</div>
+    <h2>Add-ons</h2>
+    ${addOnList(card.addOns)}
+    <h2>Customisations</h2>
+    <div class="box">${card.customisations ? multiline(card.customisations) : "<span class=\"muted\">None</span>"}</div>
+    ${card.fields.length > 0 ? `
+    <h2>Details</h2>
+    <table class="facts">
+      ${card.fields.map((field) => `<tr><th>${escapeHtml(field.label)}</th><td>${multiline(field.value)}</td></tr>`).join("")}
+    </table>` : ""}
+  </section>`
+
+// One per order, listing every card and add-on that goes in the delivery
+const packingSlipPage = (cards: PrintCard[], options: LayoutOptions) => {
+  const [first] = cards
+  const items = new Map<string, number>()
+  for (const card of cards) {
+    const title = card.variantTitle ? `${card.title} (${card.variantTitle})` : card.title
+    items.set(title, (items.get(title) || 0) + 1)
+  }
+  return `
+  <section class="page packing-slip">
+    <header>
+      <div>
+        <h1>${escapeHtml(first.orderName || first.orderId)}</h1>
+        <div>${escapeHtml(first.timeslot || "No timeslot")}</div>
+      </div>
+      ${qrBlock(first, options)}
+    </header>
+    <h2>Deliver to</h2>
+    <div class="box">
+      <strong>${escapeHtml(first.recipient || "-")}</strong><br>
+      ${escapeHtml(first.address || "")}${first.postalCode ? ` ${escapeHtml(first.postalCode)}` : ""}
+      ${first.phone ? `<br>${escapeHtml(first.phone)}` : ""}
+    </div>
+    <h2>Items</h2>
+    <table class="items">
+      ${Array.from(items.entries()).map(([title, quantity]) => `<tr><td class="check">&#9744;</td><td>${quantity} x ${escapeHtml(title)}</td></tr>`).join("")}
+      ${first.addOns.map((addOn) => `<tr><td class="check">&#9744;</td><td>${escapeHtml(addOn)}</td></tr>`).join("")}
+    </table>
+    ${first.message ? `<h2>Card message</h2><div class="box">${multiline(first.message)}</div>` : ""}
+  </section>`
+}
+
+const pages = (layout: PrintLayout, cards: PrintCard[], options: LayoutOptions): string[] => {
+  if (layout === "gift-card") return cards.flatMap((card) => (card.message ? [giftCardPage(card, card.message, options)] : []))
+  if (layout === "job-sheet") return cards.map((card) => jobSheetPage(card, options))
+  const orders = new Map<string, PrintCard[]>()
+  for (const card of cards) orders.set(card.orderId, [...(orders.get(card.orderId) || []), card])
+  return Array.from(orders.values()).map((orderCards) => packingSlipPage(orderCards, options))
+}
+
+/** Standalone HTML page for a batch, one printed page per card (or order, for packing slips) */
+export function printLayoutHtml(layout: PrintLayout, batch: PrintBatch, options: LayoutOptions): string {
+  const title = `${PRINT_LAYOUTS[layout].title} ${batch.deliveryDate}${options.storeName ? ` - ${options.storeName}` : ""}`
+  const body = pages(layout, batch.cards, options)
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  @page { size: ${options.pageSize}; margin: ${options.pageSize === "A6" ? "6mm" : "10mm"}; }
+  * { box-sizing: border-box; }
+  body { font-family: system-ui, sans-serif; font-size: 12px; margin: 0; color: #111; }
+  .page { page-break-after: always; padding: 8px; }
+  .page:last-child { page-break-after: auto; }
+  h1 { font-size: 18px; margin: 0 0 4px; }
+  h2 { font-size: 13px; margin: 14px 0 4px; text-transform: uppercase; letter-spacing: 0.04em; color: #444; }
+  header { display: flex; justify-content: space-between; gap: 12px; align-items: flex-start; }
+  .variant, .muted { color: #666; }
+  .mono { font-family: ui-monospace, monospace; font-size: 11px; }
+  .box { border: 1px solid #ccc; border-radius: 4px; padding: 8px; min-height: 40px; white-space: normal; }
+  table.facts, table.items { border-collapse: collapse; margin-top: 6px; }
+  table.facts th { text-align: left; font-weight: 600; padding: 2px 12px 2px 0; vertical-align: top; }
+  table.facts td { padding: 2px 0; }
+  table.items td { padding: 4px 6px 4px 0; }
+  td.check { font-size: 16px; width: 24px; }
+  ul { margin: 0; padding-left: 18px; }
+  .qr { width: 30mm; height: 30mm; flex-shrink: 0; }
+  .qr.small { width: 16mm; height: 16mm; }
+  .qr svg { width: 100%; height: 100%; }
+  .gift-card { display: flex; flex-direction: column; min-height: 95vh; }
+  .gift-card .message { flex: 1; display: flex; align-items: center; justify-content: center; text-align: center; font-family: Georgia, serif; font-size: 18px; line-height: 1.5; padding: 12px; }
+  .gift-card .message.long { font-size: 14px; }
+  .gift-card footer { display: flex; justify-content: space-between; align-items: flex-end; font-size: 9px; color: #888; }
+  .empty { padding: 24px; text-align: center; color: #666; }
+</style>
+</head>
+<body>
+${body.length > 0 ? body.join("") : `<p class="empty">Nothing to print${layout === "gift-card" ? " - none of these cards has a message" : ""}.</p>`}
+</body>
+</html>`
+}
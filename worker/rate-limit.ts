@@ -0,0 +1,41 @@
+import type { D1Database } from "@cloudflare/workers-types"
+
+// Fixed-window request counters in D1, shared by every worker instance.
+
+export interface RateLimit {
+  limit: number
+  windowSeconds: number
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  remaining: number
+  retryAfterSeconds: number // Until the window resets
+}
+
+/**
+ * Counts a request against key's current window. The counter row is reused from window to window,
+ * so there's one row per key however long it's been in use.
+ */
+export async function consumeRateLimit(db: D1Database, key: string, { limit, windowSeconds }: RateLimit): Promise<RateLimitResult> {
+  const now = Math.floor(Date.now() / 1000)
+  const windowStart = now - (now % windowSeconds)
+
+  const row = await db
+    .prepare(
+      `INSERT INTO rate_limits (key, window_start, count) VALUES (?, ?, 1)
+       ON CONFLICT(key) DO UPDATE SET
+         count = CASE WHEN rate_limits.window_start = excluded.window_start THEN rate_limits.count + 1 ELSE 1 END,
+         window_start = excluded.window_start
+       RETURNING count`
+    )
+    .bind(key, windowStart)
+    .first<{ count: number }>()
+
+  const count = row?.count ?? 1
+  return {
+    allowed: count <= limit,
+    remaining: Math.max(0, limit - count),
+    retryAfterSeconds: windowStart + windowSeconds - now,
+  }
+}
@@ -0,0 +1,220 @@
+import type {
+  DurableObjectState,
+  WebSocket as CfWebSocket,
+} from "@cloudflare/workers-types"
+
+// Shape of a single order card state change pushed to connected devices.
+// Mirrors the payload the SSE stream used to emit so existing handlers keep working.
+export interface CardStateEvent {
+  type: "order_updated" | "order_created" | "order_deleted"
+  orderId: string
+  tenantId: string
+  status?: string
+  assignedTo?: string | null
+  updatedBy: string
+  updatedAt: string
+  deliveryDate?: string
+  sortOrder?: number
+  notes?: string | null
+  version?: number
+  source?: string
+  // Set on changes made by Shopify webhooks (see reconcileOrderFromWebhook)
+  previousDeliveryDate?: string
+  cancelled?: boolean
+  notice?: {
+    kind: "rescheduled" | "cancelled" | "deleted"
+    message: string
+    recipient: string
+    notificationId?: number
+  }
+}
+
+interface SequencedEvent extends CardStateEvent {
+  seq: number
+}
+
+interface ConnectionInfo {
+  userId: string
+  userName: string
+  clientType: string
+  connectedAt: string
+}
+
+// How many events we keep around so reconnecting clients can resume from their cursor
+const MAX_RETAINED_EVENTS = 500
+const EVENT_KEY_PREFIX = "event:"
+// Durable Object storage takes at most this many keys per put or delete
+const STORAGE_BATCH_LIMIT = 128
+
+const eventKey = (seq: number) => `${EVENT_KEY_PREFIX}${String(seq).padStart(12, "0")}`
+
+/**
+ * One instance per tenant (addressed with idFromName(tenantId)).
+ * The worker authenticates the WebSocket upgrade and forwards it here; write routes
+ * POST their changes to /broadcast, which sequences them and fans them out to every socket.
+ */
+export class TenantRealtimeHub {
+  private state: DurableObjectState
+  private cursor: number | null = null
+
+  constructor(state: DurableObjectState) {
+    this.state = state
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url)
+
+    if (url.pathname.endsWith("/broadcast") && request.method === "POST") {
+      const { events } = (await request.json()) as { events: CardStateEvent[] }
+      if (!Array.isArray(events) || events.length === 0) {
+        return Response.json({ error: "events array is required" }, { status: 400 })
+      }
+      const sequenced = await this.broadcast(events)
+      return Response.json({ success: true, cursor: sequenced[sequenced.length - 1].seq, delivered: sequenced.length })
+    }
+
+    if (url.pathname.endsWith("/status")) {
+      return Response.json({
+        connections: this.state.getWebSockets().length,
+        cursor: await this.getCursor(),
+      })
+    }
+
+    if (request.headers.get("Upgrade") !== "websocket") {
+      return new Response("Expected Upgrade: websocket", { status: 426 })
+    }
+
+    const pair = new WebSocketPair()
+    const [client, server] = Object.values(pair)
+    const info: ConnectionInfo = {
+      userId: url.searchParams.get("userId") || "unknown",
+      userName: url.searchParams.get("userName") || "Unknown User",
+      clientType: url.searchParams.get("clientType") || "Desktop",
+      connectedAt: new Date().toISOString(),
+    }
+
+    // Hibernatable socket: the object can be evicted between messages without dropping clients
+    this.state.acceptWebSocket(server as unknown as CfWebSocket, [info.userId])
+    ;(server as unknown as CfWebSocket).serializeAttachment(info)
+
+    console.log(`[REALTIME-HUB] ${info.clientType} connection accepted for user ${info.userId}`)
+
+    return new Response(null, { status: 101, webSocket: client })
+  }
+
+  async webSocketMessage(ws: CfWebSocket, message: string | ArrayBuffer): Promise<void> {
+    if (typeof message !== "string") return
+
+    let data: { type?: string; cursor?: number | null }
+    try {
+      data = JSON.parse(message)
+    } catch {
+      this.send(ws, { type: "error", message: "Invalid JSON message" })
+      return
+    }
+
+    switch (data.type) {
+      case "resume":
+        await this.resume(ws, typeof data.cursor === "number" ? data.cursor : null)
+        break
+      case "ping":
+        this.send(ws, { type: "pong", timestamp: new Date().toISOString() })
+        break
+      default:
+        this.send(ws, { type: "error", message: `Unknown message type: ${data.type}` })
+    }
+  }
+
+  async webSocketClose(ws: CfWebSocket, code: number, reason: string): Promise<void> {
+    const info = ws.deserializeAttachment() as ConnectionInfo | null
+    console.log(`[REALTIME-HUB] Connection closed for user ${info?.userId || "unknown"} (${code})`)
+    ws.close(code, reason)
+  }
+
+  async webSocketError(ws: CfWebSocket, error: unknown): Promise<void> {
+    console.error("[REALTIME-HUB] WebSocket error:", error)
+    ws.close(1011, "WebSocket error")
+  }
+
+  // Replay everything after the client's cursor, or tell it to reload if we no longer have those events
+  private async resume(ws: CfWebSocket, clientCursor: number | null): Promise<void> {
+    const cursor = await this.getCursor()
+
+    if (clientCursor === null || clientCursor >= cursor) {
+      this.send(ws, { type: "welcome", cursor })
+      return
+    }
+
+    const oldestRetained = cursor - MAX_RETAINED_EVENTS + 1
+    if (clientCursor + 1 < oldestRetained) {
+      this.send(ws, { type: "resync_required", cursor })
+      return
+    }
+
+    const missed = await this.state.storage.list<SequencedEvent>({
+      start: eventKey(clientCursor + 1),
+      end: eventKey(cursor + 1),
+      prefix: EVENT_KEY_PREFIX,
+    })
+
+    for (const event of missed.values()) {
+      this.send(ws, { type: "card_state", event })
+    }
+    this.send(ws, { type: "welcome", cursor, replayed: missed.size })
+  }
+
+  private async broadcast(events: CardStateEvent[]): Promise<SequencedEvent[]> {
+    let cursor = await this.getCursor()
+    const sequenced = events.map((event) => ({ ...event, seq: ++cursor }))
+    const oldestRetained = cursor - MAX_RETAINED_EVENTS + 1
+
+    // Bulk writes can send hundreds of events at once; ones already past the replay buffer aren't stored
+    const retained = sequenced.filter((event) => event.seq >= oldestRetained)
+    for (let i = 0; i < retained.length; i += STORAGE_BATCH_LIMIT) {
+      const entries: Record<string, SequencedEvent> = {}
+      for (const event of retained.slice(i, i + STORAGE_BATCH_LIMIT)) {
+        entries[eventKey(event.seq)] = event
+      }
+      await this.state.storage.put(entries)
+    }
+    await this.state.storage.put("cursor", cursor)
+    this.cursor = cursor
+
+    // Trim the replay buffer
+    while (oldestRetained > 1) {
+      const stale = await this.state.storage.list({
+        prefix: EVENT_KEY_PREFIX,
+        end: eventKey(oldestRetained),
+        limit: STORAGE_BATCH_LIMIT,
+      })
+      if (stale.size > 0) {
+        await this.state.storage.delete(Array.from(stale.keys()))
+      }
+      if (stale.size < STORAGE_BATCH_LIMIT) break
+    }
+
+    for (const ws of this.state.getWebSockets()) {
+      for (const event of sequenced) {
+        this.send(ws, { type: "card_state", event })
+      }
+    }
+
+    return sequenced
+  }
+
+  private async getCursor(): Promise<number> {
+    if (this.cursor === null) {
+      this.cursor = (await this.state.storage.get<number>("cursor")) ?? 0
+    }
+    return this.cursor
+  }
+
+  private send(ws: CfWebSocket, payload: unknown): void {
+    try {
+      ws.send(JSON.stringify(payload))
+    } catch (error) {
+      // Socket is already closing; the runtime will deliver webSocketClose
+      console.warn("[REALTIME-HUB] Failed to send message:", error)
+    }
+  }
+}
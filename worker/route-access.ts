@@ -0,0 +1,112 @@
+import type { D1Database } from "@cloudflare/workers-types"
+import { sign, verify } from "hono/jwt"
+import type { AiFloristToken } from "../src/types"
+
+// Which tenant routes take something other than a user's JWT in the Authorization header, and the
+// signed tokens that let a shop's storefront use the customer-facing AI florist.
+
+export type RouteAccess = "websocket" | "ai-florist"
+
+interface TokenRoute {
+  method: string
+  path: RegExp // Below /api/tenants/:tenantId
+  access: RouteAccess
+}
+
+// Everything else below /api/tenants/:tenantId needs a user's JWT. "websocket" routes take it in
+// ?token= instead; "ai-florist" routes also take an AI florist token for the same tenant.
+const TOKEN_ROUTES: TokenRoute[] = [
+  { method: "GET", path: /^\/realtime\/ws$/, access: "websocket" },
+
+  // What the AI florist widget reads to ground its answers
+  { method: "GET", path: /^\/ai\/knowledge-base$/, access: "ai-florist" },
+  { method: "GET", path: /^\/ai\/saved-products$/, access: "ai-florist" },
+]
+
+/** How a tenant route may be reached other than with a user's JWT header; null when it needs one */
+export function tenantRouteAccess(method: string, tenantPath: string): RouteAccess | null {
+  const verb = method.toUpperCase()
+  const route = TOKEN_ROUTES.find((entry) => entry.method === verb && entry.path.test(tenantPath))
+  return route ? route.access : null
+}
+
+// ===== AI FLORIST TOKENS =====
+
+interface AiFloristClaims {
+  sub: string // Token id, so a token can be revoked
+  tenantId: string
+  scope: "ai-florist"
+}
+
+// Signed apart from user tokens so one can never pass for the other
+const tokenSecret = (jwtSecret: string) => `${jwtSecret}:ai-florist`
+
+const toToken = (row: Record<string, unknown>): AiFloristToken => ({
+  id: row.id as string,
+  label: row.label as string,
+  createdBy: (row.created_by as string | null) ?? null,
+  createdAt: row.created_at as string,
+  lastUsedAt: (row.last_used_at as string | null) ?? null,
+})
+
+export async function listAiFloristTokens(db: D1Database, tenantId: string): Promise<AiFloristToken[]> {
+  const { results } = await db
+    .prepare(
+      `SELECT id, label, created_by, created_at, last_used_at FROM ai_florist_tokens
+       WHERE tenant_id = ? AND revoked_at IS NULL ORDER BY created_at DESC`
+    )
+    .bind(tenantId)
+    .all()
+  return (results || []).map((row) => toToken(row as Record<string, unknown>))
+}
+
+/** Issues a token for a storefront embed; the signed value is only ever returned here */
+export async function createAiFloristToken(
+  db: D1Database,
+  jwtSecret: string,
+  tenantId: string,
+  label: string,
+  createdBy: string | null
+): Promise<{ token: string; details: AiFloristToken }> {
+  const id = crypto.randomUUID()
+  await db
+    .prepare(`INSERT INTO ai_florist_tokens (id, tenant_id, label, created_by) VALUES (?, ?, ?, ?)`)
+    .bind(id, tenantId, label, createdBy)
+    .run()
+  const claims: AiFloristClaims = { sub: id, tenantId, scope: "ai-florist" }
+  const token = await sign({ ...claims }, tokenSecret(jwtSecret))
+
+  const row = await db
+    .prepare(`SELECT id, label, created_by, created_at, last_used_at FROM ai_florist_tokens WHERE id = ?`)
+    .bind(id)
+    .first()
+  return { token, details: toToken(row as Record<string, unknown>) }
+}
+
+export async function revokeAiFloristToken(db: D1Database, tenantId: string, tokenId: string): Promise<boolean> {
+  const result = await db
+    .prepare(`UPDATE ai_florist_tokens SET revoked_at = CURRENT_TIMESTAMP WHERE id = ? AND tenant_id = ? AND revoked_at IS NULL`)
+    .bind(tokenId, tenantId)
+    .run()
+  return (result.meta?.changes || 0) > 0
+}
+
+/** The tenant an AI florist token was issued for; null when it's invalid or revoked */
+export async function verifyAiFloristToken(db: D1Database, jwtSecret: string, token: string): Promise<{ tenantId: string; tokenId: string } | null> {
+  let claims: AiFloristClaims
+  try {
+    claims = (await verify(token, tokenSecret(jwtSecret))) as unknown as AiFloristClaims
+  } catch {
+    return null
+  }
+  if (claims.scope !== "ai-florist" || !claims.sub || !claims.tenantId) return null
+
+  const active = await db
+    .prepare(`SELECT id FROM ai_florist_tokens WHERE id = ? AND tenant_id = ? AND revoked_at IS NULL`)
+    .bind(claims.sub, claims.tenantId)
+    .first()
+  if (!active) return null
+
+  await db.prepare(`UPDATE ai_florist_tokens SET last_used_at = CURRENT_TIMESTAMP WHERE id = ?`).bind(claims.sub).run()
+  return { tenantId: claims.tenantId, tokenId: claims.sub }
+}
@@ -0,0 +1,136 @@
+import type { D1Database } from "@cloudflare/workers-types"
+import {
+  decryptSecret,
+  encryptSecret,
+  isRedactedSecret,
+  redactSecret,
+  rewrapSecret,
+  storeSecretContext,
+  tenantSecretContext,
+  twoFactorSecretContext,
+  type SecretKeys,
+} from "../src/lib/secrets"
+import type { StoreSettings, TenantSettings } from "../src/types"
+
+// Credentials at rest and in responses. The Shopify columns are encrypted and decrypted by the D1
+// service (src/services/database-d1.ts), two-factor secrets by worker/two-factor.ts; the tenant OpenAI
+// key sits inside tenants.settings and is handled here. Nothing returned to the browser carries a
+// credential, only its redacted form.
+
+export interface SecretRotationResult {
+  storesUpdated: number
+  tenantsUpdated: number
+  usersUpdated: number
+  failures: { table: "shopify_stores" | "tenants" | "tenant_users"; id: string; error: string }[]
+}
+
+type StoreCredentialColumn = "access_token" | "webhook_secret"
+
+/** A store as the API returns it, with the access token and webhook secret redacted */
+export const redactStore = <T extends { settings?: Partial<StoreSettings> }>(store: T): T => ({
+  ...store,
+  settings: {
+    ...store.settings,
+    accessToken: redactSecret(store.settings?.accessToken),
+    apiSecretKey: redactSecret(store.settings?.apiSecretKey),
+  },
+})
+
+export const redactTenantSettings = <T extends Partial<TenantSettings>>(settings: T | null | undefined) =>
+  settings?.openaiApiKey ? { ...settings, openaiApiKey: redactSecret(settings.openaiApiKey) } : settings
+
+/** A tenant as the API returns it, with its settings' OpenAI key redacted */
+export const redactTenant = <T extends { settings?: Partial<TenantSettings> } | null>(tenant: T): T =>
+  tenant && { ...tenant, settings: redactTenantSettings(tenant.settings) }
+
+/**
+ * Tenant settings about to be saved: a new OpenAI key is encrypted, the redacted form (the app
+ * sending back what it was given) keeps the saved key, and an empty one removes it.
+ */
+export async function sealTenantSettings(
+  keys: SecretKeys,
+  tenantId: string,
+  incoming: Partial<TenantSettings>,
+  saved: Partial<TenantSettings> | null | undefined
+): Promise<Partial<TenantSettings>> {
+  const { openaiApiKey, ...settings } = incoming
+  if (openaiApiKey === undefined || isRedactedSecret(openaiApiKey)) {
+    return saved?.openaiApiKey ? { ...settings, openaiApiKey: saved.openaiApiKey } : settings
+  }
+  const encrypted = await encryptSecret(keys, typeof openaiApiKey === "string" ? openaiApiKey.trim() : null, tenantSecretContext(tenantId))
+  return encrypted ? { ...settings, openaiApiKey: encrypted } : settings
+}
+
+/** The tenant's OpenAI key in plaintext, for calling OpenAI; null when none is saved */
+export async function tenantOpenAiKey(keys: SecretKeys, tenantId: string, settings: Partial<TenantSettings> | null | undefined) {
+  return decryptSecret(keys, settings?.openaiApiKey, tenantSecretContext(tenantId))
+}
+
+/**
+ * Brings every stored credential onto the current SECRETS_KEY: plaintext left from before
+ * encryption is encrypted and values wrapped with a key in SECRETS_KEY_PREVIOUS are rewrapped.
+ * Each write only lands if the value is unchanged since it was read. Safe to run repeatedly.
+ */
+export async function rotateSecrets(db: D1Database, keys: SecretKeys): Promise<SecretRotationResult> {
+  const result: SecretRotationResult = { storesUpdated: 0, tenantsUpdated: 0, usersUpdated: 0, failures: [] }
+
+  const { results: stores } = await db
+    .prepare(`SELECT id, access_token, webhook_secret FROM shopify_stores`)
+    .all<{ id: string; access_token: string | null; webhook_secret: string | null }>()
+  for (const store of stores || []) {
+    let updated = false
+    for (const column of ["access_token", "webhook_secret"] as StoreCredentialColumn[]) {
+      try {
+        const rewrapped = await rewrapSecret(keys, store[column], storeSecretContext(store.id, column))
+        if (!rewrapped) continue
+        const write = await db
+          .prepare(`UPDATE shopify_stores SET ${column} = ? WHERE id = ? AND ${column} = ?`)
+          .bind(rewrapped, store.id, store[column])
+          .run()
+        updated ||= (write.meta?.changes || 0) > 0
+      } catch (error) {
+        result.failures.push({ table: "shopify_stores", id: store.id, error: error instanceof Error ? error.message : String(error) })
+      }
+    }
+    if (updated) result.storesUpdated++
+  }
+
+  const { results: tenants } = await db
+    .prepare(`SELECT id, json_extract(settings, '$.openaiApiKey') AS openai_api_key FROM tenants WHERE json_extract(settings, '$.openaiApiKey') IS NOT NULL`)
+    .all<{ id: string; openai_api_key: string }>()
+  for (const tenant of tenants || []) {
+    try {
+      const rewrapped = await rewrapSecret(keys, tenant.openai_api_key, tenantSecretContext(tenant.id))
+      if (!rewrapped) continue
+      const write = await db
+        .prepare(
+          `UPDATE tenants SET settings = json_set(settings, '$.openaiApiKey', ?)
+           WHERE id = ? AND json_extract(settings, '$.openaiApiKey') = ?`
+        )
+        .bind(rewrapped, tenant.id, tenant.openai_api_key)
+        .run()
+      if ((write.meta?.changes || 0) > 0) result.tenantsUpdated++
+    } catch (error) {
+      result.failures.push({ table: "tenants", id: tenant.id, error: error instanceof Error ? error.message : String(error) })
+    }
+  }
+
+  const { results: users } = await db
+    .prepare(`SELECT id, totp_secret FROM tenant_users WHERE totp_secret IS NOT NULL`)
+    .all<{ id: string; totp_secret: string }>()
+  for (const user of users || []) {
+    try {
+      const rewrapped = await rewrapSecret(keys, user.totp_secret, twoFactorSecretContext(user.id))
+      if (!rewrapped) continue
+      const write = await db
+        .prepare(`UPDATE tenant_users SET totp_secret = ? WHERE id = ? AND totp_secret = ?`)
+        .bind(rewrapped, user.id, user.totp_secret)
+        .run()
+      if ((write.meta?.changes || 0) > 0) result.usersUpdated++
+    } catch (error) {
+      result.failures.push({ table: "tenant_users", id: user.id, error: error instanceof Error ? error.message : String(error) })
+    }
+  }
+
+  return result
+}
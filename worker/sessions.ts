@@ -0,0 +1,156 @@
+import type { D1Database } from "@cloudflare/workers-types"
+import { sign } from "hono/jwt"
+
+// Login sessions: a short-lived access JWT plus a refresh token that's replaced on every use. Each
+// session keeps only the hash of its current refresh token, so a superseded one coming back means it
+// was copied, and the whole session is revoked.
+
+const ACCESS_TOKEN_TTL_SECONDS = 15 * 60
+const REFRESH_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60 // Renewed by each refresh; an idle session lapses
+
+export interface SessionUser {
+  id: string
+  tenantId: string
+  role: string
+  name: string
+  email: string
+}
+
+export interface SessionClient {
+  userAgent: string | null
+  ipAddress: string | null
+}
+
+export type RefreshResult =
+  | { status: "rotated"; sessionId: string; tenantId: string; userId: string; refreshToken: string }
+  | { status: "reused"; sessionId: string; userId: string }
+  | { status: "invalid" }
+
+const toHex = (bytes: ArrayBuffer) => [...new Uint8Array(bytes)].map((b) => b.toString(16).padStart(2, "0")).join("")
+
+const hashSecret = async (secret: string) => toHex(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(secret)))
+
+const newSecret = () => toHex(crypto.getRandomValues(new Uint8Array(32)).buffer)
+
+const expiresAt = () => new Date(Date.now() + REFRESH_TOKEN_TTL_SECONDS * 1000).toISOString()
+
+// Refresh tokens are "<session id>.<secret>"
+function parseRefreshToken(token: string): { sessionId: string; secret: string } | null {
+  const [sessionId, secret, ...rest] = token.split(".")
+  return sessionId && secret && rest.length === 0 ? { sessionId, secret } : null
+}
+
+/** The access JWT for a session; `sid` lets every request check the session is still live */
+export async function signAccessToken(user: SessionUser, sessionId: string, jwtSecret: string): Promise<string> {
+  return sign(
+    {
+      sub: user.id,
+      tenantId: user.tenantId,
+      role: user.role,
+      name: user.name,
+      email: user.email,
+      sid: sessionId,
+      exp: Math.floor(Date.now() / 1000) + ACCESS_TOKEN_TTL_SECONDS,
+    },
+    jwtSecret
+  )
+}
+
+export async function createSession(
+  db: D1Database,
+  user: SessionUser,
+  client: SessionClient
+): Promise<{ sessionId: string; refreshToken: string }> {
+  const sessionId = crypto.randomUUID()
+  const secret = newSecret()
+  await db
+    .prepare(
+      `INSERT INTO user_sessions (id, tenant_id, user_id, refresh_token_hash, user_agent, ip_address, expires_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    )
+    .bind(sessionId, user.tenantId, user.id, await hashSecret(secret), client.userAgent, client.ipAddress, expiresAt())
+    .run()
+  return { sessionId, refreshToken: `${sessionId}.${secret}` }
+}
+
+/**
+ * Swaps a refresh token for the next one. The compare-and-swap on the stored hash means two refreshes
+ * racing with the same token can't both win; the loser is treated as reuse.
+ */
+export async function rotateRefreshToken(db: D1Database, refreshToken: string): Promise<RefreshResult> {
+  const parsed = parseRefreshToken(refreshToken)
+  if (!parsed) return { status: "invalid" }
+
+  const session = await db
+    .prepare(`SELECT id, tenant_id, user_id, refresh_token_hash, expires_at, revoked_at FROM user_sessions WHERE id = ?`)
+    .bind(parsed.sessionId)
+    .first<{ id: string; tenant_id: string; user_id: string; refresh_token_hash: string; expires_at: string; revoked_at: string | null }>()
+  if (!session || session.revoked_at || new Date(session.expires_at).getTime() <= Date.now()) {
+    return { status: "invalid" }
+  }
+
+  const presentedHash = await hashSecret(parsed.secret)
+  const secret = newSecret()
+  const result = await db
+    .prepare(
+      `UPDATE user_sessions SET refresh_token_hash = ?, expires_at = ?, last_used_at = CURRENT_TIMESTAMP
+       WHERE id = ? AND refresh_token_hash = ? AND revoked_at IS NULL`
+    )
+    .bind(await hashSecret(secret), expiresAt(), session.id, presentedHash)
+    .run()
+
+  if ((result.meta?.changes || 0) === 0) {
+    await revokeSession(db, session.id, "refresh_token_reused")
+    return { status: "reused", sessionId: session.id, userId: session.user_id }
+  }
+  return {
+    status: "rotated",
+    sessionId: session.id,
+    tenantId: session.tenant_id,
+    userId: session.user_id,
+    refreshToken: `${session.id}.${secret}`,
+  }
+}
+
+/** The live session a refresh token is current for, without using it up */
+export async function findRefreshTokenSession(
+  db: D1Database,
+  refreshToken: string
+): Promise<{ sessionId: string; tenantId: string; userId: string } | null> {
+  const parsed = parseRefreshToken(refreshToken)
+  if (!parsed) return null
+
+  const session = await db
+    .prepare(`SELECT id, tenant_id, user_id FROM user_sessions WHERE id = ? AND refresh_token_hash = ? AND revoked_at IS NULL`)
+    .bind(parsed.sessionId, await hashSecret(parsed.secret))
+    .first<{ id: string; tenant_id: string; user_id: string }>()
+  return session ? { sessionId: session.id, tenantId: session.tenant_id, userId: session.user_id } : null
+}
+
+export async function isSessionActive(db: D1Database, sessionId: string): Promise<boolean> {
+  const session = await db
+    .prepare(`SELECT id FROM user_sessions WHERE id = ? AND revoked_at IS NULL AND expires_at > ?`)
+    .bind(sessionId, new Date().toISOString())
+    .first()
+  return !!session
+}
+
+export async function revokeSession(db: D1Database, sessionId: string, reason: string): Promise<boolean> {
+  const result = await db
+    .prepare(`UPDATE user_sessions SET revoked_at = CURRENT_TIMESTAMP, revoked_reason = ? WHERE id = ? AND revoked_at IS NULL`)
+    .bind(reason, sessionId)
+    .run()
+  return (result.meta?.changes || 0) > 0
+}
+
+/** Signs a user out everywhere; returns how many sessions were ended */
+export async function revokeUserSessions(db: D1Database, tenantId: string, userId: string, reason: string): Promise<number> {
+  const result = await db
+    .prepare(
+      `UPDATE user_sessions SET revoked_at = CURRENT_TIMESTAMP, revoked_reason = ?
+       WHERE tenant_id = ? AND user_id = ? AND revoked_at IS NULL`
+    )
+    .bind(reason, tenantId, userId)
+    .run()
+  return result.meta?.changes || 0
+}
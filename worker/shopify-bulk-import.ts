@@ -0,0 +1,338 @@
+import type { D1Database } from "@cloudflare/workers-types"
+
+export type BulkImportKind = "orders" | "products"
+
+// pending -> running (Shopify is building the file) -> importing (reading the JSONL in batches) -> completed
+export type BulkImportStatus = "pending" | "running" | "importing" | "completed" | "failed" | "cancelled"
+
+export const ACTIVE_BULK_IMPORT_STATUSES: BulkImportStatus[] = ["pending", "running", "importing"]
+
+export interface BulkImportJob {
+  id: string
+  tenantId: string
+  storeId: string
+  kind: BulkImportKind
+  status: BulkImportStatus
+  since: string | null
+  shopifyOperationId: string | null
+  resultUrl: string | null
+  resultBytes: number | null
+  byteOffset: number
+  objectCount: number
+  imported: number
+  skipped: number
+  error: string | null
+  createdBy: string | null
+  createdAt: string
+  updatedAt: string
+  completedAt: string | null
+}
+
+// One top-level object from the JSONL file with the nested connection objects that point at it
+export interface BulkRecord {
+  node: Record<string, unknown>
+  children: Record<string, unknown>[]
+}
+
+export interface BulkJsonlBatch {
+  records: BulkRecord[]
+  nextOffset: number
+  totalBytes: number | null
+  done: boolean
+}
+
+// A step that died mid-batch (worker evicted) releases its lease after this long
+const BULK_IMPORT_LEASE_SECONDS = 120
+
+const toSqliteTimestamp = (date: Date) => date.toISOString().slice(0, 19).replace("T", " ")
+
+// gid://shopify/Order/123 -> "123", the ID the REST API and the rest of the app use
+export const gidToId = (gid: unknown): string | null =>
+  typeof gid === "string" && gid ? gid.slice(gid.lastIndexOf("/") + 1) : null
+
+// Bulk queries take no `first:` arguments; nested connections come back as separate lines with __parentId
+export function buildBulkImportQuery(kind: BulkImportKind, since?: string | null): string {
+  if (kind === "products") {
+    return `{
+      products${since ? `(query: "updated_at:>='${since}'")` : ""} {
+        edges {
+          node {
+            id title handle description productType vendor tags
+            featuredImage { url altText width height }
+            estimatedTime: metafield(namespace: "florist", key: "estimated_time") { value }
+            variants { edges { node { id title price } } }
+          }
+        }
+      }
+    }`
+  }
+
+  return `{
+    orders(sortKey: CREATED_AT${since ? `, query: "created_at:>='${since}'"` : ""}) {
+      edges {
+        node {
+          id name email phone note tags createdAt updatedAt cancelledAt
+          displayFulfillmentStatus displayFinancialStatus currencyCode
+          customer { firstName lastName email }
+          shippingAddress { firstName lastName name address1 address2 city province country zip phone }
+          customAttributes { key value }
+          metafields { edges { node { id namespace key value } } }
+          totalPriceSet { shopMoney { amount currencyCode } }
+          subtotalPriceSet { shopMoney { amount currencyCode } }
+          totalTaxSet { shopMoney { amount currencyCode } }
+          totalDiscountsSet { shopMoney { amount currencyCode } }
+          lineItems {
+            edges {
+              node {
+                id title variantTitle quantity
+                customAttributes { key value }
+                variant { id title sku }
+                product { id productType }
+              }
+            }
+          }
+        }
+      }
+    }
+  }`
+}
+
+const concatBytes = (a: Uint8Array, b: Uint8Array) => {
+  const joined = new Uint8Array(a.length + b.length)
+  joined.set(a)
+  joined.set(b, a.length)
+  return joined
+}
+
+const parseTotalBytes = (response: Response, byteOffset: number): number | null => {
+  const range = response.headers.get("Content-Range") // bytes 100-999/1000
+  if (range) {
+    const total = Number(range.split("/")[1])
+    return Number.isFinite(total) ? total : null
+  }
+  const length = Number(response.headers.get("Content-Length"))
+  if (!length) return null
+  return response.status === 206 ? byteOffset + length : length
+}
+
+/**
+ * Read up to `maxRecords` top-level objects from a bulk operation result, starting at `byteOffset`.
+ * Shopify writes each object's children straight after it, so a batch always ends on a top-level
+ * line and `nextOffset` is where the next batch starts. Uses a Range request to avoid re-reading
+ * imported bytes, and skips them locally when the server ignores Range.
+ */
+export async function readBulkJsonlBatch(resultUrl: string, byteOffset: number, maxRecords: number): Promise<BulkJsonlBatch> {
+  const response = await fetch(resultUrl, byteOffset > 0 ? { headers: { Range: `bytes=${byteOffset}-` } } : undefined)
+  if (response.status === 416) {
+    // Offset is at the end of the file
+    return { records: [], nextOffset: byteOffset, totalBytes: byteOffset, done: true }
+  }
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to download bulk operation result: ${response.status} ${response.statusText}`)
+  }
+
+  const totalBytes = parseTotalBytes(response, byteOffset)
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  const records: BulkRecord[] = []
+  const recordsById = new Map<string, BulkRecord>()
+
+  let streamPosition = response.status === 206 ? byteOffset : 0 // absolute offset of the next byte read
+  let buffer: Uint8Array = new Uint8Array(0)
+  let bufferStart = byteOffset // absolute offset of buffer[0]
+
+  // Returns false when the line starts a record that doesn't fit in this batch
+  const takeLine = (bytes: Uint8Array): boolean => {
+    const line = decoder.decode(bytes).trim()
+    if (!line) return true
+
+    let object: Record<string, unknown>
+    try {
+      object = JSON.parse(line)
+    } catch {
+      throw new Error(`Malformed JSONL at byte ${bufferStart}`)
+    }
+
+    const parentId = object.__parentId as string | undefined
+    if (!parentId) {
+      if (records.length >= maxRecords) return false
+      const record: BulkRecord = { node: object, children: [] }
+      records.push(record)
+      recordsById.set(object.id as string, record)
+      return true
+    }
+
+    const parent = recordsById.get(parentId)
+    if (parent) {
+      parent.children.push(object)
+    } else {
+      console.warn(`[BULK-IMPORT] Skipping child of ${parentId}, its parent isn't in this batch`)
+    }
+    return true
+  }
+
+  for (;;) {
+    const { value, done } = await reader.read()
+    if (value) {
+      let chunk = value
+      if (streamPosition < byteOffset) {
+        const drop = Math.min(chunk.length, byteOffset - streamPosition)
+        chunk = chunk.subarray(drop)
+        streamPosition += drop
+      }
+      streamPosition += chunk.length
+      buffer = concatBytes(buffer, chunk)
+    }
+
+    let newline: number
+    while ((newline = buffer.indexOf(0x0a)) !== -1) {
+      if (!takeLine(buffer.subarray(0, newline))) {
+        await reader.cancel()
+        return { records, nextOffset: bufferStart, totalBytes, done: false }
+      }
+      buffer = buffer.subarray(newline + 1)
+      bufferStart += newline + 1
+    }
+
+    if (done) {
+      // Last line without a trailing newline
+      if (buffer.length && !takeLine(buffer)) {
+        return { records, nextOffset: bufferStart, totalBytes, done: false }
+      }
+      return { records, nextOffset: bufferStart + buffer.length, totalBytes, done: true }
+    }
+  }
+}
+
+// Percent of the result file imported; null until Shopify has finished building it
+export const withBulkImportProgress = (job: BulkImportJob) => ({
+  ...job,
+  progress: job.status === "completed"
+    ? 100
+    : job.status === "importing" && job.resultBytes
+      ? Math.min(99, Math.floor((job.byteOffset / job.resultBytes) * 100))
+      : null,
+})
+
+const mapBulkImportJob = (row: Record<string, unknown>): BulkImportJob => ({
+  id: row.id as string,
+  tenantId: row.tenant_id as string,
+  storeId: row.store_id as string,
+  kind: row.kind as BulkImportKind,
+  status: row.status as BulkImportStatus,
+  since: (row.since as string | null) ?? null,
+  shopifyOperationId: (row.shopify_operation_id as string | null) ?? null,
+  resultUrl: (row.result_url as string | null) ?? null,
+  resultBytes: (row.result_bytes as number | null) ?? null,
+  byteOffset: (row.byte_offset as number) || 0,
+  objectCount: (row.object_count as number) || 0,
+  imported: (row.imported as number) || 0,
+  skipped: (row.skipped as number) || 0,
+  error: (row.error as string | null) ?? null,
+  createdBy: (row.created_by as string | null) ?? null,
+  createdAt: row.created_at as string,
+  updatedAt: row.updated_at as string,
+  completedAt: (row.completed_at as string | null) ?? null,
+})
+
+export async function createBulkImportJob(
+  db: D1Database,
+  job: { tenantId: string; storeId: string; kind: BulkImportKind; since?: string | null; resultUrl?: string | null; createdBy?: string | null }
+): Promise<BulkImportJob> {
+  const now = toSqliteTimestamp(new Date())
+  // A job given a result file up front (local fixture) skips the Shopify bulk operation
+  const status: BulkImportStatus = job.resultUrl ? "importing" : "pending"
+  const row = await db.prepare(`
+    INSERT INTO bulk_import_jobs (id, tenant_id, store_id, kind, status, since, result_url, created_by, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    RETURNING *
+  `).bind(
+    crypto.randomUUID(),
+    job.tenantId,
+    job.storeId,
+    job.kind,
+    status,
+    job.since ?? null,
+    job.resultUrl ?? null,
+    job.createdBy ?? null,
+    now,
+    now
+  ).first()
+  if (!row) throw new Error("Failed to create bulk import job")
+  return mapBulkImportJob(row)
+}
+
+export async function getBulkImportJob(db: D1Database, tenantId: string, jobId: string): Promise<BulkImportJob | null> {
+  const row = await db.prepare("SELECT * FROM bulk_import_jobs WHERE tenant_id = ? AND id = ?").bind(tenantId, jobId).first()
+  return row ? mapBulkImportJob(row) : null
+}
+
+export async function listBulkImportJobs(db: D1Database, tenantId: string, storeId?: string): Promise<BulkImportJob[]> {
+  const { results } = storeId
+    ? await db.prepare("SELECT * FROM bulk_import_jobs WHERE tenant_id = ? AND store_id = ? ORDER BY created_at DESC LIMIT 20").bind(tenantId, storeId).all()
+    : await db.prepare("SELECT * FROM bulk_import_jobs WHERE tenant_id = ? ORDER BY created_at DESC LIMIT 20").bind(tenantId).all()
+  return (results || []).map(mapBulkImportJob)
+}
+
+// Jobs the cron trigger should move forward, oldest first
+export async function listActiveBulkImportJobs(db: D1Database): Promise<BulkImportJob[]> {
+  const placeholders = ACTIVE_BULK_IMPORT_STATUSES.map(() => "?").join(", ")
+  const { results } = await db.prepare(
+    `SELECT * FROM bulk_import_jobs WHERE status IN (${placeholders}) ORDER BY created_at ASC`
+  ).bind(...ACTIVE_BULK_IMPORT_STATUSES).all()
+  return (results || []).map(mapBulkImportJob)
+}
+
+export async function hasActiveBulkImportJob(db: D1Database, storeId: string): Promise<boolean> {
+  const placeholders = ACTIVE_BULK_IMPORT_STATUSES.map(() => "?").join(", ")
+  const row = await db.prepare(
+    `SELECT id FROM bulk_import_jobs WHERE store_id = ? AND status IN (${placeholders}) LIMIT 1`
+  ).bind(storeId, ...ACTIVE_BULK_IMPORT_STATUSES).first()
+  return !!row
+}
+
+const JOB_COLUMNS: Record<string, string> = {
+  status: "status",
+  shopifyOperationId: "shopify_operation_id",
+  resultUrl: "result_url",
+  resultBytes: "result_bytes",
+  byteOffset: "byte_offset",
+  objectCount: "object_count",
+  imported: "imported",
+  skipped: "skipped",
+  error: "error",
+  completedAt: "completed_at",
+}
+
+export async function updateBulkImportJob(
+  db: D1Database,
+  jobId: string,
+  fields: Partial<Pick<BulkImportJob, "status" | "shopifyOperationId" | "resultUrl" | "resultBytes" | "byteOffset" | "objectCount" | "imported" | "skipped" | "error" | "completedAt">>
+) {
+  const entries = Object.entries(fields).filter(([key, value]) => JOB_COLUMNS[key] && value !== undefined)
+  const assignments = entries.map(([key]) => `${JOB_COLUMNS[key]} = ?`)
+  await db.prepare(
+    `UPDATE bulk_import_jobs SET ${[...assignments, "updated_at = ?"].join(", ")} WHERE id = ?`
+  ).bind(...entries.map(([, value]) => value), toSqliteTimestamp(new Date()), jobId).run()
+}
+
+/**
+ * Only one step runs per job at a time - the cron trigger and the advance endpoint can both
+ * pick a job up. Returns false when another step holds the lease.
+ */
+export async function leaseBulkImportJob(db: D1Database, jobId: string): Promise<boolean> {
+  const now = new Date()
+  const result = await db.prepare(`
+    UPDATE bulk_import_jobs SET lease_until = ?
+    WHERE id = ? AND (lease_until IS NULL OR lease_until < ?)
+  `).bind(
+    toSqliteTimestamp(new Date(now.getTime() + BULK_IMPORT_LEASE_SECONDS * 1000)),
+    jobId,
+    toSqliteTimestamp(now)
+  ).run()
+  return (result.meta?.changes ?? 0) > 0
+}
+
+export async function releaseBulkImportJob(db: D1Database, jobId: string) {
+  await db.prepare("UPDATE bulk_import_jobs SET lease_until = NULL WHERE id = ?").bind(jobId).run()
+}
@@ -0,0 +1,122 @@
+import type { D1Database } from "@cloudflare/workers-types"
+
+// Every delivery ends up in exactly one of these buckets in shopify_webhook_metrics
+export type WebhookOutcome =
+  | "accepted"
+  | "duplicate"
+  | "failed"
+  | "rejected_missing_hmac"
+  | "rejected_invalid_hmac"
+  | "rejected_no_secret"
+  | "rejected_unknown_store"
+
+export interface WebhookDelivery {
+  webhookId: string
+  tenantId: string
+  storeId: string
+  topic: string
+}
+
+// A delivery stuck in 'processing' this long (worker died mid-request) can be claimed again
+const STALE_CLAIM_SECONDS = 300
+
+const toSqliteTimestamp = (date: Date) => date.toISOString().slice(0, 19).replace("T", " ")
+
+const base64ToBytes = (value: string): Uint8Array | null => {
+  try {
+    const binary = atob(value.trim())
+    const bytes = new Uint8Array(binary.length)
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i)
+    }
+    return bytes
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Check X-Shopify-Hmac-Sha256 (base64 HMAC-SHA256 of the raw request body) against the store's secret.
+ * The comparison is constant-time so the signature can't be guessed byte by byte.
+ */
+export async function verifyShopifyHmac(rawBody: string, hmacHeader: string | null | undefined, secret: string): Promise<boolean> {
+  if (!hmacHeader || !secret) return false
+
+  const received = base64ToBytes(hmacHeader)
+  if (!received) return false
+
+  const encoder = new TextEncoder()
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  )
+  const expected = new Uint8Array(await crypto.subtle.sign("HMAC", key, encoder.encode(rawBody)))
+
+  if (received.length !== expected.length) return false
+  let diff = 0
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected[i] ^ received[i]
+  }
+  return diff === 0
+}
+
+/**
+ * Claim a delivery by its X-Shopify-Webhook-Id, which Shopify keeps the same across retries.
+ * Returns false when the ID was already processed or is being processed right now.
+ * Failed and stale deliveries can be claimed again so Shopify's retry gets another go.
+ */
+export async function claimWebhookDelivery(db: D1Database, delivery: WebhookDelivery): Promise<boolean> {
+  const now = new Date()
+  const staleBefore = toSqliteTimestamp(new Date(now.getTime() - STALE_CLAIM_SECONDS * 1000))
+
+  const result = await db.prepare(`
+    INSERT INTO shopify_webhook_deliveries (webhook_id, tenant_id, store_id, topic, status, attempts, received_at)
+    VALUES (?, ?, ?, ?, 'processing', 1, ?)
+    ON CONFLICT(webhook_id) DO UPDATE SET
+      status = 'processing',
+      attempts = shopify_webhook_deliveries.attempts + 1,
+      received_at = excluded.received_at,
+      processed_at = NULL
+    WHERE shopify_webhook_deliveries.status = 'failed'
+       OR (shopify_webhook_deliveries.status = 'processing' AND shopify_webhook_deliveries.received_at < ?)
+  `).bind(
+    delivery.webhookId,
+    delivery.tenantId,
+    delivery.storeId,
+    delivery.topic,
+    toSqliteTimestamp(now),
+    staleBefore
+  ).run()
+
+  return (result.meta?.changes ?? 0) > 0
+}
+
+export async function completeWebhookDelivery(db: D1Database, webhookId: string, status: "processed" | "failed", error?: string) {
+  try {
+    await db.prepare(`
+      UPDATE shopify_webhook_deliveries
+      SET status = ?, error = ?, processed_at = ?
+      WHERE webhook_id = ?
+    `).bind(status, error ?? null, toSqliteTimestamp(new Date()), webhookId).run()
+  } catch (err) {
+    console.error(`[WEBHOOK] Failed to mark delivery ${webhookId} as ${status}:`, err)
+  }
+}
+
+// Bump the per-store outcome counter. Metrics must never fail a delivery, so errors are only logged.
+export async function recordWebhookOutcome(db: D1Database, tenantId: string, storeId: string, topic: string, outcome: WebhookOutcome) {
+  try {
+    await db.prepare(`
+      INSERT INTO shopify_webhook_metrics (tenant_id, store_id, topic, outcome, count, last_seen_at)
+      VALUES (?, ?, ?, ?, 1, ?)
+      ON CONFLICT(tenant_id, store_id, topic, outcome) DO UPDATE SET
+        count = shopify_webhook_metrics.count + 1,
+        last_seen_at = excluded.last_seen_at
+    `).bind(tenantId, storeId, topic, outcome, toSqliteTimestamp(new Date())).run()
+  } catch (error) {
+    console.error(`[WEBHOOK] Failed to record ${outcome} metric for store ${storeId}:`, error)
+  }
+}
@@ -0,0 +1,282 @@
+import type { D1Database } from "@cloudflare/workers-types"
+import { sign, verify } from "hono/jwt"
+import { decryptSecret, encryptSecret, twoFactorSecretContext, type SecretKeys } from "../src/lib/secrets"
+import type { TenantSettings, UserRole } from "../src/types"
+
+// TOTP two-factor authentication (RFC 6238: SHA-1, 30 second steps, 6 digits, as authenticator apps
+// expect) with single-use recovery codes. The secret (encrypted with SECRETS_KEY, see src/lib/secrets.ts)
+// and the hashed recovery codes live on the tenant_users row; a secret without totp_enabled_at is an
+// enrolment that hasn't been confirmed yet.
+
+const STEP_SECONDS = 30
+const CODE_DIGITS = 6
+const ALLOWED_DRIFT_STEPS = 1 // Codes from the step either side still count, for clock skew
+const RECOVERY_CODE_COUNT = 10
+const ISSUER = "Order To-Do"
+
+// Roles a tenant can require two-factor authentication for
+export const TWO_FACTOR_ROLES: UserRole[] = ["owner", "admin"]
+
+// Between a correct password and the second step (or, where it's required, enrolment)
+const CHALLENGE_TTL_SECONDS = 10 * 60
+
+export type TwoFactorChallengePurpose = "verify" | "enroll"
+
+interface TwoFactorChallengeClaims {
+  sub: string
+  tenantId: string
+  purpose: TwoFactorChallengePurpose
+  exp: number
+}
+
+interface TwoFactorRow {
+  totp_secret: string | null
+  totp_enabled_at: string | null
+  totp_last_used_step: number | null
+  totp_recovery_codes: string | null
+}
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567"
+
+function base32Encode(bytes: Uint8Array): string {
+  let bits = 0
+  let value = 0
+  let output = ""
+  for (const byte of bytes) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  return output
+}
+
+function base32Decode(encoded: string): Uint8Array {
+  const bytes: number[] = []
+  let bits = 0
+  let value = 0
+  for (const char of encoded.replace(/=+$/, "").toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char)
+    if (index === -1) continue
+    value = (value << 5) | index
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255)
+      bits -= 8
+    }
+  }
+  return new Uint8Array(bytes)
+}
+
+async function hotp(secret: string, counter: number): Promise<string> {
+  const key = await crypto.subtle.importKey("raw", base32Decode(secret), { name: "HMAC", hash: "SHA-1" }, false, ["sign"])
+  const message = new DataView(new ArrayBuffer(8))
+  message.setUint32(0, Math.floor(counter / 2 ** 32))
+  message.setUint32(4, counter >>> 0)
+  const hmac = new Uint8Array(await crypto.subtle.sign("HMAC", key, message.buffer))
+
+  const offset = hmac[hmac.length - 1] & 15
+  const binary = ((hmac[offset] & 127) << 24) | (hmac[offset + 1] << 16) | (hmac[offset + 2] << 8) | hmac[offset + 3]
+  return String(binary % 10 ** CODE_DIGITS).padStart(CODE_DIGITS, "0")
+}
+
+/** The step a code is valid for, if it is one and hasn't been used; codes can't be replayed */
+async function matchTotp(secret: string, code: string, lastUsedStep: number | null): Promise<number | null> {
+  const current = Math.floor(Date.now() / 1000 / STEP_SECONDS)
+  for (let step = current - ALLOWED_DRIFT_STEPS; step <= current + ALLOWED_DRIFT_STEPS; step++) {
+    if (lastUsedStep !== null && step <= lastUsedStep) continue
+    if ((await hotp(secret, step)) === code) return step
+  }
+  return null
+}
+
+const normalizeRecoveryCode = (code: string) => code.toUpperCase().replace(/[^A-Z0-9]/g, "")
+
+async function hashRecoveryCode(code: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(normalizeRecoveryCode(code)))
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("")
+}
+
+// Ten base32 characters (50 bits) each, shown as xxxxx-xxxxx
+async function generateRecoveryCodes(): Promise<{ codes: string[]; hashes: string[] }> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = base32Encode(crypto.getRandomValues(new Uint8Array(7))).slice(0, 10).toLowerCase()
+    return `${code.slice(0, 5)}-${code.slice(5)}`
+  })
+  return { codes, hashes: await Promise.all(codes.map(hashRecoveryCode)) }
+}
+
+const parseHashes = (json: string | null): string[] => (json ? JSON.parse(json) : [])
+
+async function readTwoFactor(db: D1Database, tenantId: string, userId: string): Promise<TwoFactorRow | null> {
+  return db
+    .prepare(`SELECT totp_secret, totp_enabled_at, totp_last_used_step, totp_recovery_codes FROM tenant_users WHERE tenant_id = ? AND id = ?`)
+    .bind(tenantId, userId)
+    .first<TwoFactorRow>()
+}
+
+/** Whether the tenant requires two-factor authentication of users with this role */
+export const isTwoFactorRequired = (settings: Partial<TenantSettings> | null | undefined, role: UserRole) =>
+  !!settings?.security?.requireTwoFactor && TWO_FACTOR_ROLES.includes(role)
+
+export async function getTwoFactorStatus(
+  db: D1Database,
+  tenantId: string,
+  userId: string
+): Promise<{ enabled: boolean; recoveryCodesRemaining: number }> {
+  const row = await readTwoFactor(db, tenantId, userId)
+  return {
+    enabled: !!row?.totp_enabled_at,
+    recoveryCodesRemaining: row?.totp_enabled_at ? parseHashes(row.totp_recovery_codes).length : 0,
+  }
+}
+
+// The stored secret in base32; secrets saved before encryption at rest are still plaintext
+async function readSecret(keys: SecretKeys, userId: string, stored: string): Promise<string> {
+  return (await decryptSecret(keys, stored, twoFactorSecretContext(userId))) || ""
+}
+
+/**
+ * Starts enrolment with a new secret, replacing any unconfirmed one. Returns the secret and the
+ * otpauth:// URL authenticator apps scan; null when two-factor is already on.
+ */
+export async function beginTwoFactorSetup(
+  db: D1Database,
+  keys: SecretKeys,
+  user: { id: string; tenantId: string; email: string },
+  tenantName: string
+): Promise<{ secret: string; otpauthUrl: string } | null> {
+  const secret = base32Encode(crypto.getRandomValues(new Uint8Array(20)))
+  const result = await db
+    .prepare(
+      `UPDATE tenant_users SET totp_secret = ?, totp_last_used_step = NULL, totp_recovery_codes = NULL
+       WHERE tenant_id = ? AND id = ? AND totp_enabled_at IS NULL`
+    )
+    .bind(await encryptSecret(keys, secret, twoFactorSecretContext(user.id)), user.tenantId, user.id)
+    .run()
+  if (!result.meta?.changes) return null
+
+  // Percent-encoded throughout: some authenticator apps show a "+" for a space literally
+  const label = encodeURIComponent(`${ISSUER}:${user.email} (${tenantName})`)
+  const params = `secret=${secret}&issuer=${encodeURIComponent(ISSUER)}&algorithm=SHA1&digits=${CODE_DIGITS}&period=${STEP_SECONDS}`
+  return { secret, otpauthUrl: `otpauth://totp/${label}?${params}` }
+}
+
+/** Turns two-factor on once a code from the new secret checks out; returns the recovery codes, shown once */
+export async function confirmTwoFactorSetup(
+  db: D1Database,
+  keys: SecretKeys,
+  tenantId: string,
+  userId: string,
+  code: string
+): Promise<string[] | null> {
+  const row = await readTwoFactor(db, tenantId, userId)
+  if (!row?.totp_secret || row.totp_enabled_at) return null
+  const step = await matchTotp(await readSecret(keys, userId, row.totp_secret), code.replace(/\s/g, ""), null)
+  if (step === null) return null
+
+  const { codes, hashes } = await generateRecoveryCodes()
+  const result = await db
+    .prepare(
+      `UPDATE tenant_users SET totp_enabled_at = ?, totp_last_used_step = ?, totp_recovery_codes = ?
+       WHERE tenant_id = ? AND id = ? AND totp_secret = ? AND totp_enabled_at IS NULL`
+    )
+    .bind(new Date().toISOString(), step, JSON.stringify(hashes), tenantId, userId, row.totp_secret)
+    .run()
+  return result.meta?.changes ? codes : null
+}
+
+/**
+ * Checks a second-factor code: a 6-digit code from the authenticator app, or a recovery code, which
+ * is then used up. Each is accepted once, even when two requests race with it.
+ */
+export async function verifyTwoFactorCode(
+  db: D1Database,
+  keys: SecretKeys,
+  tenantId: string,
+  userId: string,
+  code: string
+): Promise<"totp" | "recovery" | null> {
+  const row = await readTwoFactor(db, tenantId, userId)
+  if (!row?.totp_secret || !row.totp_enabled_at) return null
+
+  const digits = code.replace(/\s/g, "")
+  if (/^\d+$/.test(digits)) {
+    const secret = await readSecret(keys, userId, row.totp_secret)
+    const step = digits.length === CODE_DIGITS ? await matchTotp(secret, digits, row.totp_last_used_step) : null
+    if (step === null) return null
+    const result = await db
+      .prepare(
+        `UPDATE tenant_users SET totp_last_used_step = ?
+         WHERE tenant_id = ? AND id = ? AND (totp_last_used_step IS NULL OR totp_last_used_step < ?)`
+      )
+      .bind(step, tenantId, userId, step)
+      .run()
+    return result.meta?.changes ? "totp" : null
+  }
+
+  const hashes = parseHashes(row.totp_recovery_codes)
+  const hash = await hashRecoveryCode(code)
+  if (!hashes.includes(hash)) return null
+  const result = await db
+    .prepare(`UPDATE tenant_users SET totp_recovery_codes = ? WHERE tenant_id = ? AND id = ? AND totp_recovery_codes = ?`)
+    .bind(JSON.stringify(hashes.filter((existing) => existing !== hash)), tenantId, userId, row.totp_recovery_codes)
+    .run()
+  return result.meta?.changes ? "recovery" : null
+}
+
+/** Replaces the user's recovery codes; the old ones stop working */
+export async function regenerateRecoveryCodes(db: D1Database, tenantId: string, userId: string): Promise<string[]> {
+  const { codes, hashes } = await generateRecoveryCodes()
+  await db
+    .prepare(`UPDATE tenant_users SET totp_recovery_codes = ? WHERE tenant_id = ? AND id = ? AND totp_enabled_at IS NOT NULL`)
+    .bind(JSON.stringify(hashes), tenantId, userId)
+    .run()
+  return codes
+}
+
+/** Turns two-factor off, or abandons an unconfirmed enrolment; true when there was something to clear */
+export async function disableTwoFactor(db: D1Database, tenantId: string, userId: string): Promise<boolean> {
+  const result = await db
+    .prepare(
+      `UPDATE tenant_users SET totp_secret = NULL, totp_enabled_at = NULL, totp_last_used_step = NULL, totp_recovery_codes = NULL
+       WHERE tenant_id = ? AND id = ? AND totp_secret IS NOT NULL`
+    )
+    .bind(tenantId, userId)
+    .run()
+  return (result.meta?.changes || 0) > 0
+}
+
+// Signed apart from session, account and AI florist tokens so none can pass for another
+const challengeSecret = (jwtSecret: string) => `${jwtSecret}:two-factor`
+
+/** A short-lived token standing for a correct password, exchanged for a session by the second step */
+export async function signTwoFactorChallenge(
+  jwtSecret: string,
+  user: { id: string; tenantId: string },
+  purpose: TwoFactorChallengePurpose
+): Promise<string> {
+  const claims: TwoFactorChallengeClaims = {
+    sub: user.id,
+    tenantId: user.tenantId,
+    purpose,
+    exp: Math.floor(Date.now() / 1000) + CHALLENGE_TTL_SECONDS,
+  }
+  return sign({ ...claims }, challengeSecret(jwtSecret))
+}
+
+export async function verifyTwoFactorChallenge(
+  jwtSecret: string,
+  token: string,
+  purpose: TwoFactorChallengePurpose
+): Promise<{ userId: string; tenantId: string } | null> {
+  try {
+    const claims = (await verify(token, challengeSecret(jwtSecret))) as unknown as TwoFactorChallengeClaims
+    return claims.sub && claims.purpose === purpose ? { userId: claims.sub, tenantId: claims.tenantId } : null
+  } catch {
+    return null
+  }
+}